@@ -8,10 +8,30 @@ import {
 } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
+import { runInNewContext } from "vm";
 import { format } from "prettier";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+const NEXTJS_TARGET_DIR = "../nextjs/contracts/";
+
+// deployments/overrides/<chainId>.json, see applyDeploymentOverrides
+const DEPLOYMENT_OVERRIDES_DIR = join(
+  __dirname,
+  "..",
+  "deployments",
+  "overrides"
+);
+
+// Keep in sync with packages/nextjs/.prettierrc.js so the generated files pass `next lint`
+const NEXTJS_PRETTIER_OPTIONS = {
+  parser: "typescript",
+  arrowParens: "avoid",
+  printWidth: 120,
+  tabWidth: 2,
+  trailingComma: "all",
+};
+
 const generatedContractComment = `
 /**
  * This file is autogenerated by Scaffold-ETH.
@@ -203,7 +223,43 @@ function processAllDeployments(broadcastPath) {
   return allContracts;
 }
 
-function main() {
+/**
+ * Checked-in deployments that win over the broadcast, for chains whose latest
+ * broadcast is not the deployment the app should use (e.g. an unverified
+ * redeploy). Each file maps contract names to { address, deployedOnBlock }
+ * and only replaces those two fields; the ABI still comes from out/.
+ */
+function applyDeploymentOverrides(allGeneratedContracts) {
+  if (!existsSync(DEPLOYMENT_OVERRIDES_DIR)) return;
+
+  getFiles(DEPLOYMENT_OVERRIDES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .forEach((file) => {
+      const chainId = file.slice(0, -5);
+      const overrides = JSON.parse(
+        readFileSync(join(DEPLOYMENT_OVERRIDES_DIR, file), "utf8")
+      );
+
+      Object.entries(overrides).forEach(([contractName, override]) => {
+        const contractData = allGeneratedContracts[chainId]?.[contractName];
+        if (!contractData) {
+          throw new Error(
+            `deployments/overrides/${file} overrides ${contractName}, which has no broadcast deployment with a compiled artifact on chain ${chainId}`
+          );
+        }
+        contractData.address = override.address;
+        contractData.deployedOnBlock = override.deployedOnBlock;
+      });
+    });
+}
+
+function getAbiConstantName(contractName) {
+  return `${contractName
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .toUpperCase()}_ABI`;
+}
+
+function collectGeneratedContracts() {
   const current_path_to_broadcast = join(__dirname, "..", "broadcast");
   const current_path_to_deployments = join(__dirname, "..", "deployments");
 
@@ -224,6 +280,7 @@ function main() {
   const allGeneratedContracts = processAllDeployments(
     current_path_to_broadcast
   );
+  applyDeploymentOverrides(allGeneratedContracts);
 
   // Update contract keys based on deployments if they exist
   Object.entries(allGeneratedContracts).forEach(([chainId, contracts]) => {
@@ -237,50 +294,225 @@ function main() {
     });
   });
 
-  const NEXTJS_TARGET_DIR = "../nextjs/contracts/";
+  return allGeneratedContracts;
+}
 
-  // Ensure target directories exist
-  if (!existsSync(NEXTJS_TARGET_DIR)) {
-    mkdirSync(NEXTJS_TARGET_DIR, { recursive: true });
-  }
+/**
+ * One ABI per contract name, taken from the compiled artifact. Every chain
+ * entry in deployedContracts.ts imports the same module.
+ */
+function collectContractAbis(allGeneratedContracts) {
+  const contractAbis = {};
+  Object.values(allGeneratedContracts).forEach((chainConfig) => {
+    Object.entries(chainConfig).forEach(([contractName, contractData]) => {
+      contractAbis[contractName] = contractData.abi;
+    });
+  });
+  return contractAbis;
+}
 
-  // Generate the deployedContracts content
-  const fileContent = Object.entries(allGeneratedContracts).reduce(
-    (content, [chainId, chainConfig]) => {
-      const cleanedChainConfig = Object.fromEntries(
-        Object.entries(chainConfig).map(([contractName, contractData]) => {
-          const { deploymentFile, deploymentScript, ...rest } = contractData;
-          return [contractName, rest];
-        })
-      );
-      return `${content}${parseInt(chainId).toFixed(0)}:${JSON.stringify(
-        cleanedChainConfig,
-        null,
-        2
-      )},`;
-    },
-    ""
+function generateAbiModule(contractName, abi) {
+  return format(
+    `${generatedContractComment}
+    export const ${getAbiConstantName(contractName)} = ${JSON.stringify(
+      abi,
+      null,
+      2
+    )} as const;`,
+    NEXTJS_PRETTIER_OPTIONS
   );
+}
+
+function generateDeployedContracts(allGeneratedContracts, contractAbis) {
+  const abiImports = Object.keys(contractAbis)
+    .sort()
+    .map(
+      (contractName) =>
+        `import { ${getAbiConstantName(
+          contractName
+        )} } from "./${contractName}";`
+    )
+    .join("\n");
+
+  const fileContent = Object.entries(allGeneratedContracts)
+    .sort(([chainA], [chainB]) => parseInt(chainA) - parseInt(chainB))
+    .reduce((content, [chainId, chainConfig]) => {
+      const chainContent = Object.entries(chainConfig)
+        .map(([contractName, contractData]) => {
+          const { deploymentFile, deploymentScript, abi, ...rest } =
+            contractData;
+          const { address, ...metadata } = rest;
+          const metadataContent = Object.entries(metadata)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => `${key}: ${JSON.stringify(value)},`)
+            .join("");
+          return `${contractName}: { address: "${address}", abi: ${getAbiConstantName(
+            contractName
+          )}, ${metadataContent} },`;
+        })
+        .join("");
+      return `${content}${parseInt(chainId).toFixed(0)}: {${chainContent}},`;
+    }, "");
 
-  // Write the files
-  const fileTemplate = (importPath) => `
+  return format(
+    `
     ${generatedContractComment}
-    import { GenericContractsDeclaration } from "${importPath}";
+    ${abiImports}
+    import { GenericContractsDeclaration } from "~~/utils/scaffold-eth/contract";
 
     const deployedContracts = {${fileContent}} as const;
 
     export default deployedContracts satisfies GenericContractsDeclaration;
-  `;
+  `,
+    NEXTJS_PRETTIER_OPTIONS
+  );
+}
+
+/**
+ * Reads the ABI array out of a checked-in module by evaluating the literal,
+ * so the comparison does not depend on how the file was formatted.
+ */
+function readCheckedInAbi(filePath) {
+  if (!existsSync(filePath)) return null;
+  const match = readFileSync(filePath, "utf8").match(
+    /export const \w+ =([\s\S]*?)as const;/
+  );
+  if (!match) return null;
+  return runInNewContext(`(${match[1]})`);
+}
+
+function describeAbiEntries(abi) {
+  return new Set(
+    (abi || [])
+      .filter((entry) => entry.name)
+      .map(
+        (entry) =>
+          `${entry.type} ${entry.name}(${(entry.inputs || [])
+            .map((input) => input.type)
+            .join(",")})`
+      )
+  );
+}
+
+// Key order differs between solc and forge output, so compare with sorted keys
+function canonicalize(value) {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, canonicalize(value[key])])
+    );
+  }
+  return value;
+}
+
+function checkAbis(contractAbis) {
+  const driftedContracts = [];
+
+  Object.entries(contractAbis).forEach(([contractName, abi]) => {
+    const filePath = `${NEXTJS_TARGET_DIR}${contractName}.ts`;
+    const checkedInAbi = readCheckedInAbi(filePath);
+
+    if (
+      JSON.stringify(canonicalize(checkedInAbi)) ===
+      JSON.stringify(canonicalize(abi))
+    )
+      return;
+
+    driftedContracts.push(contractName);
+    if (!checkedInAbi) {
+      console.error(`❌ ${filePath} is missing or has no ABI export`);
+      return;
+    }
+
+    const expected = describeAbiEntries(abi);
+    const actual = describeAbiEntries(checkedInAbi);
+    console.error(`❌ ${filePath} differs from out/${contractName}.sol`);
+    expected.forEach((entry) => {
+      if (!actual.has(entry)) console.error(`   + ${entry}`);
+    });
+    actual.forEach((entry) => {
+      if (!expected.has(entry)) console.error(`   - ${entry}`);
+    });
+  });
+
+  return driftedContracts;
+}
+
+// Addresses and deployment blocks, so a hand edit or a skipped regeneration is caught like a stale ABI
+function checkDeployedContracts(allGeneratedContracts, contractAbis) {
+  const filePath = `${NEXTJS_TARGET_DIR}deployedContracts.ts`;
+  const expected = generateDeployedContracts(
+    allGeneratedContracts,
+    contractAbis
+  );
+  if (existsSync(filePath) && readFileSync(filePath, "utf8") === expected) {
+    return true;
+  }
+
+  console.error(
+    `❌ ${filePath} differs from the broadcast and deployments/overrides`
+  );
+  Object.entries(allGeneratedContracts).forEach(([chainId, contracts]) => {
+    Object.entries(contracts).forEach(([contractName, { address }]) => {
+      console.error(`   ${chainId} ${contractName}: ${address}`);
+    });
+  });
+  return false;
+}
+
+function main() {
+  const isCheck = process.argv.includes("--check");
+  const allGeneratedContracts = collectGeneratedContracts();
+  const contractAbis = collectContractAbis(allGeneratedContracts);
+
+  if (Object.keys(contractAbis).length === 0) {
+    throw new Error(
+      "No deployed contracts with compiled artifacts found. Run `yarn compile` and make sure broadcast/ has deployments."
+    );
+  }
+
+  if (isCheck) {
+    const driftedContracts = checkAbis(contractAbis);
+    const isDeploymentCurrent = checkDeployedContracts(
+      allGeneratedContracts,
+      contractAbis
+    );
+    if (driftedContracts.length > 0 || !isDeploymentCurrent) {
+      console.error(
+        `\n${driftedContracts.length} ABI module(s) are stale${
+          isDeploymentCurrent ? "" : " and deployedContracts.ts is out of date"
+        }. Run \`yarn foundry:generate-abis\` and commit the result.`
+      );
+      process.exitCode = 1;
+      return;
+    }
+    console.log(
+      `✅ ABI modules and deployedContracts.ts in ${NEXTJS_TARGET_DIR} match the compiled artifacts`
+    );
+    return;
+  }
+
+  // Ensure target directories exist
+  if (!existsSync(NEXTJS_TARGET_DIR)) {
+    mkdirSync(NEXTJS_TARGET_DIR, { recursive: true });
+  }
+
+  Object.entries(contractAbis).forEach(([contractName, abi]) => {
+    writeFileSync(
+      `${NEXTJS_TARGET_DIR}${contractName}.ts`,
+      generateAbiModule(contractName, abi)
+    );
+  });
 
   writeFileSync(
     `${NEXTJS_TARGET_DIR}deployedContracts.ts`,
-    format(fileTemplate("~~/utils/scaffold-eth/contract"), {
-      parser: "typescript",
-    })
+    generateDeployedContracts(allGeneratedContracts, contractAbis)
   );
 
   console.log(
-    `📝 Updated TypeScript contract definition file on ${NEXTJS_TARGET_DIR}deployedContracts.ts`
+    `📝 Updated TypeScript contract definition files on ${NEXTJS_TARGET_DIR}`
   );
 }
 
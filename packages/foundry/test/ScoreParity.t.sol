@@ -0,0 +1,209 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import { stdJson } from "forge-std/StdJson.sol";
+import { TrustContract } from "../contracts/TrustContract.sol";
+import { TrustScore } from "../contracts/TrustScore.sol";
+import { MathUtils } from "../contracts/MathUtils.sol";
+import { PenaltyLib } from "../contracts/PenaltyLib.sol";
+
+/// @dev Exposes the internal scoring helpers of TrustScore
+contract TrustScoreHarness is TrustScore {
+    constructor(address _trustContract) TrustScore(_trustContract) { }
+
+    function exposedCalculateContractScoreInternal(address user, bytes32 contractKey) external view returns (uint256) {
+        return _calculateContractScoreInternal(user, contractKey, trustContract.getContract(contractKey));
+    }
+
+    function exposedLnApprox(uint256 x) external pure returns (uint256) {
+        return _lnApprox(x);
+    }
+}
+
+/**
+ * @title ScoreParityTest
+ * @notice Replays test/fixtures/scoreParity.json against the contracts. packages/indexer/test/scoreParity.test.ts replays
+ * the same fixture against the bigint TypeScript port in packages/nextjs/utils/trust/score.ts, so both sides agree.
+ * @dev Bonds are created at NOW - age, with the partner stake added at creation, and scored or settled at NOW.
+ * userTrustScore states: 0 active, 1 exited, 2 exited and re-created (the key is listed twice in getUserContracts).
+ */
+contract ScoreParityTest is Test {
+    using stdJson for string;
+
+    uint256 internal constant NOW = 1_750_000_000;
+
+    TrustContract public trustContract;
+    TrustScoreHarness public trustScore;
+    string internal fixture;
+
+    function setUp() public {
+        trustContract = new TrustContract();
+        trustScore = new TrustScoreHarness(address(trustContract));
+        fixture = vm.readFile(string.concat(vm.projectRoot(), "/test/fixtures/scoreParity.json"));
+    }
+
+    function testSqrt() public view {
+        uint256[] memory x = fixture.readUintArray(".sqrt.x");
+        uint256[] memory expected = fixture.readUintArray(".sqrt.expected");
+        for (uint256 i = 0; i < x.length; i++) {
+            assertEq(MathUtils.sqrt(x[i]), expected[i], _label("sqrt", i));
+        }
+    }
+
+    function testLnApprox() public view {
+        uint256[] memory x = fixture.readUintArray(".lnApprox.x");
+        uint256[] memory expected = fixture.readUintArray(".lnApprox.expected");
+        for (uint256 i = 0; i < x.length; i++) {
+            assertEq(trustScore.exposedLnApprox(x[i]), expected[i], _label("lnApprox", i));
+        }
+    }
+
+    function testDefectPenalty() public view {
+        uint256[] memory tBond = fixture.readUintArray(".defectPenalty.tBond");
+        uint256[] memory totalAmount = fixture.readUintArray(".defectPenalty.totalAmount");
+        uint256[] memory expected = fixture.readUintArray(".defectPenalty.expected");
+        for (uint256 i = 0; i < tBond.length; i++) {
+            assertEq(PenaltyLib.defectPenalty(tBond[i], totalAmount[i]), expected[i], _label("defectPenalty", i));
+        }
+    }
+
+    function testExitPenalty() public view {
+        uint256[] memory tBond = fixture.readUintArray(".exitPenalty.tBond");
+        uint256[] memory totalStake = fixture.readUintArray(".exitPenalty.totalStake");
+        uint256[] memory totalYield = fixture.readUintArray(".exitPenalty.totalYield");
+        uint256[] memory expected = fixture.readUintArray(".exitPenalty.expected");
+        for (uint256 i = 0; i < tBond.length; i++) {
+            assertEq(
+                PenaltyLib.exitPenalty(tBond[i], totalStake[i], totalYield[i]), expected[i], _label("exitPenalty", i)
+            );
+        }
+    }
+
+    function testCalculateYield() public view {
+        uint256[] memory tvl = fixture.readUintArray(".calculateYield.tvl");
+        uint256[] memory timeElapsed = fixture.readUintArray(".calculateYield.timeElapsed");
+        uint256[] memory expected = fixture.readUintArray(".calculateYield.expected");
+        for (uint256 i = 0; i < tvl.length; i++) {
+            assertEq(PenaltyLib.calculateYield(tvl[i], timeElapsed[i]), expected[i], _label("calculateYield", i));
+        }
+    }
+
+    function testTrustPenalties() public view {
+        uint256[] memory tBond = fixture.readUintArray(".trustPenalties.tBond");
+        uint256[] memory tvl = fixture.readUintArray(".trustPenalties.tvl");
+        uint256[] memory defectExpected = fixture.readUintArray(".trustPenalties.defectExpected");
+        uint256[] memory exitExpected = fixture.readUintArray(".trustPenalties.exitExpected");
+        for (uint256 i = 0; i < tBond.length; i++) {
+            assertEq(PenaltyLib.defectTrustPenalty(tBond[i], tvl[i]), defectExpected[i], _label("defectTrustPenalty", i));
+            assertEq(PenaltyLib.exitTrustPenalty(tBond[i], tvl[i]), exitExpected[i], _label("exitTrustPenalty", i));
+        }
+    }
+
+    function testBondScores() public {
+        uint256[] memory userStake = fixture.readUintArray(".bonds.userStake");
+        uint256[] memory partnerStake = fixture.readUintArray(".bonds.partnerStake");
+        uint256[] memory age = fixture.readUintArray(".bonds.age");
+        uint256[] memory contractScore = fixture.readUintArray(".bonds.contractScore");
+        uint256[] memory partnerTrust = fixture.readUintArray(".bonds.partnerTrust");
+        uint256[] memory equation2Score = fixture.readUintArray(".bonds.equation2Score");
+
+        for (uint256 i = 0; i < userStake.length; i++) {
+            (address user, address partner) = _createBond(0xA000 + i, userStake[i], partnerStake[i], age[i]);
+            bytes32 key = trustContract.getContractKey(user, partner);
+            assertEq(trustScore.calculateContractScore(user, key), contractScore[i], _label("contractScore", i));
+            assertEq(trustScore.getUserTrustScore(partner), partnerTrust[i], _label("partnerTrust", i));
+            assertEq(
+                trustScore.exposedCalculateContractScoreInternal(user, key),
+                equation2Score[i],
+                _label("equation2Score", i)
+            );
+        }
+    }
+
+    function testUserTrustScores() public {
+        uint256[] memory expected = fixture.readUintArray(".userTrustScore.expected");
+
+        for (uint256 i = 0; i < expected.length; i++) {
+            string memory caseKey = string.concat(".userTrustScore.cases[", vm.toString(i), "]");
+            uint256[] memory age = fixture.readUintArray(string.concat(caseKey, ".age"));
+            uint256[] memory state = fixture.readUintArray(string.concat(caseKey, ".state"));
+            address user = _verifiedAccount(0xC000 + i);
+
+            for (uint256 j = 0; j < age.length; j++) {
+                address partner = _verifiedAccount(0xD000 + i * 0x100 + j);
+                vm.warp(NOW - age[j]);
+                vm.startPrank(user);
+                trustContract.createContract{ value: 1 ether }(partner);
+                if (state[j] > 0) trustContract.exit(partner);
+                if (state[j] > 1) trustContract.createContract{ value: 1 ether }(partner);
+                vm.stopPrank();
+            }
+
+            vm.warp(NOW);
+            assertEq(trustScore.getUserTrustScore(user), expected[i], _label("userTrustScore", i));
+            assertEq(trustScore.calculateUserTrustScore(user), expected[i], _label("calculateUserTrustScore", i));
+        }
+    }
+
+    function testSettlements() public {
+        uint256[] memory userStake = fixture.readUintArray(".settlements.userStake");
+        uint256[] memory partnerStake = fixture.readUintArray(".settlements.partnerStake");
+        uint256[] memory age = fixture.readUintArray(".settlements.age");
+        uint256[] memory totalValue = fixture.readUintArray(".settlements.totalValue");
+        uint256[] memory exitUser = fixture.readUintArray(".settlements.exitUser");
+        uint256[] memory exitPartner = fixture.readUintArray(".settlements.exitPartner");
+        uint256[] memory defectUser = fixture.readUintArray(".settlements.defectUser");
+        // Yield is paid out of the contract balance, which only holds stakes in a fresh deployment
+        vm.deal(address(trustContract), 1_000_000 ether);
+
+        for (uint256 i = 0; i < userStake.length; i++) {
+            // The same bond twice, one pair exits and the other defects
+            (address exiter, address exitPartnerAccount) = _createBond(0xE000 + i, userStake[i], partnerStake[i], age[i]);
+            (address defector, address defectPartner) = _createBond(0xF000 + i, userStake[i], partnerStake[i], age[i]);
+            assertEq(trustContract.getUserTotalValue(exiter), totalValue[i], _label("totalValue", i));
+
+            uint256 exiterBalance = exiter.balance;
+            uint256 exitPartnerBalance = exitPartnerAccount.balance;
+            vm.prank(exiter);
+            trustContract.exit(exitPartnerAccount);
+            assertEq(exiter.balance - exiterBalance, exitUser[i], _label("exitUser", i));
+            assertEq(exitPartnerAccount.balance - exitPartnerBalance, exitPartner[i], _label("exitPartner", i));
+
+            uint256 defectorBalance = defector.balance;
+            uint256 defectPartnerBalance = defectPartner.balance;
+            vm.prank(defector);
+            trustContract.defect(defectPartner);
+            assertEq(defector.balance - defectorBalance, defectUser[i], _label("defectUser", i));
+            assertEq(defectPartner.balance, defectPartnerBalance, _label("defectPartner", i));
+        }
+    }
+
+    /// @dev Creates a bond at NOW - age with both stakes and leaves the clock at NOW
+    function _createBond(uint256 seed, uint256 userStake, uint256 partnerStake, uint256 age)
+        internal
+        returns (address user, address partner)
+    {
+        user = _verifiedAccount(seed);
+        partner = _verifiedAccount(seed + 0x800);
+
+        vm.warp(NOW - age);
+        vm.prank(user);
+        trustContract.createContract{ value: userStake }(partner);
+        if (partnerStake > 0) {
+            vm.prank(partner);
+            trustContract.addStake{ value: partnerStake }(user);
+        }
+        vm.warp(NOW);
+    }
+
+    function _verifiedAccount(uint256 seed) internal returns (address account) {
+        account = address(uint160(seed));
+        vm.deal(account, type(uint128).max);
+        trustContract.verifySelfProof(keccak256(abi.encode(seed)), account);
+    }
+
+    function _label(string memory name, uint256 index) internal pure returns (string memory) {
+        return string.concat(name, "[", vm.toString(index), "]");
+    }
+}
@@ -0,0 +1,17 @@
+/**
+ * Resolves after `ms`, or as soon as `signal` aborts
+ */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    // Loops sleep on the same long-lived signal, so the listener must not outlive the timer
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
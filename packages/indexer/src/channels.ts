@@ -0,0 +1,77 @@
+import nodemailer from "nodemailer";
+import { ChannelName, Notification, NotificationStore, Subscription } from "./notificationStore";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * A way of reaching a wallet. `deliver` throws when the notification did not go out, the notifier retries it later.
+ */
+export type NotificationChannel = {
+  name: ChannelName;
+  deliver: (notification: Notification, subscription: Subscription) => Promise<void>;
+};
+
+/**
+ * Puts the notification in the wallet's inbox, which the app serves under `/api/notifications/inbox`
+ */
+export const createInAppChannel = (store: NotificationStore): NotificationChannel => ({
+  name: "inApp",
+  deliver: async notification => {
+    store.addToInbox(notification);
+  },
+});
+
+/**
+ * POSTs the notification as JSON to the subscription's webhook URL, any non-2xx answer is a failed delivery
+ */
+export const createWebhookChannel = (): NotificationChannel => ({
+  name: "webhook",
+  deliver: async (notification, { webhookUrl }) => {
+    if (!webhookUrl) throw new Error("Subscription has no webhook URL");
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        id: notification.id,
+        wallet: notification.wallet,
+        kind: notification.kind,
+        title: notification.title,
+        body: notification.body,
+        data: notification.data,
+        createdAt: notification.createdAt,
+      }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new Error(`Webhook answered ${response.status}`);
+  },
+});
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  // Implicit TLS, as on port 465. Otherwise STARTTLS is used when the server offers it
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+};
+
+/**
+ * Sends the notification as a plain-text email through an SMTP relay
+ */
+export const createEmailChannel = ({ host, port, secure, user, password, from }: SmtpOptions): NotificationChannel => {
+  const transport = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass: password } : undefined,
+  });
+
+  return {
+    name: "email",
+    deliver: async (notification, { email }) => {
+      if (!email) throw new Error("Subscription has no email address");
+      await transport.sendMail({ from, to: email, subject: notification.title, text: notification.body });
+    },
+  };
+};
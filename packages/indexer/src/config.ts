@@ -0,0 +1,192 @@
+import { Hex, isHex } from "viem";
+import * as chains from "viem/chains";
+import { SmtpOptions } from "./channels";
+
+const ANVIL_RPC_URL = "http://127.0.0.1:8545";
+const DEFAULT_DB_PATH = "indexer.db";
+// Matches the public Celo Sepolia RPC log range limit, anvil accepts any range
+const DEFAULT_BATCH_SIZE = 2_000n;
+const DEFAULT_POLL_INTERVAL_MS = 4_000;
+// Reorg window per chain: anvil forks can be reset by a few blocks, Celo Sepolia's unsafe head by a few seconds
+const DEFAULT_CONFIRMATIONS: Record<number, bigint> = {
+  [chains.foundry.id]: 5n,
+  [chains.celoSepolia.id]: 20n,
+};
+const FALLBACK_CONFIRMATIONS = 12n;
+const DEFAULT_KEEPER_INTERVAL_MS = 60_000;
+const DEFAULT_KEEPER_MAX_ATTEMPTS = 3;
+const DEFAULT_KEEPER_RETRY_DELAY_MS = 2_000;
+const DEFAULT_NOTIFICATIONS_DB_PATH = "notifications.db";
+const DEFAULT_NOTIFIER_INTERVAL_MS = 60_000;
+const DEFAULT_NOTIFIER_MAX_ATTEMPTS = 5;
+const DEFAULT_SMTP_PORT = 587;
+
+export type IndexerConfig = {
+  chainId: number;
+  rpcUrl: string;
+  dbPath: string;
+  // Overrides the deployment block when the store has no checkpoint yet
+  startBlock?: bigint;
+  confirmations: bigint;
+  batchSize: bigint;
+  pollIntervalMs: number;
+};
+
+export type KeeperConfig = {
+  chainId: number;
+  rpcUrl: string;
+  // Unset in a dry run, which only simulates as the owner
+  privateKey?: Hex;
+  dryRun: boolean;
+  maxAttempts: number;
+  retryDelayMs: number;
+  pollIntervalMs: number;
+};
+
+export type NotifierConfig = {
+  indexerDbPath: string;
+  notificationsDbPath: string;
+  pollIntervalMs: number;
+  maxAttempts: number;
+  // The email channel is only available with an SMTP relay
+  smtp?: SmtpOptions;
+  appUrl?: string;
+};
+
+const parsePositive = (name: string, value: string) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+const loadChain = (env: NodeJS.ProcessEnv) => {
+  const chainId = env.INDEXER_CHAIN_ID ? parsePositive("INDEXER_CHAIN_ID", env.INDEXER_CHAIN_ID) : chains.foundry.id;
+  const chain = Object.values(chains).find(candidate => candidate.id === chainId);
+  const rpcUrl =
+    env.INDEXER_RPC_URL || (chainId === chains.foundry.id ? ANVIL_RPC_URL : chain?.rpcUrls.default.http[0]);
+  if (!rpcUrl) {
+    throw new Error(`No public RPC known for chain ${chainId}, set INDEXER_RPC_URL`);
+  }
+  return { chainId, rpcUrl };
+};
+
+/**
+ * Reads the indexer settings from the environment.
+ *
+ * - `INDEXER_CHAIN_ID` selects the deployment from `deployedContracts` (anvil, 31337, by default).
+ * - `INDEXER_RPC_URL` defaults to anvil on 127.0.0.1:8545 for 31337 and to the chain's public RPC otherwise.
+ * - `INDEXER_CONFIRMATIONS` sets the reorg window, 5 blocks on anvil, 20 on Celo Sepolia and 12 elsewhere by default.
+ * - `INDEXER_DB_PATH`, `INDEXER_START_BLOCK`, `INDEXER_BATCH_SIZE` and `INDEXER_POLL_INTERVAL_MS` override the
+ *   defaults.
+ */
+export const loadIndexerConfig = (env: NodeJS.ProcessEnv = process.env): IndexerConfig => {
+  const { chainId, rpcUrl } = loadChain(env);
+  return {
+    chainId,
+    rpcUrl,
+    dbPath: env.INDEXER_DB_PATH || DEFAULT_DB_PATH,
+    startBlock: env.INDEXER_START_BLOCK ? BigInt(env.INDEXER_START_BLOCK) : undefined,
+    confirmations: env.INDEXER_CONFIRMATIONS
+      ? BigInt(env.INDEXER_CONFIRMATIONS)
+      : (DEFAULT_CONFIRMATIONS[chainId] ?? FALLBACK_CONFIRMATIONS),
+    batchSize: env.INDEXER_BATCH_SIZE
+      ? BigInt(parsePositive("INDEXER_BATCH_SIZE", env.INDEXER_BATCH_SIZE))
+      : DEFAULT_BATCH_SIZE,
+    pollIntervalMs: env.INDEXER_POLL_INTERVAL_MS
+      ? parsePositive("INDEXER_POLL_INTERVAL_MS", env.INDEXER_POLL_INTERVAL_MS)
+      : DEFAULT_POLL_INTERVAL_MS,
+  };
+};
+
+export type SeedConfig = {
+  chainId: number;
+  rpcUrl: string;
+};
+
+/**
+ * Reads the devnet seeding settings from the environment, the indexer's `INDEXER_CHAIN_ID` and `INDEXER_RPC_URL`.
+ * Only anvil can be seeded: the seeder signs with the node's unlocked accounts and moves its clock.
+ */
+export const loadSeedConfig = (env: NodeJS.ProcessEnv = process.env): SeedConfig => {
+  const { chainId, rpcUrl } = loadChain(env);
+  if (chainId !== chains.foundry.id) {
+    throw new Error(`Only the local anvil chain (${chains.foundry.id}) can be seeded, INDEXER_CHAIN_ID is ${chainId}`);
+  }
+  return { chainId, rpcUrl };
+};
+
+/**
+ * Reads the liquidation keeper settings from the environment. The chain and RPC are the indexer's
+ * (`INDEXER_CHAIN_ID`, `INDEXER_RPC_URL`).
+ *
+ * - `KEEPER_PRIVATE_KEY` signs the liquidations and must be the LendingPool owner's, it is only optional with
+ *   `KEEPER_DRY_RUN=true`.
+ * - `KEEPER_MAX_ATTEMPTS`, `KEEPER_RETRY_DELAY_MS` and `KEEPER_INTERVAL_MS` tune retries and polling.
+ */
+export const loadKeeperConfig = (env: NodeJS.ProcessEnv = process.env): KeeperConfig => {
+  const { chainId, rpcUrl } = loadChain(env);
+  const dryRun = env.KEEPER_DRY_RUN === "true";
+  const privateKey = env.KEEPER_PRIVATE_KEY || undefined;
+  if (privateKey !== undefined && !isHex(privateKey)) {
+    throw new Error("KEEPER_PRIVATE_KEY must be a 0x-prefixed hex private key");
+  }
+  if (!privateKey && !dryRun) {
+    throw new Error("Set KEEPER_PRIVATE_KEY to the LendingPool owner's key, or KEEPER_DRY_RUN=true to only simulate");
+  }
+
+  return {
+    chainId,
+    rpcUrl,
+    privateKey,
+    dryRun,
+    maxAttempts: env.KEEPER_MAX_ATTEMPTS
+      ? parsePositive("KEEPER_MAX_ATTEMPTS", env.KEEPER_MAX_ATTEMPTS)
+      : DEFAULT_KEEPER_MAX_ATTEMPTS,
+    retryDelayMs: env.KEEPER_RETRY_DELAY_MS
+      ? parsePositive("KEEPER_RETRY_DELAY_MS", env.KEEPER_RETRY_DELAY_MS)
+      : DEFAULT_KEEPER_RETRY_DELAY_MS,
+    pollIntervalMs: env.KEEPER_INTERVAL_MS
+      ? parsePositive("KEEPER_INTERVAL_MS", env.KEEPER_INTERVAL_MS)
+      : DEFAULT_KEEPER_INTERVAL_MS,
+  };
+};
+
+/**
+ * Reads the notifier settings from the environment.
+ *
+ * - `INDEXER_DB_PATH` is the indexer store loans and bonds are read from, `NOTIFICATIONS_DB_PATH` the subscriptions
+ *   store the app writes to (`notifications.db` next to the indexer's by default).
+ * - `SMTP_HOST`, `SMTP_PORT`, `SMTP_SECURE`, `SMTP_USER`, `SMTP_PASSWORD` and `SMTP_FROM` configure the email
+ *   channel, which is disabled without `SMTP_HOST`.
+ * - `NOTIFIER_INTERVAL_MS` and `NOTIFIER_MAX_ATTEMPTS` tune polling and delivery retries.
+ * - `NOTIFIER_APP_URL` is the app's public URL, invite notifications link to it when set.
+ */
+export const loadNotifierConfig = (env: NodeJS.ProcessEnv = process.env): NotifierConfig => {
+  let smtp: SmtpOptions | undefined;
+  if (env.SMTP_HOST) {
+    if (!env.SMTP_FROM) throw new Error("SMTP_FROM must be set along with SMTP_HOST");
+    smtp = {
+      host: env.SMTP_HOST,
+      port: env.SMTP_PORT ? parsePositive("SMTP_PORT", env.SMTP_PORT) : DEFAULT_SMTP_PORT,
+      secure: env.SMTP_SECURE === "true",
+      user: env.SMTP_USER || undefined,
+      password: env.SMTP_PASSWORD || undefined,
+      from: env.SMTP_FROM,
+    };
+  }
+
+  return {
+    indexerDbPath: env.INDEXER_DB_PATH || DEFAULT_DB_PATH,
+    notificationsDbPath: env.NOTIFICATIONS_DB_PATH || DEFAULT_NOTIFICATIONS_DB_PATH,
+    pollIntervalMs: env.NOTIFIER_INTERVAL_MS
+      ? parsePositive("NOTIFIER_INTERVAL_MS", env.NOTIFIER_INTERVAL_MS)
+      : DEFAULT_NOTIFIER_INTERVAL_MS,
+    maxAttempts: env.NOTIFIER_MAX_ATTEMPTS
+      ? parsePositive("NOTIFIER_MAX_ATTEMPTS", env.NOTIFIER_MAX_ATTEMPTS)
+      : DEFAULT_NOTIFIER_MAX_ATTEMPTS,
+    smtp,
+    appUrl: env.NOTIFIER_APP_URL || undefined,
+  };
+};
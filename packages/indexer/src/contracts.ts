@@ -0,0 +1,41 @@
+import type { Address } from "viem";
+import { LENDING_POOL_ABI } from "~~/contracts/LendingPool";
+import { TRUST_CONTRACT_ABI } from "~~/contracts/TrustContract";
+import { TRUST_SCORE_ABI } from "~~/contracts/TrustScore";
+import deployedContracts from "~~/contracts/deployedContracts";
+
+export const INDEXED_CONTRACTS = {
+  TrustContract: TRUST_CONTRACT_ABI,
+  LendingPool: LENDING_POOL_ABI,
+  TrustScore: TRUST_SCORE_ABI,
+} as const;
+
+export type IndexedContractName = keyof typeof INDEXED_CONTRACTS;
+
+export type IndexedContracts = Record<IndexedContractName, Address> & {
+  // Lowest deployment block of the three, where a fresh store starts scanning
+  deployedOnBlock: bigint;
+};
+
+type Deployment = { address: Address; deployedOnBlock?: number };
+
+/**
+ * Looks up the protocol contracts `yarn deploy` generated for a chain.
+ * Anvil deployments usually carry no `deployedOnBlock`, those are scanned from genesis.
+ */
+export const getIndexedContracts = (chainId: number): IndexedContracts => {
+  const deployments = (deployedContracts as Record<number, Partial<Record<string, Deployment>>>)[chainId];
+  const names = Object.keys(INDEXED_CONTRACTS) as IndexedContractName[];
+  const missing = names.filter(name => !deployments?.[name]);
+  if (!deployments || missing.length > 0) {
+    throw new Error(`${missing.join(", ")} not deployed on chain ${chainId}, run \`yarn deploy\` first`);
+  }
+
+  const deployedOnBlock = Math.min(...names.map(name => deployments[name]?.deployedOnBlock ?? 0));
+  return {
+    TrustContract: deployments.TrustContract!.address,
+    LendingPool: deployments.LendingPool!.address,
+    TrustScore: deployments.TrustScore!.address,
+    deployedOnBlock: BigInt(deployedOnBlock),
+  };
+};
@@ -0,0 +1,28 @@
+import Database from "better-sqlite3";
+import { MIGRATIONS, SCHEMA_VERSION } from "./schema";
+
+export type IndexerDatabase = Database.Database;
+
+/**
+ * Opens the SQLite store, creating the tables on first use and migrating stores of older schema versions.
+ * Read-only handles (dashboards, API routes) never migrate and require the indexer to have created the file.
+ */
+export const openIndexerDatabase = (path: string, { readonly = false }: { readonly?: boolean } = {}) => {
+  const db = new Database(path, { readonly, fileMustExist: readonly });
+
+  const version = db.pragma("user_version", { simple: true }) as number;
+  if (version > SCHEMA_VERSION || (readonly && version !== SCHEMA_VERSION)) {
+    db.close();
+    throw new Error(`${path} has schema version ${version}, expected ${SCHEMA_VERSION}`);
+  }
+
+  if (!readonly) {
+    // WAL lets read-only handles query while the indexer writes
+    db.pragma("journal_mode = WAL");
+    db.transaction(() => {
+      for (const migration of MIGRATIONS.slice(version)) db.exec(migration);
+      db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+  }
+  return db;
+};
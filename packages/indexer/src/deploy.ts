@@ -0,0 +1,160 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { format } from "prettier";
+import { Abi, Account, Address, Hex, PublicClient, WalletClient } from "viem";
+import { INDEXED_CONTRACTS, IndexedContractName, IndexedContracts } from "./contracts";
+
+// `yarn compile` writes the forge artifacts the protocol is deployed from
+const FORGE_OUT = join(__dirname, "../../foundry/out");
+
+export const DEPLOYED_CONTRACTS_PATH = join(__dirname, "../../nextjs/contracts/deployedContracts.ts");
+
+// Same options `generateTsAbis.js` formats the file with
+const NEXTJS_PRETTIER_OPTIONS = {
+  parser: "typescript",
+  arrowParens: "avoid",
+  printWidth: 120,
+  tabWidth: 2,
+  trailingComma: "all",
+} as const;
+
+const GENERATED_COMMENT = `/**
+ * This file is autogenerated by Scaffold-ETH.
+ * You should not edit it manually or your changes might be overwritten.
+ */`;
+
+const readBytecode = (name: IndexedContractName): Hex => {
+  const path = join(FORGE_OUT, `${name}.sol`, `${name}.json`);
+  try {
+    return JSON.parse(readFileSync(path, "utf8")).bytecode.object;
+  } catch (error) {
+    throw new Error(`Cannot read ${path}, run \`yarn compile\` first: ${error}`);
+  }
+};
+
+/**
+ * Deploys the protocol like `DeployTrustProtocol.s.sol`: TrustContract, TrustScore, LendingPool, then authorizes the
+ * pool as a lender. The pool starts without liquidity.
+ */
+export const deployProtocol = async (
+  publicClient: PublicClient,
+  walletClient: WalletClient,
+  account: Account | Address,
+): Promise<IndexedContracts> => {
+  let deployedOnBlock: bigint | undefined;
+  const deploy = async (name: IndexedContractName, args: Address[]) => {
+    const hash = await walletClient.deployContract({
+      abi: INDEXED_CONTRACTS[name] as Abi,
+      bytecode: readBytecode(name),
+      args,
+      account,
+      chain: walletClient.chain,
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    deployedOnBlock ??= receipt.blockNumber;
+    return receipt.contractAddress!;
+  };
+
+  const trustContract = await deploy("TrustContract", []);
+  const trustScore = await deploy("TrustScore", [trustContract]);
+  const lendingPool = await deploy("LendingPool", [trustContract, trustScore]);
+
+  const hash = await walletClient.writeContract({
+    address: trustContract,
+    abi: INDEXED_CONTRACTS.TrustContract,
+    functionName: "addAuthorizedLender",
+    args: [lendingPool],
+    account,
+    chain: walletClient.chain,
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") throw new Error("addAuthorizedLender reverted");
+
+  return {
+    TrustContract: trustContract,
+    TrustScore: trustScore,
+    LendingPool: lendingPool,
+    deployedOnBlock: deployedOnBlock!,
+  };
+};
+
+type DeploymentEntry = { address: Address; abi: Abi; [metadata: string]: unknown };
+export type DeploymentsByChain = Record<number, Record<string, DeploymentEntry>>;
+
+// `generateTsAbis.js` names the ABI modules the same way
+const abiConstantName = (contractName: string) =>
+  `${contractName.replace(/([a-z0-9])([A-Z])/g, "$1_$2").toUpperCase()}_ABI`;
+
+/**
+ * `deployedContracts.ts` with the protocol entries of `chainId` replaced by `contracts`, in the layout
+ * `generateTsAbis.js` writes. `inheritedFunctions` are copied from the contract's deployment on another chain, they
+ * depend on the source only.
+ */
+export const renderDeployedContracts = async (
+  current: DeploymentsByChain,
+  chainId: number,
+  contracts: IndexedContracts,
+) => {
+  const names = Object.keys(INDEXED_CONTRACTS) as IndexedContractName[];
+  const inheritedFunctions = (name: IndexedContractName) =>
+    Object.values(current).find(chain => chain[name]?.inheritedFunctions)?.[name].inheritedFunctions;
+
+  const deployments: DeploymentsByChain = {
+    ...current,
+    [chainId]: {
+      ...current[chainId],
+      ...Object.fromEntries(
+        names.map(name => [
+          name,
+          {
+            address: contracts[name],
+            abi: INDEXED_CONTRACTS[name] as Abi,
+            inheritedFunctions: inheritedFunctions(name),
+            deployedOnBlock: Number(contracts.deployedOnBlock),
+          },
+        ]),
+      ),
+    },
+  };
+
+  const contractNames = new Set(Object.values(deployments).flatMap(chain => Object.keys(chain)));
+  const imports = Array.from(contractNames)
+    .sort()
+    .map(name => `import { ${abiConstantName(name)} } from "./${name}";`)
+    .join("\n");
+  const chains = Object.entries(deployments)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([id, chain]) => {
+      const entries = Object.entries(chain).map(([name, { address, abi, ...metadata }]) => {
+        const fields = Object.entries(metadata)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => `${key}: ${JSON.stringify(value)},`)
+          .join("");
+        return `${name}: { address: "${address}", abi: ${abiConstantName(name)}, ${fields} },`;
+      });
+      return `${id}: {${entries.join("")}},`;
+    })
+    .join("");
+
+  return format(
+    `${GENERATED_COMMENT}
+${imports}
+import { GenericContractsDeclaration } from "~~/utils/scaffold-eth/contract";
+
+const deployedContracts = {${chains}} as const;
+
+export default deployedContracts satisfies GenericContractsDeclaration;
+`,
+    NEXTJS_PRETTIER_OPTIONS,
+  );
+};
+
+/**
+ * Points the Next.js app (and the indexer, keeper and notifier) at `contracts` on `chainId`
+ */
+export const writeDeployedContracts = async (
+  current: DeploymentsByChain,
+  chainId: number,
+  contracts: IndexedContracts,
+  path = DEPLOYED_CONTRACTS_PATH,
+) => writeFileSync(path, await renderDeployedContracts(current, chainId, contracts));
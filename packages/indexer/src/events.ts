@@ -0,0 +1,63 @@
+import { Abi, Hash, Log, ParseEventLogsReturnType, isAddressEqual, parseEventLogs } from "viem";
+import { INDEXED_CONTRACTS, IndexedContractName, IndexedContracts } from "./contracts";
+
+type DecodedLog<abi extends Abi> = ParseEventLogsReturnType<abi, undefined, true>[number];
+
+type ContractLog<name extends IndexedContractName> = {
+  contract: name;
+  log: DecodedLog<(typeof INDEXED_CONTRACTS)[name]>;
+};
+
+/**
+ * A decoded protocol log together with the chain data its handler needs
+ */
+export type IndexedEvent = (ContractLog<"TrustContract"> | ContractLog<"LendingPool"> | ContractLog<"TrustScore">) & {
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hash;
+  blockTimestamp: bigint;
+};
+
+// Loan terms that `LoanCreated` does not emit, read from `LendingPool.loans` before the batch is written
+export type LoanTerms = {
+  duration: bigint;
+  startTime: bigint;
+};
+
+/**
+ * Decodes raw logs of the indexed contracts and returns them in chain order.
+ * Logs of other addresses or of events missing from the ABIs are dropped.
+ */
+export const decodeProtocolLogs = (
+  contracts: IndexedContracts,
+  logs: Log<bigint, number, false>[],
+  timestamps: Map<bigint, bigint>,
+): IndexedEvent[] => {
+  const names = Object.keys(INDEXED_CONTRACTS) as IndexedContractName[];
+  const timestampOf = (blockNumber: bigint) => {
+    const timestamp = timestamps.get(blockNumber);
+    if (timestamp === undefined) throw new Error(`Missing timestamp of block ${blockNumber}`);
+    return timestamp;
+  };
+
+  const events = names.flatMap(name =>
+    parseEventLogs({
+      abi: INDEXED_CONTRACTS[name] as Abi,
+      logs: logs.filter(log => isAddressEqual(log.address, contracts[name])),
+    }).map(
+      log =>
+        ({
+          contract: name,
+          log,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          transactionHash: log.transactionHash,
+          blockTimestamp: timestampOf(log.blockNumber),
+        }) as IndexedEvent,
+    ),
+  );
+
+  return events.sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1,
+  );
+};
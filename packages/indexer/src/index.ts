@@ -0,0 +1,45 @@
+import "dotenv/config";
+import { createPublicClient, http } from "viem";
+import { loadIndexerConfig } from "./config";
+import { getIndexedContracts } from "./contracts";
+import { openIndexerDatabase } from "./db";
+import { createIndexer } from "./indexer";
+
+/**
+ * `yarn indexer:start` follows the chain until interrupted, `yarn indexer:sync` indexes up to the head and exits
+ */
+const main = async () => {
+  const config = loadIndexerConfig();
+  const db = openIndexerDatabase(config.dbPath);
+  const indexer = createIndexer({
+    client: createPublicClient({ transport: http(config.rpcUrl) }),
+    db,
+    chainId: config.chainId,
+    contracts: getIndexedContracts(config.chainId),
+    startBlock: config.startBlock,
+    confirmations: config.confirmations,
+    batchSize: config.batchSize,
+    pollIntervalMs: config.pollIntervalMs,
+  });
+
+  console.log(`Indexing chain ${config.chainId} from ${config.rpcUrl} into ${config.dbPath}`);
+  try {
+    if (process.argv.includes("--once")) {
+      const head = await indexer.syncToHead();
+      console.log(`Synced to block ${head}`);
+      return;
+    }
+
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    process.once("SIGTERM", () => controller.abort());
+    await indexer.run(controller.signal);
+  } finally {
+    db.close();
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,184 @@
+import { PublicClient } from "viem";
+import { sleep } from "./async";
+import { INDEXED_CONTRACTS, IndexedContracts } from "./contracts";
+import { IndexerDatabase } from "./db";
+import { IndexedEvent, LoanTerms, decodeProtocolLogs } from "./events";
+import { createIndexerStore } from "./store";
+
+export type IndexerOptions = {
+  client: PublicClient;
+  db: IndexerDatabase;
+  chainId: number;
+  contracts: IndexedContracts;
+  startBlock?: bigint;
+  // Blocks at this depth below the head are final, newer ones are journaled and rolled back on a reorg
+  confirmations: bigint;
+  batchSize: bigint;
+  pollIntervalMs: number;
+  log?: (message: string) => void;
+};
+
+/**
+ * Follows the protocol contracts into the SQLite store.
+ * Each batch of at most `batchSize` blocks is fetched, decoded and written in one transaction with its checkpoint, so
+ * restarting after a crash or an RPC error resumes at the first block that was not written.
+ *
+ * Blocks less than `confirmations` deep are indexed right away but their hashes are kept. Every sync first compares
+ * the newest kept hash with the chain; on a mismatch the store is rolled back to the newest block both still agree on
+ * and the blocks after it are replayed. With `confirmations` 0 reorgs are not tracked.
+ */
+export const createIndexer = ({
+  client,
+  db,
+  chainId,
+  contracts,
+  startBlock,
+  confirmations,
+  batchSize,
+  pollIntervalMs,
+  log = console.log,
+}: IndexerOptions) => {
+  const store = createIndexerStore(db, chainId);
+  const addresses = [contracts.TrustContract, contracts.LendingPool, contracts.TrustScore];
+
+  // Undefined when the chain has no such block (anymore)
+  const fetchBlock = (blockNumber: bigint) =>
+    client.getBlock({ blockNumber }).catch((error): undefined => {
+      if (error instanceof Error && error.name === "BlockNotFoundError") return undefined;
+      throw error;
+    });
+
+  const fetchBlocks = async (blockNumbers: bigint[]) => {
+    const blocks = await Promise.all([...new Set(blockNumbers)].map(blockNumber => client.getBlock({ blockNumber })));
+    return new Map(blocks.map(block => [block.number, block]));
+  };
+
+  // Duration and start are immutable once a loan exists, so the latest state is as good as the historical one
+  const fetchLoanTerms = async (events: IndexedEvent[]) => {
+    const loanIds = events.flatMap(event =>
+      event.contract === "LendingPool" && event.log.eventName === "LoanCreated" ? [event.log.args.loanId] : [],
+    );
+    const loans = await Promise.all(
+      loanIds.map(loanId =>
+        client.readContract({
+          address: contracts.LendingPool,
+          abi: INDEXED_CONTRACTS.LendingPool,
+          functionName: "loans",
+          args: [loanId],
+        }),
+      ),
+    );
+    return new Map<bigint, LoanTerms>(
+      loans.map(([loanId, , , , duration, startTime]) => [loanId, { duration, startTime }]),
+    );
+  };
+
+  const indexRange = async (fromBlock: bigint, toBlock: bigint, confirmedBlock: bigint) => {
+    // Unconfirmed headers are fetched before the logs, so logs from a competing fork show up as a hash mismatch
+    const unconfirmed: bigint[] = [];
+    for (let blockNumber = fromBlock > confirmedBlock ? fromBlock : confirmedBlock + 1n; blockNumber <= toBlock; ) {
+      unconfirmed.push(blockNumber++);
+    }
+    const headers = await fetchBlocks(unconfirmed);
+
+    const logs = await client.getLogs({ address: addresses, fromBlock, toBlock });
+    const forked = logs.find(
+      log => headers.has(log.blockNumber) && headers.get(log.blockNumber)!.hash !== log.blockHash,
+    );
+    if (forked) {
+      throw new Error(`Block ${forked.blockNumber} was reorged while fetching blocks ${fromBlock}-${toBlock}`);
+    }
+
+    const blocks = new Map([
+      ...(await fetchBlocks(logs.map(log => log.blockNumber).filter(blockNumber => !headers.has(blockNumber)))),
+      ...headers,
+    ]);
+    const timestamps = new Map([...blocks].map(([blockNumber, block]) => [blockNumber, block.timestamp]));
+    const events = decodeProtocolLogs(contracts, logs, timestamps);
+    const loanTerms = await fetchLoanTerms(events);
+
+    store.applyBatch(events, loanTerms, toBlock, {
+      blocks: [...headers.values()].map(block => ({ number: block.number, hash: block.hash })),
+      confirmedBlock,
+    });
+    return events.length;
+  };
+
+  /**
+   * Rolls the store back to the newest kept block that is still part of the chain, if the newest one is not
+   */
+  const rollbackReorg = async () => {
+    const checkpoint = store.getCheckpoint();
+    const stored = store.getBlockHashes();
+    if (!checkpoint || stored.length === 0 || (await fetchBlock(stored[0].number))?.hash === stored[0].hash) return;
+
+    let ancestor = checkpoint.confirmedBlock;
+    for (const [index, { number, hash }] of stored.entries()) {
+      if (index > 0 && (await fetchBlock(number))?.hash === hash) {
+        ancestor = number;
+        break;
+      }
+      if (checkpoint.confirmedBlock !== undefined && number <= checkpoint.confirmedBlock) {
+        throw new Error(
+          `Reorg below confirmed block ${checkpoint.confirmedBlock} exceeds ${confirmations} confirmations, delete ` +
+            "the store and resync",
+        );
+      }
+    }
+    if (ancestor === undefined) throw new Error("Store has unconfirmed blocks but no confirmed block to roll back to");
+
+    const undone = store.rollbackTo(ancestor);
+    log(`Reorg at block ${stored[0].number}: rolled back ${undone} writes to block ${ancestor}`);
+  };
+
+  let isChainChecked = false;
+  const checkChain = async () => {
+    if (isChainChecked) return;
+    const connectedChainId = await client.getChainId();
+    if (connectedChainId !== chainId) {
+      throw new Error(`RPC serves chain ${connectedChainId}, the indexer is configured for chain ${chainId}`);
+    }
+    isChainChecked = true;
+  };
+
+  /**
+   * Indexes every block up to the current head and returns the head
+   */
+  const syncToHead = async () => {
+    await checkChain();
+    await rollbackReorg();
+
+    // viem caches the block number for the polling interval, which would hide the newest blocks
+    const head = await client.getBlockNumber({ cacheTime: 0 });
+    const confirmedBlock = head - confirmations;
+    const checkpoint = store.getCheckpoint();
+    let fromBlock = checkpoint ? checkpoint.blockNumber + 1n : (startBlock ?? contracts.deployedOnBlock);
+
+    while (fromBlock <= head) {
+      const toBlock = fromBlock + batchSize - 1n < head ? fromBlock + batchSize - 1n : head;
+      const indexed = await indexRange(fromBlock, toBlock, confirmedBlock);
+      if (indexed > 0) log(`Indexed ${indexed} events in blocks ${fromBlock}-${toBlock}`);
+      fromBlock = toBlock + 1n;
+    }
+    return head;
+  };
+
+  /**
+   * Keeps syncing every `pollIntervalMs` until `signal` aborts. RPC errors are logged and retried on the next poll.
+   */
+  const run = async (signal?: AbortSignal) => {
+    await checkChain();
+    while (!signal?.aborted) {
+      try {
+        await syncToHead();
+      } catch (error) {
+        log(`Sync failed, retrying in ${pollIntervalMs}ms: ${error instanceof Error ? error.message : error}`);
+      }
+      await sleep(pollIntervalMs, signal);
+    }
+  };
+
+  return { syncToHead, run, getCheckpoint: () => store.getCheckpoint()?.blockNumber };
+};
+
+export type Indexer = ReturnType<typeof createIndexer>;
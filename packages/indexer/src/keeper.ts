@@ -0,0 +1,263 @@
+import {
+  Account,
+  Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  Hash,
+  Hex,
+  PublicClient,
+  TransactionReceipt,
+  WalletClient,
+  isAddressEqual,
+  parseEventLogs,
+} from "viem";
+import { sleep } from "./async";
+import { INDEXED_CONTRACTS, IndexedContracts } from "./contracts";
+
+export type KeeperOptions = {
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  // The LendingPool owner, a local account or an address the node signs for. Not needed in a dry run
+  account?: Account | Address;
+  contracts: IndexedContracts;
+  // Only simulates `liquidate` and reports the bond yields it would pay out
+  dryRun: boolean;
+  // Sends per loan before it is reported as failed, retries back off exponentially from `retryDelayMs`
+  maxAttempts: number;
+  retryDelayMs: number;
+  pollIntervalMs: number;
+  log?: (message: string) => void;
+};
+
+export type LiquidationStatus = "liquidated" | "simulated" | "skipped" | "failed";
+
+export type LoanLiquidation = {
+  loanId: bigint;
+  borrower: Address;
+  principal: bigint;
+  dueTimestamp: bigint;
+  overdueSeconds: bigint;
+  status: LiquidationStatus;
+  attempts: number;
+  txHash?: Hash;
+  // Total LendingPool reports in its `YieldsClaimed` event, projected from the frozen bonds in a dry run
+  yieldsClaimed: bigint;
+  // Projected per bond in a dry run. Otherwise TrustContract's `YieldsClaimed` events, which only cover the yield
+  // already accrued in storage and may well be empty
+  bondYields: { contractKey: Hex; amount: bigint }[];
+  error?: string;
+};
+
+export type KeeperReport = {
+  blockNumber: bigint;
+  timestamp: bigint;
+  dryRun: boolean;
+  scannedLoans: number;
+  liquidations: LoanLiquidation[];
+  totalYieldsClaimed: bigint;
+};
+
+type Loan = {
+  id: bigint;
+  borrower: Address;
+  amount: bigint;
+  duration: bigint;
+  startTime: bigint;
+  isActive: boolean;
+  isRepaid: boolean;
+};
+
+type Bond = { isActive: boolean; isFrozen: boolean };
+
+const errorMessage = (error: unknown) =>
+  error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : String(error);
+
+// Reverts are deterministic for the block they ran against, retrying them would only revert again
+const revertReason = (error: unknown) => {
+  if (!(error instanceof BaseError)) return undefined;
+  const reverted = error.walk(cause => cause instanceof ContractFunctionRevertedError);
+  return reverted instanceof ContractFunctionRevertedError ? (reverted.reason ?? reverted.shortMessage) : undefined;
+};
+
+/**
+ * Liquidates LendingPool loans that are past `startTime + duration` and still unpaid. Liquidation pays the accrued yield
+ * of the borrower's frozen bonds out to both partners by stake, resets it and unfreezes the bonds; the pool recovers
+ * nothing.
+ *
+ * Loans are enumerated from `nextLoanId` and expiry is judged against the latest block's timestamp, as `liquidate`
+ * checks it. Nonces are assigned locally so back-to-back liquidations don't wait on the node's pending count, and are
+ * re-read from the node whenever a send fails.
+ */
+export const createKeeper = ({
+  publicClient,
+  walletClient,
+  account,
+  contracts,
+  dryRun,
+  maxAttempts,
+  retryDelayMs,
+  pollIntervalMs,
+  log = console.log,
+}: KeeperOptions) => {
+  const lendingPool = { address: contracts.LendingPool, abi: INDEXED_CONTRACTS.LendingPool } as const;
+  const trustContract = { address: contracts.TrustContract, abi: INDEXED_CONTRACTS.TrustContract } as const;
+  const accountAddress = typeof account === "string" ? account : account?.address;
+
+  let nextNonce: number | undefined;
+  const reserveNonce = async () => {
+    nextNonce ??= await publicClient.getTransactionCount({ address: accountAddress!, blockTag: "pending" });
+    return nextNonce++;
+  };
+
+  const readLoans = async () => {
+    const nextLoanId = await publicClient.readContract({ ...lendingPool, functionName: "nextLoanId" });
+    const loanIds = Array.from({ length: Number(nextLoanId - 1n) }, (_, i) => BigInt(i + 1));
+    return Promise.all(
+      loanIds.map(
+        loanId =>
+          publicClient.readContract({ ...lendingPool, functionName: "getLoan", args: [loanId] }) as Promise<Loan>,
+      ),
+    );
+  };
+
+  // Mirrors LendingPool._claimAllUserYields, which sums the projected yield of every active frozen bond key
+  const projectYields = async (borrower: Address) => {
+    const keys = await publicClient.readContract({
+      ...trustContract,
+      functionName: "getUserContracts",
+      args: [borrower],
+    });
+    const bondYields = await Promise.all(
+      keys.map(async contractKey => {
+        const bond = (await publicClient.readContract({
+          ...trustContract,
+          functionName: "getContract",
+          args: [contractKey],
+        })) as Bond;
+        if (!bond.isActive || !bond.isFrozen) return [];
+        const amount = await publicClient.readContract({
+          ...trustContract,
+          functionName: "getProjectedYield",
+          args: [contractKey],
+        });
+        return [{ contractKey, amount }];
+      }),
+    );
+    return bondYields.flat();
+  };
+
+  const claimedYields = (receipt: TransactionReceipt) => {
+    const poolLogs = parseEventLogs({ abi: lendingPool.abi, eventName: "YieldsClaimed", logs: receipt.logs }).filter(
+      event => isAddressEqual(event.address, lendingPool.address),
+    );
+    const bondLogs = parseEventLogs({ abi: trustContract.abi, eventName: "YieldsClaimed", logs: receipt.logs }).filter(
+      event => isAddressEqual(event.address, trustContract.address),
+    );
+    return {
+      yieldsClaimed: poolLogs.reduce((sum, event) => sum + event.args.totalYields, 0n),
+      bondYields: bondLogs.map(event => ({ contractKey: event.args.contractKey, amount: event.args.amount })),
+    };
+  };
+
+  const liquidate = async (loan: Loan, now: bigint, owner: Address): Promise<LoanLiquidation> => {
+    const dueTimestamp = loan.startTime + loan.duration;
+    const result = {
+      loanId: loan.id,
+      borrower: loan.borrower,
+      principal: loan.amount,
+      dueTimestamp,
+      overdueSeconds: now - dueTimestamp,
+      yieldsClaimed: 0n,
+      bondYields: [],
+    };
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // A dry run has no key to sign with, so it simulates as the owner
+        const { request } = await publicClient.simulateContract({
+          ...lendingPool,
+          functionName: "liquidate",
+          args: [loan.id],
+          account: dryRun ? owner : account,
+        });
+
+        if (dryRun) {
+          const bondYields = await projectYields(loan.borrower);
+          const yieldsClaimed = bondYields.reduce((sum, { amount }) => sum + amount, 0n);
+          return { ...result, status: "simulated", attempts: attempt, yieldsClaimed, bondYields };
+        }
+
+        const txHash = await walletClient.writeContract({ ...request, nonce: await reserveNonce(), chain: null });
+        const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+        if (receipt.status !== "success") throw new Error(`liquidate(${loan.id}) reverted in ${txHash}`);
+        return { ...result, status: "liquidated", attempts: attempt, txHash, ...claimedYields(receipt) };
+      } catch (error) {
+        const reason = revertReason(error);
+        if (reason) return { ...result, status: "skipped", attempts: attempt, error: reason };
+
+        // The cached nonce may be what failed, the node's pending count is the source of truth
+        nextNonce = undefined;
+        if (attempt >= maxAttempts) {
+          return { ...result, status: "failed", attempts: attempt, error: errorMessage(error) };
+        }
+        const delay = retryDelayMs * 2 ** (attempt - 1);
+        log(`liquidate(${loan.id}) attempt ${attempt} failed, retrying in ${delay}ms: ${errorMessage(error)}`);
+        await sleep(delay);
+      }
+    }
+  };
+
+  /**
+   * Liquidates every expired active loan once, one after the other, and reports the outcome per loan
+   */
+  const runOnce = async (): Promise<KeeperReport> => {
+    const owner = await publicClient.readContract({ ...lendingPool, functionName: "owner" });
+    if (!dryRun && (!accountAddress || !isAddressEqual(owner, accountAddress))) {
+      throw new Error(`Keeper account ${accountAddress} is not the LendingPool owner ${owner}`);
+    }
+
+    const block = await publicClient.getBlock({ blockTag: "latest" });
+    const loans = await readLoans();
+    const expired = loans.filter(
+      loan => loan.isActive && !loan.isRepaid && block.timestamp > loan.startTime + loan.duration,
+    );
+
+    const liquidations: LoanLiquidation[] = [];
+    for (const loan of expired) liquidations.push(await liquidate(loan, block.timestamp, owner));
+
+    return {
+      blockNumber: block.number,
+      timestamp: block.timestamp,
+      dryRun,
+      scannedLoans: loans.length,
+      liquidations,
+      totalYieldsClaimed: liquidations.reduce((sum, { yieldsClaimed }) => sum + yieldsClaimed, 0n),
+    };
+  };
+
+  /**
+   * Runs every `pollIntervalMs` until `signal` aborts, handing every report that found an expired loan to
+   * `onReport`. RPC errors are logged and retried on the next poll.
+   */
+  const run = async (onReport: (report: KeeperReport) => void, signal?: AbortSignal) => {
+    while (!signal?.aborted) {
+      try {
+        const report = await runOnce();
+        if (report.liquidations.length > 0) onReport(report);
+      } catch (error) {
+        log(`Keeper run failed, retrying in ${pollIntervalMs}ms: ${errorMessage(error)}`);
+      }
+      await sleep(pollIntervalMs, signal);
+    }
+  };
+
+  return { runOnce, run };
+};
+
+export type Keeper = ReturnType<typeof createKeeper>;
+
+/**
+ * One JSON line per report, amounts in wei as decimal strings
+ */
+export const formatKeeperReport = (report: KeeperReport) =>
+  JSON.stringify(report, (_, value) => (typeof value === "bigint" ? value.toString() : value));
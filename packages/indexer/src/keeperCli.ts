@@ -0,0 +1,44 @@
+import "dotenv/config";
+import { createPublicClient, createWalletClient, http } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { loadKeeperConfig } from "./config";
+import { getIndexedContracts } from "./contracts";
+import { createKeeper, formatKeeperReport } from "./keeper";
+
+/**
+ * `yarn keeper:start` liquidates expired loans until interrupted, `yarn keeper:once` runs a single pass and exits.
+ * `--dry-run` only simulates, whatever `KEEPER_DRY_RUN` says. Reports are printed as JSON lines.
+ */
+const main = async () => {
+  const config = loadKeeperConfig({
+    ...process.env,
+    ...(process.argv.includes("--dry-run") && { KEEPER_DRY_RUN: "true" }),
+  });
+  const transport = http(config.rpcUrl);
+  const keeper = createKeeper({
+    publicClient: createPublicClient({ transport }),
+    walletClient: createWalletClient({ transport }),
+    account: config.privateKey && privateKeyToAccount(config.privateKey),
+    contracts: getIndexedContracts(config.chainId),
+    dryRun: config.dryRun,
+    maxAttempts: config.maxAttempts,
+    retryDelayMs: config.retryDelayMs,
+    pollIntervalMs: config.pollIntervalMs,
+  });
+
+  console.log(`Keeper on chain ${config.chainId} from ${config.rpcUrl}${config.dryRun ? " (dry run)" : ""}`);
+  if (process.argv.includes("--once")) {
+    console.log(formatKeeperReport(await keeper.runOnce()));
+    return;
+  }
+
+  const controller = new AbortController();
+  process.once("SIGINT", () => controller.abort());
+  process.once("SIGTERM", () => controller.abort());
+  await keeper.run(report => console.log(formatKeeperReport(report)), controller.signal);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+import { Address, Hex, getAddress, verifyMessage } from "viem";
+
+// Browser-safe: the app builds the same message for the wallet to sign that the server verifies.
+
+const ONE_DAY = 86_400;
+// 7 days and 1 day before the due date, and once the loan is overdue
+export const DEFAULT_REMINDER_OFFSETS = [7 * ONE_DAY, ONE_DAY, 0];
+const MAX_REMINDER_OFFSET = 30 * ONE_DAY;
+const MAX_REMINDER_OFFSETS = 5;
+// Signed requests expire after this many seconds, and may be at most a minute ahead of the server clock
+const MAX_REQUEST_AGE = 600;
+const MAX_CLOCK_SKEW = 60;
+// Reads change nothing, so one signed read is reused by the inbox poll for a day instead of prompting every refresh
+const MAX_READ_REQUEST_AGE = ONE_DAY;
+
+export type SubscriptionSettings = {
+  inApp: boolean;
+  // POSTed a JSON body per notification, https only (plain http to localhost for development)
+  webhookUrl: string | null;
+  email: string | null;
+  // Seconds before the due date a reminder goes out, 0 is the overdue alert
+  offsets: number[];
+};
+
+export type NotificationAction =
+  | { action: "subscribe"; payload: SubscriptionSettings }
+  | { action: "unsubscribe"; payload: Record<string, never> }
+  | { action: "markRead"; payload: { ids: number[] } }
+  | { action: "readInbox"; payload: { limit: number } };
+
+export type UnsignedNotificationRequest = NotificationAction & {
+  wallet: Address;
+  // Unix seconds, also a per-wallet nonce: every request must be newer than the last accepted one
+  issuedAt: number;
+};
+
+export type SignedNotificationRequest = UnsignedNotificationRequest & { signature: Hex };
+
+export class NotificationAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotificationAuthError";
+  }
+}
+
+/**
+ * The EIP-191 message a wallet signs to read its inbox or change its subscription
+ */
+export const buildNotificationMessage = ({ wallet, action, payload, issuedAt }: UnsignedNotificationRequest) =>
+  [
+    "LENDING_W3.0 notifications",
+    `Action: ${action}`,
+    `Wallet: ${getAddress(wallet)}`,
+    `Payload: ${JSON.stringify(payload)}`,
+    `Issued at: ${issuedAt}`,
+  ].join("\n");
+
+const isLocalHost = (hostname: string) => hostname === "localhost" || hostname === "127.0.0.1";
+
+/**
+ * Rejects settings the notifier could not act on, throwing a `NotificationAuthError` that names the field
+ */
+export const validateSubscriptionSettings = (settings: SubscriptionSettings) => {
+  const { offsets, webhookUrl, email } = settings;
+  if (typeof settings.inApp !== "boolean") throw new NotificationAuthError("inApp must be a boolean");
+  if (!Array.isArray(offsets) || offsets.length === 0 || offsets.length > MAX_REMINDER_OFFSETS) {
+    throw new NotificationAuthError(`Between 1 and ${MAX_REMINDER_OFFSETS} reminder offsets are required`);
+  }
+  if (offsets.some(offset => !Number.isInteger(offset) || offset < 0 || offset > MAX_REMINDER_OFFSET)) {
+    throw new NotificationAuthError(`Reminder offsets must be whole seconds between 0 and ${MAX_REMINDER_OFFSET}`);
+  }
+  if (webhookUrl !== null) {
+    let url: URL;
+    try {
+      url = new URL(webhookUrl);
+    } catch {
+      throw new NotificationAuthError("Invalid webhook URL");
+    }
+    if (url.protocol !== "https:" && !(url.protocol === "http:" && isLocalHost(url.hostname))) {
+      throw new NotificationAuthError("Webhook URL must use https");
+    }
+  }
+  if (email !== null && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new NotificationAuthError("Invalid email address");
+  }
+  if (!settings.inApp && webhookUrl === null && email === null) {
+    throw new NotificationAuthError("Enable at least one channel");
+  }
+};
+
+/**
+ * Checks that `request` was signed by its wallet, recently, and after the last request the wallet got accepted.
+ * A `readInbox` request may be replayed until it expires, a day after it was issued.
+ * Smart contract wallets are not supported, their signatures cannot be checked without an RPC.
+ * @param lastIssuedAt - `issuedAt` of the wallet's last accepted request, if any
+ * @param now - unix seconds
+ */
+export const verifyNotificationRequest = async (
+  request: SignedNotificationRequest,
+  { lastIssuedAt, now }: { lastIssuedAt?: number; now: number },
+) => {
+  if (!Number.isInteger(request.issuedAt)) throw new NotificationAuthError("issuedAt must be unix seconds");
+  const isRead = request.action === "readInbox";
+  const maxAge = isRead ? MAX_READ_REQUEST_AGE : MAX_REQUEST_AGE;
+  if (request.issuedAt < now - maxAge || request.issuedAt > now + MAX_CLOCK_SKEW) {
+    throw new NotificationAuthError("Signed request expired, sign again");
+  }
+  if (!isRead && lastIssuedAt !== undefined && request.issuedAt <= lastIssuedAt) {
+    throw new NotificationAuthError("Signed request was already used");
+  }
+
+  const isValid = await verifyMessage({
+    address: request.wallet,
+    message: buildNotificationMessage(request),
+    signature: request.signature,
+  }).catch(() => false);
+  if (!isValid) throw new NotificationAuthError("Signature does not match the wallet");
+};
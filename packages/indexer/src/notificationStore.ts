@@ -0,0 +1,291 @@
+import Database from "better-sqlite3";
+import { Address, getAddress } from "viem";
+import { SubscriptionSettings } from "./notificationAuth";
+
+/**
+ * SQLite schema of the notification state, one migration per schema version.
+ * It lives apart from the indexer store: that one can be deleted and resynced from the chain, subscriptions can't.
+ */
+const MIGRATIONS = [
+  `
+CREATE TABLE IF NOT EXISTS subscriptions (
+  wallet TEXT PRIMARY KEY,
+  in_app INTEGER NOT NULL,
+  webhook_url TEXT,
+  email TEXT,
+  -- JSON array of seconds before the due date
+  offsets TEXT NOT NULL,
+  -- issuedAt of the last accepted signed request, replays must be newer
+  last_issued_at INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Every notification generated, event_key makes generating the same one twice a no-op
+CREATE TABLE IF NOT EXISTS notifications (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  wallet TEXT NOT NULL,
+  event_key TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  -- JSON object with the loan or bond the notification is about
+  data TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  UNIQUE (wallet, event_key)
+);
+
+CREATE TABLE IF NOT EXISTS deliveries (
+  notification_id INTEGER NOT NULL REFERENCES notifications (id),
+  channel TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (notification_id, channel)
+);
+CREATE INDEX IF NOT EXISTS deliveries_status ON deliveries (status);
+
+-- Notifications delivered through the in-app channel
+CREATE TABLE IF NOT EXISTS inbox (
+  notification_id INTEGER PRIMARY KEY REFERENCES notifications (id),
+  wallet TEXT NOT NULL,
+  read_at INTEGER
+);
+CREATE INDEX IF NOT EXISTS inbox_wallet ON inbox (wallet);
+`,
+];
+
+export type NotificationKind =
+  | "loan_due"
+  | "loan_overdue"
+  | "loan_defaulted"
+  | "bond_frozen"
+  | "bond_closed"
+  | "bond_invite"
+  | "partner_loan_due"
+  | "partner_bond_closed";
+export type ChannelName = "inApp" | "webhook" | "email";
+export type DeliveryStatus = "pending" | "sent" | "failed";
+
+export type Subscription = SubscriptionSettings & {
+  wallet: Address;
+  lastIssuedAt: number;
+  // Unix seconds, events before it are not notified
+  createdAt: number;
+};
+
+export type Notification = {
+  id: number;
+  wallet: Address;
+  eventKey: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  data: Record<string, string | number>;
+  createdAt: number;
+};
+
+export type NewNotification = Omit<Notification, "id" | "createdAt">;
+
+export type PendingDelivery = {
+  notification: Notification;
+  channel: ChannelName;
+  attempts: number;
+};
+
+export type InboxItem = Notification & { readAt: number | null };
+
+type SubscriptionRow = {
+  wallet: Address;
+  in_app: 0 | 1;
+  webhook_url: string | null;
+  email: string | null;
+  offsets: string;
+  last_issued_at: number;
+  created_at: number;
+};
+
+type NotificationRow = {
+  id: number;
+  wallet: Address;
+  event_key: string;
+  kind: NotificationKind;
+  title: string;
+  body: string;
+  data: string;
+  created_at: number;
+};
+
+const toSubscription = (row: SubscriptionRow): Subscription => ({
+  wallet: row.wallet,
+  inApp: row.in_app === 1,
+  webhookUrl: row.webhook_url,
+  email: row.email,
+  offsets: JSON.parse(row.offsets),
+  lastIssuedAt: row.last_issued_at,
+  createdAt: row.created_at,
+});
+
+const toNotification = (row: NotificationRow): Notification => ({
+  id: row.id,
+  wallet: row.wallet,
+  eventKey: row.event_key,
+  kind: row.kind,
+  title: row.title,
+  body: row.body,
+  data: JSON.parse(row.data),
+  createdAt: row.created_at,
+});
+
+const channelsOf = (subscription: SubscriptionSettings): ChannelName[] => [
+  ...(subscription.inApp ? ["inApp" as const] : []),
+  ...(subscription.webhookUrl ? ["webhook" as const] : []),
+  ...(subscription.email ? ["email" as const] : []),
+];
+
+/**
+ * Opens the notification store, creating or migrating it. Both the notifier and the app's API routes write to it.
+ * Timestamps are unix seconds, `now` is injectable so tests can follow anvil's clock.
+ */
+export const openNotificationStore = (path: string, now = () => Math.floor(Date.now() / 1000)) => {
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  // The notifier and the app write concurrently, wait for the other's transaction instead of failing
+  db.pragma("busy_timeout = 5000");
+  const version = db.pragma("user_version", { simple: true }) as number;
+  if (version > MIGRATIONS.length) {
+    db.close();
+    throw new Error(`${path} has schema version ${version}, expected ${MIGRATIONS.length}`);
+  }
+  db.transaction(() => {
+    for (const migration of MIGRATIONS.slice(version)) db.exec(migration);
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  })();
+
+  const statements = {
+    getSubscription: db.prepare<[string], SubscriptionRow>("SELECT * FROM subscriptions WHERE wallet = ?"),
+    listSubscriptions: db.prepare<[], SubscriptionRow>("SELECT * FROM subscriptions ORDER BY created_at"),
+    upsertSubscription: db.prepare(
+      `INSERT INTO subscriptions (wallet, in_app, webhook_url, email, offsets, last_issued_at, created_at, updated_at)
+       VALUES (@wallet, @inApp, @webhookUrl, @email, @offsets, @issuedAt, @now, @now)
+       ON CONFLICT (wallet) DO UPDATE SET in_app = excluded.in_app, webhook_url = excluded.webhook_url,
+       email = excluded.email, offsets = excluded.offsets, last_issued_at = excluded.last_issued_at,
+       updated_at = excluded.updated_at`,
+    ),
+    deleteSubscription: db.prepare<[string]>("DELETE FROM subscriptions WHERE wallet = ?"),
+    insertNotification: db.prepare(
+      `INSERT INTO notifications (wallet, event_key, kind, title, body, data, created_at)
+       VALUES (@wallet, @eventKey, @kind, @title, @body, @data, @now)
+       ON CONFLICT (wallet, event_key) DO NOTHING`,
+    ),
+    insertDelivery: db.prepare(
+      "INSERT INTO deliveries (notification_id, channel, status, updated_at) VALUES (?, ?, 'pending', ?)",
+    ),
+    pendingDeliveries: db.prepare<[number], NotificationRow & { channel: ChannelName; attempts: number }>(
+      `SELECT notifications.*, deliveries.channel, deliveries.attempts FROM deliveries
+       JOIN notifications ON notifications.id = deliveries.notification_id
+       WHERE deliveries.status = 'pending' AND deliveries.attempts < ?
+       ORDER BY notifications.id`,
+    ),
+    setDelivery: db.prepare(
+      `UPDATE deliveries SET status = @status, attempts = attempts + 1, last_error = @error, updated_at = @now
+       WHERE notification_id = @notificationId AND channel = @channel`,
+    ),
+    addToInbox: db.prepare("INSERT OR IGNORE INTO inbox (notification_id, wallet) VALUES (?, ?)"),
+    listInbox: db.prepare<[string, number], NotificationRow & { read_at: number | null }>(
+      `SELECT notifications.*, inbox.read_at FROM inbox
+       JOIN notifications ON notifications.id = inbox.notification_id
+       WHERE inbox.wallet = ? ORDER BY notifications.id DESC LIMIT ?`,
+    ),
+    markRead: db.prepare(
+      "UPDATE inbox SET read_at = @now WHERE wallet = @wallet AND notification_id = @id AND read_at IS NULL",
+    ),
+    setLastIssuedAt: db.prepare("UPDATE subscriptions SET last_issued_at = ? WHERE wallet = ?"),
+  };
+
+  const getSubscription = (wallet: Address) => {
+    const row = statements.getSubscription.get(getAddress(wallet));
+    return row && toSubscription(row);
+  };
+
+  /**
+   * Creates the wallet's subscription or replaces its settings, keeping the original `createdAt`
+   */
+  const saveSubscription = (wallet: Address, settings: SubscriptionSettings, issuedAt: number) => {
+    statements.upsertSubscription.run({
+      wallet: getAddress(wallet),
+      inApp: settings.inApp ? 1 : 0,
+      webhookUrl: settings.webhookUrl,
+      email: settings.email,
+      offsets: JSON.stringify([...new Set(settings.offsets)].sort((a, b) => b - a)),
+      issuedAt,
+      now: now(),
+    });
+    return getSubscription(wallet)!;
+  };
+
+  /**
+   * Stores a notification and queues it on every channel the subscription has enabled.
+   * Returns undefined when the wallet was already notified about `eventKey`.
+   */
+  const createNotification = db.transaction((notification: NewNotification, subscription: Subscription) => {
+    const { changes, lastInsertRowid } = statements.insertNotification.run({
+      ...notification,
+      wallet: getAddress(notification.wallet),
+      data: JSON.stringify(notification.data),
+      now: now(),
+    });
+    if (changes === 0) return undefined;
+    const id = Number(lastInsertRowid);
+    for (const channel of channelsOf(subscription)) statements.insertDelivery.run(id, channel, now());
+    return id;
+  });
+
+  return {
+    db,
+    getSubscription,
+    listSubscriptions: () => statements.listSubscriptions.all().map(toSubscription),
+    saveSubscription,
+    deleteSubscription: (wallet: Address) => statements.deleteSubscription.run(getAddress(wallet)).changes > 0,
+    // Inbox changes are signed too, this only moves the wallet's replay guard
+    touchSubscription: (wallet: Address, issuedAt: number) =>
+      statements.setLastIssuedAt.run(issuedAt, getAddress(wallet)),
+    createNotification,
+    pendingDeliveries: (maxAttempts: number): PendingDelivery[] =>
+      statements.pendingDeliveries.all(maxAttempts).map(row => ({
+        notification: toNotification(row),
+        channel: row.channel,
+        attempts: row.attempts,
+      })),
+    /**
+     * Records a delivery attempt. A failed attempt stays pending, to be retried, until `maxAttempts` is reached.
+     */
+    recordDelivery: (
+      delivery: PendingDelivery,
+      { error, maxAttempts }: { error?: string; maxAttempts: number },
+    ): DeliveryStatus => {
+      const status = !error ? "sent" : delivery.attempts + 1 >= maxAttempts ? "failed" : "pending";
+      statements.setDelivery.run({
+        status,
+        error: error ?? null,
+        now: now(),
+        notificationId: delivery.notification.id,
+        channel: delivery.channel,
+      });
+      return status;
+    },
+    addToInbox: (notification: Notification) => statements.addToInbox.run(notification.id, notification.wallet),
+    listInbox: (wallet: Address, limit = 50): InboxItem[] =>
+      statements.listInbox.all(getAddress(wallet), limit).map(row => ({ ...toNotification(row), readAt: row.read_at })),
+    markRead: db.transaction((wallet: Address, ids: number[]) =>
+      ids.reduce(
+        (marked, id) => marked + statements.markRead.run({ wallet: getAddress(wallet), id, now: now() }).changes,
+        0,
+      ),
+    ),
+    close: () => db.close(),
+  };
+};
+
+export type NotificationStore = ReturnType<typeof openNotificationStore>;
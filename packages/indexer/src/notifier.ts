@@ -0,0 +1,353 @@
+import { Address, formatEther } from "viem";
+import { buildInviteUrl } from "~~/utils/trust/invite";
+import { sleep } from "./async";
+import { NotificationChannel } from "./channels";
+import { IndexerDatabase } from "./db";
+import { NewNotification, NotificationStore, Subscription } from "./notificationStore";
+import {
+  listLoans,
+  listPartnerClosures,
+  listPartnerClosuresElsewhere,
+  listPartnerLoans,
+  listPendingBonds,
+} from "./queries";
+import { BondRow, LoanRow } from "./schema";
+
+const ONE_DAY = 86_400;
+// Ages of a one-sided bond at which its invite goes out (partner only) and is repeated (both sides)
+const INVITE_REMINDER_AGES = [0, 3 * ONE_DAY, 7 * ONE_DAY];
+
+export type NotifierOptions = {
+  // Read-only handle on the indexer store the loans and bonds come from
+  indexerDb: IndexerDatabase;
+  store: NotificationStore;
+  channels: NotificationChannel[];
+  // Attempts per channel before a delivery is given up on, one per pass
+  maxAttempts: number;
+  pollIntervalMs: number;
+  // Public URL of the app, links invite notifications to its /invite page when set
+  appUrl?: string;
+  now?: () => number;
+  log?: (message: string) => void;
+};
+
+export type NotifierReport = {
+  created: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+};
+
+const shortAddress = (address: Address) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toISOString().replace(".000Z", "Z");
+const formatAmount = (wei: string) => `${formatEther(BigInt(wei))} ETH`;
+
+const formatOffset = (seconds: number) => {
+  const days = Math.floor(seconds / 86_400);
+  if (days > 0) return `${days} day${days === 1 ? "" : "s"}`;
+  const hours = Math.max(1, Math.floor(seconds / 3_600));
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+};
+
+// The smallest subscribed offset before the due date whose time has come, 0 once the loan is overdue
+const getReachedOffset = (loan: LoanRow, offsets: number[], now: number) => {
+  const reached = offsets.filter(offset =>
+    offset === 0 ? now > loan.due_timestamp : now >= loan.due_timestamp - offset,
+  );
+  return reached.length === 0 ? undefined : Math.min(...reached);
+};
+
+/**
+ * The reminder a borrower is due for on an active loan: the smallest subscribed offset whose time has come, so a
+ * wallet that subscribes two days before the due date gets the 1 day reminder but never a late 7 day one.
+ */
+export const getDueReminder = (loan: LoanRow, offsets: number[], now: number): NewNotification | undefined => {
+  const offset = getReachedOffset(loan, offsets, now);
+  if (offset === undefined) return undefined;
+  const data = { loanId: loan.loan_id, amount: loan.amount, dueTimestamp: loan.due_timestamp };
+
+  if (offset === 0) {
+    return {
+      wallet: loan.borrower,
+      eventKey: `loan:${loan.loan_id}:overdue`,
+      kind: "loan_overdue",
+      title: `Loan #${loan.loan_id} is overdue`,
+      body:
+        `Loan #${loan.loan_id} of ${formatAmount(loan.amount)} was due at ${formatDate(loan.due_timestamp)}. ` +
+        "Repay it before the pool liquidates it: liquidation records the default, pays out and resets the yield your " +
+        "bonds held when they froze, forfeits what they earned since, and unfreezes them.",
+      data,
+    };
+  }
+  return {
+    wallet: loan.borrower,
+    eventKey: `loan:${loan.loan_id}:due:${offset}`,
+    kind: "loan_due",
+    title: `Loan #${loan.loan_id} is due in ${formatOffset(loan.due_timestamp - now)}`,
+    body:
+      `Loan #${loan.loan_id} of ${formatAmount(loan.amount)} is due at ${formatDate(loan.due_timestamp)}. ` +
+      "Your bonds stay frozen until it is repaid.",
+    data,
+  };
+};
+
+/**
+ * The warning `wallet` is due for on an active loan of a bond partner nearing default, at the same offsets as its own
+ * reminders: a liquidation pays out and resets the yield the bond they share held at freeze time, forfeits what it
+ * earned while frozen, then unfreezes it.
+ */
+export const getPartnerDueAlert = (
+  loan: LoanRow,
+  wallet: Address,
+  offsets: number[],
+  now: number,
+): NewNotification | undefined => {
+  const offset = getReachedOffset(loan, offsets, now);
+  if (offset === undefined) return undefined;
+  const partner = shortAddress(loan.borrower);
+
+  return {
+    wallet,
+    eventKey: `loan:${loan.loan_id}:partner_due:${offset}`,
+    kind: "partner_loan_due",
+    title:
+      offset === 0
+        ? `${partner}'s loan #${loan.loan_id} is overdue`
+        : `${partner}'s loan #${loan.loan_id} is due in ${formatOffset(loan.due_timestamp - now)}`,
+    body:
+      `Loan #${loan.loan_id} of ${formatAmount(loan.amount)} is due at ${formatDate(loan.due_timestamp)}. ` +
+      "The bond you share stays frozen until it is repaid or liquidated. A liquidation pays out the yield the bond " +
+      "held when it froze to both of you by stake, forfeits what it earned since, and unfreezes the bond.",
+    data: { loanId: loan.loan_id, borrower: loan.borrower, amount: loan.amount, dueTimestamp: loan.due_timestamp },
+  };
+};
+
+/**
+ * The invite or invite reminder `wallet` is due for on a bond whose partner has not staked yet: the partner is told
+ * when the bond is created, and both sides are reminded at the later `INVITE_REMINDER_AGES` while it stays one-sided.
+ */
+export const getInviteReminder = (
+  bond: BondRow,
+  wallet: Address,
+  now: number,
+  appUrl?: string,
+): NewNotification | undefined => {
+  const isPartner = bond.partner === wallet;
+  const age = Math.max(...INVITE_REMINDER_AGES.filter(reminderAge => now - bond.created_timestamp >= reminderAge));
+  if (age < 0 || (age === 0 && !isPartner)) return undefined;
+
+  const creator = shortAddress(bond.creator);
+  const data = { bondId: bond.id, creator: bond.creator, partner: bond.partner, stake: bond.creator_stake };
+  const inviteLink = appUrl
+    ? ` Accept it at ${buildInviteUrl(appUrl, { creator: bond.creator, note: "" })}`
+    : " Accept it from the pending bonds tab.";
+
+  if (!isPartner) {
+    const partner = shortAddress(bond.partner);
+    return {
+      wallet,
+      eventKey: `bond:${bond.id}:invite:${age}`,
+      kind: "bond_invite",
+      title: `${partner} has not accepted your bond invite`,
+      body:
+        `Your bond with ${partner} is still one-sided after ${formatOffset(age)}, it only earns on your ` +
+        `${formatAmount(bond.creator_stake)}. Share the invite link again from the pending bonds tab.`,
+      data,
+    };
+  }
+  return {
+    wallet,
+    eventKey: age === 0 ? `bond:${bond.id}:invite` : `bond:${bond.id}:invite:${age}`,
+    kind: "bond_invite",
+    title: age === 0 ? `${creator} invited you to a trust bond` : `Bond invite from ${creator} is still open`,
+    body: `${creator} staked ${formatAmount(bond.creator_stake)} in a bond with you, add your stake to complete it.${inviteLink}`,
+    data,
+  };
+};
+
+/**
+ * Sends loan reminders and bond alerts to subscribed wallets, from the state the indexer has written.
+ *
+ * Each pass generates what every subscription is due for (loan reminders at its offsets; partner exits, defects and
+ * loans since it subscribed, partner loans nearing default and partners closing bonds elsewhere; invites to one-sided
+ * bonds) and queues it per enabled channel, then delivers the queue. Notifications are keyed by event, so passes can
+ * repeat freely, and failed deliveries are retried on the next pass up to `maxAttempts`.
+ */
+export const createNotifier = ({
+  indexerDb,
+  store,
+  channels,
+  maxAttempts,
+  pollIntervalMs,
+  appUrl,
+  now = () => Math.floor(Date.now() / 1000),
+  log = console.log,
+}: NotifierOptions) => {
+  const notificationsFor = (subscription: Subscription, timestamp: number): NewNotification[] => {
+    const { wallet, offsets, createdAt: since } = subscription;
+
+    const reminders = listLoans(indexerDb, { borrower: wallet, status: "active" }).flatMap(
+      loan => getDueReminder(loan, offsets, timestamp) ?? [],
+    );
+
+    const ownDefaults = listLoans(indexerDb, { borrower: wallet, status: "defaulted" })
+      .filter(loan => loan.closed_timestamp !== null && loan.closed_timestamp >= since)
+      .map(
+        (loan): NewNotification => ({
+          wallet,
+          eventKey: `loan:${loan.loan_id}:defaulted`,
+          kind: "loan_defaulted",
+          title: `Loan #${loan.loan_id} was liquidated`,
+          body:
+            `Loan #${loan.loan_id} of ${formatAmount(loan.amount)} defaulted. Liquidation paid out and reset the ` +
+            "yield your bonds held when they froze, forfeited what they earned since, and unfroze them.",
+          data: { loanId: loan.loan_id, amount: loan.amount },
+        }),
+      );
+
+    const partnerLoans = listPartnerLoans(indexerDb, { address: wallet, since }).flatMap((loan): NewNotification[] => {
+      const data = { loanId: loan.loan_id, borrower: loan.borrower, amount: loan.amount };
+      const partner = shortAddress(loan.borrower);
+      return [
+        ...(loan.created_timestamp >= since
+          ? [
+              {
+                wallet,
+                eventKey: `loan:${loan.loan_id}:frozen`,
+                kind: "bond_frozen" as const,
+                title: `Your bond with ${partner} is frozen`,
+                body:
+                  `${partner} borrowed ${formatAmount(loan.amount)} (loan #${loan.loan_id}, due ` +
+                  `${formatDate(loan.due_timestamp)}), which freezes your bond until it is repaid or liquidated. ` +
+                  `Until then neither of you can exit, defect or add stake. The yield the bond earns while frozen ` +
+                  `is paid only if the loan is repaid and forfeited on liquidation.`,
+                data,
+              },
+            ]
+          : []),
+        ...(loan.status === "defaulted"
+          ? [
+              {
+                wallet,
+                eventKey: `loan:${loan.loan_id}:defaulted`,
+                kind: "loan_defaulted" as const,
+                title: `${partner} defaulted on loan #${loan.loan_id}`,
+                body:
+                  `The pool liquidated loan #${loan.loan_id}. The yield the bonds it froze held at freeze time, yours ` +
+                  "included, was paid out by stake and reset, what they earned since was forfeited, and the bonds " +
+                  "are unfrozen.",
+                data,
+              },
+            ]
+          : []),
+      ];
+    });
+
+    // Whenever the partner borrowed, the loan still freezes the shared bond
+    const partnerDueAlerts = listPartnerLoans(indexerDb, { address: wallet, since: 0 })
+      .filter(loan => loan.status === "active")
+      .flatMap(loan => getPartnerDueAlert(loan, wallet, offsets, timestamp) ?? []);
+
+    const closures = listPartnerClosures(indexerDb, { address: wallet, since }).map(
+      (bond): NewNotification => ({
+        wallet,
+        eventKey: `bond:${bond.id}:${bond.status}`,
+        kind: "bond_closed",
+        title: `${shortAddress(bond.closed_by!)} ${bond.status === "defected" ? "defected on" : "exited"} your bond`,
+        body:
+          bond.status === "defected"
+            ? `Your partner defected and took ${formatAmount(bond.payout ?? "0")}, your stake in the bond is lost.`
+            : `Your partner exited the bond. Both stakes were returned, minus the exit penalty.`,
+        data: { bondId: bond.id, contractKey: bond.contract_key, partner: bond.closed_by! },
+      }),
+    );
+
+    const closuresElsewhere = listPartnerClosuresElsewhere(indexerDb, { address: wallet, since }).map(
+      (bond): NewNotification => {
+        const partner = shortAddress(bond.closed_by!);
+        const counterparty = shortAddress(bond.closed_by === bond.creator ? bond.partner : bond.creator);
+        return {
+          wallet,
+          eventKey: `bond:${bond.id}:${bond.status}:partner`,
+          kind: "partner_bond_closed",
+          title: `Your partner ${partner} ${bond.status === "defected" ? "defected on" : "exited"} another bond`,
+          body:
+            `${partner} ${bond.status === "defected" ? "defected on" : "exited"} their bond with ${counterparty}. ` +
+            "Your bond with them is still active; a defect would take 95% of it.",
+          data: { bondId: bond.id, contractKey: bond.contract_key, partner: bond.closed_by! },
+        };
+      },
+    );
+
+    const invites = listPendingBonds(indexerDb, wallet).flatMap(
+      bond => getInviteReminder(bond, wallet, timestamp, appUrl) ?? [],
+    );
+
+    return [
+      ...reminders,
+      ...ownDefaults,
+      ...partnerLoans,
+      ...partnerDueAlerts,
+      ...closures,
+      ...closuresElsewhere,
+      ...invites,
+    ];
+  };
+
+  const deliverPending = async (report: NotifierReport) => {
+    for (const delivery of store.pendingDeliveries(maxAttempts)) {
+      const channel = channels.find(candidate => candidate.name === delivery.channel);
+      const subscription = store.getSubscription(delivery.notification.wallet);
+      let error: string | undefined;
+      try {
+        if (!channel) throw new Error(`Channel ${delivery.channel} is not configured on this notifier`);
+        if (!subscription) throw new Error("Wallet unsubscribed");
+        await channel.deliver(delivery.notification, subscription);
+      } catch (cause) {
+        error = cause instanceof Error ? cause.message : String(cause);
+      }
+
+      const status = store.recordDelivery(delivery, { error, maxAttempts });
+      report[status === "pending" ? "retrying" : status]++;
+      if (error) {
+        log(`${delivery.channel} delivery of notification ${delivery.notification.id} failed (${status}): ${error}`);
+      }
+    }
+  };
+
+  /**
+   * Generates and delivers everything that is due at `now()`
+   */
+  const runOnce = async (): Promise<NotifierReport> => {
+    const timestamp = now();
+    const report: NotifierReport = { created: 0, sent: 0, retrying: 0, failed: 0 };
+    for (const subscription of store.listSubscriptions()) {
+      for (const notification of notificationsFor(subscription, timestamp)) {
+        if (store.createNotification(notification, subscription) !== undefined) report.created++;
+      }
+    }
+    await deliverPending(report);
+    return report;
+  };
+
+  /**
+   * Runs a pass every `pollIntervalMs` until `signal` aborts. Errors are logged and retried on the next pass.
+   */
+  const run = async (signal?: AbortSignal) => {
+    while (!signal?.aborted) {
+      try {
+        const report = await runOnce();
+        if (report.created + report.sent + report.retrying + report.failed > 0) {
+          log(`Notifications: ${JSON.stringify(report)}`);
+        }
+      } catch (error) {
+        log(`Notifier pass failed, retrying in ${pollIntervalMs}ms: ${error instanceof Error ? error.message : error}`);
+      }
+      await sleep(pollIntervalMs, signal);
+    }
+  };
+
+  return { runOnce, run };
+};
+
+export type Notifier = ReturnType<typeof createNotifier>;
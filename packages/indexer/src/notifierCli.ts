@@ -0,0 +1,50 @@
+import "dotenv/config";
+import { NotificationChannel, createEmailChannel, createInAppChannel, createWebhookChannel } from "./channels";
+import { loadNotifierConfig } from "./config";
+import { openIndexerDatabase } from "./db";
+import { openNotificationStore } from "./notificationStore";
+import { createNotifier } from "./notifier";
+
+/**
+ * `yarn notifier:start` sends reminders and alerts until interrupted, `yarn notifier:once` runs a single pass.
+ * Reads what `yarn indexer:start` writes, so run both.
+ */
+const main = async () => {
+  const config = loadNotifierConfig();
+  const indexerDb = openIndexerDatabase(config.indexerDbPath, { readonly: true });
+  const store = openNotificationStore(config.notificationsDbPath);
+  const channels: NotificationChannel[] = [
+    createInAppChannel(store),
+    createWebhookChannel(),
+    ...(config.smtp ? [createEmailChannel(config.smtp)] : []),
+  ];
+  const notifier = createNotifier({
+    indexerDb,
+    store,
+    channels,
+    maxAttempts: config.maxAttempts,
+    pollIntervalMs: config.pollIntervalMs,
+    appUrl: config.appUrl,
+  });
+
+  console.log(`Notifying from ${config.indexerDbPath} via ${channels.map(channel => channel.name).join(", ")}`);
+  try {
+    if (process.argv.includes("--once")) {
+      console.log(`Notifications: ${JSON.stringify(await notifier.runOnce())}`);
+      return;
+    }
+
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    process.once("SIGTERM", () => controller.abort());
+    await notifier.run(controller.signal);
+  } finally {
+    store.close();
+    indexerDb.close();
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,173 @@
+import type { Database } from "better-sqlite3";
+import { Address, getAddress } from "viem";
+import { BondRow, BondStatus, LoanRow, LoanStatus, UserRow, VerificationRow } from "./schema";
+
+// Read side of the SQLite store for dashboards and API routes.
+// Every function takes a handle from `openIndexerDatabase(path, { readonly: true })`.
+
+export type IndexerStatus = {
+  chainId: number;
+  blockNumber: number;
+  // Rows above this block may still be rolled back by a reorg
+  confirmedBlock: number | null;
+  updatedAt: number;
+};
+
+export type ProtocolTotals = {
+  activeBonds: number;
+  exitedBonds: number;
+  defectedBonds: number;
+  // Sum of the active bonds' stakes in wei, as a decimal string
+  totalValueLocked: string;
+  activeLoans: number;
+  repaidLoans: number;
+  defaultedLoans: number;
+  // Principal of the active loans in wei, as a decimal string
+  outstandingPrincipal: string;
+  verifiedUsers: number;
+};
+
+export const getIndexerStatus = (db: Database): IndexerStatus | undefined => {
+  const row = db
+    .prepare<
+      [],
+      { chain_id: number; block_number: number; confirmed_block: number | null; updated_at: number }
+    >("SELECT * FROM checkpoints LIMIT 1")
+    .get();
+  return (
+    row && {
+      chainId: row.chain_id,
+      blockNumber: row.block_number,
+      confirmedBlock: row.confirmed_block,
+      updatedAt: row.updated_at,
+    }
+  );
+};
+
+/**
+ * Bonds, newest first, optionally of one participant (as creator or partner) and/or in one status
+ */
+export const listBonds = (db: Database, { address, status }: { address?: Address; status?: BondStatus } = {}) => {
+  const participant = address ? getAddress(address) : null;
+  return db
+    .prepare<[{ participant: string | null; status: string | null }], BondRow>(
+      `SELECT * FROM bonds
+       WHERE (@participant IS NULL OR creator = @participant OR partner = @participant)
+       AND (@status IS NULL OR status = @status)
+       ORDER BY id DESC`,
+    )
+    .all({ participant, status: status ?? null });
+};
+
+/**
+ * Loans, newest first, optionally of one borrower and/or in one status
+ */
+export const listLoans = (db: Database, { borrower, status }: { borrower?: Address; status?: LoanStatus } = {}) =>
+  db
+    .prepare<[{ borrower: string | null; status: string | null }], LoanRow>(
+      `SELECT * FROM loans
+       WHERE (@borrower IS NULL OR borrower = @borrower) AND (@status IS NULL OR status = @status)
+       ORDER BY loan_id DESC`,
+    )
+    .all({ borrower: borrower ? getAddress(borrower) : null, status: status ?? null });
+
+/**
+ * Bonds of `address` its partner exited or defected on at or after `since` (unix seconds), newest first
+ */
+export const listPartnerClosures = (db: Database, { address, since }: { address: Address; since: number }) =>
+  db
+    .prepare<[{ address: string; since: number }], BondRow>(
+      `SELECT * FROM bonds
+       WHERE (creator = @address OR partner = @address) AND closed_by != @address AND closed_timestamp >= @since
+       ORDER BY closed_timestamp DESC`,
+    )
+    .all({ address: getAddress(address), since });
+
+/**
+ * Bonds that a current bond partner of `address` exited or defected on with another wallet at or after `since`
+ * (unix seconds), newest first
+ */
+export const listPartnerClosuresElsewhere = (db: Database, { address, since }: { address: Address; since: number }) =>
+  db
+    .prepare<[{ address: string; since: number }], BondRow>(
+      `SELECT DISTINCT closed.* FROM bonds AS closed
+       JOIN bonds AS shared ON shared.status = 'active'
+         AND ((shared.creator = @address AND shared.partner = closed.closed_by)
+           OR (shared.partner = @address AND shared.creator = closed.closed_by))
+       WHERE closed.creator != @address AND closed.partner != @address AND closed.closed_timestamp >= @since
+       ORDER BY closed.closed_timestamp DESC`,
+    )
+    .all({ address: getAddress(address), since });
+
+/**
+ * Active bonds of `address` with one side still unfunded: `createContract` only stakes the creator's side and the
+ * partner has to `addStake`. Oldest first.
+ */
+export const listPendingBonds = (db: Database, address: Address) =>
+  db
+    .prepare<[{ address: string }], BondRow>(
+      `SELECT * FROM bonds
+       WHERE (creator = @address OR partner = @address) AND status = 'active' AND partner_stake = '0'
+       ORDER BY created_timestamp`,
+    )
+    .all({ address: getAddress(address) });
+
+/**
+ * Loans taken by a bond partner of `address` while the bond was active, which froze it, and that were taken or
+ * closed at or after `since` (unix seconds). Newest first.
+ */
+export const listPartnerLoans = (db: Database, { address, since }: { address: Address; since: number }) =>
+  db
+    .prepare<[{ address: string; since: number }], LoanRow>(
+      `SELECT DISTINCT loans.* FROM loans
+       JOIN bonds ON (bonds.creator = loans.borrower AND bonds.partner = @address)
+         OR (bonds.partner = loans.borrower AND bonds.creator = @address)
+       WHERE bonds.created_timestamp <= loans.created_timestamp
+       AND (bonds.closed_timestamp IS NULL OR bonds.closed_timestamp >= loans.created_timestamp)
+       AND (loans.created_timestamp >= @since OR loans.closed_timestamp >= @since)
+       ORDER BY loans.loan_id DESC`,
+    )
+    .all({ address: getAddress(address), since });
+
+export const listUsers = (db: Database) =>
+  db.prepare<[], UserRow>("SELECT * FROM users ORDER BY first_seen_block").all();
+
+export const getUser = (db: Database, address: Address) =>
+  db.prepare<[string], UserRow>("SELECT * FROM users WHERE address = ?").get(getAddress(address));
+
+export const listVerifications = (db: Database) =>
+  db.prepare<[], VerificationRow>("SELECT * FROM verifications ORDER BY block_number").all();
+
+export const getProtocolTotals = (db: Database): ProtocolTotals => {
+  const bondCounts = db
+    .prepare<[], { status: BondStatus; count: number }>("SELECT status, COUNT(*) AS count FROM bonds GROUP BY status")
+    .all();
+  const loanCounts = db
+    .prepare<[], { status: LoanStatus; count: number }>("SELECT status, COUNT(*) AS count FROM loans GROUP BY status")
+    .all();
+  const countOf = (rows: { status: string; count: number }[], status: string) =>
+    rows.find(row => row.status === status)?.count ?? 0;
+
+  // Amounts are TEXT, summed as bigints instead of SQLite's lossy REAL arithmetic
+  const sum = (values: string[]) => values.reduce((total, value) => total + BigInt(value), 0n).toString();
+  const activeStakes = db
+    .prepare<
+      [],
+      { creator_stake: string; partner_stake: string }
+    >("SELECT creator_stake, partner_stake FROM bonds WHERE status = 'active'")
+    .all();
+  const activePrincipal = db.prepare<[], { amount: string }>("SELECT amount FROM loans WHERE status = 'active'").all();
+  const verifiedUsers = db.prepare<[], { count: number }>("SELECT COUNT(*) AS count FROM verifications").get();
+
+  return {
+    activeBonds: countOf(bondCounts, "active"),
+    exitedBonds: countOf(bondCounts, "exited"),
+    defectedBonds: countOf(bondCounts, "defected"),
+    totalValueLocked: sum(activeStakes.flatMap(bond => [bond.creator_stake, bond.partner_stake])),
+    activeLoans: countOf(loanCounts, "active"),
+    repaidLoans: countOf(loanCounts, "repaid"),
+    defaultedLoans: countOf(loanCounts, "defaulted"),
+    outstandingPrincipal: sum(activePrincipal.map(loan => loan.amount)),
+    verifiedUsers: verifiedUsers?.count ?? 0,
+  };
+};
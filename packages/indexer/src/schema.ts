@@ -0,0 +1,174 @@
+import type { Address, Hash, Hex } from "viem";
+
+/**
+ * SQLite schema of the indexed protocol state, one migration per schema version.
+ * uint256 values are stored as decimal TEXT, SQLite integers are 64 bit and would overflow on wei amounts.
+ */
+export const MIGRATIONS = [
+  `
+CREATE TABLE IF NOT EXISTS checkpoints (
+  chain_id INTEGER PRIMARY KEY,
+  block_number INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+
+-- Every wallet that verified, bonded, borrowed or was penalized
+CREATE TABLE IF NOT EXISTS users (
+  address TEXT PRIMARY KEY,
+  nullifier TEXT,
+  verified_block INTEGER,
+  defect_penalties TEXT NOT NULL DEFAULT '0',
+  exit_penalties TEXT NOT NULL DEFAULT '0',
+  first_seen_block INTEGER NOT NULL,
+  last_active_block INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS verifications (
+  nullifier TEXT PRIMARY KEY,
+  wallet TEXT NOT NULL,
+  block_number INTEGER NOT NULL,
+  block_timestamp INTEGER NOT NULL,
+  tx_hash TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS verifications_wallet ON verifications (wallet);
+
+CREATE TABLE IF NOT EXISTS bonds (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  contract_key TEXT NOT NULL,
+  creator TEXT NOT NULL,
+  partner TEXT NOT NULL,
+  creator_stake TEXT NOT NULL,
+  partner_stake TEXT NOT NULL DEFAULT '0',
+  status TEXT NOT NULL CHECK (status IN ('active', 'exited', 'defected')),
+  is_frozen INTEGER NOT NULL DEFAULT 0,
+  yields_claimed TEXT NOT NULL DEFAULT '0',
+  created_block INTEGER NOT NULL,
+  created_timestamp INTEGER NOT NULL,
+  created_tx TEXT NOT NULL,
+  closed_by TEXT,
+  payout TEXT,
+  penalty TEXT,
+  closed_block INTEGER,
+  closed_timestamp INTEGER
+);
+-- A pair that re-bonds after an exit reuses its contract key, only one of its bonds can be active
+CREATE UNIQUE INDEX IF NOT EXISTS bonds_active_key ON bonds (contract_key) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS bonds_creator ON bonds (creator);
+CREATE INDEX IF NOT EXISTS bonds_partner ON bonds (partner);
+
+CREATE TABLE IF NOT EXISTS loans (
+  loan_id INTEGER PRIMARY KEY,
+  borrower TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  interest_rate INTEGER NOT NULL,
+  duration INTEGER NOT NULL,
+  due_timestamp INTEGER NOT NULL,
+  is_payday_loan INTEGER NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('active', 'repaid', 'defaulted')),
+  contracts_frozen INTEGER NOT NULL DEFAULT 0,
+  repaid_amount TEXT,
+  defaulted_amount TEXT,
+  yields_claimed TEXT NOT NULL DEFAULT '0',
+  created_block INTEGER NOT NULL,
+  created_timestamp INTEGER NOT NULL,
+  created_tx TEXT NOT NULL,
+  closed_block INTEGER,
+  closed_timestamp INTEGER
+);
+CREATE INDEX IF NOT EXISTS loans_borrower ON loans (borrower);
+`,
+  `
+-- Highest block deeper than the confirmation depth at the last sync, rows up to it can no longer be reorged
+ALTER TABLE checkpoints ADD COLUMN confirmed_block INTEGER;
+
+-- Hashes of the indexed blocks that are not confirmed yet, compared against the chain to detect reorgs
+CREATE TABLE IF NOT EXISTS blocks (
+  block_number INTEGER PRIMARY KEY,
+  block_hash TEXT NOT NULL
+);
+
+-- Previous image of every row written for an unconfirmed block, NULL for inserted rows.
+-- row_key has no declared type so integer keys keep comparing as integers.
+CREATE TABLE IF NOT EXISTS journal (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  block_number INTEGER NOT NULL,
+  table_name TEXT NOT NULL,
+  row_key NOT NULL,
+  old_row TEXT
+);
+CREATE INDEX IF NOT EXISTS journal_block ON journal (block_number);
+`,
+  `
+-- Mirror of TrustContract's accruedYield and lastYieldUpdate, moved by StakeAdded, ContractFrozen and YieldsClaimed.
+-- Bonds indexed before this version start from their creation, re-index from the deployment block for exact values.
+ALTER TABLE bonds ADD COLUMN accrued_yield TEXT NOT NULL DEFAULT '0';
+ALTER TABLE bonds ADD COLUMN yield_updated_timestamp INTEGER NOT NULL DEFAULT 0;
+UPDATE bonds SET yield_updated_timestamp = created_timestamp;
+`,
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export type BondStatus = "active" | "exited" | "defected";
+export type LoanStatus = "active" | "repaid" | "defaulted";
+
+export type UserRow = {
+  address: Address;
+  nullifier: Hex | null;
+  verified_block: number | null;
+  defect_penalties: string;
+  exit_penalties: string;
+  first_seen_block: number;
+  last_active_block: number;
+};
+
+export type VerificationRow = {
+  nullifier: Hex;
+  wallet: Address;
+  block_number: number;
+  block_timestamp: number;
+  tx_hash: Hash;
+};
+
+export type BondRow = {
+  id: number;
+  contract_key: Hex;
+  creator: Address;
+  partner: Address;
+  creator_stake: string;
+  partner_stake: string;
+  status: BondStatus;
+  is_frozen: 0 | 1;
+  yields_claimed: string;
+  created_block: number;
+  created_timestamp: number;
+  created_tx: Hash;
+  closed_by: Address | null;
+  payout: string | null;
+  penalty: string | null;
+  closed_block: number | null;
+  closed_timestamp: number | null;
+  // `accruedYield` and `lastYieldUpdate` as TrustContract stores them
+  accrued_yield: string;
+  yield_updated_timestamp: number;
+};
+
+export type LoanRow = {
+  loan_id: number;
+  borrower: Address;
+  amount: string;
+  interest_rate: number;
+  duration: number;
+  due_timestamp: number;
+  is_payday_loan: 0 | 1;
+  status: LoanStatus;
+  contracts_frozen: 0 | 1;
+  repaid_amount: string | null;
+  defaulted_amount: string | null;
+  yields_claimed: string;
+  created_block: number;
+  created_timestamp: number;
+  created_tx: Hash;
+  closed_block: number | null;
+  closed_timestamp: number | null;
+};
@@ -0,0 +1,161 @@
+import { Abi, Address, PublicClient, TestClient, WalletClient, formatEther, keccak256, parseEther, toHex } from "viem";
+import { INDEXED_CONTRACTS, IndexedContracts } from "./contracts";
+
+const ONE_DAY = 86_400;
+
+export type SeedOptions = {
+  publicClient: PublicClient;
+  walletClient: WalletClient;
+  testClient: TestClient;
+  contracts: IndexedContracts;
+  // The LendingPool owner, funds the pool and liquidates
+  owner: Address;
+  // Unlocked accounts the node signs for, at least `SEED_WALLETS`
+  wallets: readonly Address[];
+  liquidity?: bigint;
+  log?: (message: string) => void;
+};
+
+// Eight verified wallets and one that never verifies
+const WALLET_NAMES = ["alice", "bob", "carol", "dave", "erin", "frank", "grace", "heidi", "ivan"] as const;
+export const SEED_WALLETS = WALLET_NAMES.length;
+
+export type SeedWalletName = (typeof WALLET_NAMES)[number];
+
+export type SeedSummary = {
+  wallets: Record<SeedWalletName, Address>;
+  // Loan ids by how each loan ends up
+  loans: { repaid: bigint; liquidated: bigint; expired: bigint; active: bigint };
+  daysTravelled: number;
+};
+
+const DEFAULT_LIQUIDITY = parseEther("50");
+
+/**
+ * Synthetic Self nullifier of a seeded wallet. `verifySelfProof` only checks that it is non-zero and unused.
+ */
+export const seedNullifier = (wallet: Address) => keccak256(toHex(`devnet:${wallet.toLowerCase()}`));
+
+/**
+ * Builds a lived-in protocol on a fresh local deployment, for the app, the indexer, the keeper and the notifier to
+ * show something:
+ *
+ * - the pool is funded and eight wallets verify, the ninth stays unverified;
+ * - a triangle of two-sided bonds, two one-sided bonds waiting for their partner, one bond exited and one defected;
+ * - after 30 days a loan is taken and repaid, a loan is liquidated, a loan expires unliquidated for the keeper and a
+ *   fresh loan runs, leaving its borrower's bonds frozen.
+ *
+ * Time only moves forward: `evm_increaseTime` shifts every later block, so run it on a chain nobody else depends on.
+ */
+export const seedDevnet = async ({
+  publicClient,
+  walletClient,
+  testClient,
+  contracts,
+  owner,
+  wallets,
+  liquidity = DEFAULT_LIQUIDITY,
+  log = () => undefined,
+}: SeedOptions): Promise<SeedSummary> => {
+  if (wallets.length < SEED_WALLETS) {
+    throw new Error(`Seeding needs ${SEED_WALLETS} unlocked wallets, the node has ${wallets.length}`);
+  }
+  const [alice, bob, carol, dave, erin, frank, grace, heidi, ivan] = wallets;
+  const names = new Map<Address, string>(WALLET_NAMES.map((walletName, i) => [wallets[i], walletName]));
+  names.set(owner, "owner");
+  const name = (wallet: Address) => names.get(wallet) ?? wallet;
+  for (const [wallet, walletName] of names) log(`${walletName}: ${wallet}`);
+
+  const send =
+    (contract: "TrustContract" | "LendingPool") =>
+    async (functionName: string, account: Address, args: unknown[], value?: bigint) => {
+      const hash = await walletClient.writeContract({
+        address: contracts[contract],
+        abi: INDEXED_CONTRACTS[contract] as Abi,
+        functionName,
+        args,
+        account,
+        value,
+        chain: walletClient.chain,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== "success") throw new Error(`${contract}.${functionName} from ${name(account)} reverted`);
+    };
+  const trust = send("TrustContract");
+  const pool = send("LendingPool");
+  let daysTravelled = 0;
+  const travel = async (days: number) => {
+    await testClient.increaseTime({ seconds: days * ONE_DAY });
+    await testClient.mine({ blocks: 1 });
+    daysTravelled += days;
+    log(`+${days} days`);
+  };
+  const nextLoanId = () =>
+    publicClient.readContract({
+      address: contracts.LendingPool,
+      abi: INDEXED_CONTRACTS.LendingPool,
+      functionName: "nextLoanId",
+    });
+  const borrow = async (borrower: Address, amount: string, days: number) => {
+    const loanId = await nextLoanId();
+    await pool("borrow", borrower, [parseEther(amount), BigInt(days * ONE_DAY)]);
+    log(`loan #${loanId}: ${name(borrower)} borrows ${amount} ETH for ${days} days`);
+    return loanId;
+  };
+
+  await pool("addLiquidity", owner, [], liquidity);
+  log(`pool funded with ${formatEther(liquidity)} ETH`);
+
+  const verified = [alice, bob, carol, dave, erin, frank, grace, heidi];
+  for (const wallet of verified) await trust("verifySelfProof", owner, [seedNullifier(wallet), wallet]);
+  log(`${verified.map(name).join(", ")} verified, ${name(ivan)} left unverified`);
+
+  const bond = async (creator: Address, partner: Address, creatorStake: string, partnerStake?: string) => {
+    await trust("createContract", creator, [partner], parseEther(creatorStake));
+    if (partnerStake) await trust("addStake", partner, [creator], parseEther(partnerStake));
+    log(`bond ${name(creator)} <> ${name(partner)}: ${creatorStake} / ${partnerStake ?? "0"} ETH`);
+  };
+  await bond(alice, bob, "1", "1");
+  await bond(alice, carol, "0.5", "0.5");
+  await bond(bob, carol, "2", "1");
+  await bond(erin, frank, "0.2", "0.2");
+  await bond(grace, heidi, "0.1", "0.1");
+  await travel(2);
+  // Invites the partner has not accepted yet
+  await bond(dave, erin, "0.3");
+  await bond(frank, alice, "0.4");
+
+  // Bonds age so the trust scores carry a time bonus
+  await travel(30);
+  await trust("exit", frank, [erin]);
+  log("frank exits the bond with erin");
+  await trust("defect", grace, [heidi]);
+  log("grace defects on heidi");
+
+  const repaid = await borrow(alice, "1", 30);
+  const expired = await borrow(bob, "0.5", 7);
+  const liquidated = await borrow(carol, "0.3", 7);
+  await travel(10);
+
+  const repayment = await publicClient.readContract({
+    address: contracts.LendingPool,
+    abi: INDEXED_CONTRACTS.LendingPool,
+    functionName: "calculateRepaymentAmount",
+    args: [repaid],
+  });
+  // Interest keeps accruing until the repayment is mined, the pool refunds the buffer
+  await pool("repay", alice, [repaid], repayment + parseEther("0.001"));
+  log(`loan #${repaid} repaid`);
+  await pool("liquidate", owner, [liquidated]);
+  log(`loan #${liquidated} liquidated, bob's loan is left expired for the keeper`);
+
+  const active = await borrow(erin, "0.2", 30);
+
+  return {
+    wallets: Object.fromEntries(
+      WALLET_NAMES.map((walletName, i) => [walletName, wallets[i]]),
+    ) as SeedSummary["wallets"],
+    loans: { repaid, liquidated, expired, active },
+    daysTravelled,
+  };
+};
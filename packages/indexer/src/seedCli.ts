@@ -0,0 +1,54 @@
+import "dotenv/config";
+import { createPublicClient, createTestClient, createWalletClient, defineChain, formatEther, http } from "viem";
+import { foundry } from "viem/chains";
+import deployedContracts from "~~/contracts/deployedContracts";
+import { loadSeedConfig } from "./config";
+import { DEPLOYED_CONTRACTS_PATH, DeploymentsByChain, deployProtocol, writeDeployedContracts } from "./deploy";
+import { seedDevnet } from "./seed";
+
+/**
+ * `yarn seed` deploys a fresh protocol to the local anvil, fills it with verified wallets, bonds and loans, and points
+ * `deployedContracts.ts` at the new deployment. The first anvil account deploys and owns it.
+ */
+const main = async () => {
+  const config = loadSeedConfig();
+  const chain = defineChain({ ...foundry, rpcUrls: { default: { http: [config.rpcUrl] } } });
+  const transport = http(config.rpcUrl);
+  const publicClient = createPublicClient({ chain, transport });
+  const walletClient = createWalletClient({ chain, transport });
+  const testClient = createTestClient({ chain, transport, mode: "anvil" });
+
+  const chainId = await publicClient.getChainId();
+  if (chainId !== config.chainId) {
+    throw new Error(`${config.rpcUrl} serves chain ${chainId}, expected anvil (${config.chainId})`);
+  }
+  const [owner, ...wallets] = await walletClient.getAddresses();
+  if (!owner) throw new Error(`${config.rpcUrl} has no unlocked accounts, start it with \`yarn chain\``);
+
+  console.log(`Deploying to ${config.rpcUrl} as ${owner}`);
+  const contracts = await deployProtocol(publicClient, walletClient, owner);
+  console.log(`TrustContract ${contracts.TrustContract}`);
+  console.log(`TrustScore ${contracts.TrustScore}`);
+  console.log(`LendingPool ${contracts.LendingPool}`);
+
+  const summary = await seedDevnet({
+    publicClient,
+    walletClient,
+    testClient,
+    contracts,
+    owner,
+    wallets,
+    log: message => console.log(`> ${message}`),
+  });
+
+  await writeDeployedContracts(deployedContracts as unknown as DeploymentsByChain, chainId, contracts);
+  const balance = await publicClient.getBalance({ address: contracts.LendingPool });
+  console.log(`\nSeeded ${summary.daysTravelled} days of activity, the pool holds ${formatEther(balance)} ETH`);
+  console.log(`Wrote chain ${chainId} to ${DEPLOYED_CONTRACTS_PATH}`);
+  console.log("An indexer store from an earlier deployment on this chain must be deleted before `yarn indexer:start`");
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,122 @@
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  DEFAULT_SIMULATION_CONFIG,
+  STRATEGIES,
+  SWEEP_KEYS,
+  SimulationConfig,
+  SweepKey,
+  formatSweepCsv,
+  formatSweepJson,
+  runSweep,
+} from "./simulation";
+
+const DEFAULT_RUNS = 100;
+const DEFAULT_SEED = 1;
+
+const USAGE = `yarn simulate [options]
+  --runs <n>                 Monte Carlo runs per sweep point (${DEFAULT_RUNS})
+  --seed <n>                 seed of the first run (${DEFAULT_SEED})
+  --days <n>                 simulated days (${DEFAULT_SIMULATION_CONFIG.days})
+  --cooperators <n>          agents that bond, borrow and repay (${DEFAULT_SIMULATION_CONFIG.population.cooperator})
+  --defectors <n>            cooperators that defect when it pays (${DEFAULT_SIMULATION_CONFIG.population.defector})
+  --borrow-and-run <n>       agents that borrow their limit and never repay (${DEFAULT_SIMULATION_CONFIG.population.borrowAndRun})
+  --sweep <key=v1,v2,...>    repeatable, keys: ${SWEEP_KEYS.join(", ")}
+  --format <json|csv>        output format (json)
+  --out <path>               write to a file instead of stdout`;
+
+const parsePositive = (name: string, value: string, allowZero = false) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || (!allowZero && parsed === 0)) {
+    throw new Error(`--${name} must be a ${allowZero ? "non-negative" : "positive"} integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+const isSweepKey = (key: string): key is SweepKey => (SWEEP_KEYS as readonly string[]).includes(key);
+
+// `maxLtvBps=5000,8000` or `defector=0,10,20`, protocol parameters are integers in bps or wei
+const parseSweep = (specs: readonly string[]) => {
+  const sweep = new Map<SweepKey, (bigint | number)[]>();
+  for (const spec of specs) {
+    const [key, values] = spec.split("=");
+    if (!isSweepKey(key) || !values) {
+      throw new Error(`Invalid --sweep "${spec}", expected <key>=<v1>,<v2> with a key of ${SWEEP_KEYS.join(", ")}`);
+    }
+    const isStrategy = (STRATEGIES as readonly string[]).includes(key);
+    sweep.set(
+      key,
+      values.split(",").map(value => (isStrategy ? parsePositive(key, value, true) : BigInt(value))),
+    );
+  }
+  return sweep;
+};
+
+/**
+ * `yarn simulate` runs the agent-based model of the protocol economics over a parameter sweep and prints JSON or CSV.
+ * Progress goes to stderr so the output can be piped.
+ */
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      runs: { type: "string" },
+      seed: { type: "string" },
+      days: { type: "string" },
+      cooperators: { type: "string" },
+      defectors: { type: "string" },
+      "borrow-and-run": { type: "string" },
+      sweep: { type: "string", multiple: true },
+      format: { type: "string" },
+      out: { type: "string" },
+      help: { type: "boolean" },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const format = values.format ?? "json";
+  if (format !== "json" && format !== "csv") throw new Error(`--format must be json or csv, got "${format}"`);
+  const runs = values.runs ? parsePositive("runs", values.runs) : DEFAULT_RUNS;
+  const seed = values.seed ? parsePositive("seed", values.seed, true) : DEFAULT_SEED;
+  const { population } = DEFAULT_SIMULATION_CONFIG;
+  const config: SimulationConfig = {
+    ...DEFAULT_SIMULATION_CONFIG,
+    days: values.days ? parsePositive("days", values.days) : DEFAULT_SIMULATION_CONFIG.days,
+    population: {
+      cooperator: values.cooperators ? parsePositive("cooperators", values.cooperators, true) : population.cooperator,
+      defector: values.defectors ? parsePositive("defectors", values.defectors, true) : population.defector,
+      borrowAndRun: values["borrow-and-run"]
+        ? parsePositive("borrow-and-run", values["borrow-and-run"], true)
+        : population.borrowAndRun,
+    },
+  };
+  const sweep = parseSweep(values.sweep ?? []);
+
+  console.error(`Simulating ${runs} runs of ${config.days} days per sweep point, from seed ${seed}`);
+  const results = runSweep(config, sweep, runs, seed, ({ point, summary }, index, total) =>
+    console.error(
+      `[${index + 1}/${total}] ${JSON.stringify(point, (_, value) => (typeof value === "bigint" ? value.toString() : value))}` +
+        ` loss rate ${(summary.pool.lossRate.mean * 100).toFixed(2)}%,` +
+        ` defector ${summary.strategies.defector.profit.mean.toFixed(4)} ETH,` +
+        ` borrow-and-run ${summary.strategies.borrowAndRun.profit.mean.toFixed(4)} ETH,` +
+        ` cooperator ${summary.strategies.cooperator.profit.mean.toFixed(4)} ETH`,
+    ),
+  );
+
+  const output = format === "csv" ? formatSweepCsv(results) : formatSweepJson(config, results);
+  if (values.out) {
+    writeFileSync(values.out, output);
+    console.error(`Wrote ${values.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(error);
+  process.exit(1);
+}
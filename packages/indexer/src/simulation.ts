@@ -0,0 +1,545 @@
+import { formatEther } from "viem";
+import {
+  BPS_DENOMINATOR,
+  ONE_DAY,
+  ONE_YEAR,
+  PROTOCOL_PARAMETERS,
+  ProtocolParameters,
+  SettledBond,
+  accrueYield,
+  getBorrowLimitComponents,
+  getInterestRate,
+  getUserTotalValue,
+  getUserTrustScore,
+  settleDefect,
+  settleExit,
+} from "~~/utils/trust/score";
+
+export type Strategy = "cooperator" | "defector" | "borrowAndRun";
+
+export const STRATEGIES: readonly Strategy[] = ["cooperator", "defector", "borrowAndRun"];
+
+// Agents per strategy
+export type Population = Record<Strategy, number>;
+
+export type SimulationConfig = {
+  population: Population;
+  days: number;
+  // Bonds every agent opens on day 0 with random partners, so agents average twice as many
+  bondsPerAgent: number;
+  // Each side of a bond stakes a uniform random amount in this range, in wei
+  minStake: bigint;
+  maxStake: bigint;
+  poolLiquidity: bigint;
+  loanDurationDays: number;
+  // Daily chance that a cooperator or defector without a loan borrows, and the share of its limit it takes
+  borrowProbability: number;
+  borrowUtilization: number;
+  // Daily chance that a defector defects on an unfrozen bond where defecting pays more than exiting
+  defectProbability: number;
+  // Day borrow-and-run agents take their whole limit, they never repay and defect once liquidated
+  runDay: number;
+  params: ProtocolParameters;
+};
+
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  population: { cooperator: 40, defector: 10, borrowAndRun: 5 },
+  days: 180,
+  bondsPerAgent: 2,
+  minStake: 10n ** 17n,
+  maxStake: 10n ** 18n,
+  poolLiquidity: 100n * 10n ** 18n,
+  loanDurationDays: 30,
+  borrowProbability: 0.05,
+  borrowUtilization: 0.5,
+  defectProbability: 0.02,
+  runDay: 60,
+  params: PROTOCOL_PARAMETERS,
+};
+
+export type Distribution = {
+  mean: number;
+  min: number;
+  p10: number;
+  p50: number;
+  p90: number;
+  max: number;
+};
+
+export type StrategySummary = {
+  agents: number;
+  // Net ETH per agent: what it received minus what it paid, open bonds valued at their exit payout and the debt of
+  // loans it still means to repay deducted
+  profit: Distribution;
+  trustScore: Distribution;
+  // Agents per 100-point trust score bucket, keyed by the bucket's lower bound
+  scoreHistogram: Record<string, number>;
+  defectsPerAgent: number;
+  loansPerAgent: number;
+};
+
+export type PoolSummary = {
+  // Share of the principal lent that was liquidated, per run
+  lossRate: Distribution;
+  // Interest earned minus principal lost, over the initial liquidity, per run
+  netReturn: Distribution;
+  loansIssued: number;
+  loansDefaulted: number;
+  lentEth: number;
+  defaultedEth: number;
+  interestEth: number;
+  outstandingEth: number;
+};
+
+export type SimulationSummary = {
+  runs: number;
+  pool: PoolSummary;
+  strategies: Record<Strategy, StrategySummary>;
+  // Partner stakes lost to defects, summed over the runs
+  stakeLostToDefectsEth: number;
+  // Whether defectors and borrow-and-run agents end up ahead of cooperators on average
+  defectionPays: boolean;
+  borrowAndRunPays: boolean;
+};
+
+type Rng = () => number;
+
+type SimBond = SettledBond & { isFrozen: boolean };
+
+type SimLoan = {
+  amount: bigint;
+  interestRate: bigint;
+  startTime: bigint;
+  duration: bigint;
+};
+
+type Agent = {
+  id: string;
+  strategy: Strategy;
+  // Every bond the agent was part of, closed ones included, like `getUserContracts`
+  bonds: SimBond[];
+  loan?: SimLoan;
+  hasRun: boolean;
+  // Wei received minus wei paid
+  cash: bigint;
+  defects: number;
+  loans: number;
+};
+
+type RunResult = {
+  agents: Agent[];
+  now: bigint;
+  loansIssued: number;
+  loansDefaulted: number;
+  lent: bigint;
+  defaulted: bigint;
+  interest: bigint;
+  outstanding: bigint;
+  stakeLostToDefects: bigint;
+};
+
+/**
+ * mulberry32, small and seedable so that runs are reproducible
+ */
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+};
+
+const randomStake = (rng: Rng, min: bigint, max: bigint) =>
+  min + ((max - min) * BigInt(Math.floor(rng() * 1_000_000))) / 1_000_000n;
+
+const shuffle = <T>(items: readonly T[], rng: Rng) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const toBps = (fraction: number) => BigInt(Math.round(fraction * 10_000));
+
+const toEth = (wei: bigint) => Number(formatEther(wei));
+
+const percentile = (sorted: readonly number[], p: number) =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+const distribution = (values: readonly number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    mean: sorted.length === 0 ? 0 : sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    min: sorted[0] ?? 0,
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+};
+
+const bondsOf = (agent: Agent) => agent.bonds.filter(bond => bond.isActive);
+
+// `TrustContract._updateContractYield`, which `freezeAllUserContracts`, `exit` and `defect` run first
+const updateYield = (bond: SimBond, now: bigint, params: ProtocolParameters) => {
+  bond.accruedYield = accrueYield(bond, now, params);
+  bond.lastYieldUpdate = now;
+};
+
+/**
+ * One run of the agent-based model over `config.days` days. Each day agents act in random order, then the keeper
+ * liquidates the loans past their due date, as `LendingPool.liquidate` requires.
+ */
+const simulateRun = (config: SimulationConfig, rng: Rng): RunResult => {
+  const { params } = config;
+  const agents: Agent[] = STRATEGIES.flatMap(strategy =>
+    Array.from({ length: config.population[strategy] }, () => strategy),
+  ).map((strategy, i) => ({
+    id: `agent-${i}`,
+    strategy,
+    bonds: [],
+    hasRun: false,
+    cash: 0n,
+    defects: 0,
+    loans: 0,
+  }));
+  const byId = new Map(agents.map(agent => [agent.id, agent]));
+  const pool = { balance: config.poolLiquidity, lent: 0n, defaulted: 0n, interest: 0n, issued: 0, liquidated: 0 };
+  let stakeLostToDefects = 0n;
+
+  // `createContract` by the agent, then `addStake` by the partner, both on day 0
+  for (const agent of agents) {
+    for (let i = 0; i < config.bondsPerAgent && agents.length > 1; i++) {
+      const partner = agents[Math.floor(rng() * agents.length)];
+      if (partner === agent || bondsOf(agent).some(bond => bond.addr0 === partner.id || bond.addr1 === partner.id)) {
+        continue;
+      }
+      const bond: SimBond = {
+        addr0: agent.id,
+        addr1: partner.id,
+        stake0: randomStake(rng, config.minStake, config.maxStake),
+        stake1: randomStake(rng, config.minStake, config.maxStake),
+        accruedYield: 0n,
+        createdAt: 0n,
+        lastYieldUpdate: 0n,
+        isActive: true,
+        isFrozen: false,
+      };
+      agent.cash -= bond.stake0;
+      partner.cash -= bond.stake1;
+      agent.bonds.push(bond);
+      partner.bonds.push(bond);
+    }
+  }
+
+  const partnerOf = (bond: SimBond, agent: Agent) => byId.get(bond.addr0 === agent.id ? bond.addr1 : bond.addr0)!;
+
+  // `freezeAllUserContracts`: one flag per bond, so unfreezing also releases a bond the partner's loan froze
+  const freezeAll = (agent: Agent, freeze: boolean, now: bigint) => {
+    for (const bond of bondsOf(agent)) {
+      updateYield(bond, now, params);
+      bond.isFrozen = freeze;
+    }
+  };
+
+  const borrowLimit = (agent: Agent, now: bigint) =>
+    getBorrowLimitComponents(
+      getUserTrustScore(agent.bonds, now),
+      getUserTotalValue(bondsOf(agent), agent.id, now, params),
+      params,
+    ).total;
+
+  const borrow = (agent: Agent, amount: bigint, now: bigint) => {
+    // `borrow` reverts on an empty pool, the agent takes what is left instead
+    const principal = amount > pool.balance ? pool.balance : amount;
+    if (principal <= 0n) return;
+    const interestRate = getInterestRate(getUserTrustScore(agent.bonds, now));
+    freezeAll(agent, true, now);
+    agent.loan = {
+      amount: principal,
+      interestRate,
+      startTime: now,
+      duration: BigInt(config.loanDurationDays) * ONE_DAY,
+    };
+    agent.cash += principal;
+    agent.loans++;
+    pool.balance -= principal;
+    pool.lent += principal;
+    pool.issued++;
+  };
+
+  const owed = (loan: SimLoan, now: bigint) =>
+    loan.amount + (loan.amount * loan.interestRate * (now - loan.startTime)) / (ONE_YEAR * BPS_DENOMINATOR);
+
+  const repay = (agent: Agent, now: bigint) => {
+    const loan = agent.loan!;
+    const repayment = owed(loan, now);
+    agent.cash -= repayment;
+    pool.balance += repayment;
+    pool.interest += repayment - loan.amount;
+    agent.loan = undefined;
+    freezeAll(agent, false, now);
+  };
+
+  // `liquidate`: `_claimYields` pays each frozen bond's yield to both sides by stake, the pool recovers nothing
+  const liquidate = (agent: Agent, now: bigint) => {
+    for (const bond of bondsOf(agent).filter(candidate => candidate.isFrozen)) {
+      if (bond.accruedYield === 0n) continue;
+      const yield0 = (bond.accruedYield * bond.stake0) / (bond.stake0 + bond.stake1);
+      byId.get(bond.addr0)!.cash += yield0;
+      byId.get(bond.addr1)!.cash += bond.accruedYield - yield0;
+      bond.accruedYield = 0n;
+      bond.lastYieldUpdate = now;
+    }
+    pool.defaulted += agent.loan!.amount;
+    pool.liquidated++;
+    agent.loan = undefined;
+    freezeAll(agent, false, now);
+  };
+
+  const defectGain = (bond: SimBond, agent: Agent, now: bigint) =>
+    settleDefect(bond, now, params).userReceives - settleExit(bond, agent.id, now, params).userReceives;
+
+  const defect = (bond: SimBond, agent: Agent, now: bigint) => {
+    updateYield(bond, now, params);
+    const { userReceives } = settleDefect(bond, now, params);
+    agent.cash += userReceives;
+    stakeLostToDefects += bond.addr0 === agent.id ? bond.stake1 : bond.stake0;
+    bond.isActive = false;
+    agent.defects++;
+  };
+
+  const exit = (bond: SimBond, agent: Agent, now: bigint) => {
+    updateYield(bond, now, params);
+    const { userReceives, partnerReceives } = settleExit(bond, agent.id, now, params);
+    agent.cash += userReceives;
+    partnerOf(bond, agent).cash += partnerReceives;
+    bond.isActive = false;
+  };
+
+  const borrowUtilizationBps = toBps(config.borrowUtilization);
+
+  const act = (agent: Agent, now: bigint) => {
+    if (agent.strategy === "borrowAndRun") {
+      if (!agent.hasRun && now >= BigInt(config.runDay) * ONE_DAY) {
+        agent.hasRun = true;
+        borrow(agent, borrowLimit(agent, now), now);
+      } else if (agent.hasRun && !agent.loan) {
+        // Liquidated, so the bonds are unfrozen and whatever they still hold can be taken
+        for (const bond of bondsOf(agent).filter(candidate => !candidate.isFrozen)) {
+          if (defectGain(bond, agent, now) > 0n) defect(bond, agent, now);
+          else exit(bond, agent, now);
+        }
+      }
+      return;
+    }
+
+    if (agent.loan) {
+      if (now >= agent.loan.startTime + agent.loan.duration) repay(agent, now);
+    } else if (rng() < config.borrowProbability) {
+      borrow(agent, (borrowLimit(agent, now) * borrowUtilizationBps) / BPS_DENOMINATOR, now);
+    }
+
+    if (agent.strategy === "defector") {
+      for (const bond of bondsOf(agent).filter(candidate => !candidate.isFrozen)) {
+        if (rng() < config.defectProbability && defectGain(bond, agent, now) > 0n) defect(bond, agent, now);
+      }
+    }
+  };
+
+  let now = 0n;
+  for (let day = 1; day <= config.days; day++) {
+    now = BigInt(day) * ONE_DAY;
+    for (const agent of shuffle(agents, rng)) act(agent, now);
+    for (const agent of agents) {
+      if (agent.loan && now > agent.loan.startTime + agent.loan.duration) liquidate(agent, now);
+    }
+  }
+
+  // Mark to market: open bonds at their exit payout, debts of loans the agent would repay
+  for (const agent of agents) {
+    for (const bond of bondsOf(agent)) {
+      agent.cash += settleExit(bond, agent.id, now, params).userReceives;
+    }
+    if (agent.loan && agent.strategy !== "borrowAndRun") agent.cash -= owed(agent.loan, now);
+  }
+
+  return {
+    agents,
+    now,
+    loansIssued: pool.issued,
+    loansDefaulted: pool.liquidated,
+    lent: pool.lent,
+    defaulted: pool.defaulted,
+    interest: pool.interest,
+    outstanding: agents.reduce((sum, agent) => sum + (agent.loan?.amount ?? 0n), 0n),
+    stakeLostToDefects,
+  };
+};
+
+const summarizeStrategy = (strategy: Strategy, results: readonly RunResult[]): StrategySummary => {
+  const agents = results.flatMap(({ agents, now }) =>
+    agents.filter(agent => agent.strategy === strategy).map(agent => ({ agent, now })),
+  );
+  const scores = agents.map(({ agent, now }) => Number(getUserTrustScore(agent.bonds, now)));
+  const scoreHistogram: Record<string, number> = {};
+  for (const score of scores) {
+    const bucket = String(Math.floor(score / 100) * 100);
+    scoreHistogram[bucket] = (scoreHistogram[bucket] ?? 0) + 1;
+  }
+  const count = agents.length;
+  return {
+    agents: count / Math.max(results.length, 1),
+    profit: distribution(agents.map(({ agent }) => toEth(agent.cash))),
+    trustScore: distribution(scores),
+    scoreHistogram,
+    defectsPerAgent: count === 0 ? 0 : agents.reduce((sum, { agent }) => sum + agent.defects, 0) / count,
+    loansPerAgent: count === 0 ? 0 : agents.reduce((sum, { agent }) => sum + agent.loans, 0) / count,
+  };
+};
+
+/**
+ * Monte Carlo over `runs` independent runs seeded `seed`, `seed + 1`, …, so two configurations simulated with the same
+ * seed face the same random draws wherever their populations match
+ */
+export const simulate = (config: SimulationConfig, runs: number, seed: number): SimulationSummary => {
+  const results = Array.from({ length: runs }, (_, run) => simulateRun(config, createRng(seed + run)));
+  const sum = (pick: (result: RunResult) => bigint) => results.reduce((total, result) => total + pick(result), 0n);
+  const strategies = Object.fromEntries(
+    STRATEGIES.map(strategy => [strategy, summarizeStrategy(strategy, results)]),
+  ) as Record<Strategy, StrategySummary>;
+
+  return {
+    runs,
+    pool: {
+      lossRate: distribution(
+        results.map(result => (result.lent === 0n ? 0 : Number((result.defaulted * 1_000_000n) / result.lent) / 1e6)),
+      ),
+      netReturn: distribution(
+        results.map(result => toEth(result.interest - result.defaulted) / toEth(config.poolLiquidity)),
+      ),
+      loansIssued: results.reduce((total, result) => total + result.loansIssued, 0),
+      loansDefaulted: results.reduce((total, result) => total + result.loansDefaulted, 0),
+      lentEth: toEth(sum(result => result.lent)),
+      defaultedEth: toEth(sum(result => result.defaulted)),
+      interestEth: toEth(sum(result => result.interest)),
+      outstandingEth: toEth(sum(result => result.outstanding)),
+    },
+    strategies,
+    stakeLostToDefectsEth: toEth(sum(result => result.stakeLostToDefects)),
+    defectionPays:
+      config.population.defector > 0 &&
+      config.population.cooperator > 0 &&
+      strategies.defector.profit.mean > strategies.cooperator.profit.mean,
+    borrowAndRunPays:
+      config.population.borrowAndRun > 0 &&
+      config.population.cooperator > 0 &&
+      strategies.borrowAndRun.profit.mean > strategies.cooperator.profit.mean,
+  };
+};
+
+export type SweepKey = keyof ProtocolParameters | Strategy;
+
+export const SWEEP_KEYS: readonly SweepKey[] = [...(Object.keys(PROTOCOL_PARAMETERS) as SweepKey[]), ...STRATEGIES];
+
+// One value per swept key, bigints for protocol parameters and agent counts for strategies
+export type SweepPoint = Partial<Record<SweepKey, bigint | number>>;
+
+export type SweepResult = {
+  point: SweepPoint;
+  summary: SimulationSummary;
+};
+
+const isStrategy = (key: SweepKey): key is Strategy => (STRATEGIES as readonly string[]).includes(key);
+
+/**
+ * Every combination of the swept values, in the order the keys were given
+ */
+export const expandSweep = (sweep: ReadonlyMap<SweepKey, readonly (bigint | number)[]>): SweepPoint[] =>
+  Array.from(sweep.entries()).reduce<SweepPoint[]>(
+    (points, [key, values]) => points.flatMap(point => values.map(value => ({ ...point, [key]: value }))),
+    [{}],
+  );
+
+export const applySweepPoint = (config: SimulationConfig, point: SweepPoint): SimulationConfig => {
+  const population = { ...config.population };
+  const params = { ...config.params };
+  for (const [key, value] of Object.entries(point) as [SweepKey, bigint | number][]) {
+    if (isStrategy(key)) population[key] = Number(value);
+    else params[key] = BigInt(value);
+  }
+  return { ...config, population, params };
+};
+
+/**
+ * Simulates every point of the sweep with the same seeds
+ */
+export const runSweep = (
+  config: SimulationConfig,
+  sweep: ReadonlyMap<SweepKey, readonly (bigint | number)[]>,
+  runs: number,
+  seed: number,
+  onResult?: (result: SweepResult, index: number, total: number) => void,
+): SweepResult[] => {
+  const points = expandSweep(sweep);
+  return points.map((point, index) => {
+    const result = { point, summary: simulate(applySweepPoint(config, point), runs, seed) };
+    onResult?.(result, index, points.length);
+    return result;
+  });
+};
+
+const CSV_DISTRIBUTION_FIELDS = ["mean", "p10", "p50", "p90"] as const;
+
+/**
+ * One row per sweep point: the swept values, the pool's loss rate and net return, and profit and trust score per
+ * strategy. Histograms are only in the JSON output.
+ */
+export const formatSweepCsv = (results: readonly SweepResult[]) => {
+  const keys = SWEEP_KEYS.filter(key => results.some(({ point }) => key in point));
+  const header = [
+    ...keys,
+    "runs",
+    ...CSV_DISTRIBUTION_FIELDS.map(field => `pool_loss_rate_${field}`),
+    ...CSV_DISTRIBUTION_FIELDS.map(field => `pool_net_return_${field}`),
+    "loans_issued",
+    "loans_defaulted",
+    ...STRATEGIES.flatMap(strategy => [
+      ...CSV_DISTRIBUTION_FIELDS.map(field => `${strategy}_profit_eth_${field}`),
+      ...CSV_DISTRIBUTION_FIELDS.map(field => `${strategy}_trust_score_${field}`),
+      `${strategy}_defects_per_agent`,
+    ]),
+    "defection_pays",
+    "borrow_and_run_pays",
+  ];
+  const rows = results.map(({ point, summary }) => [
+    ...keys.map(key => String(point[key] ?? "")),
+    summary.runs,
+    ...CSV_DISTRIBUTION_FIELDS.map(field => summary.pool.lossRate[field]),
+    ...CSV_DISTRIBUTION_FIELDS.map(field => summary.pool.netReturn[field]),
+    summary.pool.loansIssued,
+    summary.pool.loansDefaulted,
+    ...STRATEGIES.flatMap(strategy => {
+      const { profit, trustScore, defectsPerAgent } = summary.strategies[strategy];
+      return [
+        ...CSV_DISTRIBUTION_FIELDS.map(field => profit[field]),
+        ...CSV_DISTRIBUTION_FIELDS.map(field => trustScore[field]),
+        defectsPerAgent,
+      ];
+    }),
+    summary.defectionPays,
+    summary.borrowAndRunPays,
+  ]);
+  return [header, ...rows].map(row => row.join(",")).join("\n") + "\n";
+};
+
+/**
+ * JSON with bigints as decimal strings
+ */
+export const formatSweepJson = (config: SimulationConfig, results: readonly SweepResult[]) =>
+  JSON.stringify({ config, results }, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2) + "\n";
@@ -0,0 +1,414 @@
+import Database from "better-sqlite3";
+import { Address, Hash, isAddressEqual } from "viem";
+import { calculateYield } from "~~/utils/trust/score";
+import { IndexerDatabase } from "./db";
+import { IndexedEvent, LoanTerms } from "./events";
+import { BondRow } from "./schema";
+
+const toText = (value: bigint) => value.toString();
+const addText = (current: string | null | undefined, amount: bigint) => toText(BigInt(current ?? "0") + amount);
+
+// Primary key of every table the journal can restore
+const JOURNALED_TABLES = {
+  users: "address",
+  verifications: "nullifier",
+  bonds: "id",
+  loans: "loan_id",
+} as const;
+
+type JournaledTable = keyof typeof JOURNALED_TABLES;
+
+export type BlockHash = {
+  number: bigint;
+  hash: Hash;
+};
+
+export type StoredCheckpoint = {
+  blockNumber: bigint;
+  // Undefined for stores written before the confirmation depth was tracked
+  confirmedBlock?: bigint;
+};
+
+export type BatchOptions = {
+  // Hashes of the batch's unconfirmed blocks, checked against the chain on the next sync
+  blocks: BlockHash[];
+  // Events above this block are journaled so they can be rolled back
+  confirmedBlock: bigint;
+};
+
+/**
+ * Write side of the SQLite store: applies decoded protocol events to the normalized tables and moves the checkpoint
+ * in the same transaction, so a crash mid-batch resumes from the last fully written block.
+ * Every row written for an unconfirmed block is journaled first, `rollbackTo` restores those images after a reorg.
+ */
+export const createIndexerStore = (db: IndexerDatabase, chainId: number) => {
+  const statements = {
+    getCheckpoint: db.prepare<[number], { block_number: number; confirmed_block: number | null }>(
+      "SELECT block_number, confirmed_block FROM checkpoints WHERE chain_id = ?",
+    ),
+    otherChains: db.prepare<[number], { chain_id: number }>("SELECT chain_id FROM checkpoints WHERE chain_id != ?"),
+    setCheckpoint: db.prepare(
+      `INSERT INTO checkpoints (chain_id, block_number, confirmed_block, updated_at)
+       VALUES (@chainId, @blockNumber, @confirmedBlock, @updatedAt)
+       ON CONFLICT (chain_id) DO UPDATE SET block_number = excluded.block_number,
+       confirmed_block = excluded.confirmed_block, updated_at = excluded.updated_at`,
+    ),
+    storedBlocks: db.prepare<[], { block_number: number; block_hash: Hash }>(
+      "SELECT block_number, block_hash FROM blocks ORDER BY block_number DESC",
+    ),
+    storeBlock: db.prepare("INSERT OR REPLACE INTO blocks (block_number, block_hash) VALUES (@number, @hash)"),
+    pruneBlocks: db.prepare<[number]>("DELETE FROM blocks WHERE block_number < ?"),
+    dropBlocks: db.prepare<[number]>("DELETE FROM blocks WHERE block_number > ?"),
+    insertJournal: db.prepare(
+      "INSERT INTO journal (block_number, table_name, row_key, old_row) VALUES (@block, @table, @key, @oldRow)",
+    ),
+    journalAfter: db.prepare<
+      [number],
+      { table_name: JournaledTable; row_key: string | number; old_row: string | null }
+    >("SELECT table_name, row_key, old_row FROM journal WHERE block_number > ? ORDER BY id DESC"),
+    pruneJournal: db.prepare<[number]>("DELETE FROM journal WHERE block_number <= ?"),
+    dropJournal: db.prepare<[number]>("DELETE FROM journal WHERE block_number > ?"),
+    // Rolled back bonds give their ids back, so a replay assigns the same ids as an indexer that never saw the reorg
+    resetBondIds: db.prepare(
+      "UPDATE sqlite_sequence SET seq = (SELECT IFNULL(MAX(id), 0) FROM bonds) WHERE name = 'bonds'",
+    ),
+    touchUser: db.prepare(
+      `INSERT INTO users (address, first_seen_block, last_active_block) VALUES (@address, @block, @block)
+       ON CONFLICT (address) DO UPDATE SET last_active_block = excluded.last_active_block`,
+    ),
+    verifyUser: db.prepare("UPDATE users SET nullifier = @nullifier, verified_block = @block WHERE address = @address"),
+    insertVerification: db.prepare(
+      `INSERT OR IGNORE INTO verifications (nullifier, wallet, block_number, block_timestamp, tx_hash)
+       VALUES (@nullifier, @wallet, @block, @timestamp, @tx)`,
+    ),
+    getPenalties: db.prepare<[Address], { defect_penalties: string; exit_penalties: string }>(
+      "SELECT defect_penalties, exit_penalties FROM users WHERE address = ?",
+    ),
+    setPenalties: db.prepare(
+      `UPDATE users SET defect_penalties = @defectPenalties, exit_penalties = @exitPenalties
+       WHERE address = @address`,
+    ),
+    insertBond: db.prepare(
+      `INSERT INTO bonds (contract_key, creator, partner, creator_stake, status, created_block, created_timestamp, created_tx,
+       yield_updated_timestamp)
+       VALUES (@key, @creator, @partner, @stake, 'active', @block, @timestamp, @tx, @timestamp)`,
+    ),
+    // Later events always refer to the most recent bond of a key
+    latestBond: db.prepare<[string], BondRow>("SELECT * FROM bonds WHERE contract_key = ? ORDER BY id DESC LIMIT 1"),
+    setBondStakes: db.prepare(
+      "UPDATE bonds SET creator_stake = @creatorStake, partner_stake = @partnerStake WHERE id = @id",
+    ),
+    closeBond: db.prepare(
+      `UPDATE bonds SET status = @status, closed_by = @closedBy, payout = @payout, penalty = @penalty,
+       closed_block = @block, closed_timestamp = @timestamp, is_frozen = 0 WHERE id = @id`,
+    ),
+    freezeBond: db.prepare("UPDATE bonds SET is_frozen = @frozen WHERE id = @id"),
+    setBondYield: db.prepare(
+      "UPDATE bonds SET accrued_yield = @accruedYield, yield_updated_timestamp = @timestamp WHERE id = @id",
+    ),
+    setBondYieldsClaimed: db.prepare("UPDATE bonds SET yields_claimed = @yieldsClaimed WHERE id = @id"),
+    insertLoan: db.prepare(
+      `INSERT INTO loans (loan_id, borrower, amount, interest_rate, duration, due_timestamp, is_payday_loan, status,
+       created_block, created_timestamp, created_tx)
+       VALUES (@loanId, @borrower, @amount, @interestRate, @duration, @dueTimestamp, @isPaydayLoan, 'active',
+       @block, @timestamp, @tx)`,
+    ),
+    freezeLoan: db.prepare("UPDATE loans SET contracts_frozen = @frozen WHERE loan_id = @loanId"),
+    closeLoan: db.prepare(
+      `UPDATE loans SET status = @status, repaid_amount = @repaidAmount, defaulted_amount = @defaultedAmount,
+       closed_block = @block, closed_timestamp = @timestamp WHERE loan_id = @loanId`,
+    ),
+    getLoanYieldsClaimed: db.prepare<[number], { yields_claimed: string }>(
+      "SELECT yields_claimed FROM loans WHERE loan_id = ?",
+    ),
+    setLoanYieldsClaimed: db.prepare("UPDATE loans SET yields_claimed = @yieldsClaimed WHERE loan_id = @loanId"),
+  };
+
+  const selectRow = Object.fromEntries(
+    Object.entries(JOURNALED_TABLES).map(([table, key]) => [
+      table,
+      db.prepare<[string | number], Record<string, unknown>>(`SELECT * FROM ${table} WHERE ${key} = ?`),
+    ]),
+  ) as Record<JournaledTable, Database.Statement<[string | number], Record<string, unknown>>>;
+
+  // Block of the event being applied while it is unconfirmed, undefined once it can no longer be reorged
+  let journalBlock: number | undefined;
+
+  const journal = (table: JournaledTable, key: string | number, isInsert = false) => {
+    if (journalBlock === undefined) return;
+    const oldRow = isInsert ? undefined : selectRow[table].get(key);
+    statements.insertJournal.run({
+      block: journalBlock,
+      table,
+      key,
+      oldRow: oldRow ? JSON.stringify(oldRow) : null,
+    });
+  };
+
+  const requireBond = (key: string) => {
+    const bond = statements.latestBond.get(key);
+    if (!bond) throw new Error(`Event for unknown bond ${key}, was the store started after the deployment block?`);
+    return bond;
+  };
+
+  const touchUser = (address: Address, block: number) => {
+    journal("users", address);
+    statements.touchUser.run({ address, block });
+  };
+
+  const addPenalty = (address: Address, block: number, kind: "defect" | "exit", penalty: bigint) => {
+    touchUser(address, block);
+    journal("users", address);
+    const current = statements.getPenalties.get(address);
+    statements.setPenalties.run({
+      address,
+      defectPenalties: kind === "defect" ? addText(current?.defect_penalties, penalty) : current?.defect_penalties,
+      exitPenalties: kind === "exit" ? addText(current?.exit_penalties, penalty) : current?.exit_penalties,
+    });
+  };
+
+  // `TrustContract._updateContractYield`, which runs with the old stakes before `StakeAdded` and `ContractFrozen`
+  const accrueBondYield = (bond: BondRow, timestamp: number) => {
+    const elapsed = BigInt(Math.max(0, timestamp - bond.yield_updated_timestamp));
+    const stake = BigInt(bond.creator_stake) + BigInt(bond.partner_stake);
+    statements.setBondYield.run({
+      id: bond.id,
+      accruedYield: addText(bond.accrued_yield, calculateYield(stake, elapsed)),
+      timestamp,
+    });
+  };
+
+  const applyEvent = (event: IndexedEvent, loanTerms: Map<bigint, LoanTerms>) => {
+    const block = Number(event.blockNumber);
+    const timestamp = Number(event.blockTimestamp);
+    const tx = event.transactionHash;
+
+    if (event.contract === "TrustContract") {
+      const { log } = event;
+      switch (log.eventName) {
+        case "UserVerifiedWithSelf":
+          touchUser(log.args.wallet, block);
+          journal("users", log.args.wallet);
+          statements.verifyUser.run({ address: log.args.wallet, nullifier: log.args.nullifier, block });
+          journal("verifications", log.args.nullifier);
+          statements.insertVerification.run({
+            nullifier: log.args.nullifier,
+            wallet: log.args.wallet,
+            block,
+            timestamp,
+            tx,
+          });
+          break;
+        case "ContractCreated": {
+          touchUser(log.args.creator, block);
+          touchUser(log.args.partner, block);
+          const { lastInsertRowid } = statements.insertBond.run({
+            key: log.args.contractKey,
+            creator: log.args.creator,
+            partner: log.args.partner,
+            stake: toText(log.args.amount),
+            block,
+            timestamp,
+            tx,
+          });
+          journal("bonds", Number(lastInsertRowid), true);
+          break;
+        }
+        case "StakeAdded": {
+          touchUser(log.args.user, block);
+          const bond = requireBond(log.args.contractKey);
+          const isCreator = isAddressEqual(bond.creator, log.args.user);
+          journal("bonds", bond.id);
+          accrueBondYield(bond, timestamp);
+          statements.setBondStakes.run({
+            id: bond.id,
+            creatorStake: isCreator ? addText(bond.creator_stake, log.args.amount) : bond.creator_stake,
+            partnerStake: isCreator ? bond.partner_stake : addText(bond.partner_stake, log.args.amount),
+          });
+          break;
+        }
+        case "ContractExited":
+        case "ContractDefected": {
+          const closedBy = log.eventName === "ContractExited" ? log.args.exiter : log.args.defector;
+          touchUser(closedBy, block);
+          const bond = requireBond(log.args.contractKey);
+          journal("bonds", bond.id);
+          statements.closeBond.run({
+            id: bond.id,
+            status: log.eventName === "ContractExited" ? "exited" : "defected",
+            closedBy,
+            payout: toText(log.args.amount),
+            penalty: toText(log.args.penalty),
+            block,
+            timestamp,
+          });
+          break;
+        }
+        case "ContractFrozen": {
+          const bond = requireBond(log.args.contractKey);
+          journal("bonds", bond.id);
+          accrueBondYield(bond, timestamp);
+          statements.freezeBond.run({ id: bond.id, frozen: log.args.frozen ? 1 : 0 });
+          break;
+        }
+        case "YieldsClaimed": {
+          const bond = requireBond(log.args.contractKey);
+          journal("bonds", bond.id);
+          statements.setBondYieldsClaimed.run({
+            id: bond.id,
+            yieldsClaimed: addText(bond.yields_claimed, log.args.amount),
+          });
+          // `_claimYields` pays out the stored yield and restarts the accrual
+          statements.setBondYield.run({ id: bond.id, accruedYield: "0", timestamp });
+          break;
+        }
+      }
+      return;
+    }
+
+    if (event.contract === "LendingPool") {
+      const { log } = event;
+      switch (log.eventName) {
+        case "LoanCreated": {
+          const terms = loanTerms.get(log.args.loanId);
+          if (!terms) throw new Error(`Missing terms of loan ${log.args.loanId}`);
+          touchUser(log.args.borrower, block);
+          journal("loans", Number(log.args.loanId), true);
+          statements.insertLoan.run({
+            loanId: Number(log.args.loanId),
+            borrower: log.args.borrower,
+            amount: toText(log.args.amount),
+            interestRate: Number(log.args.interestRate),
+            duration: Number(terms.duration),
+            dueTimestamp: Number(terms.startTime + terms.duration),
+            isPaydayLoan: log.args.isPaydayLoan ? 1 : 0,
+            block,
+            timestamp,
+            tx,
+          });
+          break;
+        }
+        case "AllContractsFrozen":
+          journal("loans", Number(log.args.loanId));
+          statements.freezeLoan.run({ loanId: Number(log.args.loanId), frozen: log.args.frozen ? 1 : 0 });
+          break;
+        case "LoanRepaid":
+        case "LoanDefaulted":
+          journal("loans", Number(log.args.loanId));
+          statements.closeLoan.run({
+            loanId: Number(log.args.loanId),
+            status: log.eventName === "LoanRepaid" ? "repaid" : "defaulted",
+            repaidAmount: log.eventName === "LoanRepaid" ? toText(log.args.amount) : null,
+            defaultedAmount: log.eventName === "LoanDefaulted" ? toText(log.args.amount) : null,
+            block,
+            timestamp,
+          });
+          break;
+        case "YieldsClaimed": {
+          const loanId = Number(log.args.loanId);
+          const current = statements.getLoanYieldsClaimed.get(loanId);
+          journal("loans", loanId);
+          statements.setLoanYieldsClaimed.run({
+            loanId,
+            yieldsClaimed: addText(current?.yields_claimed, log.args.totalYields),
+          });
+          break;
+        }
+      }
+      return;
+    }
+
+    const { log } = event;
+    switch (log.eventName) {
+      case "DefectPenaltyApplied":
+        addPenalty(log.args.user, block, "defect", log.args.penalty);
+        break;
+      case "ExitPenaltyApplied":
+        addPenalty(log.args.user, block, "exit", log.args.penalty);
+        break;
+    }
+  };
+
+  const setCheckpoint = (blockNumber: bigint, confirmedBlock: bigint | undefined) =>
+    statements.setCheckpoint.run({
+      chainId,
+      blockNumber: Number(blockNumber),
+      confirmedBlock: confirmedBlock !== undefined ? Number(confirmedBlock) : null,
+      updatedAt: Date.now(),
+    });
+
+  const applyBatch = db.transaction(
+    (events: IndexedEvent[], loanTerms: Map<bigint, LoanTerms>, toBlock: bigint, options: BatchOptions) => {
+      for (const block of options.blocks) statements.storeBlock.run({ number: Number(block.number), hash: block.hash });
+      for (const event of events) {
+        journalBlock = event.blockNumber > options.confirmedBlock ? Number(event.blockNumber) : undefined;
+        applyEvent(event, loanTerms);
+      }
+      journalBlock = undefined;
+
+      // Confirmed blocks can no longer be rolled back, the confirmed block's hash stays as the reorg anchor
+      const confirmedBlock = options.confirmedBlock < toBlock ? options.confirmedBlock : toBlock;
+      statements.pruneJournal.run(Number(confirmedBlock));
+      statements.pruneBlocks.run(Number(confirmedBlock));
+      setCheckpoint(toBlock, confirmedBlock);
+    },
+  );
+
+  const rollbackTo = db.transaction((ancestor: bigint) => {
+    const entries = statements.journalAfter.all(Number(ancestor));
+    for (const entry of entries) {
+      const table = entry.table_name;
+      if (entry.old_row === null) {
+        db.prepare(`DELETE FROM ${table} WHERE ${JOURNALED_TABLES[table]} = ?`).run(entry.row_key);
+        continue;
+      }
+      const row = JSON.parse(entry.old_row) as Record<string, unknown>;
+      const columns = Object.keys(row);
+      db.prepare(
+        `INSERT OR REPLACE INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(column => `@${column}`).join(", ")})`,
+      ).run(row);
+    }
+
+    statements.dropJournal.run(Number(ancestor));
+    statements.dropBlocks.run(Number(ancestor));
+    statements.resetBondIds.run();
+    const confirmedBlock = statements.getCheckpoint.get(chainId)?.confirmed_block;
+    setCheckpoint(
+      ancestor,
+      confirmedBlock != null && BigInt(confirmedBlock) < ancestor ? BigInt(confirmedBlock) : ancestor,
+    );
+    return entries.length;
+  });
+
+  return {
+    /**
+     * Last block whose events are fully written and the confirmed block at that time, undefined for a fresh store
+     */
+    getCheckpoint: (): StoredCheckpoint | undefined => {
+      const otherChain = statements.otherChains.get(chainId);
+      if (otherChain) {
+        throw new Error(`Store holds chain ${otherChain.chain_id}, use a separate INDEXER_DB_PATH per chain`);
+      }
+      const row = statements.getCheckpoint.get(chainId);
+      if (!row) return undefined;
+      return {
+        blockNumber: BigInt(row.block_number),
+        confirmedBlock: row.confirmed_block !== null ? BigInt(row.confirmed_block) : undefined,
+      };
+    },
+    /**
+     * Stored hashes of the unconfirmed window, newest first
+     */
+    getBlockHashes: (): BlockHash[] =>
+      statements.storedBlocks.all().map(row => ({ number: BigInt(row.block_number), hash: row.block_hash })),
+    applyBatch: (events: IndexedEvent[], loanTerms: Map<bigint, LoanTerms>, toBlock: bigint, options: BatchOptions) =>
+      applyBatch(events, loanTerms, toBlock, options),
+    /**
+     * Restores every journaled row written after `ancestor` and moves the checkpoint back to it.
+     * Returns the number of undone writes.
+     */
+    rollbackTo: (ancestor: bigint) => rollbackTo(ancestor),
+  };
+};
+
+export type IndexerStore = ReturnType<typeof createIndexerStore>;
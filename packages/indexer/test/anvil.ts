@@ -0,0 +1,109 @@
+import { ChildProcess, spawn } from "node:child_process";
+import {
+  Abi,
+  Address,
+  PublicClient,
+  createPublicClient,
+  createTestClient,
+  createWalletClient,
+  defineChain,
+  http,
+  parseEther,
+} from "viem";
+import { foundry } from "viem/chains";
+import { INDEXED_CONTRACTS, IndexedContractName, IndexedContracts } from "../src/contracts";
+import { deployProtocol as deployContracts } from "../src/deploy";
+
+/**
+ * Starts a throwaway anvil on `port` and resolves once it answers RPC calls
+ */
+export const startAnvil = async (port: number) => {
+  const process: ChildProcess = spawn("anvil", ["--port", String(port), "--silent"], { stdio: "ignore" });
+  const chain = defineChain({ ...foundry, rpcUrls: { default: { http: [`http://127.0.0.1:${port}`] } } });
+  const transport = http(chain.rpcUrls.default.http[0], { retryCount: 0 });
+  const publicClient = createPublicClient({ chain, transport });
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await publicClient.getChainId();
+      break;
+    } catch (error) {
+      if (attempt === 100) {
+        process.kill();
+        throw new Error(`anvil did not start on port ${port}: ${error}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+
+  const walletClient = createWalletClient({ chain, transport });
+  const [deployer, ...users] = await walletClient.getAddresses();
+
+  return {
+    chain,
+    publicClient,
+    walletClient,
+    testClient: createTestClient({ chain, transport, mode: "anvil" }),
+    deployer,
+    users,
+    stop: () => process.kill(),
+  };
+};
+
+export type Anvil = Awaited<ReturnType<typeof startAnvil>>;
+
+/**
+ * Deploys the protocol like `DeployTrustProtocol.s.sol` and funds the pool with 100 ETH
+ */
+export const deployProtocol = async (anvil: Anvil): Promise<IndexedContracts> => {
+  const contracts = await deployContracts(anvil.publicClient as PublicClient, anvil.walletClient, anvil.deployer);
+  await sendAndWait(anvil.publicClient, anvil.walletClient, {
+    address: contracts.LendingPool,
+    abi: INDEXED_CONTRACTS.LendingPool,
+    functionName: "addLiquidity",
+    value: parseEther("100"),
+    account: anvil.deployer,
+  });
+  // Tests index from genesis, their batch boundaries count blocks from 0
+  return { ...contracts, deployedOnBlock: 0n };
+};
+
+// Loosely typed so tests can drive any function by name, anvil signs for its unlocked accounts
+export type ContractCall = {
+  address: Address;
+  abi: Abi;
+  functionName: string;
+  args?: readonly unknown[];
+  account: Address;
+  value?: bigint;
+};
+
+export const sendAndWait = async (
+  publicClient: Anvil["publicClient"],
+  walletClient: Anvil["walletClient"],
+  request: ContractCall,
+) => {
+  const hash = await walletClient.writeContract(request as Parameters<Anvil["walletClient"]["writeContract"]>[0]);
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") throw new Error(`${request.functionName} reverted`);
+  return receipt;
+};
+
+/**
+ * Sends TrustContract and LendingPool calls from anvil's unlocked accounts and waits for them to succeed
+ */
+export const protocolWriter = (anvil: Anvil, contracts: IndexedContracts) => {
+  const send =
+    (name: IndexedContractName) => (functionName: string, account: Address, args: unknown[], value?: bigint) =>
+      sendAndWait(anvil.publicClient, anvil.walletClient, {
+        address: contracts[name],
+        abi: INDEXED_CONTRACTS[name] as Abi,
+        functionName,
+        args,
+        account,
+        value,
+      });
+  return { trust: send("TrustContract"), pool: send("LendingPool") };
+};
+
+export type ProtocolWriter = ReturnType<typeof protocolWriter>;
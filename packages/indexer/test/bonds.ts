@@ -0,0 +1,72 @@
+import { Address, Hash, encodePacked, getAddress, keccak256, parseEther } from "viem";
+import type { BondRow, LoanRow } from "../src/schema";
+
+// Clock of the pure graph tests, bonds default to a month old
+export const NOW = 1_750_000_000;
+export const DAY = 86_400;
+
+export const wallet = (index: number): Address => getAddress(`0x${(0xa000 + index).toString(16).padStart(40, "0")}`);
+
+// `TrustContract.getContractKey`: the pair sorted, so a re-bond of the same pair reuses the key
+const contractKey = (a: Address, b: Address) =>
+  keccak256(encodePacked(["address", "address"], a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a]));
+
+const txHash = (id: number): Hash => `0x${id.toString(16).padStart(64, "0")}`;
+
+/**
+ * An indexed bond row, both sides staked 1 ETH unless overridden
+ */
+export const bondRow = (id: number, creator: Address, partner: Address, overrides: Partial<BondRow> = {}): BondRow => {
+  const createdTimestamp = overrides.created_timestamp ?? NOW - 30 * DAY;
+  return {
+    id,
+    contract_key: contractKey(creator, partner),
+    creator,
+    partner,
+    creator_stake: parseEther("1").toString(),
+    partner_stake: parseEther("1").toString(),
+    status: "active",
+    is_frozen: 0,
+    yields_claimed: "0",
+    created_block: id,
+    created_timestamp: createdTimestamp,
+    created_tx: txHash(id),
+    closed_by: null,
+    payout: null,
+    penalty: null,
+    closed_block: null,
+    closed_timestamp: null,
+    accrued_yield: "0",
+    yield_updated_timestamp: createdTimestamp,
+    ...overrides,
+  };
+};
+
+/**
+ * An active loan row taken `NOW` for 30 days
+ */
+export const loanRow = (
+  loanId: number,
+  borrower: Address,
+  amount: bigint,
+  overrides: Partial<LoanRow> = {},
+): LoanRow => ({
+  loan_id: loanId,
+  borrower,
+  amount: amount.toString(),
+  interest_rate: 500,
+  duration: 30 * DAY,
+  due_timestamp: NOW + 30 * DAY,
+  is_payday_loan: 0,
+  status: "active",
+  contracts_frozen: 1,
+  repaid_amount: null,
+  defaulted_amount: null,
+  yields_claimed: "0",
+  created_block: 1_000 + loanId,
+  created_timestamp: NOW,
+  created_tx: txHash(1_000 + loanId),
+  closed_block: null,
+  closed_timestamp: null,
+  ...overrides,
+});
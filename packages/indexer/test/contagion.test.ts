@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseEther } from "viem";
+import { analyzeDefaultContagion } from "~~/utils/trust/contagion";
+import { buildTrustGraph } from "~~/utils/trust/graph";
+import { calculateYield, getBorrowLimitComponents } from "~~/utils/trust/score";
+import { BondRow, LoanRow } from "../src/schema";
+import { DAY, NOW, bondRow, loanRow, wallet } from "./bonds";
+
+const [alice, bob, carol, dave, erin] = Array.from({ length: 5 }, (_, index) => wallet(index));
+const STORED_AT_FREEZE = parseEther("0.01");
+const TWO_ETH = parseEther("2");
+
+// alice borrowed 10 days ago, which froze her bond with bob and stored its yield; bob's own loan froze his bond with
+// carol 5 days ago. dave has an unfrozen bond with erin and no loan.
+const BONDS: BondRow[] = [
+  bondRow(1, alice, bob, {
+    is_frozen: 1,
+    accrued_yield: STORED_AT_FREEZE.toString(),
+    yield_updated_timestamp: NOW - 10 * DAY,
+  }),
+  bondRow(2, bob, carol, { is_frozen: 1, yield_updated_timestamp: NOW - 5 * DAY }),
+  bondRow(3, dave, erin, { accrued_yield: parseEther("0.002").toString(), yield_updated_timestamp: NOW - 20 * DAY }),
+];
+
+const analyze = (loans: LoanRow[], defaulters = [alice]) =>
+  analyzeDefaultContagion(buildTrustGraph(BONDS, [], BigInt(NOW)), loans, defaulters, BigInt(NOW));
+
+const sinceDays = (days: number) => calculateYield(TWO_ETH, BigInt(days * DAY));
+
+describe("default contagion", () => {
+  it("pays out the yield stored at the freeze and takes the yield since off the partner's collateral", () => {
+    const report = analyze([loanRow(1, alice, parseEther("1"))]);
+
+    assert.deepEqual(report.bonds, [
+      {
+        bondId: 1,
+        defaulter: alice,
+        counterparty: bob,
+        stake: TWO_ETH,
+        counterpartyStake: parseEther("1"),
+        yieldPaidOut: STORED_AT_FREEZE,
+        counterpartyPayout: STORED_AT_FREEZE / 2n,
+        projectedYield: sinceDays(10),
+      },
+    ]);
+    assert.equal(report.totalYieldPaidOut, STORED_AT_FREEZE);
+
+    // getUserTotalValue: each open bond counts the own stake plus half its yield since the last accrual
+    const [impact] = report.counterparties;
+    const bobNode = buildTrustGraph(BONDS, [], BigInt(NOW)).nodes.find(node => node.address === bob)!;
+    const totalValue = parseEther("2") + sinceDays(10) / 2n + sinceDays(5) / 2n;
+    assert.equal(impact.address, bob);
+    assert.equal(impact.yieldRemoved, sinceDays(10));
+    assert.equal(impact.payoutReceived, STORED_AT_FREEZE / 2n);
+    assert.equal(impact.limitBefore, getBorrowLimitComponents(bobNode.trustScore, totalValue).total);
+    assert.equal(
+      impact.limitAfter,
+      getBorrowLimitComponents(bobNode.trustScore, totalValue - sinceDays(10) / 2n).total,
+    );
+    assert.equal(impact.exceedsLimit, false);
+  });
+
+  it("cascades to second-degree partners once a partner's loan no longer fits its limit", () => {
+    const [bobBefore] = analyze([loanRow(1, alice, parseEther("1"))]).counterparties;
+    assert.deepEqual(
+      analyze([loanRow(1, alice, parseEther("1")), loanRow(2, bob, bobBefore.limitAfter)]).cascadingDefaulters,
+      [],
+    );
+
+    const report = analyze([loanRow(1, alice, parseEther("1")), loanRow(2, bob, bobBefore.limitAfter + 1n)]);
+    assert.deepEqual(report.cascadingDefaulters, [bob]);
+    assert.deepEqual(
+      report.affectedLoans.map(loan => [loan.loanId, loan.exceedsLimit]),
+      [[2, true]],
+    );
+
+    const [, carolImpact] = report.counterparties;
+    assert.equal(carolImpact.address, carol);
+    assert.equal(carolImpact.degree, 2);
+    assert.deepEqual(carolImpact.via, [bob]);
+    // bob's bond with carol stored nothing when it froze, only the yield since is lost
+    assert.equal(carolImpact.payoutReceived, 0n);
+    assert.equal(carolImpact.yieldRemoved, sinceDays(5));
+    assert.ok(carolImpact.limitAfter < carolImpact.limitBefore);
+  });
+
+  it("assumes a wallet without a loan freezes every open bond first, storing their yield", () => {
+    const report = analyze([], [dave]);
+
+    assert.deepEqual(report.defaultedLoans, []);
+    const [bond] = report.bonds;
+    assert.equal(bond.counterparty, erin);
+    assert.equal(bond.projectedYield, sinceDays(20));
+    assert.equal(bond.yieldPaidOut, parseEther("0.002") + sinceDays(20));
+    assert.equal(report.counterparties[0].yieldRemoved, sinceDays(20));
+  });
+});
@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { parseEther } from "viem";
+import { buildTrustGraph } from "~~/utils/trust/graph";
+import { getUserTrustScore } from "~~/utils/trust/score";
+import { DAY, NOW, bondRow, wallet } from "./bonds";
+
+const [alice, bob, carol] = Array.from({ length: 3 }, (_, index) => wallet(index));
+
+const exited = (closedTimestamp: number) => ({
+  status: "exited" as const,
+  closed_by: alice,
+  closed_timestamp: closedTimestamp,
+  closed_block: closedTimestamp,
+});
+
+const scoreOf = (graph: ReturnType<typeof buildTrustGraph>, address: string) =>
+  graph.nodes.find(node => node.address === address)?.trustScore;
+
+describe("trust graph", () => {
+  it("scores every bond of a re-bonded pair with the state of its latest bond", () => {
+    const bonds = [
+      bondRow(1, alice, bob, { created_timestamp: NOW - 60 * DAY, ...exited(NOW - 40 * DAY) }),
+      bondRow(2, bob, alice, { created_timestamp: NOW - 16 * DAY }),
+      bondRow(3, alice, carol, { created_timestamp: NOW - 9 * DAY }),
+    ];
+    assert.equal(bonds[0].contract_key, bonds[1].contract_key);
+
+    const graph = buildTrustGraph(bonds, [], BigInt(NOW));
+
+    // getUserContracts lists the key twice and both entries read the re-bond: active, 16 days old
+    const rebond = { createdAt: NOW - 16 * DAY, isActive: true };
+    const expectedBob = getUserTrustScore([rebond, rebond], BigInt(NOW));
+    assert.equal(expectedBob, 208n);
+    assert.equal(scoreOf(graph, bob), expectedBob);
+    assert.equal(
+      scoreOf(graph, alice),
+      getUserTrustScore([rebond, rebond, { createdAt: NOW - 9 * DAY, isActive: true }], BigInt(NOW)),
+    );
+    assert.equal(scoreOf(graph, carol), 103n);
+
+    // The edges themselves keep their own row's state
+    assert.deepEqual(
+      graph.edges.map(edge => [edge.id, edge.state, edge.ageDays]),
+      [
+        [1, "exited", 20],
+        [2, "active", 16],
+        [3, "active", 9],
+      ],
+    );
+    const bobNode = graph.nodes.find(node => node.address === bob)!;
+    assert.equal(bobNode.bondCount, 2);
+    assert.equal(bobNode.activeBondCount, 1);
+    assert.equal(bobNode.activeStake, parseEther("1"));
+  });
+
+  it("drops the time bonus of every bond of a pair once its latest bond closes", () => {
+    const graph = buildTrustGraph(
+      [
+        bondRow(1, alice, bob, { created_timestamp: NOW - 60 * DAY, ...exited(NOW - 40 * DAY) }),
+        bondRow(2, alice, bob, { created_timestamp: NOW - 16 * DAY, ...exited(NOW - DAY) }),
+      ],
+      [],
+      BigInt(NOW),
+    );
+
+    assert.equal(scoreOf(graph, alice), 200n);
+    assert.equal(scoreOf(graph, bob), 200n);
+  });
+});
@@ -0,0 +1,150 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { Address, Hex, PublicClient, keccak256, parseEther, toHex } from "viem";
+import { INDEXED_CONTRACTS, IndexedContracts } from "../src/contracts";
+import { openIndexerDatabase } from "../src/db";
+import { createIndexer } from "../src/indexer";
+import { getProtocolTotals, getUser, listBonds, listLoans, listVerifications } from "../src/queries";
+import { Anvil, ProtocolWriter, deployProtocol, protocolWriter, startAnvil } from "./anvil";
+
+const ONE_DAY = 86_400;
+
+describe("indexer against anvil", () => {
+  let anvil: Anvil;
+  let contracts: IndexedContracts;
+  let dir: string;
+  let alice: Address, bob: Address, carol: Address;
+  let trust: ProtocolWriter["trust"], pool: ProtocolWriter["pool"];
+
+  const readBond = (contractKey: Hex) =>
+    anvil.publicClient.readContract({
+      address: contracts.TrustContract,
+      abi: INDEXED_CONTRACTS.TrustContract,
+      functionName: "getContract",
+      args: [contractKey],
+    });
+
+  const indexerFor = (dbPath: string, client: PublicClient = anvil.publicClient as PublicClient, batchSize = 3n) => {
+    const db = openIndexerDatabase(dbPath);
+    const indexer = createIndexer({
+      client,
+      db,
+      chainId: anvil.chain.id,
+      contracts,
+      confirmations: 5n,
+      batchSize,
+      pollIntervalMs: 10,
+      log: () => undefined,
+    });
+    return { db, indexer };
+  };
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), "indexer-"));
+    anvil = await startAnvil(8600 + Math.floor(Math.random() * 300));
+    contracts = await deployProtocol(anvil);
+    ({ trust, pool } = protocolWriter(anvil, contracts));
+    [alice, bob, carol] = anvil.users;
+
+    for (const [index, wallet] of [alice, bob, carol].entries()) {
+      await trust("verifySelfProof", anvil.deployer, [keccak256(toHex(`nullifier-${index}`)), wallet]);
+    }
+    await trust("createContract", alice, [bob], parseEther("1"));
+    await trust("addStake", bob, [alice], parseEther("2"));
+    await trust("createContract", alice, [carol], parseEther("1"));
+    await trust("defect", carol, [alice]);
+    // The bond earns some yield before the borrow freezes it
+    await anvil.testClient.increaseTime({ seconds: 60 });
+    await pool("borrow", alice, [parseEther("0.5"), BigInt(ONE_DAY)]);
+  });
+
+  after(() => {
+    anvil?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("writes bonds, loans, users and verifications", async () => {
+    const { db, indexer } = indexerFor(join(dir, "full.db"));
+    const head = await indexer.syncToHead();
+
+    assert.equal(indexer.getCheckpoint(), head);
+    assert.equal(listVerifications(db).length, 3);
+    assert.ok(getUser(db, alice)?.nullifier);
+
+    const [aliceCarol, aliceBob] = listBonds(db, { address: alice });
+    assert.equal(aliceBob.status, "active");
+    assert.equal(aliceBob.creator_stake, parseEther("1").toString());
+    assert.equal(aliceBob.partner_stake, parseEther("2").toString());
+    assert.equal(aliceBob.is_frozen, 1);
+    // addStake and the freeze accrued the yield, as on-chain
+    const onChain = await readBond(aliceBob.contract_key);
+    assert.ok(onChain.accruedYield > 0n);
+    assert.equal(aliceBob.accrued_yield, onChain.accruedYield.toString());
+    assert.equal(aliceBob.yield_updated_timestamp, onChain.lastYieldUpdate);
+    assert.equal(aliceCarol.status, "defected");
+    assert.equal(aliceCarol.closed_by, carol);
+
+    const [loan] = listLoans(db, { borrower: alice });
+    assert.equal(loan.status, "active");
+    assert.equal(loan.amount, parseEther("0.5").toString());
+    assert.equal(loan.due_timestamp, loan.created_timestamp + ONE_DAY);
+    assert.equal(loan.contracts_frozen, 1);
+
+    // Liquidating the expired loan is picked up by the next sync
+    await anvil.testClient.increaseTime({ seconds: 2 * ONE_DAY });
+    await anvil.testClient.mine({ blocks: 1 });
+    await pool("liquidate", anvil.deployer, [BigInt(loan.loan_id)]);
+    await indexer.syncToHead();
+
+    const [liquidated] = listLoans(db, { borrower: alice });
+    assert.equal(liquidated.status, "defaulted");
+    assert.equal(liquidated.contracts_frozen, 0);
+    const [unfrozen] = listBonds(db, { address: alice, status: "active" });
+    assert.equal(unfrozen.is_frozen, 0);
+    // The claim paid out the yield stored at the freeze and restarted the accrual
+    assert.equal(unfrozen.yields_claimed, onChain.accruedYield.toString());
+    assert.equal(unfrozen.accrued_yield, "0");
+    assert.equal(unfrozen.yield_updated_timestamp, liquidated.closed_timestamp);
+
+    const totals = getProtocolTotals(db);
+    assert.equal(totals.activeBonds, 1);
+    assert.equal(totals.defectedBonds, 1);
+    assert.equal(totals.totalValueLocked, parseEther("3").toString());
+    assert.equal(totals.defaultedLoans, 1);
+    assert.equal(totals.verifiedUsers, 3);
+    db.close();
+  });
+
+  it("resumes from the checkpoint after a failed batch", async () => {
+    const dbPath = join(dir, "resume.db");
+    let getLogsCalls = 0;
+    const flakyClient = {
+      ...anvil.publicClient,
+      getLogs: (async (...args: Parameters<PublicClient["getLogs"]>) => {
+        if (++getLogsCalls === 3) throw new Error("RPC unavailable");
+        return anvil.publicClient.getLogs(...args);
+      }) as PublicClient["getLogs"],
+    } as PublicClient;
+
+    const first = indexerFor(dbPath, flakyClient, 2n);
+    await assert.rejects(first.indexer.syncToHead(), /RPC unavailable/);
+    // Two batches of two blocks were written before the failure
+    assert.equal(first.indexer.getCheckpoint(), 3n);
+    first.db.close();
+
+    const resumed = indexerFor(dbPath, flakyClient, 2n);
+    const head = await resumed.indexer.syncToHead();
+    assert.equal(resumed.indexer.getCheckpoint(), head);
+
+    const reference = indexerFor(join(dir, "reference.db"));
+    await reference.indexer.syncToHead();
+    assert.deepEqual(listBonds(resumed.db), listBonds(reference.db));
+    assert.deepEqual(listLoans(resumed.db), listLoans(reference.db));
+    assert.deepEqual(getProtocolTotals(resumed.db), getProtocolTotals(reference.db));
+    resumed.db.close();
+    reference.db.close();
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { Address, PublicClient, WalletClient, keccak256, parseEther, toHex } from "viem";
+import { INDEXED_CONTRACTS, IndexedContracts } from "../src/contracts";
+import { createKeeper } from "../src/keeper";
+import { Anvil, ProtocolWriter, deployProtocol, protocolWriter, startAnvil } from "./anvil";
+
+const ONE_DAY = 86_400n;
+
+describe("liquidation keeper against anvil", () => {
+  let anvil: Anvil;
+  let contracts: IndexedContracts;
+  let alice: Address, bob: Address, carol: Address;
+  let trust: ProtocolWriter["trust"], pool: ProtocolWriter["pool"];
+
+  const keeperFor = (dryRun: boolean, logs: string[] = []) =>
+    createKeeper({
+      publicClient: anvil.publicClient as PublicClient,
+      walletClient: anvil.walletClient as WalletClient,
+      account: dryRun ? undefined : anvil.deployer,
+      contracts,
+      dryRun,
+      maxAttempts: 3,
+      retryDelayMs: 10,
+      pollIntervalMs: 10,
+      log: message => logs.push(message),
+    });
+
+  const readLoan = (loanId: bigint) =>
+    anvil.publicClient.readContract({
+      address: contracts.LendingPool,
+      abi: INDEXED_CONTRACTS.LendingPool,
+      functionName: "getLoan",
+      args: [loanId],
+    });
+
+  const travel = async (seconds: bigint) => {
+    await anvil.testClient.increaseTime({ seconds: Number(seconds) });
+    await anvil.testClient.mine({ blocks: 1 });
+  };
+
+  before(async () => {
+    anvil = await startAnvil(9200 + Math.floor(Math.random() * 300));
+    contracts = await deployProtocol(anvil);
+    ({ trust, pool } = protocolWriter(anvil, contracts));
+    [alice, bob, carol] = anvil.users;
+
+    for (const wallet of [alice, bob, carol]) {
+      await trust("verifySelfProof", anvil.deployer, [keccak256(toHex(wallet)), wallet]);
+    }
+    await trust("createContract", alice, [bob], parseEther("2"));
+    await trust("addStake", bob, [alice], parseEther("2"));
+    await trust("createContract", carol, [bob], parseEther("1"));
+    // Loan 1, due in one day
+    await pool("borrow", alice, [parseEther("0.5"), ONE_DAY]);
+  });
+
+  after(() => anvil?.stop());
+
+  it("leaves loans alone until they expire", async () => {
+    const report = await keeperFor(false).runOnce();
+    assert.equal(report.scannedLoans, 1);
+    assert.deepEqual(report.liquidations, []);
+  });
+
+  it("only simulates in a dry run", async () => {
+    await travel(ONE_DAY + 1n);
+    const report = await keeperFor(true).runOnce();
+
+    assert.equal(report.dryRun, true);
+    const [liquidation] = report.liquidations;
+    assert.equal(liquidation.loanId, 1n);
+    assert.equal(liquidation.status, "simulated");
+    assert.equal(liquidation.borrower, alice);
+    assert.ok(liquidation.overdueSeconds > 0n);
+    assert.equal(liquidation.bondYields.length, 1);
+    assert.ok(liquidation.yieldsClaimed > 0n);
+    assert.equal((await readLoan(1n)).isActive, true);
+  });
+
+  it("liquidates expired loans and reports the yields claimed", async () => {
+    const keeper = keeperFor(false);
+    const report = await keeper.runOnce();
+
+    const [liquidation] = report.liquidations;
+    assert.equal(liquidation.status, "liquidated");
+    assert.equal(liquidation.attempts, 1);
+    assert.ok(liquidation.txHash);
+    assert.ok(liquidation.yieldsClaimed > 0n);
+    assert.equal(report.totalYieldsClaimed, liquidation.yieldsClaimed);
+
+    const loan = await readLoan(1n);
+    assert.equal(loan.isActive, false);
+    assert.equal(loan.isRepaid, false);
+    assert.deepEqual((await keeper.runOnce()).liquidations, []);
+  });
+
+  it("resyncs its nonce and retries when another transaction took it", async () => {
+    const logs: string[] = [];
+    const keeper = keeperFor(false, logs);
+    // Loan 2, liquidated with the keeper's cached nonce
+    await pool("borrow", carol, [parseEther("0.2"), ONE_DAY]);
+    await travel(ONE_DAY + 1n);
+    assert.equal((await keeper.runOnce()).liquidations[0].status, "liquidated");
+
+    // The owner sends from elsewhere, so the nonce the keeper counted up to is already used
+    await pool("addLiquidity", anvil.deployer, [], parseEther("1"));
+    await pool("borrow", alice, [parseEther("0.1"), ONE_DAY]);
+    await travel(ONE_DAY + 1n);
+
+    const [liquidation] = (await keeper.runOnce()).liquidations;
+    assert.equal(liquidation.loanId, 3n);
+    assert.equal(liquidation.status, "liquidated");
+    assert.equal(liquidation.attempts, 2);
+    assert.match(logs[0], /liquidate\(3\) attempt 1 failed/);
+  });
+});
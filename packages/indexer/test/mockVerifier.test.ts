@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { Address, Hex, getAddress, parseEther } from "viem";
+import { bindNullifierOnChain } from "~~/services/self/relayer";
+import mockProofs from "~~/services/self/verifier/fixtures/mockProofs.json";
+import {
+  MockSelfProof,
+  createMockVerifier,
+  getMockNullifier,
+  signMockSelfProof,
+} from "~~/services/self/verifier/mockVerifier";
+import { IdentityVerificationRequest } from "~~/services/self/verifier/types";
+import { SelfDisclosurePolicy, nullifierToBytes32 } from "~~/utils/trust/self";
+import { INDEXED_CONTRACTS, IndexedContracts } from "../src/contracts";
+import { Anvil, ProtocolWriter, deployProtocol, protocolWriter, startAnvil } from "./anvil";
+
+// Anvil account #9, the default mock signer, and the deployer which also relays
+const MOCK_SIGNER_PRIVATE_KEY = "0x2a871d0798f97d79848a013d4936a73bf4cc922c825d33c1cf7073dff6d409c6";
+const ANVIL_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+const POLICY: SelfDisclosurePolicy = {
+  version: "test",
+  hash: "test",
+  minimumAge: 18,
+  excludedCountries: [],
+  ofac: true,
+  acceptedDocuments: ["passport"],
+};
+
+type MockProofFixture = {
+  attestationId: number;
+  proof: MockSelfProof;
+  publicSignals: unknown[];
+  userContextData: { walletAddress: Address };
+};
+
+const FIXTURES = mockProofs as MockProofFixture[];
+
+// The route hands the verifier the request body plus the wallet it parsed from userContextData
+const requestOf = (fixture: MockProofFixture): IdentityVerificationRequest => ({
+  ...fixture,
+  walletAddress: getAddress(fixture.userContextData.walletAddress),
+});
+
+const verifiedNullifier = async (policy: SelfDisclosurePolicy, request: IdentityVerificationRequest) => {
+  const result = await createMockVerifier(policy).verify(request);
+  assert.ok(result.isValid, `expected ${request.walletAddress} to verify, got ${JSON.stringify(result)}`);
+  return result.nullifier;
+};
+
+const rejectedRule = async (policy: SelfDisclosurePolicy, request: IdentityVerificationRequest) => {
+  const result = await createMockVerifier(policy).verify(request);
+  assert.equal(result.isValid, false);
+  return !result.isValid && result.rejectedRule;
+};
+
+describe("mock Self verifier", () => {
+  it("accepts every checked-in fixture with a deterministic nullifier per document", async () => {
+    const nullifiers = [];
+    for (const fixture of FIXTURES) {
+      const nullifier = await verifiedNullifier(POLICY, requestOf(fixture));
+      assert.equal(nullifier, getMockNullifier(fixture.proof.fixture));
+      assert.equal(await verifiedNullifier(POLICY, requestOf(fixture)), nullifier);
+      nullifiers.push(nullifier);
+    }
+    assert.equal(new Set(nullifiers).size, FIXTURES.length);
+  });
+
+  it("gives the same document the same nullifier whichever wallet presents it", async () => {
+    const [first, second] = FIXTURES;
+    const reissued = await signMockSelfProof(MOCK_SIGNER_PRIVATE_KEY, {
+      ...first.proof.fixture,
+      walletAddress: second.userContextData.walletAddress,
+    });
+    const request = { ...requestOf(second), proof: reissued };
+
+    assert.equal(await verifiedNullifier(POLICY, request), await verifiedNullifier(POLICY, requestOf(first)));
+  });
+
+  it("rejects tampered, foreign and malformed proofs", async () => {
+    const [fixture, other] = FIXTURES;
+    const { proof } = fixture;
+
+    const tampered = { ...proof, fixture: { ...proof.fixture, nationality: "FRA" } };
+    assert.equal(await rejectedRule(POLICY, { ...requestOf(fixture), proof: tampered }), "proof");
+
+    const wrongSigner = await signMockSelfProof(ANVIL_PRIVATE_KEY, proof.fixture);
+    assert.equal(await rejectedRule(POLICY, { ...requestOf(fixture), proof: wrongSigner }), "proof");
+
+    const otherWallet = other.userContextData.walletAddress;
+    assert.equal(await rejectedRule(POLICY, { ...requestOf(fixture), walletAddress: otherWallet }), "proof");
+
+    assert.equal(await rejectedRule(POLICY, { ...requestOf(fixture), proof: { signature: "0x" } }), "proof");
+  });
+
+  it("applies the disclosure policy", async () => {
+    const [fixture] = FIXTURES;
+    const request = requestOf(fixture);
+    const { nationality } = fixture.proof.fixture;
+
+    assert.equal(await rejectedRule(POLICY, { ...request, attestationId: 2 }), "acceptedDocuments");
+    assert.equal(await rejectedRule({ ...POLICY, minimumAge: 150 }, request), "minimumAge");
+    assert.equal(await rejectedRule({ ...POLICY, excludedCountries: [nationality] }, request), "excludedCountries");
+
+    const sanctioned = await signMockSelfProof(MOCK_SIGNER_PRIVATE_KEY, { ...fixture.proof.fixture, ofac: true });
+    assert.equal(await rejectedRule(POLICY, { ...request, proof: sanctioned }), "ofac");
+    await verifiedNullifier({ ...POLICY, ofac: false }, { ...request, proof: sanctioned });
+  });
+
+  it("refuses the public anvil signer in production", () => {
+    const { NODE_ENV, MOCK_SELF_SIGNER_ADDRESS } = process.env;
+    try {
+      process.env.NODE_ENV = "production";
+      delete process.env.MOCK_SELF_SIGNER_ADDRESS;
+      assert.throws(() => createMockVerifier(POLICY), /MOCK_SELF_SIGNER_ADDRESS/);
+      process.env.MOCK_SELF_SIGNER_ADDRESS = "0xa0ee7a142d267c1f36714e4a8f75612f20a79720";
+      assert.throws(() => createMockVerifier(POLICY), /MOCK_SELF_SIGNER_ADDRESS/);
+      process.env.MOCK_SELF_SIGNER_ADDRESS = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+      createMockVerifier(POLICY);
+    } finally {
+      // Assigning undefined would store the string "undefined"
+      for (const [key, value] of Object.entries({ NODE_ENV, MOCK_SELF_SIGNER_ADDRESS })) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+      }
+    }
+  });
+});
+
+describe("mock Self verifier onboarding against anvil", () => {
+  let anvil: Anvil;
+  let contracts: IndexedContracts;
+  let trust: ProtocolWriter["trust"];
+
+  const readTrust = <T>(functionName: "isUserVerified" | "getUserContracts", wallet: Address) =>
+    anvil.publicClient.readContract({
+      address: contracts.TrustContract,
+      abi: INDEXED_CONTRACTS.TrustContract,
+      functionName,
+      args: [wallet],
+    }) as Promise<T>;
+
+  before(async () => {
+    anvil = await startAnvil(10_400 + Math.floor(Math.random() * 300));
+    contracts = await deployProtocol(anvil);
+    ({ trust } = protocolWriter(anvil, contracts));
+  });
+
+  after(() => anvil?.stop());
+
+  it("binds the fixture nullifiers and lets the verified wallets bond", async () => {
+    const config = {
+      chain: anvil.chain,
+      rpcUrl: anvil.chain.rpcUrls.default.http[0],
+      privateKey: ANVIL_PRIVATE_KEY as Hex,
+      trustContractAddress: contracts.TrustContract,
+      gasLimit: 200_000n,
+      receiptTimeoutMs: 10_000,
+    };
+    const wallets: Address[] = [];
+    for (const fixture of FIXTURES) {
+      const request = requestOf(fixture);
+      // Same path as POST /api/verify-self: verify, convert the field element, relay the binding
+      const nullifier = nullifierToBytes32(await verifiedNullifier(POLICY, request));
+      const { alreadyBound } = await bindNullifierOnChain(config, nullifier, request.walletAddress);
+      assert.equal(alreadyBound, false);
+      assert.equal(await readTrust<boolean>("isUserVerified", request.walletAddress), true);
+      wallets.push(request.walletAddress);
+    }
+
+    const [, alice, bob] = wallets;
+    await trust("createContract", alice, [bob], parseEther("1"));
+    assert.equal((await readTrust<Hex[]>("getUserContracts", alice)).length, 1);
+    assert.deepEqual(
+      await readTrust<Hex[]>("getUserContracts", bob),
+      await readTrust<Hex[]>("getUserContracts", alice),
+    );
+  });
+});
@@ -0,0 +1,274 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { Server, createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { Address, PublicClient, keccak256, parseEther, toHex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createEmailChannel, createInAppChannel, createWebhookChannel } from "../src/channels";
+import { IndexedContracts } from "../src/contracts";
+import { IndexerDatabase, openIndexerDatabase } from "../src/db";
+import { Indexer, createIndexer } from "../src/indexer";
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  NotificationAuthError,
+  SignedNotificationRequest,
+  SubscriptionSettings,
+  buildNotificationMessage,
+  validateSubscriptionSettings,
+  verifyNotificationRequest,
+} from "../src/notificationAuth";
+import { NotificationStore, openNotificationStore } from "../src/notificationStore";
+import { Notifier, createNotifier } from "../src/notifier";
+import { listLoans } from "../src/queries";
+import { Anvil, ProtocolWriter, deployProtocol, protocolWriter, startAnvil } from "./anvil";
+import { startSmtpStandIn } from "./smtp";
+
+const ONE_DAY = 86_400;
+
+describe("signed notification requests", () => {
+  const account = privateKeyToAccount(generatePrivateKey());
+  const now = 1_700_000_000;
+  const settings: SubscriptionSettings = {
+    inApp: true,
+    webhookUrl: "https://example.com/hook",
+    email: null,
+    offsets: DEFAULT_REMINDER_OFFSETS,
+  };
+
+  const sign = async (issuedAt = now) => {
+    const request = { wallet: account.address, action: "subscribe" as const, payload: settings, issuedAt };
+    return { ...request, signature: await account.signMessage({ message: buildNotificationMessage(request) }) };
+  };
+
+  it("accepts a fresh request signed by its wallet", async () => {
+    await verifyNotificationRequest(await sign(), { lastIssuedAt: now - 1, now });
+  });
+
+  it("rejects tampered, foreign, expired and replayed requests", async () => {
+    const request = await sign();
+    const tampered: SignedNotificationRequest = {
+      ...request,
+      payload: { ...settings, webhookUrl: "https://attacker.example/hook" },
+    };
+    const foreign = { ...request, wallet: privateKeyToAccount(generatePrivateKey()).address };
+
+    await assert.rejects(verifyNotificationRequest(tampered, { now }), /Signature does not match/);
+    await assert.rejects(verifyNotificationRequest(foreign, { now }), /Signature does not match/);
+    await assert.rejects(verifyNotificationRequest(await sign(now - 601), { now }), /expired/);
+    await assert.rejects(verifyNotificationRequest(request, { lastIssuedAt: now, now }), /already used/);
+  });
+
+  it("lets a signed inbox read be reused for a day", async () => {
+    const signRead = async (issuedAt: number) => {
+      const request = { wallet: account.address, action: "readInbox" as const, payload: { limit: 50 }, issuedAt };
+      return { ...request, signature: await account.signMessage({ message: buildNotificationMessage(request) }) };
+    };
+
+    await verifyNotificationRequest(await signRead(now - ONE_DAY + 1), { lastIssuedAt: now, now });
+    await assert.rejects(verifyNotificationRequest(await signRead(now - ONE_DAY - 1), { now }), /expired/);
+  });
+
+  it("rejects settings the notifier cannot act on", () => {
+    assert.throws(
+      () => validateSubscriptionSettings({ ...settings, webhookUrl: "http://example.com/hook" }),
+      NotificationAuthError,
+    );
+    assert.throws(() => validateSubscriptionSettings({ ...settings, offsets: [] }), /reminder offsets/);
+    assert.throws(() => validateSubscriptionSettings({ ...settings, offsets: [31 * ONE_DAY] }), /whole seconds/);
+    assert.throws(
+      () => validateSubscriptionSettings({ ...settings, inApp: false, webhookUrl: null }),
+      /at least one channel/,
+    );
+    validateSubscriptionSettings({ ...settings, webhookUrl: "http://localhost:3000/hook", email: "me@example.com" });
+  });
+});
+
+describe("notifier against anvil", () => {
+  let anvil: Anvil;
+  let contracts: IndexedContracts;
+  let dir: string;
+  let alice: Address, bob: Address, carol: Address;
+  let trust: ProtocolWriter["trust"], pool: ProtocolWriter["pool"];
+  let indexerDb: IndexerDatabase;
+  let indexer: Indexer;
+  let store: NotificationStore;
+  let notifier: Notifier;
+  let smtp: Awaited<ReturnType<typeof startSmtpStandIn>>;
+  let webhook: Server;
+  const webhookBodies: { kind: string; title: string; wallet: Address }[] = [];
+  // Webhook requests to answer with a 500
+  let webhookFailures = 0;
+  // The notifier's clock, moved around the loan's due date
+  let clock: number;
+  let dueTimestamp: number;
+
+  const inboxKinds = (wallet: Address) => store.listInbox(wallet).map(item => item.kind);
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), "indexer-notifier-"));
+    anvil = await startAnvil(9500 + Math.floor(Math.random() * 300));
+    contracts = await deployProtocol(anvil);
+    ({ trust, pool } = protocolWriter(anvil, contracts));
+    [alice, bob, carol] = anvil.users;
+
+    webhook = createServer((request, response) => {
+      let body = "";
+      request.on("data", chunk => (body += chunk));
+      request.on("end", () => {
+        if (webhookFailures > 0) {
+          webhookFailures--;
+          response.writeHead(500).end();
+          return;
+        }
+        webhookBodies.push(JSON.parse(body));
+        response.writeHead(204).end();
+      });
+    });
+    await new Promise<void>(resolve => webhook.listen(0, "127.0.0.1", resolve));
+    smtp = await startSmtpStandIn();
+
+    indexerDb = openIndexerDatabase(join(dir, "indexer.db"));
+    indexer = createIndexer({
+      client: anvil.publicClient as PublicClient,
+      db: indexerDb,
+      chainId: anvil.chain.id,
+      contracts,
+      confirmations: 0n,
+      batchSize: 100n,
+      pollIntervalMs: 10,
+      log: () => undefined,
+    });
+    clock = Number((await anvil.publicClient.getBlock()).timestamp);
+    store = openNotificationStore(join(dir, "notifications.db"), () => clock);
+    notifier = createNotifier({
+      indexerDb,
+      store,
+      channels: [
+        createInAppChannel(store),
+        createWebhookChannel(),
+        createEmailChannel({ host: "127.0.0.1", port: smtp.port, secure: false, from: "alerts@example.com" }),
+      ],
+      maxAttempts: 3,
+      pollIntervalMs: 10,
+      now: () => clock,
+      log: () => undefined,
+    });
+
+    store.saveSubscription(
+      alice,
+      {
+        inApp: true,
+        webhookUrl: `http://127.0.0.1:${(webhook.address() as AddressInfo).port}/hook`,
+        email: "alice@example.com",
+        offsets: DEFAULT_REMINDER_OFFSETS,
+      },
+      clock,
+    );
+    for (const wallet of [bob, carol]) {
+      store.saveSubscription(wallet, { inApp: true, webhookUrl: null, email: null, offsets: [0] }, clock);
+    }
+
+    for (const wallet of [alice, bob, carol]) {
+      await trust("verifySelfProof", anvil.deployer, [keccak256(toHex(wallet)), wallet]);
+    }
+    await trust("createContract", alice, [bob], parseEther("1"));
+    await trust("addStake", bob, [alice], parseEther("1"));
+    await trust("createContract", carol, [bob], parseEther("1"));
+    // Loan 1, due in eight days
+    await pool("borrow", alice, [parseEther("0.5"), BigInt(8 * ONE_DAY)]);
+    await indexer.syncToHead();
+    dueTimestamp = listLoans(indexerDb, { borrower: alice })[0].due_timestamp;
+    // The transactions can land a second after the subscriptions were saved, start from the block they ended in
+    clock = Number((await anvil.publicClient.getBlock()).timestamp);
+  });
+
+  after(async () => {
+    store?.close();
+    indexerDb?.close();
+    await smtp?.stop();
+    await new Promise(resolve => webhook?.close(resolve));
+    await anvil?.stop();
+    if (dir) rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("alerts partners whose bond a loan froze or who were invited to a bond", async () => {
+    const report = await notifier.runOnce();
+
+    assert.deepEqual(report, { created: 2, sent: 2, retrying: 0, failed: 0 });
+    assert.deepEqual(inboxKinds(bob), ["bond_invite", "bond_frozen"]);
+    assert.deepEqual(inboxKinds(alice), []);
+    assert.deepEqual(inboxKinds(carol), []);
+  });
+
+  it("reminds the borrower once per offset on every channel", async () => {
+    clock = dueTimestamp - 6 * ONE_DAY;
+    assert.deepEqual(await notifier.runOnce(), { created: 1, sent: 3, retrying: 0, failed: 0 });
+    assert.deepEqual(await notifier.runOnce(), { created: 0, sent: 0, retrying: 0, failed: 0 });
+
+    const [reminder] = store.listInbox(alice);
+    assert.equal(reminder.eventKey, "loan:1:due:604800");
+    assert.equal(reminder.title, "Loan #1 is due in 6 days");
+    assert.equal(webhookBodies.at(-1)?.title, reminder.title);
+    assert.equal(webhookBodies.at(-1)?.kind, "loan_due");
+    assert.equal(smtp.mails.length, 1);
+    assert.deepEqual(smtp.mails[0].to, ["<alice@example.com>"]);
+    assert.match(smtp.mails[0].data, /Subject: Loan #1 is due in 6 days/);
+
+    clock = dueTimestamp - ONE_DAY / 2;
+    // Along with the 7 day invite reminders of the one-sided carol-bob bond
+    assert.equal((await notifier.runOnce()).created, 3);
+    assert.equal(store.listInbox(alice)[0].title, "Loan #1 is due in 12 hours");
+  });
+
+  it("reminds both sides of a bond the partner has not staked in", () => {
+    const [partnerReminder] = store.listInbox(bob);
+    assert.equal(partnerReminder.eventKey, "bond:2:invite:604800");
+    assert.match(partnerReminder.title, /Bond invite from 0x\w+\.\.\.\w+ is still open/);
+
+    const [creatorReminder] = store.listInbox(carol);
+    assert.equal(creatorReminder.kind, "bond_invite");
+    assert.match(creatorReminder.title, /has not accepted your bond invite/);
+    assert.match(creatorReminder.body, /still one-sided after 7 days/);
+  });
+
+  it("retries a failed webhook delivery on the next pass", async () => {
+    clock = dueTimestamp + 1;
+    webhookFailures = 1;
+    // Alice's overdue reminder on three channels, and Bob's warning about his partner's loan in-app
+    assert.deepEqual(await notifier.runOnce(), { created: 2, sent: 3, retrying: 1, failed: 0 });
+    assert.notEqual(webhookBodies.at(-1)?.kind, "loan_overdue");
+
+    assert.deepEqual(await notifier.runOnce(), { created: 0, sent: 1, retrying: 0, failed: 0 });
+    assert.equal(webhookBodies.at(-1)?.kind, "loan_overdue");
+    assert.equal(smtp.mails.length, 3);
+  });
+
+  it("warns partners when a partner's loan nears default", () => {
+    const [warning] = store.listInbox(bob);
+    assert.equal(warning.kind, "partner_loan_due");
+    assert.equal(warning.eventKey, "loan:1:partner_due:0");
+    assert.match(warning.title, /0x\w+\.\.\.\w+'s loan #1 is overdue/);
+  });
+
+  it("alerts partners who were defected on", async () => {
+    await trust("defect", bob, [carol]);
+    await indexer.syncToHead();
+
+    // The bond is closed, so no invite reminder comes with it; Alice hears that her partner defected elsewhere
+    assert.equal((await notifier.runOnce()).created, 2);
+    const [closure] = store.listInbox(carol);
+    assert.equal(closure.kind, "bond_closed");
+    assert.match(closure.title, /defected on your bond/);
+    assert.equal(store.markRead(carol, [closure.id]), 1);
+    assert.notEqual(store.listInbox(carol)[0].readAt, null);
+
+    const [elsewhere] = store.listInbox(alice);
+    assert.equal(elsewhere.kind, "partner_bond_closed");
+    assert.match(elsewhere.title, /Your partner 0x\w+\.\.\.\w+ defected on another bond/);
+    // Carol was the one defected on, she is not Bob's partner anymore
+    assert.ok(!inboxKinds(carol).includes("partner_bond_closed"));
+  });
+});
@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { Address, Hex, keccak256, toHex } from "viem";
+import { SelfRelayerConflictError, bindNullifierOnChain } from "~~/services/self/relayer";
+import { SelfRelayerConfig } from "~~/services/self/relayerConfig";
+import { INDEXED_CONTRACTS, IndexedContracts } from "../src/contracts";
+import { Anvil, ProtocolWriter, deployProtocol, protocolWriter, startAnvil } from "./anvil";
+
+// First prefunded anvil account, the deployer
+const ANVIL_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+describe("Self nullifier relayer against anvil", () => {
+  let anvil: Anvil;
+  let contracts: IndexedContracts;
+  let config: SelfRelayerConfig;
+  let alice: Address, bob: Address, carol: Address;
+  let trust: ProtocolWriter["trust"];
+
+  const nullifierOf = (label: string): Hex => keccak256(toHex(label));
+
+  const readVerification = (wallet: Address) =>
+    anvil.publicClient.readContract({
+      address: contracts.TrustContract,
+      abi: INDEXED_CONTRACTS.TrustContract,
+      functionName: "userVerifications",
+      args: [wallet],
+    });
+
+  before(async () => {
+    anvil = await startAnvil(10_100 + Math.floor(Math.random() * 300));
+    contracts = await deployProtocol(anvil);
+    ({ trust } = protocolWriter(anvil, contracts));
+    [alice, bob, carol] = anvil.users;
+    config = {
+      chain: anvil.chain,
+      rpcUrl: anvil.chain.rpcUrls.default.http[0],
+      privateKey: ANVIL_PRIVATE_KEY,
+      trustContractAddress: contracts.TrustContract,
+      trustContractDeployedOnBlock: 0,
+      gasLimit: 200_000n,
+      receiptTimeoutMs: 10_000,
+    };
+  });
+
+  after(() => anvil?.stop());
+
+  it("binds the nullifier of a wallet that was never verified", async () => {
+    const nullifier = nullifierOf("alice");
+    const result = await bindNullifierOnChain(config, nullifier, alice);
+
+    assert.equal(result.alreadyBound, false);
+    assert.ok(result.txHash);
+    assert.deepEqual((await readVerification(alice)).slice(0, 2), [nullifier, true]);
+    // Repeated submits share the first transaction
+    assert.equal(await bindNullifierOnChain(config, nullifier, alice), result);
+  });
+
+  it("reports a binding made outside the relayer with its transaction", async () => {
+    const nullifier = nullifierOf("bob");
+    const receipt = await trust("verifySelfProof", anvil.deployer, [nullifier, bob]);
+
+    assert.deepEqual(await bindNullifierOnChain(config, nullifier, bob), {
+      txHash: receipt.transactionHash,
+      alreadyBound: true,
+    });
+  });
+
+  it("rejects a nullifier bound to another wallet and a wallet bound to another nullifier", async () => {
+    await assert.rejects(bindNullifierOnChain(config, nullifierOf("bob"), carol), SelfRelayerConflictError);
+    await assert.rejects(bindNullifierOnChain(config, nullifierOf("bob-again"), bob), SelfRelayerConflictError);
+    assert.equal((await readVerification(carol))[1], false);
+  });
+});
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { Address, PublicClient, keccak256, parseEther, toHex } from "viem";
+import { INDEXED_CONTRACTS, IndexedContracts } from "../src/contracts";
+import { IndexerDatabase, openIndexerDatabase } from "../src/db";
+import { createIndexer } from "../src/indexer";
+import { getProtocolTotals, listBonds, listLoans, listUsers, listVerifications } from "../src/queries";
+import { Anvil, ProtocolWriter, deployProtocol, protocolWriter, startAnvil } from "./anvil";
+
+const ONE_DAY = 86_400n;
+
+const snapshotOf = (db: IndexerDatabase) => ({
+  bonds: listBonds(db),
+  loans: listLoans(db),
+  users: listUsers(db),
+  verifications: listVerifications(db),
+  totals: getProtocolTotals(db),
+});
+
+describe("indexer reorg handling", () => {
+  let anvil: Anvil;
+  let contracts: IndexedContracts;
+  let dir: string;
+  let alice: Address, bob: Address, carol: Address;
+  let trust: ProtocolWriter["trust"], pool: ProtocolWriter["pool"];
+
+  const indexerFor = (name: string, confirmations: bigint) => {
+    const db = openIndexerDatabase(join(dir, `${name}.db`));
+    const indexer = createIndexer({
+      client: anvil.publicClient as PublicClient,
+      db,
+      chainId: anvil.chain.id,
+      contracts,
+      confirmations,
+      batchSize: 100n,
+      pollIntervalMs: 10,
+      log: () => undefined,
+    });
+    return { db, indexer };
+  };
+
+  // An indexer that never saw the reorged blocks
+  const referenceSnapshot = async (name: string) => {
+    const reference = indexerFor(name, 0n);
+    await reference.indexer.syncToHead();
+    const snapshot = snapshotOf(reference.db);
+    reference.db.close();
+    return snapshot;
+  };
+
+  const repayAliceLoan = async () => {
+    const loanId = await anvil.publicClient.readContract({
+      address: contracts.LendingPool,
+      abi: INDEXED_CONTRACTS.LendingPool,
+      functionName: "getUserLoan",
+      args: [alice],
+    });
+    const repayment = await anvil.publicClient.readContract({
+      address: contracts.LendingPool,
+      abi: INDEXED_CONTRACTS.LendingPool,
+      functionName: "calculateRepaymentAmount",
+      args: [loanId],
+    });
+    // Interest keeps accruing until the repay block, the excess is refunded
+    await pool("repay", alice, [loanId], repayment + repayment / 100n);
+  };
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), "indexer-reorg-"));
+    anvil = await startAnvil(8900 + Math.floor(Math.random() * 300));
+    contracts = await deployProtocol(anvil);
+    ({ trust, pool } = protocolWriter(anvil, contracts));
+    [alice, bob, carol] = anvil.users;
+
+    await trust("verifySelfProof", anvil.deployer, [keccak256(toHex("alice")), alice]);
+    await trust("verifySelfProof", anvil.deployer, [keccak256(toHex("bob")), bob]);
+    await trust("createContract", alice, [bob], parseEther("1"));
+    await pool("borrow", alice, [parseEther("0.2"), ONE_DAY]);
+  });
+
+  after(() => {
+    anvil?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("rolls back a reorged repayment and replays the new fork", async () => {
+    const { db, indexer } = indexerFor("rollback", 10n);
+    await indexer.syncToHead();
+
+    const snapshotId = await anvil.testClient.snapshot();
+    await repayAliceLoan();
+    await trust("addStake", bob, [alice], parseEther("3"));
+    await indexer.syncToHead();
+    assert.equal(listLoans(db)[0].status, "repaid");
+    assert.equal(listBonds(db)[0].partner_stake, parseEther("3").toString());
+
+    // The fork replaces both blocks: the loan stays open, the bond stays frozen and carol gets verified instead
+    await anvil.testClient.revert({ id: snapshotId });
+    await anvil.testClient.mine({ blocks: 1 });
+    await trust("verifySelfProof", anvil.deployer, [keccak256(toHex("carol")), carol]);
+    await indexer.syncToHead();
+
+    const [loan] = listLoans(db);
+    assert.equal(loan.status, "active");
+    assert.equal(loan.repaid_amount, null);
+    assert.equal(loan.contracts_frozen, 1);
+    assert.equal(listBonds(db)[0].partner_stake, "0");
+    assert.equal(listVerifications(db).length, 3);
+    assert.deepEqual(snapshotOf(db), await referenceSnapshot("rollback-reference"));
+    db.close();
+  });
+
+  it("detects a reorg that only shortens the chain", async () => {
+    const { db, indexer } = indexerFor("shorter", 10n);
+    await indexer.syncToHead();
+    const before = snapshotOf(db);
+
+    const snapshotId = await anvil.testClient.snapshot();
+    await repayAliceLoan();
+    await indexer.syncToHead();
+    assert.equal(listLoans(db)[0].status, "repaid");
+
+    await anvil.testClient.revert({ id: snapshotId });
+    await indexer.syncToHead();
+    assert.deepEqual(snapshotOf(db), before);
+    assert.equal(indexer.getCheckpoint(), await anvil.publicClient.getBlockNumber({ cacheTime: 0 }));
+    db.close();
+  });
+
+  it("refuses to roll back past the confirmation depth", async () => {
+    const { db, indexer } = indexerFor("deep", 2n);
+    const snapshotId = await anvil.testClient.snapshot();
+    await anvil.testClient.mine({ blocks: 5 });
+    await indexer.syncToHead();
+    // Once confirmed, the newest confirmed block's hash stays as the anchor of the unconfirmed window
+    await anvil.testClient.mine({ blocks: 2 });
+    await indexer.syncToHead();
+
+    await anvil.testClient.revert({ id: snapshotId });
+    await anvil.testClient.increaseTime({ seconds: 60 });
+    await anvil.testClient.mine({ blocks: 10 });
+    await assert.rejects(indexer.syncToHead(), /exceeds 2 confirmations/);
+    db.close();
+  });
+});
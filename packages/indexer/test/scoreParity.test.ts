@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  PROTOCOL_PARAMETERS,
+  SettledBond,
+  calculateContractScore,
+  calculateContractScoreComponents,
+  calculateYield,
+  defectPenalty,
+  defectTrustPenalty,
+  exitPenalty,
+  exitTrustPenalty,
+  getInterestRate,
+  getUserTotalValue,
+  getUserTrustScore,
+  lnApprox,
+  settleDefect,
+  settleExit,
+  sqrt,
+} from "~~/utils/trust/score";
+import fixture from "../../foundry/test/fixtures/scoreParity.json";
+
+// Same clock and bond layout as ScoreParity.t.sol: bonds are created at NOW - age and scored or settled at NOW
+const NOW = 1_750_000_000n;
+const USER = "0x000000000000000000000000000000000000a000";
+const PARTNER = "0x000000000000000000000000000000000000a800";
+
+const toBigInts = (values: readonly string[]) => values.map(value => BigInt(value));
+
+// The user sorts first, so it is addr0 like the harness accounts
+const bondOf = (userStake: bigint, partnerStake: bigint, age: bigint): SettledBond => ({
+  addr0: USER,
+  addr1: PARTNER,
+  stake0: userStake,
+  stake1: partnerStake,
+  createdAt: NOW - age,
+  lastYieldUpdate: NOW - age,
+  accruedYield: 0n,
+  isActive: true,
+});
+
+/**
+ * Replays packages/foundry/test/fixtures/scoreParity.json, which ScoreParity.t.sol checks against the contracts
+ */
+describe("score.ts parity with the Solidity fixture", () => {
+  it("sqrt and lnApprox", () => {
+    toBigInts(fixture.sqrt.x).forEach((x, i) => assert.equal(sqrt(x), BigInt(fixture.sqrt.expected[i]), `sqrt[${i}]`));
+    toBigInts(fixture.lnApprox.x).forEach((x, i) =>
+      assert.equal(lnApprox(x), BigInt(fixture.lnApprox.expected[i]), `lnApprox[${i}]`),
+    );
+  });
+
+  it("penalties and yield", () => {
+    const { defectPenalty: defect, exitPenalty: exit, calculateYield: yields, trustPenalties } = fixture;
+    defect.tBond.forEach((tBond, i) =>
+      assert.equal(
+        defectPenalty(BigInt(tBond), BigInt(defect.totalAmount[i])),
+        BigInt(defect.expected[i]),
+        `defectPenalty[${i}]`,
+      ),
+    );
+    exit.tBond.forEach((tBond, i) =>
+      assert.equal(
+        exitPenalty(BigInt(tBond), BigInt(exit.totalStake[i]), BigInt(exit.totalYield[i])),
+        BigInt(exit.expected[i]),
+        `exitPenalty[${i}]`,
+      ),
+    );
+    yields.tvl.forEach((tvl, i) => {
+      const expected = BigInt(yields.expected[i]);
+      assert.equal(calculateYield(BigInt(tvl), BigInt(yields.timeElapsed[i])), expected, `calculateYield[${i}]`);
+      assert.equal(
+        calculateYield(BigInt(tvl), BigInt(yields.timeElapsed[i]), PROTOCOL_PARAMETERS),
+        expected,
+        `calculateYield(params)[${i}]`,
+      );
+    });
+    trustPenalties.tBond.forEach((tBond, i) => {
+      const tvl = BigInt(trustPenalties.tvl[i]);
+      assert.equal(
+        defectTrustPenalty(BigInt(tBond), tvl),
+        BigInt(trustPenalties.defectExpected[i]),
+        `defectTrustPenalty[${i}]`,
+      );
+      assert.equal(
+        exitTrustPenalty(BigInt(tBond), tvl),
+        BigInt(trustPenalties.exitExpected[i]),
+        `exitTrustPenalty[${i}]`,
+      );
+    });
+  });
+
+  it("bond scores", () => {
+    const { bonds } = fixture;
+    bonds.userStake.forEach((userStake, i) => {
+      const bond = bondOf(BigInt(userStake), BigInt(bonds.partnerStake[i]), BigInt(bonds.age[i]));
+      // The partner's only bond is this one
+      const partnerTrust = getUserTrustScore([bond], NOW);
+
+      assert.equal(calculateContractScore(bond, NOW), BigInt(bonds.contractScore[i]), `contractScore[${i}]`);
+      assert.equal(partnerTrust, BigInt(bonds.partnerTrust[i]), `partnerTrust[${i}]`);
+      assert.equal(
+        calculateContractScoreComponents(bond, USER, partnerTrust, NOW).total,
+        BigInt(bonds.equation2Score[i]),
+        `equation2Score[${i}]`,
+      );
+    });
+  });
+
+  it("user trust scores", () => {
+    fixture.userTrustScore.cases.forEach(({ age, state }, i) => {
+      // 0 active, 1 exited, 2 exited and re-created, which lists the key twice and reads the live bond both times
+      const bonds = age.flatMap((bondAge, j) => {
+        const bond = { createdAt: NOW - BigInt(bondAge), isActive: state[j] !== "1" };
+        return state[j] === "2" ? [bond, bond] : [bond];
+      });
+      assert.equal(getUserTrustScore(bonds, NOW), BigInt(fixture.userTrustScore.expected[i]), `userTrustScore[${i}]`);
+    });
+  });
+
+  it("settlements, with the default and the explicit protocol parameters", () => {
+    const { settlements } = fixture;
+    for (const params of [undefined, PROTOCOL_PARAMETERS]) {
+      settlements.userStake.forEach((userStake, i) => {
+        const bond = bondOf(BigInt(userStake), BigInt(settlements.partnerStake[i]), BigInt(settlements.age[i]));
+        const exit = settleExit(bond, USER, NOW, params);
+        const defect = settleDefect(bond, NOW, params);
+
+        assert.equal(
+          getUserTotalValue([bond], USER, NOW, params),
+          BigInt(settlements.totalValue[i]),
+          `totalValue[${i}]`,
+        );
+        assert.equal(exit.userReceives, BigInt(settlements.exitUser[i]), `exitUser[${i}]`);
+        assert.equal(exit.partnerReceives, BigInt(settlements.exitPartner[i]), `exitPartner[${i}]`);
+        assert.equal(defect.userReceives, BigInt(settlements.defectUser[i]), `defectUser[${i}]`);
+        assert.equal(defect.partnerReceives, 0n, `defectPartner[${i}]`);
+      });
+    }
+  });
+
+  it("interest rate only falls back to 1% once the discount reaches the base rate", () => {
+    assert.equal(getInterestRate(0n), 500n);
+    assert.equal(getInterestRate(40_100n), 99n);
+    assert.equal(getInterestRate(49_999n), 1n);
+    assert.equal(getInterestRate(50_000n), 100n);
+  });
+});
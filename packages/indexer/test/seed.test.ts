@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { PublicClient, WalletClient, parseEther } from "viem";
+import deployedContracts from "~~/contracts/deployedContracts";
+import { INDEXED_CONTRACTS, IndexedContracts } from "../src/contracts";
+import { openIndexerDatabase } from "../src/db";
+import { DeploymentsByChain, deployProtocol, renderDeployedContracts } from "../src/deploy";
+import { createIndexer } from "../src/indexer";
+import { listBonds, listLoans, listPendingBonds, listUsers } from "../src/queries";
+import { SeedSummary, seedDevnet, seedNullifier } from "../src/seed";
+import { Anvil, startAnvil } from "./anvil";
+
+describe("devnet seeding against anvil", () => {
+  let anvil: Anvil;
+  let contracts: IndexedContracts;
+  let summary: SeedSummary;
+  let dir: string;
+
+  before(async () => {
+    dir = mkdtempSync(join(tmpdir(), "seed-"));
+    anvil = await startAnvil(9800 + Math.floor(Math.random() * 300));
+    contracts = await deployProtocol(anvil.publicClient as PublicClient, anvil.walletClient, anvil.deployer);
+    summary = await seedDevnet({
+      publicClient: anvil.publicClient as PublicClient,
+      walletClient: anvil.walletClient as WalletClient,
+      testClient: anvil.testClient,
+      contracts,
+      owner: anvil.deployer,
+      wallets: anvil.users,
+    });
+  });
+
+  after(() => {
+    anvil?.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("leaves bonds and loans in every state", async () => {
+    const db = openIndexerDatabase(join(dir, "seeded.db"));
+    await createIndexer({
+      client: anvil.publicClient as PublicClient,
+      db,
+      chainId: anvil.chain.id,
+      contracts,
+      confirmations: 5n,
+      batchSize: 1_000n,
+      pollIntervalMs: 10,
+      log: () => undefined,
+    }).syncToHead();
+    const { alice, erin, ivan } = summary.wallets;
+
+    const verified = listUsers(db).filter(user => user.nullifier !== null);
+    assert.equal(verified.length, 8);
+    assert.ok(!verified.some(user => user.address === ivan));
+    assert.equal(verified.find(user => user.address === alice)?.nullifier, seedNullifier(alice));
+
+    const bonds = listBonds(db);
+    assert.equal(bonds.filter(bond => bond.status === "active").length, 5);
+    assert.equal(bonds.filter(bond => bond.status === "exited").length, 1);
+    assert.equal(bonds.filter(bond => bond.status === "defected").length, 1);
+    assert.equal(listPendingBonds(db, alice).length, 1);
+    assert.equal(listPendingBonds(db, erin).length, 1);
+
+    const status = (loanId: bigint) => listLoans(db).find(loan => BigInt(loan.loan_id) === loanId)?.status;
+    assert.equal(status(summary.loans.repaid), "repaid");
+    assert.equal(status(summary.loans.liquidated), "defaulted");
+    assert.equal(status(summary.loans.expired), "active");
+    assert.equal(status(summary.loans.active), "active");
+    // Erin's loan froze her bonds, including the invite Dave has not seen accepted
+    assert.ok(listBonds(db, { address: erin, status: "active" }).every(bond => bond.is_frozen === 1));
+    db.close();
+  });
+
+  it("leaves one loan expired for the keeper", async () => {
+    const block = await anvil.publicClient.getBlock();
+    const read = (loanId: bigint) =>
+      anvil.publicClient.readContract({
+        address: contracts.LendingPool,
+        abi: INDEXED_CONTRACTS.LendingPool,
+        functionName: "getLoan",
+        args: [loanId],
+      });
+    const expired = await read(summary.loans.expired);
+    const active = await read(summary.loans.active);
+
+    assert.ok(block.timestamp > expired.startTime + expired.duration);
+    assert.ok(block.timestamp < active.startTime + active.duration);
+    assert.ok(summary.daysTravelled >= 40);
+  });
+
+  it("renders the deployment into deployedContracts.ts and keeps the other chains", async () => {
+    const current = deployedContracts as unknown as DeploymentsByChain;
+    const rendered = await renderDeployedContracts(current, anvil.chain.id, contracts);
+
+    assert.match(
+      rendered,
+      new RegExp(`${anvil.chain.id}: \\{\\s+TrustContract: \\{\\s+address: "${contracts.TrustContract}"`),
+    );
+    assert.ok(rendered.includes(`address: "${contracts.LendingPool}"`));
+    assert.ok(rendered.includes(`deployedOnBlock: ${contracts.deployedOnBlock}`));
+    for (const [chainId, chain] of Object.entries(current)) {
+      if (Number(chainId) === anvil.chain.id) continue;
+      assert.ok(rendered.includes(`address: "${chain.TrustContract.address}"`));
+    }
+    assert.ok(rendered.includes('import { TRUST_SCORE_ABI } from "./TrustScore";'));
+    assert.ok(rendered.includes("export default deployedContracts satisfies GenericContractsDeclaration;"));
+  });
+
+  it("rejects a node with too few unlocked wallets", async () => {
+    await assert.rejects(
+      seedDevnet({
+        publicClient: anvil.publicClient as PublicClient,
+        walletClient: anvil.walletClient as WalletClient,
+        testClient: anvil.testClient,
+        contracts,
+        owner: anvil.deployer,
+        wallets: anvil.users.slice(0, 3),
+        liquidity: parseEther("1"),
+      }),
+      /needs 9 unlocked wallets/,
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_SIMULATION_CONFIG,
+  SimulationConfig,
+  SweepKey,
+  expandSweep,
+  formatSweepCsv,
+  runSweep,
+  simulate,
+} from "../src/simulation";
+
+const RUNS = 5;
+const SEED = 7;
+
+const withPopulation = (population: SimulationConfig["population"]): SimulationConfig => ({
+  ...DEFAULT_SIMULATION_CONFIG,
+  population,
+  days: 120,
+});
+
+describe("economic simulator", () => {
+  it("reproduces a run from its seed", () => {
+    const config = withPopulation({ cooperator: 10, defector: 3, borrowAndRun: 2 });
+    assert.deepEqual(simulate(config, RUNS, SEED), simulate(config, RUNS, SEED));
+    assert.notDeepEqual(simulate(config, RUNS, SEED), simulate(config, RUNS, SEED + 1));
+  });
+
+  it("loses nothing to a population of cooperators", () => {
+    const summary = simulate(withPopulation({ cooperator: 12, defector: 0, borrowAndRun: 0 }), RUNS, SEED);
+
+    assert.ok(summary.pool.loansIssued > 0);
+    assert.equal(summary.pool.loansDefaulted, 0);
+    assert.equal(summary.pool.lossRate.max, 0);
+    assert.ok(summary.pool.interestEth > 0);
+    assert.equal(summary.strategies.cooperator.defectsPerAgent, 0);
+    assert.equal(summary.stakeLostToDefectsEth, 0);
+    // 100 points per bond plus sqrt(days) per active bond
+    assert.ok(summary.strategies.cooperator.trustScore.min >= 100);
+  });
+
+  it("lets defectors profit under the deployed 5% defect penalty but not under a 100% one", () => {
+    const config = withPopulation({ cooperator: 12, defector: 4, borrowAndRun: 0 });
+    const deployed = simulate(config, RUNS, SEED);
+    const confiscatory = simulate({ ...config, params: { ...config.params, defectPenaltyBps: 10_000n } }, RUNS, SEED);
+
+    assert.ok(deployed.strategies.defector.defectsPerAgent > 0);
+    assert.ok(deployed.stakeLostToDefectsEth > 0);
+    assert.equal(deployed.defectionPays, true);
+    assert.equal(confiscatory.strategies.defector.defectsPerAgent, 0);
+    assert.equal(confiscatory.defectionPays, false);
+  });
+
+  it("books borrow-and-run loans as pool losses once liquidated", () => {
+    const summary = simulate(withPopulation({ cooperator: 12, defector: 0, borrowAndRun: 3 }), RUNS, SEED);
+
+    assert.ok(summary.pool.loansDefaulted >= 3 * RUNS);
+    assert.ok(summary.pool.lossRate.mean > 0);
+    assert.ok(summary.pool.defaultedEth > 0);
+    assert.equal(summary.borrowAndRunPays, true);
+    assert.ok(summary.strategies.borrowAndRun.profit.mean > 0);
+  });
+
+  it("sweeps every combination of parameters into one CSV row each", () => {
+    const sweep = new Map<SweepKey, (bigint | number)[]>([
+      ["defectPenaltyBps", [500n, 2_000n]],
+      ["borrowAndRun", [0, 2]],
+    ]);
+    assert.deepEqual(expandSweep(sweep), [
+      { defectPenaltyBps: 500n, borrowAndRun: 0 },
+      { defectPenaltyBps: 500n, borrowAndRun: 2 },
+      { defectPenaltyBps: 2_000n, borrowAndRun: 0 },
+      { defectPenaltyBps: 2_000n, borrowAndRun: 2 },
+    ]);
+
+    const results = runSweep(withPopulation({ cooperator: 8, defector: 2, borrowAndRun: 0 }), sweep, 2, SEED);
+    const [header, ...rows] = formatSweepCsv(results).trim().split("\n");
+    assert.equal(rows.length, 4);
+    assert.deepEqual(header.split(",").slice(0, 3), ["defectPenaltyBps", "borrowAndRun", "runs"]);
+    assert.equal(results[0].summary.pool.loansDefaulted, 0);
+    assert.ok(results[1].summary.pool.loansDefaulted > 0);
+    assert.ok(rows.every(row => row.split(",").length === header.split(",").length));
+  });
+});
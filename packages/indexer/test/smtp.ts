@@ -0,0 +1,66 @@
+import { AddressInfo, Server, createServer } from "node:net";
+
+export type ReceivedMail = {
+  from: string;
+  to: string[];
+  // Raw DATA section, headers and body
+  data: string;
+};
+
+/**
+ * Minimal SMTP server standing in for a relay: accepts every message without auth or TLS and keeps it in `mails`
+ */
+export const startSmtpStandIn = async () => {
+  const mails: ReceivedMail[] = [];
+
+  const server: Server = createServer(socket => {
+    let buffer = "";
+    let envelope: ReceivedMail = { from: "", to: [], data: "" };
+    let inData = false;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    reply("220 localhost ESMTP stand-in");
+    socket.on("data", chunk => {
+      buffer += chunk.toString("utf8");
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+        envelope.data = buffer.slice(0, end);
+        mails.push(envelope);
+        envelope = { from: "", to: [], data: "" };
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        reply("250 OK queued");
+      }
+
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+        if (command === "EHLO") reply("250 localhost");
+        else if (command === "HELO" || command === "RSET" || command === "NOOP") reply("250 OK");
+        else if (command === "MAIL") {
+          envelope.from = line.slice(line.indexOf(":") + 1).trim();
+          reply("250 OK");
+        } else if (command === "RCPT") {
+          envelope.to.push(line.slice(line.indexOf(":") + 1).trim());
+          reply("250 OK");
+        } else if (command === "DATA") {
+          inData = true;
+          reply("354 End data with <CR><LF>.<CR><LF>");
+        } else if (command === "QUIT") {
+          reply("221 Bye");
+          socket.end();
+        } else reply("502 Command not implemented");
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  return {
+    port: (server.address() as AddressInfo).port,
+    mails,
+    stop: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
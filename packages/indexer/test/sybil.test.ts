@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Address, parseEther } from "viem";
+import { buildTrustGraph } from "~~/utils/trust/graph";
+import { analyzeSybilRisk, findCliques, findRings } from "~~/utils/trust/sybil";
+import { DAY, NOW, bondRow, loanRow, wallet } from "./bonds";
+
+const [a, b, c, d, e, f] = Array.from({ length: 6 }, (_, index) => wallet(index));
+const DUST = parseEther("0.01").toString();
+
+const adjacencyOf = (pairs: [Address, Address][]) => {
+  const adjacency = new Map<Address, Set<Address>>();
+  for (const [x, y] of pairs) {
+    if (!adjacency.has(x)) adjacency.set(x, new Set());
+    if (!adjacency.has(y)) adjacency.set(y, new Set());
+    adjacency.get(x)!.add(y);
+    adjacency.get(y)!.add(x);
+  }
+  return adjacency;
+};
+
+const flaggedAs = (report: ReturnType<typeof analyzeSybilRisk>, kind: string) =>
+  report.addresses.filter(risk => risk.flags.some(flag => flag.kind === kind)).map(risk => risk.address);
+
+// Two days apart, so no address bonds often enough to count as a burst
+const spacedBonds = (pairs: [Address, Address][], stake?: string) =>
+  pairs.map(([creator, partner], index) =>
+    bondRow(index + 1, creator, partner, {
+      created_timestamp: NOW - (60 - 2 * index) * DAY,
+      ...(stake && { creator_stake: stake, partner_stake: stake }),
+    }),
+  );
+
+describe("sybil heuristics", () => {
+  it("reports a 4-clique and leaves its pendant vertex alone", () => {
+    const clique: [Address, Address][] = [
+      [a, b],
+      [a, c],
+      [a, d],
+      [b, c],
+      [b, d],
+      [c, d],
+    ];
+    const graph = buildTrustGraph(spacedBonds([...clique, [a, e]]), [], BigInt(NOW));
+    const report = analyzeSybilRisk(graph, []);
+
+    const members = [a, b, c, d].sort();
+    // a has 4 bonded pairs, b, c and d have 3, and 12 of those 13 stay inside
+    assert.deepEqual(report.cliques, [{ members, internalShare: 12 / 13, totalStake: parseEther("12") }]);
+    assert.deepEqual(flaggedAs(report, "dense_clique").sort(), members);
+    assert.ok(!report.addresses.some(risk => risk.address === e));
+    assert.deepEqual(report.rings, []);
+    assert.deepEqual(report.bursts, []);
+  });
+
+  it("keeps only maximal cliques of the minimum size", () => {
+    const adjacency = adjacencyOf([
+      [a, b],
+      [a, c],
+      [a, d],
+      [b, c],
+      [b, d],
+      [c, d],
+      [a, e],
+    ]);
+    assert.deepEqual(findCliques(adjacency, 4), [[a, b, c, d].sort()]);
+    // The triangles inside the 4-clique are not maximal, the pendant pair is
+    assert.deepEqual(
+      findCliques(adjacency, 2)
+        .map(members => members.join())
+        .sort(),
+      [[a, b, c, d].sort().join(), [a, e].sort().join()].sort(),
+    );
+  });
+
+  it("finds a low-stake triangle and stops at the bridge to the rest", () => {
+    const bonds = [
+      ...spacedBonds(
+        [
+          [a, b],
+          [b, c],
+          [c, a],
+          [c, d],
+        ],
+        DUST,
+      ),
+      bondRow(5, d, e, { created_timestamp: NOW - 10 * DAY }),
+      bondRow(6, e, f, { created_timestamp: NOW - 8 * DAY }),
+    ];
+    const report = analyzeSybilRisk(buildTrustGraph(bonds, [], BigInt(NOW)), []);
+
+    assert.deepEqual(report.rings, [{ members: [a, b, c].sort(), bondIds: [1, 2, 3], totalStake: parseEther("0.06") }]);
+    assert.deepEqual(flaggedAs(report, "low_stake_ring").sort(), [a, b, c].sort());
+    assert.deepEqual(findRings(adjacencyOf(bonds.map(bond => [bond.creator, bond.partner]))), [[a, b, c].sort()]);
+  });
+
+  it("flags bond bursts and borrowers that lean on their trust score", () => {
+    const burst = [b, c, d].map((partner, index) =>
+      bondRow(index + 1, a, partner, {
+        creator_stake: DUST,
+        partner_stake: DUST,
+        created_timestamp: NOW - 20 * DAY + index * 3600,
+      }),
+    );
+    const bonds = [...burst, bondRow(4, a, e, { created_timestamp: NOW - 10 * DAY })];
+    const graph = buildTrustGraph(bonds, [], BigInt(NOW));
+
+    const unborrowed = analyzeSybilRisk(graph, []);
+    assert.deepEqual(unborrowed.bursts, [
+      { address: a, bondIds: [1, 2, 3], startTimestamp: NOW - 20 * DAY, endTimestamp: NOW - 20 * DAY + 7200 },
+    ]);
+    assert.deepEqual(
+      unborrowed.addresses.map(risk => [risk.address, risk.level]),
+      [[a, "low"]],
+    );
+
+    // 4 bonds are worth over 4 ETH of credit against 1.03 ETH of own stake
+    const borrowed = analyzeSybilRisk(graph, [loanRow(1, a, parseEther("3"))]);
+    const [risk] = borrowed.addresses;
+    assert.equal(risk.address, a);
+    assert.deepEqual(risk.flags.map(flag => flag.kind).sort(), ["bond_burst", "trust_reliant"]);
+    assert.equal(risk.level, "medium");
+    assert.equal(risk.activeLoanPrincipal, parseEther("3"));
+    assert.ok(risk.trustShare >= 0.8);
+  });
+});
@@ -0,0 +1,121 @@
+"use client";
+
+import { useMemo } from "react";
+import { AbiFunction, Address as AddressType, decodeFunctionData, encodeFunctionData, formatEther } from "viem";
+import { Address } from "~~/components/scaffold-eth";
+import { useDeployedContractInfo } from "~~/hooks/scaffold-eth";
+
+export type AdminAction =
+  | { contractName: "LendingPool"; functionName: "addLiquidity"; args: []; value: bigint }
+  | { contractName: "LendingPool"; functionName: "withdrawLiquidity"; args: [bigint] }
+  | { contractName: "LendingPool"; functionName: "liquidate"; args: [bigint] }
+  | {
+      contractName: "TrustContract";
+      functionName: "addAuthorizedLender" | "removeAuthorizedLender";
+      args: [AddressType];
+    };
+
+const formatArgument = (value: unknown) => (typeof value === "bigint" ? value.toString() : String(value));
+
+type AdminActionConfirmationProps = {
+  action: AdminAction;
+  // What the operator is about to do, in plain words
+  summary: string;
+  isMining: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+};
+
+/**
+ * Shows the exact calldata an admin action sends, decoded back against the contract ABI, before it is signed.
+ */
+export const AdminActionConfirmation = ({
+  action,
+  summary,
+  isMining,
+  onConfirm,
+  onCancel,
+}: AdminActionConfirmationProps) => {
+  const { data: contract } = useDeployedContractInfo({ contractName: action.contractName });
+
+  const decoded = useMemo(() => {
+    if (!contract) return undefined;
+    const data = encodeFunctionData({
+      abi: contract.abi,
+      functionName: action.functionName,
+      args: action.args,
+    } as Parameters<typeof encodeFunctionData>[0]);
+    const { functionName, args = [] } = decodeFunctionData({ abi: contract.abi, data });
+    const abiItem = contract.abi.find(
+      (item): item is AbiFunction => item.type === "function" && item.name === functionName,
+    );
+    const inputs = abiItem?.inputs ?? [];
+    return {
+      data,
+      selector: data.slice(0, 10),
+      signature: `${functionName}(${inputs.map(input => input.type).join(",")})`,
+      params: inputs.map((input, index) => ({
+        name: input.name || `arg${index}`,
+        type: input.type,
+        value: formatArgument(args[index]),
+      })),
+    };
+  }, [contract, action]);
+
+  const value = "value" in action ? action.value : 0n;
+
+  return (
+    <div className="border-2 border-warning bg-base-100 p-6 font-mono space-y-4">
+      <div>
+        <div className="text-lg font-bold text-warning">[CONFIRM] REVIEW_TRANSACTION</div>
+        <div className="text-xs opacity-75">&gt; {summary}</div>
+      </div>
+
+      {!decoded ? (
+        <div className="text-sm opacity-75">&gt; LOADING_CONTRACT_ABI...</div>
+      ) : (
+        <div className="space-y-3 text-sm">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="opacity-75">TO:</span>
+            <span className="font-bold">{action.contractName}</span>
+            <Address address={contract?.address} size="sm" />
+          </div>
+          <div>
+            <span className="opacity-75">FUNCTION:</span> <span className="font-bold">{decoded.signature}</span>{" "}
+            <span className="opacity-75">SELECTOR: {decoded.selector}</span>
+          </div>
+          <div className="border border-base-content">
+            {decoded.params.length === 0 ? (
+              <div className="p-2 text-xs opacity-75">&gt; NO_ARGUMENTS</div>
+            ) : (
+              decoded.params.map(param => (
+                <div key={param.name} className="grid grid-cols-3 gap-2 p-2 border-b border-base-300 last:border-b-0">
+                  <span>{param.name}</span>
+                  <span className="opacity-75">{param.type}</span>
+                  <span className="font-bold break-all">{param.value}</span>
+                </div>
+              ))
+            )}
+          </div>
+          <div>
+            <span className="opacity-75">VALUE:</span> <span className="font-bold">{formatEther(value)} ETH</span>{" "}
+            <span className="opacity-75">({value.toString()} WEI)</span>
+          </div>
+          <div>
+            <div className="opacity-75 mb-1">CALLDATA:</div>
+            <div className="p-2 bg-base-200 border border-base-content text-xs break-all">{decoded.data}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <button onClick={onCancel} disabled={isMining} className="btn btn-outline font-mono">
+          [CANCEL]
+        </button>
+        <button onClick={onConfirm} disabled={!decoded || isMining} className="btn btn-warning font-mono">
+          {isMining ? "[SENDING...]" : "[CONFIRM_AND_SIGN]"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,500 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { AdminAction, AdminActionConfirmation } from "./AdminActionConfirmation";
+import { Address as AddressType, formatEther, isAddress, isAddressEqual, parseEther } from "viem";
+import { useAccount, useBlock } from "wagmi";
+import RiskFlagBadges from "~~/components/RiskFlagBadges";
+import { Address, AddressInput } from "~~/components/scaffold-eth";
+import {
+  useDeployedContractInfo,
+  useScaffoldReadContract,
+  useScaffoldWriteContract,
+  useTargetNetwork,
+  useWatchBalance,
+} from "~~/hooks/scaffold-eth";
+import {
+  Loan,
+  useAuthorizedLenders,
+  useDefaultContagion,
+  usePoolLoans,
+  useProtocolOwners,
+  useSybilReport,
+} from "~~/hooks/trust";
+
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+
+const formatEth = (value: bigint | undefined, decimals = 4) =>
+  value === undefined ? "--" : parseFloat(formatEther(value)).toFixed(decimals);
+
+const formatDuration = (seconds: number) => {
+  const abs = Math.abs(seconds);
+  const days = Math.floor(abs / 86400);
+  const hours = Math.floor((abs % 86400) / 3600);
+  const minutes = Math.floor((abs % 3600) / 60);
+  return `${days}D_${hours}H_${minutes}M`;
+};
+
+// Same formula as LendingPool.calculateRepaymentAmount: what the borrower would have owed at `timestamp`
+const projectRepayment = (loan: Loan, timestamp: bigint) => {
+  const elapsedTime = timestamp > loan.startTime ? timestamp - loan.startTime : 0n;
+  return loan.amount + (loan.amount * loan.interestRate * elapsedTime) / (SECONDS_PER_YEAR * 10000n);
+};
+
+const parseAmount = (amount: string) => {
+  try {
+    return amount ? parseEther(amount) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+type PendingAction = {
+  action: AdminAction;
+  summary: string;
+};
+
+export const AdminConsole = () => {
+  const { address } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const { lendingPoolOwner, trustContractOwner, isPoolOwner, isTrustOwner, isOwner, isLoading } =
+    useProtocolOwners(address);
+
+  const [pending, setPending] = useState<PendingAction>();
+  const [depositAmount, setDepositAmount] = useState("");
+  const [withdrawAmount, setWithdrawAmount] = useState("");
+  const [newLender, setNewLender] = useState("");
+  const [stressCount, setStressCount] = useState("5");
+
+  const { data: lendingPool } = useDeployedContractInfo({ contractName: "LendingPool" });
+  const { data: poolBalance } = useWatchBalance({ address: lendingPool?.address });
+  const { data: totalLiquidity } = useScaffoldReadContract({
+    contractName: "LendingPool",
+    functionName: "totalLiquidity",
+  });
+  const { loans, outstandingPrincipal, isLoading: isLoadingLoans } = usePoolLoans();
+  const { lenders, isLoading: isLoadingLenders } = useAuthorizedLenders();
+  const { risksByAddress, isLoading: isLoadingRisks, error: riskError } = useSybilReport();
+  const stressTarget = useMemo(() => {
+    const count = Number(stressCount);
+    return Number.isInteger(count) && count > 0 ? { topBorrowers: count } : undefined;
+  }, [stressCount]);
+  const { report: stressReport, error: stressError } = useDefaultContagion(stressTarget);
+
+  // `liquidate` checks expiry against block.timestamp, which drifts from the wall clock on local forks
+  const { data: latestBlock } = useBlock({ watch: true, chainId: targetNetwork.id });
+  const now = latestBlock?.timestamp;
+
+  const { writeContractAsync: writeLendingPool, isMining: isPoolMining } = useScaffoldWriteContract({
+    contractName: "LendingPool",
+  });
+  const { writeContractAsync: writeTrustContract, isMining: isTrustMining } = useScaffoldWriteContract({
+    contractName: "TrustContract",
+  });
+
+  if (!address) {
+    return (
+      <div className="border-2 border-base-content bg-base-100 p-6 font-mono text-sm text-center">
+        [WALLET_REQUIRED] CONNECT_THE_OWNER_WALLET_TO_OPEN_THE_ADMIN_CONSOLE
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="border-2 border-base-content bg-base-100 p-6 font-mono text-sm text-center">
+        &gt; CHECKING_CONTRACT_OWNERSHIP...
+      </div>
+    );
+  }
+
+  if (!isOwner) {
+    return (
+      <div className="border-2 border-error bg-base-100 p-6 font-mono text-sm space-y-3">
+        <div className="text-error font-bold">[ACCESS_DENIED] CONNECTED_WALLET_IS_NOT_A_PROTOCOL_OWNER</div>
+        <div className="flex items-center gap-2">
+          <span className="opacity-75">LENDING_POOL_OWNER:</span>
+          <Address address={lendingPoolOwner} size="sm" />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="opacity-75">TRUST_CONTRACT_OWNER:</span>
+          <Address address={trustContractOwner} size="sm" />
+        </div>
+      </div>
+    );
+  }
+
+  const expiredLoans =
+    now === undefined ? [] : loans.filter(loan => loan.isActive && now > loan.startTime + loan.duration);
+  const flaggedLoans = loans.filter(loan => loan.isActive && risksByAddress.has(loan.borrower));
+  const availableBalance = poolBalance?.value;
+  const utilization =
+    availableBalance !== undefined && availableBalance + outstandingPrincipal > 0n
+      ? Number((outstandingPrincipal * 10000n) / (availableBalance + outstandingPrincipal)) / 100
+      : undefined;
+
+  const depositValue = parseAmount(depositAmount);
+  const withdrawValue = parseAmount(withdrawAmount);
+  const withdrawError = (() => {
+    if (!withdrawAmount) return undefined;
+    if (withdrawValue === undefined || withdrawValue <= 0n) return "INVALID_AMOUNT";
+    if (totalLiquidity !== undefined && withdrawValue > totalLiquidity) return "EXCEEDS_TOTAL_LIQUIDITY";
+    if (availableBalance !== undefined && withdrawValue > availableBalance) return "EXCEEDS_POOL_BALANCE";
+    return undefined;
+  })();
+  const lenderError = (() => {
+    if (!newLender) return undefined;
+    if (!isAddress(newLender)) return "INVALID_ADDRESS";
+    if (lenders.some(({ lender }) => isAddressEqual(lender, newLender))) return "ALREADY_AUTHORIZED";
+    return undefined;
+  })();
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    const { action } = pending;
+    try {
+      let txHash: string | undefined;
+      switch (action.functionName) {
+        case "addLiquidity":
+          txHash = await writeLendingPool({ functionName: "addLiquidity", value: action.value });
+          if (txHash) setDepositAmount("");
+          break;
+        case "withdrawLiquidity":
+          txHash = await writeLendingPool({ functionName: "withdrawLiquidity", args: action.args });
+          if (txHash) setWithdrawAmount("");
+          break;
+        case "liquidate":
+          txHash = await writeLendingPool({ functionName: "liquidate", args: action.args });
+          break;
+        case "addAuthorizedLender":
+          txHash = await writeTrustContract({ functionName: "addAuthorizedLender", args: action.args });
+          if (txHash) setNewLender("");
+          break;
+        case "removeAuthorizedLender":
+          txHash = await writeTrustContract({ functionName: "removeAuthorizedLender", args: action.args });
+          break;
+      }
+      if (txHash) setPending(undefined);
+    } catch (error) {
+      console.error(`${action.functionName} failed:`, error);
+    }
+  };
+
+  if (pending) {
+    return (
+      <AdminActionConfirmation
+        action={pending.action}
+        summary={pending.summary}
+        isMining={isPoolMining || isTrustMining}
+        onConfirm={handleConfirm}
+        onCancel={() => setPending(undefined)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6 font-mono">
+      <div className="border-2 border-base-content bg-base-100 p-6">
+        <div className="text-lg font-bold text-primary mb-1">[ADMIN] PROTOCOL_OPERATIONS</div>
+        <div className="text-xs opacity-75">
+          &gt; EVERY_ACTION_OPENS_A_CONFIRMATION_WITH_THE_DECODED_CALLDATA_BEFORE_SIGNING
+        </div>
+        {(!isPoolOwner || !isTrustOwner) && (
+          <div className="text-xs text-warning mt-2">
+            &gt; READ_ONLY: {isPoolOwner ? "TRUST_CONTRACT" : "LENDING_POOL"} IS_OWNED_BY_ANOTHER_WALLET
+          </div>
+        )}
+      </div>
+
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+        <div className="text-lg font-bold">[LIQUIDITY] POOL_VS_OUTSTANDING_PRINCIPAL</div>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="text-center p-3 border border-base-content">
+            <p className="text-sm mb-1">POOL_BALANCE</p>
+            <p className="text-lg font-bold">{formatEth(availableBalance)} ETH</p>
+          </div>
+          <div className="text-center p-3 border border-base-content">
+            <p className="text-sm mb-1">TOTAL_LIQUIDITY</p>
+            <p className="text-lg font-bold">{formatEth(totalLiquidity)} ETH</p>
+          </div>
+          <div className="text-center p-3 border border-base-content">
+            <p className="text-sm mb-1">OUTSTANDING_PRINCIPAL</p>
+            <p className="text-lg font-bold">{isLoadingLoans ? "--" : formatEth(outstandingPrincipal)} ETH</p>
+          </div>
+          <div className="text-center p-3 border border-base-content">
+            <p className="text-sm mb-1">UTILIZATION</p>
+            <p className="text-lg font-bold">{utilization === undefined ? "--" : `${utilization.toFixed(2)}%`}</p>
+          </div>
+        </div>
+        <div className="text-xs opacity-75">
+          &gt; TOTAL_LIQUIDITY_COUNTS_DEPOSITS_AND_CAPS_WITHDRAWALS, BORROWS_AND_REPAYMENTS_ONLY_MOVE_THE_BALANCE
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              placeholder="DEPOSIT_AMOUNT_ETH"
+              value={depositAmount}
+              onChange={e => setDepositAmount(e.target.value)}
+              className="input input-bordered w-full font-mono"
+            />
+            <button
+              disabled={!isPoolOwner || !depositValue || depositValue <= 0n}
+              onClick={() =>
+                depositValue &&
+                setPending({
+                  action: { contractName: "LendingPool", functionName: "addLiquidity", args: [], value: depositValue },
+                  summary: `DEPOSIT ${formatEth(depositValue)} ETH INTO THE LENDING_POOL`,
+                })
+              }
+              className="btn btn-primary w-full font-mono"
+            >
+              [ADD_LIQUIDITY]
+            </button>
+          </div>
+          <div className="space-y-2">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              placeholder="WITHDRAW_AMOUNT_ETH"
+              value={withdrawAmount}
+              onChange={e => setWithdrawAmount(e.target.value)}
+              className="input input-bordered w-full font-mono"
+            />
+            <button
+              disabled={!isPoolOwner || !withdrawValue || Boolean(withdrawError)}
+              onClick={() =>
+                withdrawValue &&
+                setPending({
+                  action: { contractName: "LendingPool", functionName: "withdrawLiquidity", args: [withdrawValue] },
+                  summary: `WITHDRAW ${formatEth(withdrawValue)} ETH FROM THE LENDING_POOL TO THE OWNER`,
+                })
+              }
+              className="btn btn-outline w-full font-mono"
+            >
+              {withdrawError ? `[${withdrawError}]` : "[WITHDRAW_LIQUIDITY]"}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <div className="text-lg font-bold">
+            [RISK_FLAGS] {isLoadingRisks || riskError ? "--" : flaggedLoans.length} FLAGGED_ACTIVE_LOANS
+          </div>
+          <Link href="/risk" className="btn btn-outline btn-sm font-mono">
+            [FULL_REPORT]
+          </Link>
+        </div>
+        {riskError ? (
+          <div className="text-sm text-warning">&gt; INDEXER_UNAVAILABLE: {riskError.message}</div>
+        ) : flaggedLoans.length === 0 ? (
+          <div className="text-sm opacity-75">&gt; NO_ACTIVE_BORROWER_MATCHES_A_SYBIL_OR_COLLUSION_HEURISTIC</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-sm w-full">
+              <thead>
+                <tr className="font-mono">
+                  <th>LOAN_ID</th>
+                  <th>BORROWER</th>
+                  <th>PRINCIPAL</th>
+                  <th>LEVEL</th>
+                  <th>FLAGS</th>
+                  <th>LIMIT_FROM_TRUST</th>
+                </tr>
+              </thead>
+              <tbody>
+                {flaggedLoans.map(loan => {
+                  const risk = risksByAddress.get(loan.borrower)!;
+                  return (
+                    <tr key={loan.id.toString()}>
+                      <td className="font-bold">#{loan.id.toString()}</td>
+                      <td>
+                        <Address address={loan.borrower} size="sm" />
+                      </td>
+                      <td>{formatEth(loan.amount)} ETH</td>
+                      <td className="font-bold">{risk.level.toUpperCase()}</td>
+                      <td>
+                        <RiskFlagBadges risk={risk} />
+                      </td>
+                      <td>{(risk.trustShare * 100).toFixed(0)}%</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <div className="text-lg font-bold">[STRESS_TEST] WHAT_IF_THE_TOP_N_BORROWERS_DEFAULT</div>
+          {stressTarget && (
+            <Link href={`/contagion?top=${stressTarget.topBorrowers}`} className="btn btn-outline btn-sm font-mono">
+              [FULL_REPORT]
+            </Link>
+          )}
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <span>N:</span>
+          <input
+            type="number"
+            min="1"
+            value={stressCount}
+            onChange={e => setStressCount(e.target.value)}
+            className="input input-bordered input-sm font-mono w-24"
+          />
+        </div>
+        {stressError ? (
+          <div className="text-sm text-warning">&gt; INDEXER_UNAVAILABLE: {stressError.message}</div>
+        ) : !stressReport ? (
+          <div className="text-sm opacity-75">&gt; {stressTarget ? "WALKING_THE_BOND_GRAPH..." : "ENTER_N"}</div>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: "DEFAULTERS", value: stressReport.defaulters.length },
+              { label: "PRINCIPAL_LOST", value: `${formatEth(stressReport.defaultedPrincipal)} ETH` },
+              { label: "YIELD_PAID_OUT", value: `${formatEth(stressReport.totalYieldPaidOut, 6)}Ξ` },
+              { label: "LOANS_HIT", value: stressReport.affectedLoans.length },
+              { label: "CASCADING_DEFAULTS", value: stressReport.cascadingDefaulters.length },
+            ].map(({ label, value }) => (
+              <div key={label} className="text-center p-3 border border-base-content">
+                <p className="text-sm mb-1">{label}</p>
+                <p className="text-lg font-bold">{value}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+        <div className="text-lg font-bold">[EXPIRED_LOANS] {expiredLoans.length} AWAITING_LIQUIDATION</div>
+        {expiredLoans.length === 0 ? (
+          <div className="text-sm opacity-75">&gt; NO_ACTIVE_LOAN_IS_PAST_ITS_DUE_DATE</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-sm w-full">
+              <thead>
+                <tr className="font-mono">
+                  <th>LOAN_ID</th>
+                  <th>BORROWER</th>
+                  <th>PRINCIPAL</th>
+                  <th>OWED_NOW</th>
+                  <th>OVERDUE_BY</th>
+                  <th>RISK</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {expiredLoans.map(loan => (
+                  <tr key={loan.id.toString()}>
+                    <td className="font-bold">#{loan.id.toString()}</td>
+                    <td>
+                      <Address address={loan.borrower} size="sm" />
+                    </td>
+                    <td>{formatEth(loan.amount)} ETH</td>
+                    <td>{now !== undefined ? formatEth(projectRepayment(loan, now), 6) : "--"} ETH</td>
+                    <td className="text-error">
+                      {now !== undefined ? formatDuration(Number(now - loan.startTime - loan.duration)) : "--"}
+                    </td>
+                    <td>
+                      <RiskFlagBadges risk={risksByAddress.get(loan.borrower)} />
+                    </td>
+                    <td>
+                      <button
+                        disabled={!isPoolOwner}
+                        onClick={() =>
+                          setPending({
+                            action: { contractName: "LendingPool", functionName: "liquidate", args: [loan.id] },
+                            summary: `LIQUIDATE LOAN #${loan.id} OF ${loan.borrower}: CLAIM_FROZEN_BOND_YIELDS_AND_MARK_DEFAULTED`,
+                          })
+                        }
+                        className="btn btn-error btn-sm font-mono"
+                      >
+                        [LIQUIDATE]
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+        <div className="text-lg font-bold">[AUTHORIZED_LENDERS] {isLoadingLenders ? "--" : lenders.length}</div>
+        <div className="text-xs opacity-75">
+          &gt; REBUILT_FROM_LENDER_AUTHORIZED/LENDER_DEAUTHORIZED_EVENTS. LENDERS_CAN_FREEZE_BONDS_AND_CLAIM_YIELDS
+        </div>
+        {lendingPool &&
+          !isLoadingLenders &&
+          !lenders.some(({ lender }) => isAddressEqual(lender, lendingPool.address)) && (
+            <div className="text-sm text-error">
+              &gt; [WARNING] LENDING_POOL_IS_NOT_AUTHORIZED: BORROW_AND_LIQUIDATE_WILL_REVERT
+            </div>
+          )}
+        <div className="border border-base-content">
+          {lenders.length === 0 ? (
+            <div className="p-3 text-sm opacity-75">&gt; NO_AUTHORIZED_LENDERS</div>
+          ) : (
+            lenders.map(({ lender, authorizedAtBlock }) => (
+              <div
+                key={lender}
+                className="flex flex-wrap items-center justify-between gap-2 p-3 border-b border-base-300 last:border-b-0"
+              >
+                <div className="flex items-center gap-3">
+                  <Address address={lender} size="sm" />
+                  {lendingPool && isAddressEqual(lender, lendingPool.address) && (
+                    <span className="text-xs border border-base-content px-1">LENDING_POOL</span>
+                  )}
+                  <span className="text-xs opacity-75">SINCE_BLOCK {authorizedAtBlock.toString()}</span>
+                </div>
+                <button
+                  disabled={!isTrustOwner}
+                  onClick={() =>
+                    setPending({
+                      action: { contractName: "TrustContract", functionName: "removeAuthorizedLender", args: [lender] },
+                      summary: `REVOKE ${lender} AS AUTHORIZED_LENDER`,
+                    })
+                  }
+                  className="btn btn-outline btn-sm font-mono"
+                >
+                  [REMOVE]
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+        <div className="flex flex-col md:flex-row gap-2">
+          <div className="grow">
+            <AddressInput value={newLender} onChange={setNewLender} placeholder="LENDER_ADDRESS" />
+          </div>
+          <button
+            disabled={!isTrustOwner || !newLender || Boolean(lenderError)}
+            onClick={() =>
+              setPending({
+                action: {
+                  contractName: "TrustContract",
+                  functionName: "addAuthorizedLender",
+                  args: [newLender as AddressType],
+                },
+                summary: `AUTHORIZE ${newLender} TO FREEZE_BONDS_AND_CLAIM_YIELDS`,
+              })
+            }
+            className="btn btn-primary font-mono"
+          >
+            {lenderError ? `[${lenderError}]` : "[AUTHORIZE_LENDER]"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
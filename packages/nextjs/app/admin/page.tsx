@@ -0,0 +1,18 @@
+import { AdminConsole } from "./_components/AdminConsole";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Admin",
+  description: "Owner console for LendingPool liquidity, liquidations and TrustContract lenders",
+});
+
+const Admin: NextPage = () => {
+  return (
+    <div className="max-w-5xl mx-auto w-full px-4 py-10">
+      <AdminConsole />
+    </div>
+  );
+};
+
+export default Admin;
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getIndexerStatus,
+  getProtocolTotals,
+  getUser,
+  listBonds,
+  listLoans,
+  listUsers,
+  listVerifications,
+} from "@se-2/indexer/queries";
+import { BondStatus, LoanStatus } from "@se-2/indexer/schema";
+import { Address, isAddress } from "viem";
+import { getIndexerDatabase } from "~~/services/indexer/store";
+
+const BOND_STATUSES: BondStatus[] = ["active", "exited", "defected"];
+const LOAN_STATUSES: LoanStatus[] = ["active", "repaid", "defaulted"];
+
+const badRequest = (message: string) => NextResponse.json({ status: "error", message }, { status: 400 });
+
+/**
+ * Serves the indexed protocol state:
+ * - `/api/indexer/status` and `/api/indexer/totals`
+ * - `/api/indexer/bonds?address=&status=` and `/api/indexer/loans?borrower=&status=`
+ * - `/api/indexer/users?address=` and `/api/indexer/verifications`
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ resource: string }> }) {
+  const { resource } = await params;
+  const db = getIndexerDatabase();
+  if (!db) {
+    return NextResponse.json(
+      { status: "error", message: "Indexer store not found, run `yarn indexer:start`" },
+      { status: 503 },
+    );
+  }
+
+  const searchParams = req.nextUrl.searchParams;
+  const address = searchParams.get("address") ?? searchParams.get("borrower");
+  if (address !== null && !isAddress(address)) {
+    return badRequest("Invalid address");
+  }
+  const status = searchParams.get("status");
+
+  switch (resource) {
+    case "status":
+      return NextResponse.json({ status: "ok", checkpoint: getIndexerStatus(db) ?? null });
+    case "totals":
+      return NextResponse.json(getProtocolTotals(db));
+    case "bonds":
+      if (status !== null && !BOND_STATUSES.includes(status as BondStatus)) return badRequest("Invalid bond status");
+      return NextResponse.json(
+        listBonds(db, { address: (address as Address) ?? undefined, status: (status as BondStatus) ?? undefined }),
+      );
+    case "loans":
+      if (status !== null && !LOAN_STATUSES.includes(status as LoanStatus)) return badRequest("Invalid loan status");
+      return NextResponse.json(
+        listLoans(db, { borrower: (address as Address) ?? undefined, status: (status as LoanStatus) ?? undefined }),
+      );
+    case "users":
+      if (address === null) return NextResponse.json(listUsers(db));
+      return NextResponse.json(getUser(db, address as Address) ?? null);
+    case "verifications":
+      return NextResponse.json(listVerifications(db));
+    default:
+      return NextResponse.json({ status: "error", message: `Unknown resource ${resource}` }, { status: 404 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  authenticateRequest,
+  notificationErrorResponse,
+  storeUnavailableResponse,
+} from "~~/services/notifications/requests";
+import { getNotificationStore } from "~~/services/notifications/store";
+
+const MAX_LIMIT = 200;
+
+/**
+ * `POST /api/notifications/inbox` with a signed request:
+ * - `readInbox` returns the wallet's in-app notifications, newest first
+ * - `markRead` marks the listed notifications read
+ */
+export async function POST(req: NextRequest) {
+  const store = getNotificationStore();
+  if (!store) return storeUnavailableResponse();
+
+  try {
+    const request = await authenticateRequest(store, await req.json().catch(() => null), ["readInbox", "markRead"]);
+    if (request.action === "readInbox") {
+      const limit = Math.min(Number(request.payload.limit) || 50, MAX_LIMIT);
+      return NextResponse.json(store.listInbox(request.wallet, limit));
+    }
+
+    const { ids } = request.payload;
+    if (!Array.isArray(ids) || ids.some(id => !Number.isInteger(id))) {
+      return NextResponse.json({ status: "error", message: "ids must be notification ids" }, { status: 400 });
+    }
+    const marked = store.markRead(request.wallet, ids);
+    store.touchSubscription(request.wallet, request.issuedAt);
+    return NextResponse.json({ status: "ok", marked });
+  } catch (error) {
+    return notificationErrorResponse(error);
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  NotificationAuthError,
+  SubscriptionSettings,
+  validateSubscriptionSettings,
+} from "@se-2/indexer/notificationAuth";
+import { Address, isAddress } from "viem";
+import {
+  authenticateRequest,
+  notificationErrorResponse,
+  storeUnavailableResponse,
+} from "~~/services/notifications/requests";
+import { getNotificationStore } from "~~/services/notifications/store";
+
+// Reads are unsigned, so contact details are only echoed back masked
+const maskEmail = (email: string) => email.replace(/^(.).*@/, "$1***@");
+const maskWebhookUrl = (url: string) => `${new URL(url).origin}/***`;
+
+/**
+ * `GET /api/notifications/subscription?wallet=`: the wallet's settings with the email and webhook URL masked,
+ * `subscription: null` when it has none
+ */
+export async function GET(req: NextRequest) {
+  const wallet = req.nextUrl.searchParams.get("wallet");
+  if (!wallet || !isAddress(wallet)) {
+    return NextResponse.json({ status: "error", message: "Invalid wallet" }, { status: 400 });
+  }
+  const store = getNotificationStore();
+  if (!store) return storeUnavailableResponse();
+
+  const subscription = store.getSubscription(wallet as Address);
+  return NextResponse.json({
+    defaultOffsets: DEFAULT_REMINDER_OFFSETS,
+    subscription: subscription && {
+      inApp: subscription.inApp,
+      webhookUrl: subscription.webhookUrl && maskWebhookUrl(subscription.webhookUrl),
+      email: subscription.email && maskEmail(subscription.email),
+      offsets: subscription.offsets,
+    },
+  });
+}
+
+/**
+ * `POST /api/notifications/subscription` with a signed `subscribe` request replaces the wallet's settings,
+ * a signed `unsubscribe` deletes them
+ */
+export async function POST(req: NextRequest) {
+  const store = getNotificationStore();
+  if (!store) return storeUnavailableResponse();
+
+  try {
+    const request = await authenticateRequest(store, await req.json().catch(() => null), ["subscribe", "unsubscribe"]);
+    if (request.action === "unsubscribe") {
+      return NextResponse.json({ status: "ok", unsubscribed: store.deleteSubscription(request.wallet) });
+    }
+
+    const settings: SubscriptionSettings = {
+      inApp: request.payload.inApp,
+      webhookUrl: request.payload.webhookUrl ?? null,
+      email: request.payload.email ?? null,
+      offsets: request.payload.offsets,
+    };
+    try {
+      validateSubscriptionSettings(settings);
+    } catch (error) {
+      if (error instanceof NotificationAuthError) {
+        return NextResponse.json({ status: "error", message: error.message }, { status: 400 });
+      }
+      throw error;
+    }
+    store.saveSubscription(request.wallet, settings, request.issuedAt);
+    return NextResponse.json({ status: "ok" });
+  } catch (error) {
+    return notificationErrorResponse(error);
+  }
+}
@@ -1,21 +1,40 @@
 // packages/nextjs/app/api/verify-self/route.ts
-import { NextResponse } from "next/server";
-import { AllIds, DefaultConfigStore, SelfBackendVerifier } from "@selfxyz/core";
-
-// Production Self.xyz verifier configuration
-const createSelfVerifier = () => {
-  return new SelfBackendVerifier(
-    process.env.NEXT_PUBLIC_SELF_SCOPE || "trust-protocol-v1", // Your app's unique scope
-    process.env.NEXT_PUBLIC_SELF_ENDPOINT || "", // Your public endpoint
-    process.env.NODE_ENV !== "production", // true = testnet, false = mainnet
-    AllIds, // Accept all document types (passport, EU ID, etc.)
-    new DefaultConfigStore({
-      minimumAge: 18,
-      excludedCountries: [], // Add ["IRN", "PRK"] if needed
-      ofac: false, // Set to true for production compliance
-    }),
-    "hex", // Use "hex" for wallet addresses
-  );
+import { NextRequest, NextResponse } from "next/server";
+import { Address, Hash, getAddress, isAddress, isHex, sliceHex, verifyMessage } from "viem";
+import { privateKeyToAddress } from "viem/accounts";
+import { loadDisclosurePolicy } from "~~/services/self/policy";
+import { SelfRelayerConflictError, bindNullifierOnChain } from "~~/services/self/relayer";
+import { getSelfRelayerConfig } from "~~/services/self/relayerConfig";
+import { getVerification, saveVerification } from "~~/services/self/verificationStore";
+import { createIdentityVerifier } from "~~/services/self/verifier";
+import {
+  SELF_READ_MAX_AGE,
+  SELF_READ_MAX_CLOCK_SKEW,
+  SelfVerificationRecord,
+  SelfVerificationStatus,
+  buildSelfVerificationReadMessage,
+  nullifierToBytes32,
+} from "~~/utils/trust/self";
+
+/**
+ * Extracts the wallet from userContextData.
+ * The Self relayer sends it ABI-packed as `bytes32 chainId | bytes32 userId | userDefinedData`, where userId is the
+ * wallet the QR code was built for; a plain `{ walletAddress }` object is accepted as well.
+ */
+const parseWalletAddress = (userContextData: unknown): Address => {
+  if (typeof userContextData === "string") {
+    const packed = userContextData.startsWith("0x") ? userContextData : `0x${userContextData}`;
+    if (isHex(packed) && packed.length >= 2 + 64 * 2) {
+      return getAddress(sliceHex(packed, 44, 64));
+    }
+  }
+
+  const contextData = typeof userContextData === "string" ? JSON.parse(userContextData) : userContextData;
+  const walletAddress = contextData?.walletAddress;
+  if (!walletAddress || !isAddress(walletAddress)) {
+    throw new Error("Wallet address not found in context data");
+  }
+  return getAddress(walletAddress);
 };
 
 export async function POST(req: Request) {
@@ -46,15 +65,9 @@ export async function POST(req: Request) {
     }
 
     // Parse user context to extract wallet address
-    let walletAddress: string;
+    let walletAddress: Address;
     try {
-      const contextData = typeof userContextData === "string" ? JSON.parse(userContextData) : userContextData;
-      walletAddress = contextData.walletAddress;
-
-      if (!walletAddress) {
-        throw new Error("Wallet address not found in context data");
-      }
-
+      walletAddress = parseWalletAddress(userContextData);
       console.log("Verifying Self proof for wallet:", walletAddress);
     } catch (error) {
       console.error("Failed to parse userContextData:", error);
@@ -67,60 +80,87 @@ export async function POST(req: Request) {
       );
     }
 
-    // Initialize Self verifier
-    const selfBackendVerifier = createSelfVerifier();
-
-    // Verify the proof with Self.xyz
-    console.log("Calling Self.xyz verification...");
-    const verificationResult = await selfBackendVerifier.verify(attestationId, proof, publicSignals, userContextData);
+    // Initialize the configured proof backend (Self.xyz or the offline mock) with the deployment's policy
+    const policy = loadDisclosurePolicy();
+    const verifier = createIdentityVerifier(policy);
+
+    console.log(`Calling ${verifier.name} verification...`);
+    const verificationResult = await verifier.verify({
+      attestationId,
+      proof,
+      publicSignals,
+      userContextData,
+      walletAddress,
+    });
 
     console.log("Self verification completed:", {
-      isValid: verificationResult.isValidDetails.isValid,
-      hasNullifier: !!verificationResult.discloseOutput?.nullifier,
+      verifier: verifier.name,
+      isValid: verificationResult.isValid,
     });
 
-    if (verificationResult.isValidDetails.isValid) {
-      // Extract verification data
-      const nullifier = verificationResult.discloseOutput.nullifier;
-      const disclosedData = verificationResult.discloseOutput;
-
-      if (!nullifier) {
-        console.error("Verification successful but no nullifier received");
-        return NextResponse.json(
-          {
-            status: "error",
-            message: "Invalid verification result: missing nullifier",
-          },
-          { status: 500 },
-        );
-      }
+    if (verificationResult.isValid) {
+      const { nullifier, disclosedAttributes } = verificationResult;
 
       console.log("Verification successful for wallet:", walletAddress);
 
+      const bytes32Nullifier = nullifierToBytes32(nullifier);
+
+      // Bind the nullifier with the relayer key; without one the wallet submits verifySelfProof itself
+      let txHash: Hash | undefined;
+      let boundOnChain = false;
+      const relayerConfig = getSelfRelayerConfig();
+      if (relayerConfig) {
+        try {
+          const relayResult = await bindNullifierOnChain(relayerConfig, bytes32Nullifier, walletAddress);
+          txHash = relayResult.txHash;
+          boundOnChain = true;
+          console.log("verifySelfProof relayed for wallet:", walletAddress, relayResult);
+        } catch (error) {
+          console.error("Failed to relay verifySelfProof:", error);
+          const isConflict = error instanceof SelfRelayerConflictError;
+          return NextResponse.json(
+            {
+              status: "error",
+              verified: true,
+              message: isConflict ? error.message : "Failed to submit verifySelfProof",
+            },
+            { status: isConflict ? 409 : 502 },
+          );
+        }
+      }
+
+      const verification = {
+        nullifier: bytes32Nullifier,
+        walletAddress: walletAddress,
+        verificationTime: Date.now(),
+        txHash,
+        boundOnChain,
+        disclosedAttributes,
+      };
+      // Picked up by the frontend poll
+      saveVerification(verification);
+
       return NextResponse.json({
         status: "success",
         verified: true,
-        data: {
-          nullifier: nullifier,
-          walletAddress: walletAddress,
-          verificationTime: Date.now(),
-          disclosedAttributes: {
-            minimumAge: disclosedData.minimumAge,
-            nationality: disclosedData.nationality,
-            // Add other disclosed fields as configured
-          },
-        },
+        policyVersion: policy.version,
+        data: verification,
       });
     } else {
       // Verification failed
-      console.error("Self verification failed:", verificationResult.isValidDetails);
+      console.error("Self verification failed:", verificationResult.rejectedRule, verificationResult.details);
 
       return NextResponse.json(
         {
           status: "error",
           verified: false,
-          message: "Identity verification failed",
-          details: process.env.NODE_ENV === "development" ? verificationResult.isValidDetails : undefined,
+          message:
+            verificationResult.rejectedRule === "proof"
+              ? "Identity verification failed"
+              : `Identity verification failed: rejected by the ${verificationResult.rejectedRule} rule`,
+          rejectedRule: verificationResult.rejectedRule,
+          policyVersion: policy.version,
+          details: process.env.NODE_ENV === "development" ? verificationResult.details : undefined,
         },
         { status: 400 },
       );
@@ -139,13 +179,73 @@ export async function POST(req: Request) {
   }
 }
 
-// Health check endpoint
-export async function GET() {
+/**
+ * Checks a `?issuedAt=&signature=` read request against `walletAddress`, returning an error message when it fails
+ */
+const checkSignedRead = async (walletAddress: Address, issuedAtParam: string | null, signature: string | null) => {
+  const issuedAt = Number(issuedAtParam);
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isInteger(issuedAt) || !signature || !isHex(signature)) return "Missing issuedAt or signature";
+  if (issuedAt < now - SELF_READ_MAX_AGE || issuedAt > now + SELF_READ_MAX_CLOCK_SKEW) {
+    return "Signed request expired, sign again";
+  }
+  const isValid = await verifyMessage({
+    address: walletAddress,
+    message: buildSelfVerificationReadMessage(walletAddress, issuedAt),
+    signature,
+  }).catch(() => false);
+  return isValid ? undefined : "Signature does not match the wallet";
+};
+
+// Verification status for `?walletAddress=`, the full verification when the wallet signed the read, health check otherwise
+export async function GET(req: NextRequest) {
+  const searchParams = req.nextUrl.searchParams;
+  const walletAddress = searchParams.get("walletAddress");
+
+  if (walletAddress !== null) {
+    if (!isAddress(walletAddress)) {
+      return NextResponse.json({ status: "error", message: "Invalid walletAddress" }, { status: 400 });
+    }
+
+    const verification = getVerification(walletAddress);
+    if (searchParams.has("signature")) {
+      const authError = await checkSignedRead(
+        walletAddress,
+        searchParams.get("issuedAt"),
+        searchParams.get("signature"),
+      );
+      if (authError) return NextResponse.json({ status: "error", message: authError }, { status: 401 });
+
+      const body: SelfVerificationRecord | SelfVerificationStatus = verification
+        ? { status: "verified", data: verification }
+        : { status: "pending" };
+      return NextResponse.json(body);
+    }
+
+    const body: SelfVerificationStatus = verification
+      ? { status: "verified", boundOnChain: verification.boundOnChain, txHash: verification.txHash }
+      : { status: "pending" };
+    return NextResponse.json(body);
+  }
+
+  const relayerConfig = getSelfRelayerConfig();
+  const policy = loadDisclosurePolicy();
+
   return NextResponse.json({
     status: "ok",
     service: "Self.xyz Verification API",
     environment: process.env.NODE_ENV,
+    verifier: process.env.SELF_VERIFIER || "self",
+    policyVersion: policy.version,
+    policy,
     scope: process.env.NEXT_PUBLIC_SELF_SCOPE,
+    relayer: relayerConfig
+      ? {
+          chainId: relayerConfig.chain.id,
+          address: privateKeyToAddress(relayerConfig.privateKey),
+          trustContract: relayerConfig.trustContractAddress,
+        }
+      : null,
     timestamp: Date.now(),
   });
 }
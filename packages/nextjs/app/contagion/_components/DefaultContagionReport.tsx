@@ -0,0 +1,287 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Address as AddressType, formatEther, getAddress, isAddress } from "viem";
+import { Address, AddressInput } from "~~/components/scaffold-eth";
+import { ContagionTarget, useDefaultContagion } from "~~/hooks/trust";
+
+type TargetMode = "address" | "loan" | "top";
+
+const formatEth = (value: bigint, decimals = 4) => parseFloat(formatEther(value)).toFixed(decimals);
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 16).replace("T", " ");
+
+const GraphLink = ({ address }: { address: AddressType }) => (
+  <Link href={`/graph?address=${address}`} className="underline text-primary text-xs">
+    [GRAPH]
+  </Link>
+);
+
+const Wallet = ({ address }: { address: AddressType }) => (
+  <div className="flex items-center gap-2">
+    <Address address={address} size="sm" />
+    <GraphLink address={address} />
+  </div>
+);
+
+const initialMode = (searchParams: URLSearchParams): TargetMode =>
+  searchParams.has("loan") ? "loan" : searchParams.has("top") ? "top" : "address";
+
+/**
+ * What-if report of a default for an address, the borrower of a loan or the top N borrowers: the bonds whose yield
+ * the liquidation pays out, first- and second-degree counterparties and their loans whose limits drop
+ */
+export const DefaultContagionReport = () => {
+  const searchParams = useSearchParams();
+  const [mode, setMode] = useState<TargetMode>(() => initialMode(searchParams));
+  const [addressInput, setAddressInput] = useState(searchParams.get("address") ?? "");
+  const [loanInput, setLoanInput] = useState(searchParams.get("loan") ?? "");
+  const [topInput, setTopInput] = useState(searchParams.get("top") ?? "5");
+
+  const target = useMemo<ContagionTarget | undefined>(() => {
+    if (mode === "address") return isAddress(addressInput) ? { address: getAddress(addressInput) } : undefined;
+    const value = Number(mode === "loan" ? loanInput : topInput);
+    if (!Number.isInteger(value) || value <= 0) return undefined;
+    return mode === "loan" ? { loanId: value } : { topBorrowers: value };
+  }, [mode, addressInput, loanInput, topInput]);
+
+  const { report, now, isLoading, error } = useDefaultContagion(target);
+
+  if (error) {
+    return (
+      <div className="border-2 border-error bg-base-100 p-6 font-mono text-sm space-y-2">
+        <div className="text-error font-bold">[INDEXER_UNAVAILABLE] {error.message}</div>
+        <div className="opacity-75">&gt; THE_REPORT_IS_BUILT_FROM_INDEXED_EVENTS, RUN `yarn indexer:start`</div>
+      </div>
+    );
+  }
+
+  const firstDegree = report?.counterparties.filter(impact => impact.degree === 1) ?? [];
+  const secondDegree = report?.counterparties.filter(impact => impact.degree === 2) ?? [];
+
+  return (
+    <div className="space-y-6 font-mono">
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+        <div className="text-lg font-bold text-primary">[DEFAULT_CONTAGION] WHAT_IF_THEY_DEFAULT</div>
+        <div className="text-xs opacity-75">
+          &gt; LIQUIDATION_PAYS_OUT_THE_YIELD_EVERY_FROZEN_BOND_OF_THE_BORROWER_STORED_AT_THE_FREEZE, SPLIT_BY_STAKE,
+          AND FORFEITS_WHAT_IT_EARNED_SINCE. THE_POOL RECOVERS_NOTHING. PARTNERS_KEEP_THEIR_STAKE_AND_THEIR_SHARE,
+          BUT_THE YIELD_SINCE_THE_FREEZE_LEAVES_THEIR_COLLATERAL AND_THEIR_LIMIT_DROPS
+        </div>
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <div>
+            <label className="block mb-2 text-primary">[TARGET]</label>
+            <select
+              value={mode}
+              onChange={event => setMode(event.target.value as TargetMode)}
+              className="select select-bordered select-sm font-mono"
+            >
+              <option value="address">ADDRESS</option>
+              <option value="loan">LOAN_ID</option>
+              <option value="top">TOP_N_BORROWERS</option>
+            </select>
+          </div>
+          {mode === "address" ? (
+            <div className="flex-1 min-w-64">
+              <label className="block mb-2 text-primary">[INPUT] DEFAULTER:</label>
+              <AddressInput value={addressInput} onChange={setAddressInput} placeholder="0x..." />
+            </div>
+          ) : (
+            <div>
+              <label className="block mb-2 text-primary">[INPUT] {mode === "loan" ? "LOAN_ID" : "N"}:</label>
+              <input
+                type="number"
+                min="1"
+                value={mode === "loan" ? loanInput : topInput}
+                onChange={event => (mode === "loan" ? setLoanInput : setTopInput)(event.target.value)}
+                className="input input-bordered input-sm font-mono w-32"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {!target ? (
+        <div className="border-2 border-base-content bg-base-100 p-6 text-sm opacity-75">
+          &gt; ENTER_AN_ADDRESS, A_LOAN_ID OR_N_TO_RUN_THE_ANALYSIS
+        </div>
+      ) : isLoading ? (
+        <div className="border-2 border-base-content bg-base-100 p-6 text-sm">&gt; WALKING_THE_BOND_GRAPH...</div>
+      ) : !report ? (
+        <div className="border-2 border-base-content bg-base-100 p-6 text-sm opacity-75">
+          &gt; NO_ACTIVE_INDEXED_LOAN_WITH_THIS_ID
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: "DEFAULTED_PRINCIPAL", value: `${formatEth(report.defaultedPrincipal)} ETH` },
+              { label: "YIELD_PAID_OUT", value: `${formatEth(report.totalYieldPaidOut, 6)}Ξ` },
+              { label: "COUNTERPARTIES", value: `${firstDegree.length} + ${secondDegree.length}` },
+              { label: "CASCADING_DEFAULTS", value: report.cascadingDefaulters.length },
+            ].map(({ label, value }) => (
+              <div key={label} className="text-center p-3 border-2 border-base-content bg-base-100">
+                <p className="text-sm mb-1">{label}</p>
+                <p className="text-lg font-bold">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+            <div className="text-lg font-bold">[DEFAULTERS] {report.defaulters.length}</div>
+            {report.defaulters.length === 0 && <div className="text-sm opacity-75">&gt; NO_ACTIVE_BORROWERS</div>}
+            <div className="flex flex-wrap gap-x-6 gap-y-2">
+              {report.defaulters.map(defaulter => (
+                <Wallet key={defaulter} address={defaulter} />
+              ))}
+            </div>
+            {report.defaulters.length > 0 && report.defaultedLoans.length === 0 && (
+              <div className="text-xs text-warning">
+                &gt; NO_ACTIVE_LOAN: ASSUMES_A_LOAN_THAT_FREEZES_EVERY_OPEN_BOND, THEN_DEFAULTS
+              </div>
+            )}
+          </div>
+
+          <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+            <div className="text-lg font-bold">[BONDS_PAID_OUT] {report.bonds.length}</div>
+            {report.bonds.length === 0 ? (
+              <div className="text-sm opacity-75">&gt; NO_FROZEN_BONDS: THE_DEFAULT_STAYS_WITH_THE_POOL</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="table table-sm w-full">
+                  <thead>
+                    <tr className="font-mono">
+                      <th>BOND</th>
+                      <th>DEFAULTER</th>
+                      <th>COUNTERPARTY</th>
+                      <th>STAKE</th>
+                      <th>YIELD_PAID_OUT</th>
+                      <th>PAID_TO_COUNTERPARTY</th>
+                      <th>OFF_COLLATERAL</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.bonds.map(bond => (
+                      <tr key={bond.bondId}>
+                        <td>#{bond.bondId}</td>
+                        <td>
+                          <Address address={bond.defaulter} size="sm" />
+                        </td>
+                        <td>
+                          <Wallet address={bond.counterparty} />
+                        </td>
+                        <td>{formatEth(bond.stake)}Ξ</td>
+                        <td>{formatEth(bond.yieldPaidOut, 6)}Ξ</td>
+                        <td>{formatEth(bond.counterpartyPayout, 6)}Ξ</td>
+                        <td>{formatEth(bond.projectedYield, 6)}Ξ</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          {[
+            { label: "FIRST_DEGREE", impacts: firstDegree, via: "BONDED_TO" },
+            { label: "SECOND_DEGREE", impacts: secondDegree, via: "THROUGH" },
+          ].map(({ label, impacts, via }) => (
+            <div key={label} className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+              <div className="text-lg font-bold">
+                [{label}_COUNTERPARTIES] {impacts.length}
+              </div>
+              {impacts.length === 0 ? (
+                <div className="text-sm opacity-75">&gt; NONE_EXPOSED</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="table table-sm w-full">
+                    <thead>
+                      <tr className="font-mono">
+                        <th>WALLET</th>
+                        <th>{via}</th>
+                        <th>BONDS</th>
+                        <th>YIELD_OFF_COLLATERAL</th>
+                        <th>PAID_TO_IT</th>
+                        <th>LIMIT_BEFORE</th>
+                        <th>LIMIT_AFTER</th>
+                        <th>BORROWED</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {impacts.map(impact => (
+                        <tr key={impact.address} className={impact.exceedsLimit ? "text-error" : ""}>
+                          <td>
+                            <Wallet address={impact.address} />
+                          </td>
+                          <td>
+                            {impact.via.map(source => (
+                              <Address key={source} address={source} size="xs" />
+                            ))}
+                          </td>
+                          <td>{impact.bonds.map(bond => `#${bond.bondId}`).join(" ")}</td>
+                          <td>{formatEth(impact.yieldRemoved, 6)}Ξ</td>
+                          <td>{formatEth(impact.payoutReceived, 6)}Ξ</td>
+                          <td>{formatEth(impact.limitBefore)} ETH</td>
+                          <td>{formatEth(impact.limitAfter)} ETH</td>
+                          <td>
+                            {impact.activeLoanPrincipal > 0n ? `${formatEth(impact.activeLoanPrincipal)} ETH` : "--"}
+                            {impact.exceedsLimit && <span className="badge badge-error badge-sm ml-2">OVER_LIMIT</span>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+            <div className="text-lg font-bold">[AFFECTED_LOANS] {report.affectedLoans.length}</div>
+            {report.affectedLoans.length === 0 ? (
+              <div className="text-sm opacity-75">&gt; NO_COUNTERPARTY_HAS_AN_ACTIVE_LOAN</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="table table-sm w-full">
+                  <thead>
+                    <tr className="font-mono">
+                      <th>LOAN</th>
+                      <th>BORROWER</th>
+                      <th>DEGREE</th>
+                      <th>PRINCIPAL</th>
+                      <th>LIMIT_BEFORE</th>
+                      <th>LIMIT_AFTER</th>
+                      <th>DUE</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.affectedLoans.map(loan => (
+                      <tr key={loan.loanId} className={loan.exceedsLimit ? "text-error" : ""}>
+                        <td>#{loan.loanId}</td>
+                        <td>
+                          <Wallet address={loan.borrower} />
+                        </td>
+                        <td>{loan.degree}</td>
+                        <td>{formatEth(loan.principal)} ETH</td>
+                        <td>{formatEth(loan.limitBefore)} ETH</td>
+                        <td>
+                          {formatEth(loan.limitAfter)} ETH
+                          {loan.exceedsLimit && <span className="badge badge-error badge-sm ml-2">OVER_LIMIT</span>}
+                        </td>
+                        <td className={now && BigInt(loan.dueTimestamp) < now ? "text-error" : ""}>
+                          {formatDate(loan.dueTimestamp)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
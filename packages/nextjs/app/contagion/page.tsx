@@ -0,0 +1,18 @@
+import { DefaultContagionReport } from "./_components/DefaultContagionReport";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Default Contagion",
+  description: "Counterparties, bond yield and loans a default would hit, walked over the indexed bond graph",
+});
+
+const Contagion: NextPage = () => {
+  return (
+    <div className="max-w-6xl mx-auto w-full px-4 py-10">
+      <DefaultContagionReport />
+    </div>
+  );
+};
+
+export default Contagion;
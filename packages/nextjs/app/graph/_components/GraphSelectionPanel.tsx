@@ -0,0 +1,144 @@
+"use client";
+
+import Link from "next/link";
+import { GraphSelection } from "./TrustGraphCanvas";
+import { Address as AddressType, formatEther } from "viem";
+import { hardhat } from "viem/chains";
+import { Address } from "~~/components/scaffold-eth";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { getBlockExplorerAddressLink, getBlockExplorerTxLink } from "~~/utils/scaffold-eth";
+import { TrustGraph } from "~~/utils/trust/graph";
+
+type GraphSelectionPanelProps = {
+  graph: TrustGraph;
+  selection: GraphSelection;
+  onSelect: (selection: GraphSelection) => void;
+  onFocus: (address: AddressType) => void;
+};
+
+const formatEth = (value: bigint, decimals = 4) => parseFloat(formatEther(value)).toFixed(decimals);
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 10);
+
+/**
+ * Details of the clicked address or bond, with links to the block explorer
+ */
+export const GraphSelectionPanel = ({ graph, selection, onSelect, onFocus }: GraphSelectionPanelProps) => {
+  const { targetNetwork } = useTargetNetwork();
+  const txLink = (hash: string) =>
+    targetNetwork.id === hardhat.id
+      ? `/blockexplorer/transaction/${hash}`
+      : getBlockExplorerTxLink(targetNetwork.id, hash);
+
+  if (selection.type === "node") {
+    const node = graph.nodes.find(candidate => candidate.address === selection.address);
+    if (!node) return null;
+    const bonds = graph.edges.filter(edge => edge.creator === node.address || edge.partner === node.address);
+
+    return (
+      <div className="border-2 border-base-content bg-base-100 p-4 space-y-2 text-sm">
+        <div className="font-bold text-primary">[ADDRESS]</div>
+        <Address address={node.address} size="sm" />
+        <div className="flex justify-between">
+          <span className="opacity-75">TRUST_SCORE:</span>
+          <span className="font-bold">{node.trustScore.toString()}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="opacity-75">VERIFIED:</span>
+          <span className={node.isVerified ? "text-success" : "text-warning"}>{node.isVerified ? "YES" : "NO"}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="opacity-75">ACTIVE_BONDS:</span>
+          <span>
+            {node.activeBondCount}/{node.bondCount}
+          </span>
+        </div>
+        <div className="flex justify-between">
+          <span className="opacity-75">ACTIVE_STAKE:</span>
+          <span>{formatEth(node.activeStake)}Ξ</span>
+        </div>
+        <div className="border-t border-base-300 pt-2 space-y-1">
+          {bonds.map(edge => {
+            const partner = edge.creator === node.address ? edge.partner : edge.creator;
+            return (
+              <button
+                key={edge.id}
+                onClick={() => onSelect({ type: "edge", id: edge.id })}
+                className="w-full text-left text-xs hover:bg-base-200 px-1"
+              >
+                &gt; #{edge.id} {edge.state.toUpperCase()} WITH {partner.slice(0, 6)}…{partner.slice(-4)}
+              </button>
+            );
+          })}
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          <button onClick={() => onFocus(node.address)} className="btn btn-primary btn-xs font-mono">
+            [EGO_NETWORK]
+          </button>
+          <Link
+            href={getBlockExplorerAddressLink(targetNetwork, node.address)}
+            target={targetNetwork.id === hardhat.id ? undefined : "_blank"}
+            className="btn btn-outline btn-xs font-mono"
+          >
+            [OPEN_ADDRESS]
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const edge = graph.edges.find(candidate => candidate.id === selection.id);
+  if (!edge) return null;
+  const link = txLink(edge.createdTx);
+
+  return (
+    <div className="border-2 border-base-content bg-base-100 p-4 space-y-2 text-sm">
+      <div className="font-bold text-primary">
+        [BOND #{edge.id}] {edge.state.toUpperCase()}
+      </div>
+      {[
+        { label: "CREATOR", address: edge.creator, stake: edge.creatorStake },
+        { label: "PARTNER", address: edge.partner, stake: edge.partnerStake },
+      ].map(({ label, address, stake }) => (
+        <div key={label} className="space-y-1">
+          <div className="flex justify-between">
+            <span className="opacity-75">{label}:</span>
+            <span>{formatEth(stake)}Ξ</span>
+          </div>
+          <button onClick={() => onSelect({ type: "node", address })} className="text-left">
+            <Address address={address} size="sm" disableAddressLink />
+          </button>
+        </div>
+      ))}
+      <div className="flex justify-between">
+        <span className="opacity-75">TOTAL_STAKE:</span>
+        <span className="font-bold">{formatEth(edge.stake)}Ξ</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="opacity-75">OPENED:</span>
+        <span>{formatDate(edge.createdTimestamp)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="opacity-75">AGE:</span>
+        <span>{edge.ageDays}D</span>
+      </div>
+      {edge.closedTimestamp !== null && (
+        <div className="flex justify-between">
+          <span className="opacity-75">{edge.state === "defected" ? "DEFECTED" : "EXITED"}:</span>
+          <span>
+            {formatDate(edge.closedTimestamp)} BY {edge.closedBy?.slice(0, 6)}…{edge.closedBy?.slice(-4)}
+          </span>
+        </div>
+      )}
+      {link && (
+        <Link
+          href={link}
+          target={targetNetwork.id === hardhat.id ? undefined : "_blank"}
+          className="btn btn-outline btn-xs font-mono"
+        >
+          [OPEN_CREATION_TX]
+        </Link>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+"use client";
+
+import { Address, formatEther } from "viem";
+import { EdgeState, GraphEdge, GraphNode, GraphPosition, TrustGraph } from "~~/utils/trust/graph";
+
+export const CANVAS_WIDTH = 960;
+export const CANVAS_HEIGHT = 640;
+
+// Full class names so Tailwind keeps them
+export const EDGE_STATE_CLASSES: Record<EdgeState, string> = {
+  active: "stroke-success",
+  frozen: "stroke-info",
+  exited: "stroke-warning",
+  defected: "stroke-error",
+};
+
+export const SCORE_TIERS = [
+  { label: "NO_SCORE", min: 0n, className: "fill-base-300", swatch: "bg-base-300" },
+  { label: "1-199", min: 1n, className: "fill-warning", swatch: "bg-warning" },
+  { label: "200-499", min: 200n, className: "fill-info", swatch: "bg-info" },
+  { label: "500+", min: 500n, className: "fill-success", swatch: "bg-success" },
+];
+
+export type GraphSelection = { type: "node"; address: Address } | { type: "edge"; id: number };
+
+type TrustGraphCanvasProps = {
+  graph: TrustGraph;
+  positions: Map<Address, GraphPosition>;
+  selection?: GraphSelection;
+  // Ego-network center, drawn with a ring
+  center?: Address;
+  onSelect: (selection: GraphSelection) => void;
+};
+
+const scoreTierOf = (score: bigint) => [...SCORE_TIERS].reverse().find(tier => score >= tier.min)!;
+
+const nodeRadius = (node: GraphNode) => Math.min(18, 6 + 2 * Math.sqrt(node.activeBondCount));
+
+// Stake sets the width, age the opacity: old, heavy bonds stand out
+const edgeWidth = (edge: GraphEdge) => Math.min(8, 1 + 1.5 * Math.log2(1 + Number(formatEther(edge.stake))));
+const edgeOpacity = (edge: GraphEdge) => 0.35 + (Math.min(edge.ageDays, 90) / 90) * 0.65;
+
+/**
+ * SVG drawing of the bond graph. Bonds a pair re-created after exiting are drawn as separate arcs.
+ */
+export const TrustGraphCanvas = ({ graph, positions, selection, center, onSelect }: TrustGraphCanvasProps) => {
+  const pairIndex = new Map<string, number>();
+
+  return (
+    <svg
+      viewBox={`0 0 ${CANVAS_WIDTH} ${CANVAS_HEIGHT}`}
+      className="w-full h-auto border-2 border-base-content bg-base-200"
+      role="img"
+      aria-label="Trust bond graph"
+    >
+      {graph.edges.map(edge => {
+        const from = positions.get(edge.creator);
+        const to = positions.get(edge.partner);
+        if (!from || !to) return null;
+
+        const pair = [edge.creator, edge.partner].sort().join(":");
+        const parallel = pairIndex.get(pair) ?? 0;
+        pairIndex.set(pair, parallel + 1);
+        // Alternate sides for parallel bonds: 0, +1, -1, +2, ...
+        const bend = parallel === 0 ? 0 : Math.ceil(parallel / 2) * (parallel % 2 ? 1 : -1) * 24;
+        const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+        const controlX = (from.x + to.x) / 2 - ((to.y - from.y) / length) * bend;
+        const controlY = (from.y + to.y) / 2 + ((to.x - from.x) / length) * bend;
+        const isSelected = selection?.type === "edge" && selection.id === edge.id;
+
+        return (
+          <path
+            key={edge.id}
+            d={`M ${from.x} ${from.y} Q ${controlX} ${controlY} ${to.x} ${to.y}`}
+            className={`${EDGE_STATE_CLASSES[edge.state]} cursor-pointer`}
+            fill="none"
+            strokeWidth={edgeWidth(edge) + (isSelected ? 3 : 0)}
+            strokeOpacity={isSelected ? 1 : edgeOpacity(edge)}
+            strokeDasharray={edge.state === "frozen" ? "6 4" : undefined}
+            onClick={() => onSelect({ type: "edge", id: edge.id })}
+          >
+            <title>
+              BOND #{edge.id} {edge.state.toUpperCase()}: {formatEther(edge.stake)} ETH, {edge.ageDays}D
+            </title>
+          </path>
+        );
+      })}
+
+      {graph.nodes.map(node => {
+        const position = positions.get(node.address);
+        if (!position) return null;
+        const radius = nodeRadius(node);
+        const isSelected = selection?.type === "node" && selection.address === node.address;
+
+        return (
+          <g
+            key={node.address}
+            transform={`translate(${position.x} ${position.y})`}
+            className="cursor-pointer"
+            onClick={() => onSelect({ type: "node", address: node.address })}
+          >
+            {node.address === center && (
+              <circle r={radius + 6} className="stroke-primary" fill="none" strokeWidth={2} />
+            )}
+            <circle
+              r={radius}
+              className={`${scoreTierOf(node.trustScore).className} stroke-base-content`}
+              strokeWidth={isSelected ? 4 : 1.5}
+              // No indexed verification: dashed and faded
+              strokeDasharray={node.isVerified ? undefined : "3 2"}
+              fillOpacity={node.isVerified ? 1 : 0.5}
+            />
+            <text y={radius + 12} textAnchor="middle" className="fill-base-content font-mono" fontSize={10}>
+              {`${node.address.slice(0, 6)}…${node.address.slice(-4)}`}
+            </text>
+            <title>
+              {node.address} SCORE {node.trustScore.toString()} {node.isVerified ? "VERIFIED" : "UNVERIFIED"}
+            </title>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,169 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { GraphSelectionPanel } from "./GraphSelectionPanel";
+import { CANVAS_HEIGHT, CANVAS_WIDTH, GraphSelection, SCORE_TIERS, TrustGraphCanvas } from "./TrustGraphCanvas";
+import { Address, getAddress, isAddress } from "viem";
+import { AddressInput } from "~~/components/scaffold-eth";
+import { useTrustGraph } from "~~/hooks/trust";
+import { EdgeState, TrustGraph, getEgoNetwork, layoutGraph } from "~~/utils/trust/graph";
+
+const EDGE_STATES: EdgeState[] = ["active", "frozen", "exited", "defected"];
+
+// Full class names so Tailwind keeps them
+const LEGEND_SWATCHES: Record<EdgeState, string> = {
+  active: "bg-success",
+  frozen: "bg-info",
+  exited: "bg-warning",
+  defected: "bg-error",
+};
+
+const filterEdges = (graph: TrustGraph, states: Set<EdgeState>): TrustGraph => ({
+  nodes: graph.nodes,
+  edges: graph.edges.filter(edge => states.has(edge.state)),
+});
+
+/**
+ * Bond graph of the whole network or of one address's ego network, read from the indexer store
+ */
+export const TrustGraphExplorer = () => {
+  const searchParams = useSearchParams();
+  const initialCenter = searchParams.get("address") ?? "";
+  const [centerInput, setCenterInput] = useState(initialCenter);
+  const [depth, setDepth] = useState(1);
+  const [states, setStates] = useState(new Set<EdgeState>(EDGE_STATES));
+  const [selection, setSelection] = useState<GraphSelection>();
+  const { graph, isLoading, error } = useTrustGraph();
+
+  const center = isAddress(centerInput) ? getAddress(centerInput) : undefined;
+
+  const visible = useMemo(() => {
+    if (!graph) return undefined;
+    const filtered = filterEdges(graph, states);
+    return center ? getEgoNetwork(filtered, center, depth) : filtered;
+  }, [graph, states, center, depth]);
+
+  // Scores and stakes change every block, positions only when the set of addresses or bonded pairs does
+  const topology = visible
+    ? [
+        ...visible.nodes.map(node => node.address),
+        ...visible.edges.map(edge => `${edge.creator}:${edge.partner}`),
+      ].join()
+    : "";
+  const positions = useMemo(
+    () => (visible ? layoutGraph(visible, { width: CANVAS_WIDTH, height: CANVAS_HEIGHT }) : new Map()),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [topology],
+  );
+
+  const toggleState = (state: EdgeState) =>
+    setStates(current => {
+      const next = new Set(current);
+      if (next.has(state)) next.delete(state);
+      else next.add(state);
+      return next;
+    });
+
+  const focus = (address: Address) => {
+    setCenterInput(address);
+    setSelection({ type: "node", address });
+  };
+
+  if (error) {
+    return (
+      <div className="border-2 border-error bg-base-100 p-6 font-mono text-sm space-y-2">
+        <div className="text-error font-bold">[INDEXER_UNAVAILABLE] {error.message}</div>
+        <div className="opacity-75">&gt; THE_GRAPH_IS_BUILT_FROM_INDEXED_EVENTS, RUN `yarn indexer:start`</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 font-mono">
+      <div className="border-2 border-base-content bg-base-100 p-4 flex flex-wrap items-end gap-4 text-sm">
+        <div className="flex-1 min-w-64">
+          <label className="block mb-2 text-primary">[INPUT] EGO_NETWORK_OF:</label>
+          <AddressInput value={centerInput} onChange={setCenterInput} placeholder="Whole network" />
+        </div>
+        <div>
+          <label className="block mb-2 text-primary">[DEPTH]</label>
+          <div className="flex gap-1">
+            {[1, 2].map(hops => (
+              <button
+                key={hops}
+                onClick={() => setDepth(hops)}
+                disabled={!center}
+                className={`btn btn-xs font-mono ${depth === hops ? "btn-primary" : "btn-outline"}`}
+              >
+                {hops}_HOP{hops > 1 ? "S" : ""}
+              </button>
+            ))}
+          </div>
+        </div>
+        {center && (
+          <button onClick={() => setCenterInput("")} className="btn btn-outline btn-xs font-mono">
+            [SHOW_ALL]
+          </button>
+        )}
+        <div>
+          <label className="block mb-2 text-primary">[BONDS]</label>
+          <div className="flex flex-wrap gap-2">
+            {EDGE_STATES.map(state => (
+              <label key={state} className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-xs"
+                  checked={states.has(state)}
+                  onChange={() => toggleState(state)}
+                />
+                <span className={`inline-block w-3 h-1 ${LEGEND_SWATCHES[state]}`} />
+                {state.toUpperCase()}
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+        <div className="lg:col-span-3 space-y-2">
+          {isLoading || !visible ? (
+            <div className="border-2 border-base-content bg-base-100 p-6 text-sm">&gt; READING_INDEXED_BONDS...</div>
+          ) : visible.nodes.length === 0 ? (
+            <div className="border-2 border-base-content bg-base-100 p-6 text-sm">&gt; NO_BONDS_INDEXED_YET</div>
+          ) : (
+            <TrustGraphCanvas
+              graph={visible}
+              positions={positions}
+              selection={selection}
+              center={center}
+              onSelect={setSelection}
+            />
+          )}
+          <div className="flex flex-wrap gap-4 text-xs opacity-75">
+            <span>
+              {visible?.nodes.length ?? 0} ADDRESSES / {visible?.edges.length ?? 0} BONDS
+            </span>
+            {SCORE_TIERS.map(tier => (
+              <span key={tier.label} className="flex items-center gap-1">
+                <span className={`inline-block w-3 h-3 rounded-full border border-base-content ${tier.swatch}`} />
+                {tier.label}
+              </span>
+            ))}
+            <span>DASHED_NODE = UNVERIFIED · DASHED_EDGE = FROZEN · WIDTH = STAKE · OPACITY = AGE</span>
+          </div>
+        </div>
+
+        <div>
+          {selection && visible ? (
+            <GraphSelectionPanel graph={visible} selection={selection} onSelect={setSelection} onFocus={focus} />
+          ) : (
+            <div className="border-2 border-base-content bg-base-100 p-4 text-sm opacity-75">
+              &gt; CLICK_AN_ADDRESS_OR_A_BOND_FOR_DETAILS
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import { TrustGraphExplorer } from "./_components/TrustGraphExplorer";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Trust Graph",
+  description: "Explore the network of trust bonds, trust scores and bond states built from indexed events",
+});
+
+const Graph: NextPage = () => {
+  return (
+    <div className="max-w-6xl mx-auto w-full px-4 py-10">
+      <TrustGraphExplorer />
+    </div>
+  );
+};
+
+export default Graph;
@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { formatEther, isAddressEqual, parseEther } from "viem";
+import { useAccount } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { parseInvite } from "~~/utils/trust/invite";
+
+const formatEth = (value: bigint | undefined, decimals = 4) =>
+  value === undefined ? "--" : parseFloat(formatEther(value)).toFixed(decimals);
+
+const parseStake = (amount: string) => {
+  try {
+    const value = parseEther(amount);
+    return value > 0n ? value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// `border` is a full class name so Tailwind picks it up
+const Panel = ({ border = "border-base-content", children }: { border?: string; children: React.ReactNode }) => (
+  <div className={`border-2 ${border} bg-base-100 p-6 font-mono text-sm space-y-3`}>{children}</div>
+);
+
+/**
+ * Landing page of an invite link: shows the creator's side of the bond as it is on-chain and lets the invited
+ * partner complete it with `addStake`
+ */
+export const InviteAcceptance = () => {
+  const searchParams = useSearchParams();
+  const invite = parseInvite(searchParams);
+  const { address } = useAccount();
+  const [stakeAmount, setStakeAmount] = useState("");
+  const [accepted, setAccepted] = useState(false);
+
+  const { data: isVerified } = useScaffoldReadContract({
+    contractName: "TrustContract",
+    functionName: "isUserVerified",
+    args: [address],
+  });
+  const { data: contractKey } = useScaffoldReadContract({
+    contractName: "TrustContract",
+    functionName: "getContractKey",
+    args: [invite?.creator, address],
+  });
+  const {
+    data: bond,
+    isLoading: isLoadingBond,
+    refetch: refetchBond,
+  } = useScaffoldReadContract({
+    contractName: "TrustContract",
+    functionName: "getContract",
+    args: [contractKey],
+    query: { enabled: Boolean(contractKey) },
+  });
+  const { writeContractAsync, isMining } = useScaffoldWriteContract({ contractName: "TrustContract" });
+
+  const creatorStake =
+    bond && invite ? (isAddressEqual(bond.addr0, invite.creator) ? bond.stake0 : bond.stake1) : undefined;
+  const partnerStake =
+    bond && invite ? (isAddressEqual(bond.addr0, invite.creator) ? bond.stake1 : bond.stake0) : undefined;
+
+  // The invite's suggestion, else matching the creator's stake
+  useEffect(() => {
+    const suggestion = invite?.stake ?? creatorStake;
+    if (suggestion !== undefined && !stakeAmount) setStakeAmount(formatEther(suggestion));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [invite?.stake, creatorStake]);
+
+  if (!invite) {
+    return (
+      <Panel border="border-error">
+        <div className="text-error font-bold">[INVALID_INVITE] LINK_HAS_NO_CREATOR_ADDRESS</div>
+        <div className="opacity-75">&gt; ASK_YOUR_PARTNER_TO_SHARE_THE_INVITE_AGAIN</div>
+      </Panel>
+    );
+  }
+
+  const inviteSummary = (
+    <Panel>
+      <div className="text-lg font-bold text-primary">[BOND_INVITE]</div>
+      <div className="flex items-center gap-2">
+        <span className="opacity-75">FROM:</span>
+        <Address address={invite.creator} size="sm" />
+      </div>
+      <div className="flex justify-between">
+        <span className="opacity-75">CREATOR_STAKE_ON_CHAIN:</span>
+        <span className="font-bold">{formatEth(creatorStake)}Ξ</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="opacity-75">SUGGESTED_PARTNER_STAKE:</span>
+        <span className="font-bold">
+          {invite.stake === undefined ? "MATCH_CREATOR" : `${formatEth(invite.stake)}Ξ`}
+        </span>
+      </div>
+      {invite.note && (
+        <div className="p-3 border border-base-content bg-base-200 whitespace-pre-wrap break-words">
+          <span className="opacity-75">NOTE: </span>
+          {invite.note}
+        </div>
+      )}
+      <div className="text-xs opacity-75">
+        &gt; THE_LINK_IS_NOT_SIGNED: ONLY_THE_ON_CHAIN_STAKE_IS_GUARANTEED. YIELD_ACCRUES_AT_1%_APR_ON_BOTH_STAKES
+      </div>
+    </Panel>
+  );
+
+  const status = (() => {
+    if (!address) return <Panel>[WALLET_REQUIRED] CONNECT_THE_INVITED_WALLET_TO_ACCEPT</Panel>;
+    if (isAddressEqual(address, invite.creator)) {
+      return (
+        <Panel border="border-warning">
+          [OWN_INVITE] SHARE_THIS_LINK_WITH_YOUR_PARTNER, THEY_ACCEPT_IT_FROM_THEIR_WALLET
+        </Panel>
+      );
+    }
+    if (isVerified === false) {
+      return (
+        <Panel border="border-warning">
+          <div className="text-warning font-bold">[BLOCKED] WALLET_NOT_VERIFIED_WITH_SELF.XYZ</div>
+          <div className="opacity-75">
+            &gt; BOTH_SIDES_OF_A_BOND_MUST_BE_VERIFIED.{" "}
+            <Link href="/verify" className="underline text-primary">
+              VERIFY_YOUR_IDENTITY
+            </Link>{" "}
+            THEN_REOPEN_THIS_LINK
+          </div>
+        </Panel>
+      );
+    }
+    if (isLoadingBond || !bond) return <Panel>&gt; READING_BOND_STATE...</Panel>;
+    if (!bond.isActive || creatorStake === 0n) {
+      return (
+        <Panel border="border-warning">
+          <div className="text-warning font-bold">[NOT_FUNDED] NO_ACTIVE_BOND_FROM_THIS_CREATOR_YET</div>
+          <div className="opacity-75">&gt; ASK_THEM_TO_CREATE_THE_BOND_WITH_YOUR_ADDRESS, THEN_REOPEN_THIS_LINK</div>
+        </Panel>
+      );
+    }
+    if (accepted || (partnerStake !== undefined && partnerStake > 0n)) {
+      return (
+        <Panel border="border-success">
+          <div className="text-success font-bold">[ACCEPTED] YOUR_SIDE_OF_THE_BOND_IS_FUNDED</div>
+          <Link href="/?view=bonds" className="underline text-primary">
+            &gt; MANAGE_YOUR_BONDS
+          </Link>
+        </Panel>
+      );
+    }
+    if (bond.isFrozen) {
+      return (
+        <Panel border="border-info">[FROZEN] THE_CREATOR_HAS_AN_ACTIVE_LOAN, ADD_STAKE_REOPENS_ONCE_IT_IS_REPAID</Panel>
+      );
+    }
+
+    const value = parseStake(stakeAmount);
+    const handleAccept = async () => {
+      if (!value) return;
+      try {
+        const txHash = await writeContractAsync({ functionName: "addStake", args: [invite.creator], value });
+        if (txHash) {
+          setAccepted(true);
+          await refetchBond();
+        }
+      } catch (error) {
+        console.error("addStake failed:", error);
+      }
+    };
+
+    return (
+      <Panel>
+        <label className="block text-primary">[INPUT] YOUR_STAKE_ETH:</label>
+        <input
+          type="number"
+          min="0"
+          step="any"
+          value={stakeAmount}
+          onChange={e => setStakeAmount(e.target.value)}
+          className="w-full px-3 py-2 border-2 border-base-content bg-base-100 text-sm focus:border-primary focus:outline-none"
+        />
+        <button
+          onClick={handleAccept}
+          disabled={!value || isMining}
+          className="w-full border-2 border-base-content bg-primary text-primary-content py-3 px-6 font-bold disabled:bg-base-300 disabled:text-base-content disabled:cursor-not-allowed transition-all"
+        >
+          {isMining ? "[PENDING] ADDING_STAKE..." : `[ACCEPT] STAKE_${value ? formatEth(value) : "--"}Ξ`}
+        </button>
+      </Panel>
+    );
+  })();
+
+  return (
+    <div className="space-y-6">
+      {inviteSummary}
+      {status}
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import { InviteAcceptance } from "./_components/InviteAcceptance";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Bond Invite",
+  description: "Accept a trust bond invitation by staking your side of the bond",
+});
+
+const Invite: NextPage = () => {
+  return (
+    <div className="max-w-3xl mx-auto w-full px-4 py-10">
+      <InviteAcceptance />
+    </div>
+  );
+};
+
+export default Invite;
@@ -0,0 +1,299 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import { InboxItem, SubscriptionSettings, useNotifications } from "~~/hooks/trust";
+
+const ONE_DAY = 86_400;
+const OFFSET_PRESETS = [
+  { offset: 7 * ONE_DAY, label: "7_DAYS_BEFORE" },
+  { offset: ONE_DAY, label: "1_DAY_BEFORE" },
+  { offset: 0, label: "WHEN_OVERDUE" },
+];
+
+const KIND_LABELS: Record<InboxItem["kind"], string> = {
+  loan_due: "DUE_SOON",
+  loan_overdue: "OVERDUE",
+  loan_defaulted: "DEFAULTED",
+  bond_frozen: "BOND_FROZEN",
+  bond_closed: "BOND_CLOSED",
+  bond_invite: "BOND_INVITE",
+  partner_loan_due: "PARTNER_LOAN_DUE",
+  partner_bond_closed: "PARTNER_CLOSED_BOND",
+};
+
+const formatOffset = (offset: number) =>
+  offset === 0 ? "WHEN_OVERDUE" : offset % ONE_DAY === 0 ? `${offset / ONE_DAY}_DAYS_BEFORE` : `${offset}S_BEFORE`;
+
+const formatTimestamp = (timestamp: number) => new Date(timestamp * 1000).toLocaleString();
+
+type Form = {
+  inApp: boolean;
+  webhookEnabled: boolean;
+  webhookUrl: string;
+  emailEnabled: boolean;
+  email: string;
+  offsets: number[];
+};
+
+const formFrom = (subscription: SubscriptionSettings | null, defaultOffsets: number[]): Form => ({
+  inApp: subscription?.inApp ?? true,
+  webhookEnabled: Boolean(subscription?.webhookUrl),
+  webhookUrl: "",
+  emailEnabled: Boolean(subscription?.email),
+  email: "",
+  offsets: subscription?.offsets ?? defaultOffsets,
+});
+
+export const NotificationCenter = () => {
+  const { address } = useAccount();
+  const {
+    subscription,
+    defaultOffsets,
+    inbox,
+    isInboxLocked,
+    unreadCount,
+    isLoading,
+    error,
+    isSigning,
+    subscribe,
+    unsubscribe,
+    unlockInbox,
+    markRead,
+  } = useNotifications(address);
+
+  const [form, setForm] = useState<Form>(() => formFrom(null, []));
+  const [message, setMessage] = useState<{ text: string; isError: boolean }>();
+
+  useEffect(() => {
+    if (defaultOffsets) setForm(formFrom(subscription, defaultOffsets));
+  }, [subscription, defaultOffsets]);
+
+  if (!address) {
+    return (
+      <div className="border-2 border-base-content bg-base-100 p-6 font-mono text-sm text-center">
+        [WALLET_REQUIRED] CONNECT_A_WALLET_TO_MANAGE_ITS_ALERTS
+      </div>
+    );
+  }
+
+  const offsetChoices = [
+    ...OFFSET_PRESETS,
+    ...form.offsets
+      .filter(offset => !OFFSET_PRESETS.some(preset => preset.offset === offset))
+      .map(offset => ({ offset, label: formatOffset(offset) })),
+  ];
+
+  // Stored contact details are only served masked, so keeping a channel means entering it again
+  const formError = (() => {
+    if (!form.inApp && !form.webhookEnabled && !form.emailEnabled) return "ENABLE_AT_LEAST_ONE_CHANNEL";
+    if (form.offsets.length === 0) return "PICK_AT_LEAST_ONE_REMINDER";
+    if (form.webhookEnabled && !form.webhookUrl) return "ENTER_THE_WEBHOOK_URL";
+    if (form.emailEnabled && !form.email) return "ENTER_THE_EMAIL_ADDRESS";
+    return undefined;
+  })();
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setMessage(undefined);
+    try {
+      await action();
+      setMessage({ text: success, isError: false });
+    } catch (cause) {
+      const text = cause instanceof Error ? cause.message.split("\n")[0] : String(cause);
+      setMessage({ text: text.toUpperCase().replace(/\s+/g, "_"), isError: true });
+    }
+  };
+
+  const handleSave = () =>
+    run(
+      () =>
+        subscribe({
+          inApp: form.inApp,
+          webhookUrl: form.webhookEnabled ? form.webhookUrl.trim() : null,
+          email: form.emailEnabled ? form.email.trim() : null,
+          offsets: form.offsets,
+        }),
+      "SETTINGS_SAVED",
+    );
+
+  const toggleOffset = (offset: number) =>
+    setForm(current => ({
+      ...current,
+      offsets: current.offsets.includes(offset)
+        ? current.offsets.filter(value => value !== offset)
+        : [...current.offsets, offset],
+    }));
+
+  const unreadIds = inbox.filter(item => item.readAt === null).map(item => item.id);
+
+  return (
+    <div className="space-y-6 font-mono">
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+        <div className="text-lg font-bold text-primary">
+          [ALERT_SETTINGS] {subscription ? "SUBSCRIBED" : "NOT_SUBSCRIBED"}
+        </div>
+        <div className="text-xs opacity-75">
+          &gt; DUE_DATE_REMINDERS_FOR_YOUR_LOANS, ALERTS_WHEN_A_PARTNER_BORROWS, DEFAULTS, EXITS_OR_DEFECTS.
+          CHANGES_ARE_SIGNED_BY_YOUR_WALLET, NO_TRANSACTION_IS_SENT
+        </div>
+        {error && <div className="text-sm text-error">&gt; [ERROR] {error.message}</div>}
+
+        <div className="space-y-3">
+          <div className="text-sm font-bold">CHANNELS</div>
+          <label className="flex items-center gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-sm"
+              checked={form.inApp}
+              onChange={e => setForm({ ...form, inApp: e.target.checked })}
+            />
+            <span className="text-sm">IN_APP_INBOX</span>
+          </label>
+          <div className="flex flex-col md:flex-row md:items-center gap-2">
+            <label className="flex items-center gap-3 cursor-pointer md:w-40 shrink-0">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={form.webhookEnabled}
+                onChange={e => setForm({ ...form, webhookEnabled: e.target.checked })}
+              />
+              <span className="text-sm">WEBHOOK</span>
+            </label>
+            <input
+              type="url"
+              disabled={!form.webhookEnabled}
+              placeholder={subscription?.webhookUrl ? `CURRENT: ${subscription.webhookUrl}` : "https://..."}
+              value={form.webhookUrl}
+              onChange={e => setForm({ ...form, webhookUrl: e.target.value })}
+              className="input input-bordered input-sm w-full font-mono"
+            />
+          </div>
+          <div className="flex flex-col md:flex-row md:items-center gap-2">
+            <label className="flex items-center gap-3 cursor-pointer md:w-40 shrink-0">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={form.emailEnabled}
+                onChange={e => setForm({ ...form, emailEnabled: e.target.checked })}
+              />
+              <span className="text-sm">EMAIL</span>
+            </label>
+            <input
+              type="email"
+              disabled={!form.emailEnabled}
+              placeholder={subscription?.email ? `CURRENT: ${subscription.email}` : "you@example.com"}
+              value={form.email}
+              onChange={e => setForm({ ...form, email: e.target.value })}
+              className="input input-bordered input-sm w-full font-mono"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="text-sm font-bold">LOAN_REMINDERS</div>
+          <div className="flex flex-wrap gap-4">
+            {offsetChoices.map(({ offset, label }) => (
+              <label key={offset} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-sm"
+                  checked={form.offsets.includes(offset)}
+                  onChange={() => toggleOffset(offset)}
+                />
+                <span className="text-sm">{label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row gap-2">
+          <button
+            disabled={isLoading || isSigning || Boolean(formError)}
+            onClick={handleSave}
+            className="btn btn-primary font-mono grow"
+          >
+            {isSigning ? "[SIGNING...]" : formError ? `[${formError}]` : "[SIGN_AND_SAVE]"}
+          </button>
+          {subscription && (
+            <button
+              disabled={isSigning}
+              onClick={() => run(unsubscribe, "UNSUBSCRIBED")}
+              className="btn btn-outline font-mono"
+            >
+              [UNSUBSCRIBE]
+            </button>
+          )}
+        </div>
+        {message && (
+          <div className={`text-sm ${message.isError ? "text-error" : "text-success"}`}>&gt; {message.text}</div>
+        )}
+      </div>
+
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="text-lg font-bold">[INBOX] {unreadCount} UNREAD</div>
+          <button
+            disabled={isSigning || unreadIds.length === 0}
+            onClick={() => run(() => markRead(unreadIds), "INBOX_MARKED_READ")}
+            className="btn btn-outline btn-sm font-mono"
+          >
+            [MARK_ALL_READ]
+          </button>
+        </div>
+        <div className="border border-base-content">
+          {isInboxLocked ? (
+            <div className="p-3 flex flex-wrap items-center justify-between gap-2">
+              <span className="text-sm opacity-75">&gt; SIGN_A_READ_REQUEST_TO_OPEN_THE_INBOX, VALID_FOR_A_DAY</span>
+              <button
+                disabled={isSigning}
+                onClick={() => run(unlockInbox, "INBOX_UNLOCKED")}
+                className="btn btn-outline btn-sm font-mono"
+              >
+                [UNLOCK_INBOX]
+              </button>
+            </div>
+          ) : inbox.length === 0 ? (
+            <div className="p-3 text-sm opacity-75">
+              &gt; {subscription?.inApp ? "NO_NOTIFICATIONS_YET" : "ENABLE_THE_IN_APP_CHANNEL_TO_FILL_THE_INBOX"}
+            </div>
+          ) : (
+            inbox.map(item => (
+              <div
+                key={item.id}
+                className={`p-3 border-b border-base-300 last:border-b-0 space-y-1 ${item.readAt === null ? "" : "opacity-60"}`}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`text-xs border px-1 ${
+                        ["loan_due", "bond_frozen", "partner_bond_closed"].includes(item.kind)
+                          ? "border-warning"
+                          : "border-error"
+                      }`}
+                    >
+                      {KIND_LABELS[item.kind]}
+                    </span>
+                    <span className="text-sm font-bold">{item.title}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs opacity-75">{formatTimestamp(item.createdAt)}</span>
+                    {item.readAt === null && (
+                      <button
+                        disabled={isSigning}
+                        onClick={() => run(() => markRead([item.id]), "MARKED_READ")}
+                        className="btn btn-ghost btn-xs font-mono"
+                      >
+                        [MARK_READ]
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <div className="text-xs">{item.body}</div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
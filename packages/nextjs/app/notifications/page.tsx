@@ -0,0 +1,18 @@
+import { NotificationCenter } from "./_components/NotificationCenter";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Alerts",
+  description: "Loan due-date reminders and bond alerts in-app, by webhook or by email",
+});
+
+const Notifications: NextPage = () => {
+  return (
+    <div className="max-w-4xl mx-auto w-full px-4 py-10">
+      <NotificationCenter />
+    </div>
+  );
+};
+
+export default Notifications;
@@ -0,0 +1,182 @@
+"use client";
+
+import Link from "next/link";
+import { Address as AddressType, formatEther } from "viem";
+import RiskFlagBadges from "~~/components/RiskFlagBadges";
+import { Address } from "~~/components/scaffold-eth";
+import { useSybilReport } from "~~/hooks/trust";
+import { DEFAULT_SYBIL_OPTIONS } from "~~/utils/trust/sybil";
+
+const formatEth = (value: bigint, decimals = 4) => parseFloat(formatEther(value)).toFixed(decimals);
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 16).replace("T", " ");
+
+const GraphLink = ({ address }: { address: AddressType }) => (
+  <Link href={`/graph?address=${address}`} className="underline text-primary text-xs">
+    [GRAPH]
+  </Link>
+);
+
+const Members = ({ members }: { members: AddressType[] }) => (
+  <div className="flex flex-wrap gap-x-4 gap-y-1">
+    {members.map(member => (
+      <div key={member} className="flex items-center gap-1">
+        <Address address={member} size="xs" />
+        <GraphLink address={member} />
+      </div>
+    ))}
+  </div>
+);
+
+/**
+ * Lender-facing review of the sybil and collusion heuristics over the indexed bond graph
+ */
+export const SybilRiskReport = () => {
+  const { report, isLoading, error } = useSybilReport();
+
+  if (error) {
+    return (
+      <div className="border-2 border-error bg-base-100 p-6 font-mono text-sm space-y-2">
+        <div className="text-error font-bold">[INDEXER_UNAVAILABLE] {error.message}</div>
+        <div className="opacity-75">&gt; THE_REPORT_IS_BUILT_FROM_INDEXED_EVENTS, RUN `yarn indexer:start`</div>
+      </div>
+    );
+  }
+
+  const { minCliqueSize, lowStakeThreshold, burstSize, burstWindow, trustShareThreshold } = DEFAULT_SYBIL_OPTIONS;
+
+  return (
+    <div className="space-y-6 font-mono">
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-2">
+        <div className="text-lg font-bold text-primary">[RISK_REVIEW] SYBIL_AND_COLLUSION_HEURISTICS</div>
+        <div className="text-xs opacity-75">
+          &gt; EVERY_BOND_GIVES_BOTH_SIDES_100_POINTS = 1_ETH_OF_BORROWING, WHOEVER_THE_PARTNER_IS. FLAGS_ARE_LEADS
+          FOR_REVIEW, NOT_PROOF
+        </div>
+        <ul className="text-xs space-y-1">
+          <li>&gt; CLIQUE: {minCliqueSize}+ WALLETS_ALL_BONDED_TO_EACH_OTHER</li>
+          <li>&gt; DUST_RING: A_CYCLE_OF_BONDS_WITH_AT_MOST {formatEth(lowStakeThreshold)}Ξ_TOTAL_STAKE_EACH</li>
+          <li>
+            &gt; BURST: {burstSize}+ BONDS_OF_ONE_WALLET_WITHIN {burstWindow / 3600}H
+          </li>
+          <li>
+            &gt; TRUST_RELIANT: A_BORROWER_WHOSE_LIMIT_IS {`${trustShareThreshold * 100}%+`} FROM_TRUST_SCORE,
+            NOT_COLLATERAL
+          </li>
+        </ul>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="border-2 border-base-content bg-base-100 p-6 text-sm">&gt; ANALYZING_INDEXED_BONDS...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { label: "FLAGGED_WALLETS", value: report.addresses.length },
+              { label: "CLIQUES", value: report.cliques.length },
+              { label: "DUST_RINGS", value: report.rings.length },
+              { label: "BURSTS", value: report.bursts.length },
+            ].map(({ label, value }) => (
+              <div key={label} className="text-center p-3 border-2 border-base-content bg-base-100">
+                <p className="text-sm mb-1">{label}</p>
+                <p className="text-lg font-bold">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+            <div className="text-lg font-bold">[FLAGGED_WALLETS]</div>
+            {report.addresses.length === 0 ? (
+              <div className="text-sm opacity-75">&gt; NO_WALLET_MATCHES_A_HEURISTIC</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="table table-sm w-full">
+                  <thead>
+                    <tr className="font-mono">
+                      <th>WALLET</th>
+                      <th>LEVEL</th>
+                      <th>FLAGS</th>
+                      <th>TRUST_SCORE</th>
+                      <th>BORROW_LIMIT</th>
+                      <th>FROM_TRUST</th>
+                      <th>BORROWED</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.addresses.map(risk => (
+                      <tr key={risk.address}>
+                        <td>
+                          <div className="flex items-center gap-2">
+                            <Address address={risk.address} size="sm" />
+                            <GraphLink address={risk.address} />
+                          </div>
+                        </td>
+                        <td className="font-bold">{risk.level.toUpperCase()}</td>
+                        <td>
+                          <RiskFlagBadges risk={risk} />
+                        </td>
+                        <td>{risk.trustScore.toString()}</td>
+                        <td>{formatEth(risk.borrowLimit.total)} ETH</td>
+                        <td>{(risk.trustShare * 100).toFixed(0)}%</td>
+                        <td>{risk.activeLoanPrincipal > 0n ? `${formatEth(risk.activeLoanPrincipal)} ETH` : "--"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="text-xs opacity-75">
+              &gt; LIMITS_USE_THE_OWN_ACTIVE_STAKE_AS_COLLATERAL, THE_CHAIN_ALSO_COUNTS_HALF_THE_PROJECTED_YIELD
+            </div>
+          </div>
+
+          <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+            <div className="text-lg font-bold">[CLIQUES] {report.cliques.length}</div>
+            {report.cliques.length === 0 && <div className="text-sm opacity-75">&gt; NONE</div>}
+            {report.cliques.map(clique => (
+              <div key={clique.members.join()} className="border border-base-content p-3 space-y-2 text-sm">
+                <div>
+                  &gt; {clique.members.length}_WALLETS · {(clique.internalShare * 100).toFixed(0)}%_OF_PAIRS_INSIDE ·{" "}
+                  {formatEth(clique.totalStake)}Ξ_STAKED_INSIDE
+                </div>
+                <Members members={clique.members} />
+              </div>
+            ))}
+          </div>
+
+          <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+            <div className="text-lg font-bold">[DUST_RINGS] {report.rings.length}</div>
+            {report.rings.length === 0 && <div className="text-sm opacity-75">&gt; NONE</div>}
+            {report.rings.map(ring => (
+              <div key={ring.members.join()} className="border border-base-content p-3 space-y-2 text-sm">
+                <div>
+                  &gt; {ring.members.length}_WALLETS · BONDS #{ring.bondIds.join(", #")} ·{" "}
+                  {`${formatEth(ring.totalStake)}Ξ_TOTAL`}
+                </div>
+                <Members members={ring.members} />
+              </div>
+            ))}
+          </div>
+
+          <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+            <div className="text-lg font-bold">[BURSTS] {report.bursts.length}</div>
+            {report.bursts.length === 0 && <div className="text-sm opacity-75">&gt; NONE</div>}
+            {report.bursts.map(burst => (
+              <div
+                key={`${burst.address}:${burst.bondIds[0]}`}
+                className="flex flex-wrap items-center gap-3 border border-base-content p-3 text-sm"
+              >
+                <Address address={burst.address} size="sm" />
+                <GraphLink address={burst.address} />
+                <span>
+                  &gt; {burst.bondIds.length}_BONDS {formatDate(burst.startTimestamp)} →{" "}
+                  {formatDate(burst.endTimestamp)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import { SybilRiskReport } from "./_components/SybilRiskReport";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Risk Review",
+  description: "Sybil and collusion heuristics over the trust bond graph for lender risk review",
+});
+
+const Risk: NextPage = () => {
+  return (
+    <div className="max-w-6xl mx-auto w-full px-4 py-10">
+      <SybilRiskReport />
+    </div>
+  );
+};
+
+export default Risk;
@@ -0,0 +1,163 @@
+"use client";
+
+import { useMemo } from "react";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import { SelfApp, SelfAppBuilder, getUniversalLink } from "@selfxyz/qrcode";
+import { useAccount } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { useSelfDisclosurePolicy, useSelfVerification } from "~~/hooks/trust";
+import { notification } from "~~/utils/scaffold-eth";
+import { SELF_APP_NAME, SELF_ENDPOINT, SELF_SCOPE } from "~~/utils/trust/self";
+
+type SelfAppDisclosureConfig = SelfApp["disclosures"];
+
+// The QR component opens a websocket to the Self relayer and must only render in the browser
+const SelfQRcodeWrapper = dynamic(() => import("@selfxyz/qrcode").then(mod => mod.SelfQRcodeWrapper), {
+  ssr: false,
+});
+
+export const SelfVerificationPanel = () => {
+  const { address } = useAccount();
+  const { step, verification, relayedTxHash, error, startVerification, cancelVerification, retryBinding } =
+    useSelfVerification();
+  const { data: policy } = useSelfDisclosurePolicy();
+
+  // userId becomes the wallet word of userContextData, which the backend reads the wallet address from
+  const selfApp = useMemo(() => {
+    if (!address || !policy) return undefined;
+    return new SelfAppBuilder({
+      version: 2,
+      appName: SELF_APP_NAME,
+      scope: SELF_SCOPE,
+      endpoint: SELF_ENDPOINT,
+      endpointType: process.env.NODE_ENV === "production" ? "https" : "staging_https",
+      userId: address,
+      userIdType: "hex",
+      userDefinedData: "",
+      disclosures: {
+        minimumAge: policy.minimumAge,
+        excludedCountries: policy.excludedCountries as SelfAppDisclosureConfig["excludedCountries"],
+        ofac: policy.ofac,
+      },
+    }).build();
+  }, [address, policy]);
+
+  if (!address) {
+    return (
+      <div className="border-2 border-base-content bg-base-100 p-6 font-mono text-sm text-center">
+        [WALLET_REQUIRED] CONNECT_A_WALLET_TO_VERIFY_WITH_SELF.XYZ
+      </div>
+    );
+  }
+
+  return (
+    <div className="border-2 border-base-content bg-base-100 p-6 font-mono space-y-6">
+      <div>
+        <div className="text-lg font-bold text-primary mb-1">[IDENTITY] SELF.XYZ_VERIFICATION</div>
+        <div className="text-xs opacity-75">
+          &gt; TRUST_CONTRACT_ONLY_ACCEPTS_WALLETS_BOUND_TO_A_UNIQUE_SELF_PASSPORT_NULLIFIER
+        </div>
+        <div className="flex items-center gap-2 mt-3 text-sm">
+          <span>WALLET:</span>
+          <Address address={address} />
+        </div>
+      </div>
+
+      {step === "verified" && (
+        <div className="border-2 border-success bg-base-200 p-4 space-y-3">
+          <div className="text-success font-bold">[VERIFIED] WALLET_IS_BOUND_TO_A_SELF_IDENTITY</div>
+          <div className="text-xs opacity-75">&gt; YOU_CAN_NOW_CREATE_TRUST_BONDS</div>
+          <Link
+            href="/?view=bonds"
+            className="inline-block border-2 border-base-content bg-primary text-primary-content py-2 px-4 text-sm font-bold"
+          >
+            [GO] TRUST_CONTRACTS
+          </Link>
+        </div>
+      )}
+
+      {step === "idle" && (
+        <div className="space-y-3">
+          {policy && (
+            <div className="text-xs border-2 border-base-content bg-base-200 p-3 space-y-1">
+              <div className="font-bold">
+                POLICY: {policy.version} ({policy.hash})
+              </div>
+              <div>MINIMUM_AGE: {policy.minimumAge}</div>
+              <div>OFAC_CHECK: {policy.ofac ? "ON" : "OFF"}</div>
+              <div>
+                EXCLUDED_COUNTRIES: {policy.excludedCountries.length ? policy.excludedCountries.join(", ") : "NONE"}
+              </div>
+              <div>ACCEPTED_DOCUMENTS: {policy.acceptedDocuments.join(", ").toUpperCase()}</div>
+            </div>
+          )}
+          <ol className="text-xs space-y-1 opacity-75">
+            <li>1. SCAN_THE_QR_CODE_WITH_THE_SELF_APP_AND_SHARE_THE_REQUESTED_PROOF</li>
+            <li>2. THE_BACKEND_VERIFIES_THE_PROOF_AND_RETURNS_YOUR_NULLIFIER</li>
+            <li>3. CONFIRM_THE_VERIFY_SELF_PROOF_TRANSACTION_IN_YOUR_WALLET</li>
+          </ol>
+          <button
+            onClick={startVerification}
+            disabled={!selfApp}
+            className="w-full border-2 border-base-content bg-primary text-primary-content py-3 px-6 font-bold hover:bg-primary-focus disabled:bg-base-300 disabled:text-base-content disabled:cursor-not-allowed transition-all"
+          >
+            [START] VERIFY_WITH_SELF
+          </button>
+        </div>
+      )}
+
+      {step === "scanning" && selfApp && (
+        <div className="flex flex-col items-center gap-4">
+          <SelfQRcodeWrapper
+            selfApp={selfApp}
+            onSuccess={() => notification.info("Proof shared, waiting for the backend to verify it")}
+            onError={({ reason }: { reason?: string }) => console.error("Self verification failed:", reason)}
+          />
+          <a
+            href={getUniversalLink(selfApp)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="border-2 border-base-content bg-base-200 py-2 px-4 text-sm font-bold hover:bg-base-300"
+          >
+            [MOBILE] OPEN_IN_SELF_APP
+          </a>
+          <div className="text-xs opacity-75 animate-pulse">&gt; WAITING_FOR_PROOF_VERIFICATION...</div>
+          <button onClick={cancelVerification} className="text-xs underline opacity-75 hover:opacity-100">
+            [CANCEL]
+          </button>
+        </div>
+      )}
+
+      {step === "binding" && (
+        <div className="border-2 border-warning bg-base-200 p-4 text-sm">
+          <div className="text-warning font-bold">[PENDING] BINDING_NULLIFIER_ON_CHAIN...</div>
+          <div className="text-xs opacity-75 mt-1">&gt; CONFIRM_VERIFY_SELF_PROOF_IN_YOUR_WALLET</div>
+        </div>
+      )}
+
+      {step === "failed" && (
+        <div className="border-2 border-error bg-base-200 p-4 space-y-3 text-sm">
+          <div className="text-error font-bold">[FAILED] VERIFY_SELF_PROOF_TRANSACTION</div>
+          <div className="text-xs break-all">{error}</div>
+          <button
+            onClick={retryBinding}
+            className="border-2 border-base-content bg-primary text-primary-content py-2 px-4 font-bold"
+          >
+            [RETRY] SUBMIT_NULLIFIER
+          </button>
+        </div>
+      )}
+
+      {(verification || relayedTxHash) && (
+        <div className="text-xs space-y-1 opacity-75 break-all">
+          {verification && <div>NULLIFIER: {verification.nullifier}</div>}
+          {relayedTxHash && <div>RELAYED_TX: {relayedTxHash}</div>}
+          {verification?.disclosedAttributes.nationality && (
+            <div>NATIONALITY: {verification.disclosedAttributes.nationality}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
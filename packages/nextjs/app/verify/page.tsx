@@ -0,0 +1,18 @@
+import { SelfVerificationPanel } from "./_components/SelfVerificationPanel";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Verify Identity",
+  description: "Bind your wallet to a Self.xyz identity to start creating trust bonds",
+});
+
+const Verify: NextPage = () => {
+  return (
+    <div className="max-w-2xl mx-auto w-full px-4 py-10">
+      <SelfVerificationPanel />
+    </div>
+  );
+};
+
+export default Verify;
@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { usePartnerWatchlist } from "~~/hooks/trust";
+import { notification } from "~~/utils/scaffold-eth";
+import { WatchAlert, WatchAlertSeverity, getSecondsToDue } from "~~/utils/trust/watchlist";
+
+const formatEth = (value: bigint, decimals = 4) => parseFloat(formatEther(value)).toFixed(decimals);
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 16).replace("T", " ");
+
+const formatDuration = (seconds: number) => {
+  const abs = Math.abs(seconds);
+  const days = Math.floor(abs / 86400);
+  const hours = Math.floor((abs % 86400) / 3600);
+  return `${seconds < 0 ? "-" : ""}${days}D_${hours}H`;
+};
+
+// Full class names so Tailwind keeps them
+const SEVERITY_CLASSES: Record<WatchAlertSeverity, string> = {
+  info: "border-info",
+  warning: "border-warning",
+  error: "border-error",
+};
+
+const seenKey = (wallet: string) => `partnerWatchlist:seen:${wallet.toLowerCase()}`;
+
+const readSeen = (wallet: string): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(seenKey(wallet)) ?? "[]");
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Early warning on the partners of the connected wallet's active bonds: loans that freeze the shared bond, loans
+ * nearing default and exits or defects on other bonds
+ */
+export const PartnerWatchlist = () => {
+  const { address } = useAccount();
+  const { entries, alerts, now, isLoading, indexerError } = usePartnerWatchlist(address);
+  const [seen, setSeen] = useState<string[]>();
+
+  useEffect(() => setSeen(address ? readSeen(address) : undefined), [address]);
+
+  // Alerts that appeared since the wallet last marked them seen pop up once per visit
+  const newAlerts = seen ? alerts.filter(alert => !seen.includes(alert.key)) : [];
+  const newAlertKeys = newAlerts.map(({ key }) => key).join();
+  useEffect(() => {
+    newAlerts.forEach(alert => {
+      const notify = alert.severity === "info" ? notification.info : notification.warning;
+      notify(`[WATCHLIST] ${alert.partner.slice(0, 6)}…${alert.partner.slice(-4)}: ${alert.message}`, {
+        duration: 8000,
+      });
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [newAlertKeys]);
+
+  const markAllSeen = () => {
+    if (!address) return;
+    const keys = alerts.map(({ key }) => key);
+    localStorage.setItem(seenKey(address), JSON.stringify(keys));
+    setSeen(keys);
+  };
+
+  if (!address) {
+    return (
+      <div className="border-2 border-base-content bg-base-100 p-6 font-mono text-sm">
+        &gt; CONNECT_A_WALLET_TO_WATCH_YOUR_BOND_PARTNERS
+      </div>
+    );
+  }
+
+  const isNew = (alert: WatchAlert) => newAlerts.some(({ key }) => key === alert.key);
+
+  return (
+    <div className="space-y-6 font-mono">
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-2">
+        <div className="text-lg font-bold text-primary">[PARTNER_WATCHLIST]</div>
+        <div className="text-xs opacity-75">
+          &gt; YOUR_BONDS_ARE_ONLY_AS_SAFE_AS_YOUR_PARTNERS: THEIR_LOAN_FREEZES_THE_SHARED_BOND, THEIR_DEFECT_TAKES_95%
+          OF_IT
+        </div>
+        <div className="text-xs opacity-75">
+          &gt; FOR_ALERTS_WHILE_AWAY,{" "}
+          <Link href="/notifications" className="underline text-primary">
+            SUBSCRIBE_ON_/notifications
+          </Link>
+        </div>
+        {indexerError && (
+          <div className="text-xs text-warning">
+            [INDEXER_UNAVAILABLE] EXITS_AND_DEFECTS_ELSEWHERE_ARE_NOT_TRACKED: {indexerError.message}
+          </div>
+        )}
+      </div>
+
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <div className="text-lg font-bold">
+            [ALERTS] {alerts.length}
+            {newAlerts.length > 0 && <span className="badge badge-warning ml-2">{newAlerts.length}_NEW</span>}
+          </div>
+          {newAlerts.length > 0 && (
+            <button onClick={markAllSeen} className="btn btn-outline btn-xs font-mono">
+              [MARK_ALL_SEEN]
+            </button>
+          )}
+        </div>
+        {alerts.length === 0 && <div className="text-sm opacity-75">&gt; ALL_QUIET</div>}
+        {alerts.map(alert => (
+          <div
+            key={alert.key}
+            className={`flex flex-wrap items-center gap-3 border-2 p-3 text-sm ${SEVERITY_CLASSES[alert.severity]}`}
+          >
+            <Address address={alert.partner} size="sm" />
+            <span className="flex-1">&gt; {alert.message}</span>
+            <span className="text-xs opacity-75">{formatDate(alert.timestamp)}</span>
+            {isNew(alert) && <span className="badge badge-warning badge-sm">NEW</span>}
+          </div>
+        ))}
+      </div>
+
+      <div className="border-2 border-base-content bg-base-100 p-6 space-y-4">
+        <div className="text-lg font-bold">[PARTNERS] {entries.length}</div>
+        {isLoading ? (
+          <div className="text-sm">&gt; LOADING_PARTNERS...</div>
+        ) : entries.length === 0 ? (
+          <div className="text-sm opacity-75">&gt; NO_ACTIVE_BONDS_TO_WATCH</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="table table-sm w-full">
+              <thead>
+                <tr className="font-mono">
+                  <th>PARTNER</th>
+                  <th>SHARED_BOND</th>
+                  <th>TRUST_SCORE</th>
+                  <th>SELF_ID</th>
+                  <th>ACTIVE_LOAN</th>
+                  <th>EXPIRES_IN</th>
+                  <th>CLOSED_ELSEWHERE</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <tr key={entry.partner}>
+                    <td>
+                      <div className="flex items-center gap-2">
+                        <Address address={entry.partner} size="sm" />
+                        <Link href={`/graph?address=${entry.partner}`} className="underline text-primary text-xs">
+                          [GRAPH]
+                        </Link>
+                      </div>
+                    </td>
+                    <td>
+                      {formatEth(entry.userStake)}Ξ / {formatEth(entry.partnerStake)}Ξ
+                      {entry.isFrozen && <span className="badge badge-info badge-sm ml-2">FROZEN</span>}
+                    </td>
+                    <td>{entry.trustScore?.toString() ?? "--"}</td>
+                    <td>{entry.isVerified === undefined ? "--" : entry.isVerified ? "VERIFIED" : "UNVERIFIED"}</td>
+                    <td>{entry.loan ? `#${entry.loan.id} · ${formatEth(entry.loan.amount)} ETH` : "--"}</td>
+                    <td className={entry.loan && now && getSecondsToDue(entry.loan, now) < 0 ? "text-error" : ""}>
+                      {entry.loan && now ? formatDuration(getSecondsToDue(entry.loan, now)) : "--"}
+                    </td>
+                    <td>
+                      {entry.closures.length === 0
+                        ? "--"
+                        : entry.closures.map(closure => (
+                            <div key={closure.bondId} className="flex items-center gap-1 text-xs">
+                              <span className={closure.status === "defected" ? "text-error" : ""}>
+                                {closure.status.toUpperCase()}
+                              </span>
+                              <Address address={closure.counterparty} size="xs" />
+                            </div>
+                          ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,18 @@
+import { PartnerWatchlist } from "./_components/PartnerWatchlist";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Partner Watchlist",
+  description: "Loans, trust scores and exits or defects of your trust bond partners, with early warning alerts",
+});
+
+const Watchlist: NextPage = () => {
+  return (
+    <div className="max-w-6xl mx-auto w-full px-4 py-10">
+      <PartnerWatchlist />
+    </div>
+  );
+};
+
+export default Watchlist;
@@ -0,0 +1,189 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { PositionProjection, TrustBond, useBondSimulation } from "~~/hooks/trust";
+
+export type BondAction = "exit" | "defect";
+
+type BondActionSimulatorProps = {
+  bond: TrustBond;
+  // The action the user clicked, highlighted and confirmed by default
+  action: BondAction;
+  isPending: boolean;
+  onConfirm: (action: BondAction) => void;
+  onClose: () => void;
+};
+
+const DEFAULT_HOLD_DAYS = 30;
+
+const formatEth = (value: bigint | undefined, decimals = 6) =>
+  value === undefined ? "--" : parseFloat(formatEther(value)).toFixed(decimals);
+
+const formatDelta = (after: bigint, before: bigint) => {
+  const delta = after - before;
+  return `${delta >= 0n ? "+" : ""}${delta.toString()}`;
+};
+
+const formatEthDelta = (after: bigint, before: bigint) => {
+  const delta = after - before;
+  return `${delta >= 0n ? "+" : "-"}${formatEth(delta >= 0n ? delta : -delta, 4)}`;
+};
+
+const ProjectionRows = ({ projection, current }: { projection: PositionProjection; current: PositionProjection }) => (
+  <>
+    <div className="flex justify-between">
+      <span className="opacity-75">TRUST_SCORE:</span>
+      <span>
+        {projection.trustScore.toString()} ({formatDelta(projection.trustScore, current.trustScore)})
+      </span>
+    </div>
+    <div className="flex justify-between">
+      <span className="opacity-75">MAX_BORROWABLE:</span>
+      <span>
+        {formatEth(projection.maxBorrowable, 4)}Ξ ({formatEthDelta(projection.maxBorrowable, current.maxBorrowable)})
+      </span>
+    </div>
+  </>
+);
+
+/**
+ * Side-by-side projection of exiting, defecting or keeping a bond, shown before `exit` or `defect` is sent
+ */
+const BondActionSimulator = ({ bond, action, isPending, onConfirm, onClose }: BondActionSimulatorProps) => {
+  const { address } = useAccount();
+  const [holdDays, setHoldDays] = useState(DEFAULT_HOLD_DAYS);
+  const simulation = useBondSimulation(address, bond, holdDays);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose();
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  const columnClass = (column: BondAction | "hold", border: string) =>
+    `border-2 p-4 font-mono text-sm space-y-2 ${border} ${column === action ? "bg-base-200" : ""}`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="card bg-base-100 p-6 max-w-5xl w-full border-4 border-base-content relative max-h-full overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 btn btn-sm btn-ghost font-mono text-2xl">
+          [X]
+        </button>
+
+        <h2 className="retro-subtitle text-2xl mb-2 text-center">[BOND_ACTION_SIMULATOR]</h2>
+        <div className="flex justify-center items-center gap-2 font-mono text-sm mb-6">
+          <span>{">"} BOND_WITH</span>
+          <Address address={bond.partner} size="sm" />
+        </div>
+
+        {!simulation ? (
+          <div className="font-mono text-center">{">"} LOADING_LATEST_BLOCK...</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div className={columnClass("exit", "border-warning")}>
+                <h3 className="font-bold text-warning">[→] FAIR_EXIT</h3>
+                <div className="flex justify-between">
+                  <span className="opacity-75">YOU_RECEIVE:</span>
+                  <span className="font-bold">{formatEth(simulation.exit.settlement.userReceives)}Ξ</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="opacity-75">PARTNER_RECEIVES:</span>
+                  <span>{formatEth(simulation.exit.settlement.partnerReceives)}Ξ</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="opacity-75">PENALTY_1%:</span>
+                  <span className="text-warning">-{formatEth(simulation.exit.settlement.penalty)}Ξ</span>
+                </div>
+                <ProjectionRows projection={simulation.exit} current={simulation.current} />
+              </div>
+
+              <div className={columnClass("defect", "border-error")}>
+                <h3 className="font-bold text-error">[!] DEFECT</h3>
+                <div className="flex justify-between">
+                  <span className="opacity-75">YOU_RECEIVE:</span>
+                  <span className="font-bold">{formatEth(simulation.defect.settlement.userReceives)}Ξ</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="opacity-75">PARTNER_RECEIVES:</span>
+                  <span className="text-error">{formatEth(simulation.defect.settlement.partnerReceives)}Ξ</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="opacity-75">PENALTY_5%:</span>
+                  <span className="text-error">-{formatEth(simulation.defect.settlement.penalty)}Ξ</span>
+                </div>
+                <ProjectionRows projection={simulation.defect} current={simulation.current} />
+              </div>
+
+              <div className={columnClass("hold", "border-success")}>
+                <h3 className="font-bold text-success">[=] HOLD</h3>
+                <label className="flex justify-between items-center">
+                  <span className="opacity-75">DAYS:</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={holdDays}
+                    onChange={e => setHoldDays(Math.max(0, parseInt(e.target.value || "0", 10)))}
+                    className="input input-sm w-24 font-mono text-right"
+                  />
+                </label>
+                <div className="flex justify-between">
+                  <span className="opacity-75">BOND_YIELD_1%_APR:</span>
+                  <span className="text-success">+{formatEth(simulation.hold.bondYield)}Ξ</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="opacity-75">YOUR_SHARE:</span>
+                  <span className="text-success">+{formatEth(simulation.hold.userYield)}Ξ</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="opacity-75">EXIT_THEN:</span>
+                  <span>{formatEth(simulation.hold.exitAfterHold.userReceives)}Ξ</span>
+                </div>
+                <ProjectionRows projection={simulation.hold} current={simulation.current} />
+              </div>
+            </div>
+
+            <div className="p-3 border border-base-content bg-base-200 font-mono text-xs space-y-1 mb-6">
+              <div>
+                {">"} NOW: TRUST_SCORE {simulation.current.trustScore.toString()} | MAX_BORROWABLE{" "}
+                {formatEth(simulation.current.maxBorrowable, 4)}Ξ
+              </div>
+              <div className="opacity-75">
+                {">"} PROJECTED_AT_BLOCK_TIME {new Date(Number(simulation.now) * 1000).toISOString()}. THE_TX_SETTLES_AT
+                ITS_OWN_BLOCK, SO_YIELD_CAN_BE_SLIGHTLY_HIGHER.
+              </div>
+            </div>
+          </>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <button
+            onClick={() => onConfirm("exit")}
+            disabled={isPending || !simulation}
+            className={`btn font-mono ${action === "exit" ? "btn-warning" : "btn-outline btn-warning"}`}
+          >
+            [CONFIRM_EXIT]
+          </button>
+          <button
+            onClick={() => onConfirm("defect")}
+            disabled={isPending || !simulation}
+            className={`btn font-mono ${action === "defect" ? "btn-error" : "btn-outline btn-error"}`}
+          >
+            [CONFIRM_DEFECT]
+          </button>
+          <button onClick={onClose} className="btn btn-primary font-mono">
+            [KEEP_BOND]
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BondActionSimulator;
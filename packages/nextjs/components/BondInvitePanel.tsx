@@ -0,0 +1,121 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { QRCodeSVG } from "qrcode.react";
+import { Address as AddressType, formatEther, parseEther } from "viem";
+import { Address } from "~~/components/scaffold-eth";
+import { useCopyToClipboard } from "~~/hooks/scaffold-eth";
+import { TrustBond } from "~~/hooks/trust";
+import { MAX_INVITE_NOTE_LENGTH, buildInviteUrl } from "~~/utils/trust/invite";
+
+type BondInvitePanelProps = {
+  // A bond the connected wallet created and the partner has not staked in yet
+  bond: TrustBond;
+  creator: AddressType;
+  onClose: () => void;
+};
+
+const parseStake = (amount: string) => {
+  try {
+    const value = parseEther(amount);
+    return value > 0n ? value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Shareable link and QR code asking the partner of a one-sided bond to `addStake`, matching the creator's stake
+ * unless the creator suggests another amount
+ */
+const BondInvitePanel = ({ bond, creator, onClose }: BondInvitePanelProps) => {
+  const [stakeAmount, setStakeAmount] = useState(formatEther(bond.userStake));
+  const [note, setNote] = useState("");
+  const [origin, setOrigin] = useState<string>();
+  const { copyToClipboard, isCopiedToClipboard } = useCopyToClipboard();
+
+  // The link points back at whichever deployment the creator is using
+  useEffect(() => setOrigin(window.location.origin), []);
+
+  const stake = parseStake(stakeAmount);
+  const inviteUrl = origin && buildInviteUrl(origin, { creator, stake, note });
+  const canShare = typeof navigator !== "undefined" && "share" in navigator;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="card bg-base-100 p-6 max-w-2xl w-full border-4 border-base-content relative max-h-full overflow-y-auto font-mono">
+        <button onClick={onClose} className="absolute top-4 right-4 btn btn-sm btn-ghost font-mono text-2xl">
+          ×
+        </button>
+        <h2 className="retro-subtitle text-2xl mb-2 text-center">[BOND_INVITE]</h2>
+        <div className="flex justify-center items-center gap-2 text-sm mb-6">
+          <span className="opacity-75">PARTNER:</span>
+          <Address address={bond.partner} size="sm" />
+        </div>
+
+        <div className="text-xs opacity-75 mb-4">
+          &gt; YOUR_SIDE_HOLDS {parseFloat(formatEther(bond.userStake)).toFixed(4)}Ξ, THE_PARTNER_SIDE_IS_EMPTY.
+          SEND_THIS_LINK_SO_THEY_CAN_ACCEPT_WITH_ONE_CLICK
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm mb-2 text-primary">[INPUT] SUGGESTED_PARTNER_STAKE_ETH:</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={stakeAmount}
+              onChange={e => setStakeAmount(e.target.value)}
+              className="w-full px-3 py-2 border-2 border-base-content bg-base-100 text-sm focus:border-primary focus:outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm mb-2 text-primary">
+              [INPUT] NOTE ({note.length}/{MAX_INVITE_NOTE_LENGTH}):
+            </label>
+            <textarea
+              value={note}
+              maxLength={MAX_INVITE_NOTE_LENGTH}
+              onChange={e => setNote(e.target.value)}
+              rows={2}
+              placeholder="Let's bond so we can both borrow"
+              className="w-full px-3 py-2 border-2 border-base-content bg-base-100 text-sm focus:border-primary focus:outline-none"
+            />
+          </div>
+        </div>
+
+        {inviteUrl && (
+          <div className="flex flex-col items-center gap-4">
+            <div className="bg-white p-3 border-2 border-base-content">
+              <QRCodeSVG value={inviteUrl} size={200} />
+            </div>
+            <div className="w-full p-2 border border-base-content bg-base-200 text-xs break-all">{inviteUrl}</div>
+            <div className="flex gap-2">
+              <button onClick={() => copyToClipboard(inviteUrl)} className="btn btn-primary btn-sm font-mono">
+                {isCopiedToClipboard ? "[COPIED]" : "[COPY_LINK]"}
+              </button>
+              {canShare && (
+                <button
+                  onClick={() =>
+                    navigator
+                      .share({ title: "Trust bond invite", text: note || undefined, url: inviteUrl })
+                      .catch(() => undefined)
+                  }
+                  className="btn btn-outline btn-sm font-mono"
+                >
+                  [SHARE]
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+        {!stake && stakeAmount && (
+          <div className="text-xs text-warning mt-2">&gt; INVALID_AMOUNT: THE_LINK_LETS_THE_PARTNER_CHOOSE</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BondInvitePanel;
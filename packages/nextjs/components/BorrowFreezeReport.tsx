@@ -0,0 +1,144 @@
+"use client";
+
+import { useState } from "react";
+import { Address as AddressType, formatEther } from "viem";
+import { Address } from "~~/components/scaffold-eth";
+import { TrustBond } from "~~/hooks/trust";
+import { FROZEN_BOND_ACTIONS, buildFreezeMessage, getFreezeImpact } from "~~/utils/trust/freeze";
+
+type BorrowFreezeReportProps = {
+  bonds: TrustBond[];
+  amount: bigint;
+  durationSeconds: number;
+  isBorrowing: boolean;
+  onConfirm: () => Promise<void>;
+  onClose: () => void;
+};
+
+const formatEth = (value: bigint, decimals = 4) => parseFloat(formatEther(value)).toFixed(decimals);
+
+/**
+ * Confirmation shown before `borrow`: every bond the loan freezes, the partners locked out of it and a heads-up
+ * message for each of them
+ */
+const BorrowFreezeReport = ({
+  bonds,
+  amount,
+  durationSeconds,
+  isBorrowing,
+  onConfirm,
+  onClose,
+}: BorrowFreezeReportProps) => {
+  const [copiedPartner, setCopiedPartner] = useState<AddressType>();
+  // Fixed when the report opens, the message dates and the projected yields don't tick
+  const [now] = useState(() => BigInt(Math.floor(Date.now() / 1000)));
+  const report = getFreezeImpact(bonds, now, BigInt(durationSeconds));
+  const dueTimestamp = now + BigInt(durationSeconds);
+
+  const copyMessage = async (partner: AddressType, message: string) => {
+    try {
+      await navigator.clipboard.writeText(message);
+      setCopiedPartner(partner);
+      setTimeout(() => setCopiedPartner(undefined), 800);
+    } catch (error) {
+      console.error("Failed to copy message:", error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="card bg-base-100 p-6 max-w-3xl w-full border-4 border-base-content relative max-h-full overflow-y-auto font-mono">
+        <button onClick={onClose} className="absolute top-4 right-4 btn btn-sm btn-ghost font-mono text-2xl">
+          ×
+        </button>
+        <h2 className="retro-subtitle text-2xl mb-2 text-center">[FREEZE_IMPACT_REPORT]</h2>
+        <div className="text-sm text-center mb-6">
+          &gt; BORROW {formatEth(amount)} ETH FOR {Math.round(durationSeconds / 86400)}D · DUE{" "}
+          {new Date(Number(dueTimestamp) * 1000).toISOString().slice(0, 10)}
+        </div>
+
+        {report.bonds.length === 0 ? (
+          <div className="p-3 border border-base-content text-sm mb-6">
+            &gt; NO_ACTIVE_BONDS_TO_FREEZE: NO_PARTNER_IS_AFFECTED
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+              {[
+                { label: "BONDS_FROZEN", value: report.bonds.length.toString() },
+                { label: "YOUR_STAKE", value: `${formatEth(report.totalUserStake)}Ξ` },
+                { label: "PARTNER_STAKE", value: `${formatEth(report.totalPartnerStake)}Ξ` },
+                { label: "YIELD_OVER_TERM*", value: `${formatEth(report.totalYieldOverTerm, 6)}Ξ` },
+              ].map(({ label, value }) => (
+                <div key={label} className="text-center p-2 border-2 border-base-content">
+                  <p className="text-xs mb-1">{label}</p>
+                  <p className="font-bold">{value}</p>
+                </div>
+              ))}
+            </div>
+            <div className="text-xs opacity-75 mb-4">
+              &gt; UNTIL_REPAID_OR_LIQUIDATED, NEITHER_SIDE_CAN{" "}
+              {FROZEN_BOND_ACTIONS.map(action => action.toUpperCase()).join(" / ")}. IF_THE_LOAN_IS_LIQUIDATED
+              THE_YIELD_EVERY_BOND_HELD_AT_FREEZE IS_PAID_OUT_TO_BOTH_PARTNERS, RESET AND_THE_BONDS_UNFREEZE.
+              *YIELD_OVER_TERM IS_PAID_ONLY_IF_REPAID, FORFEITED_ON_LIQUIDATION
+            </div>
+
+            <div className="space-y-3 mb-6">
+              {report.bonds.map(impact => {
+                const message = buildFreezeMessage({ impact, amount, dueTimestamp });
+                return (
+                  <div key={impact.partner} className="border-2 border-base-content p-3 space-y-2 text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="flex items-center gap-2">
+                        <span className="opacity-75">PARTNER_LOCKED_OUT:</span>
+                        <Address address={impact.partner} size="sm" />
+                      </div>
+                      <span className="badge badge-warning badge-sm font-mono">WILL_FREEZE</span>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                      <div>YOUR_STAKE: {formatEth(impact.userStake)}Ξ</div>
+                      <div>PARTNER_STAKE: {formatEth(impact.partnerStake)}Ξ</div>
+                      <div>
+                        YIELD_NOW: {formatEth(impact.yieldAtFreeze, 6)}Ξ (PARTNER{" "}
+                        {formatEth(impact.partnerYieldAtFreeze, 6)}Ξ)
+                      </div>
+                      <div>
+                        YIELD_OVER_TERM: +{formatEth(impact.yieldOverTerm, 6)}Ξ (ONLY_IF_REPAID,
+                        FORFEITED_ON_LIQUIDATION)
+                      </div>
+                    </div>
+                    <div className="p-2 border border-base-content bg-base-200 text-xs">{message}</div>
+                    <button
+                      onClick={() => copyMessage(impact.partner, message)}
+                      className="btn btn-outline btn-xs font-mono"
+                    >
+                      {copiedPartner === impact.partner ? "[COPIED]" : "[COPY_MESSAGE]"}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="text-xs opacity-75 mb-4">
+              &gt; PARTNERS_SUBSCRIBED_ON_/notifications_ARE_ALERTED_ONCE_THE_LOAN_IS_INDEXED
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-2">
+          <button onClick={onClose} className="btn btn-ghost flex-1 font-mono">
+            [CANCEL]
+          </button>
+          <button onClick={onConfirm} disabled={isBorrowing} className="btn btn-primary flex-1 font-mono">
+            {isBorrowing
+              ? "[BORROWING...]"
+              : report.bonds.length > 0
+                ? `[FREEZE_${report.bonds.length}_BONDS_AND_BORROW]`
+                : "[CONFIRM_BORROW]"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BorrowFreezeReport;
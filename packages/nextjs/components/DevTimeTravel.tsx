@@ -0,0 +1,119 @@
+"use client";
+
+import { useState } from "react";
+import { foundry } from "viem/chains";
+import { ClockIcon } from "@heroicons/react/24/outline";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { TIME_TRAVEL_PRESETS, useTimeTravel } from "~~/hooks/trust";
+
+const formatDate = (timestamp: bigint) =>
+  new Date(Number(timestamp) * 1000).toISOString().slice(0, 16).replace("T", " ");
+
+const formatOffset = (seconds: number) => {
+  const days = Math.floor(Math.abs(seconds) / 86_400);
+  const hours = Math.floor((Math.abs(seconds) % 86_400) / 3_600);
+  return `${seconds < 0 ? "-" : "+"}${days}D_${hours}H`;
+};
+
+const TimeTravelControls = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const { latestBlock, snapshots, increaseTime, takeSnapshot, revertTo, isBusy, error } = useTimeTravel();
+
+  // Chain time drifts ahead of the wall clock with every jump
+  const offset = latestBlock ? Number(latestBlock.timestamp) - Math.floor(Date.now() / 1000) : 0;
+
+  return (
+    <div className="relative">
+      <button className="btn btn-primary btn-sm font-normal gap-1" onClick={() => setIsOpen(!isOpen)}>
+        <ClockIcon className="h-4 w-4" />
+        <span>Time Travel</span>
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 border-2 border-base-content bg-base-100 p-4 font-mono text-xs space-y-3 shadow-lg">
+          <div className="flex justify-between items-center">
+            <span className="font-bold text-primary">[ANVIL_TIME_TRAVEL]</span>
+            <button className="btn btn-ghost btn-xs" onClick={() => setIsOpen(false)}>
+              ×
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            <div>
+              &gt; BLOCK: {latestBlock ? `#${latestBlock.number}` : "--"} ·{" "}
+              {latestBlock ? formatDate(latestBlock.timestamp) : "--"}
+            </div>
+            <div className="opacity-75">&gt; VS_WALL_CLOCK: {formatOffset(offset)}</div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-2">
+            {TIME_TRAVEL_PRESETS.map(({ label, seconds }) => (
+              <button
+                key={label}
+                className="btn btn-outline btn-xs font-mono"
+                disabled={isBusy}
+                onClick={() => increaseTime(seconds)}
+              >
+                +{label}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="font-bold">[SNAPSHOTS]</div>
+            <div className="flex gap-2">
+              <input
+                className="input input-bordered input-xs font-mono flex-1"
+                placeholder="LABEL"
+                value={label}
+                onChange={event => setLabel(event.target.value)}
+              />
+              <button
+                className="btn btn-primary btn-xs font-mono"
+                disabled={isBusy}
+                onClick={async () => {
+                  await takeSnapshot(label.trim());
+                  setLabel("");
+                }}
+              >
+                SAVE
+              </button>
+            </div>
+            {snapshots.length === 0 && <div className="opacity-75">&gt; NO_SNAPSHOTS</div>}
+            {snapshots.map(snapshot => (
+              <div key={snapshot.id} className="flex justify-between items-center gap-2">
+                <span className="truncate" title={`${snapshot.id} · block #${snapshot.blockNumber}`}>
+                  {snapshot.label} · {formatDate(snapshot.timestamp)}
+                </span>
+                <button
+                  className="btn btn-outline btn-xs font-mono"
+                  disabled={isBusy}
+                  onClick={() => revertTo(snapshot.id)}
+                >
+                  REVERT
+                </button>
+              </div>
+            ))}
+            <div className="opacity-75">
+              &gt; REVERTING_DROPS_LATER_SNAPSHOTS. RESET_THE_WALLET_NONCE_IF_IT_SIGNED_TXS_SINCE
+            </div>
+          </div>
+
+          {error && <div className="text-error break-words">[RPC_ERROR] {error.message}</div>}
+          {isBusy && <div className="opacity-75">&gt; UPDATING_CHAIN...</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Dev-only control over the local chain's clock and state, for exercising yield accrual and loan expiry.
+ * Renders only when the target network is anvil, so no other network is asked for the test RPC methods.
+ */
+const DevTimeTravel = () => {
+  const { targetNetwork } = useTargetNetwork();
+  return targetNetwork.id === foundry.id ? <TimeTravelControls /> : null;
+};
+
+export default DevTimeTravel;
@@ -4,14 +4,19 @@ import React, { useRef } from "react";
 import Link from "next/link";
 import { usePathname, useSearchParams } from "next/navigation";
 import { hardhat } from "viem/chains";
+import { useAccount } from "wagmi";
 import { Bars3Icon } from "@heroicons/react/24/outline";
+import { SelfVerificationBadge } from "~~/components/SelfVerificationBadge";
 import { FaucetButton, RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
 import { useOutsideClick, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { useProtocolOwners } from "~~/hooks/trust";
 
 const RetroNavButtons = () => {
   const pathname = usePathname();
   const searchParams = useSearchParams();
   const activeView = searchParams.get("view") || "overview";
+  const { address } = useAccount();
+  const { isOwner } = useProtocolOwners(address);
 
   const buttons = [
     { key: "home", label: "HOME", href: "/", isActive: pathname === "/" && !searchParams.get("view") },
@@ -19,6 +24,21 @@ const RetroNavButtons = () => {
     // { key: "overview", label: "OVERVIEW", href: "/?view=overview", isActive: pathname === "/" && activeView === "overview" },
     { key: "bonds", label: "TRUST_CONTRACTS", href: "/?view=bonds", isActive: pathname === "/" && activeView === "bonds" },
     { key: "lending", label: "LENDING_POOLS", href: "/?view=lending", isActive: pathname === "/" && activeView === "lending" },
+    { key: "verify", label: "VERIFY_ID", href: "/verify", isActive: pathname === "/verify" },
+    { key: "graph", label: "GRAPH", href: "/graph", isActive: pathname === "/graph" },
+    ...(address
+      ? [
+          { key: "watchlist", label: "WATCHLIST", href: "/watchlist", isActive: pathname === "/watchlist" },
+          { key: "alerts", label: "ALERTS", href: "/notifications", isActive: pathname === "/notifications" },
+        ]
+      : []),
+    ...(isOwner
+      ? [
+          { key: "risk", label: "RISK", href: "/risk", isActive: pathname === "/risk" },
+          { key: "contagion", label: "CONTAGION", href: "/contagion", isActive: pathname === "/contagion" },
+          { key: "admin", label: "ADMIN", href: "/admin", isActive: pathname === "/admin" },
+        ]
+      : []),
   ];
 
   return (
@@ -75,6 +95,7 @@ export const Header = () => {
         <ul className="lg:hidden"><RetroNavButtons /></ul>
       </div>
       <div className="navbar-end grow mr-4">
+        <SelfVerificationBadge />
         <RainbowKitCustomConnectButton />
         {isLocalNetwork && <FaucetButton />}
       </div>
@@ -1,154 +1,255 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Address, formatEther, parseEther } from "viem";
 import { useAccount } from "wagmi";
-import { parseEther, formatEther } from "viem";
-import toast from "react-hot-toast";
-
-interface LendingPool {
-  id: string;
-  totalDeposits: bigint;
-  totalBorrowed: bigint;
-  interestRate: number;
-  liquidationThreshold: number;
-  isActive: boolean;
-}
-
-interface UserLoan {
-  id: string;
-  borrower: string;
-  collateralAmount: bigint;
-  borrowedAmount: bigint;
-  interestRate: number;
-  dueDate: number;
-  status: 'active' | 'defaulted' | 'frozen' | 'repaid';
-  trustBondAddress: string;
-  liquidationPrice: bigint;
-}
+import BorrowFreezeReport from "~~/components/BorrowFreezeReport";
+import RiskFlagBadges from "~~/components/RiskFlagBadges";
+import TrustScoreBreakdown from "~~/components/TrustScoreBreakdown";
+import {
+  useDeployedContractInfo,
+  useScaffoldReadContract,
+  useScaffoldWriteContract,
+  useWatchBalance,
+} from "~~/hooks/scaffold-eth";
+import { Loan, getLoanStatus, useSybilReport, useTrustBonds, useUserLoans } from "~~/hooks/trust";
+import { notification } from "~~/utils/scaffold-eth";
 
-const LendingPoolDashboard = () => {
-  const { address } = useAccount();
-  const [activeTab, setActiveTab] = useState<'borrow' | 'lend' | 'manage'>('borrow');
-  const [borrowAmount, setBorrowAmount] = useState('');
-  const [lendAmount, setLendAmount] = useState('');
-  const [selectedTrustBond, setSelectedTrustBond] = useState<string>('');
-
-  // Mock data - replace with actual contract calls
-  const mockLendingPools: LendingPool[] = [
-    {
-      id: '1',
-      totalDeposits: parseEther('1000'),
-      totalBorrowed: parseEther('800'),
-      interestRate: 5.5,
-      liquidationThreshold: 80,
-      isActive: true
-    }
-  ];
-
-  const mockUserLoans: UserLoan[] = [
-    {
-      id: '1',
-      borrower: address || '0x0',
-      collateralAmount: parseEther('100'),
-      borrowedAmount: parseEther('80'),
-      interestRate: 5.5,
-      dueDate: Date.now() + 86400000 * 30, // 30 days
-      status: 'active',
-      trustBondAddress: '0x123...',
-      liquidationPrice: parseEther('120')
-    }
-  ];
+// LendingPool.borrow rejects anything shorter than one day
+const MIN_LOAN_DURATION_SECONDS = 86400;
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+// Extra interest sent with `repay` to cover the time until the tx is mined; LendingPool refunds the excess
+const REPAY_BUFFER_SECONDS = 600n;
 
-  const mockTrustBonds = [
-    { address: '0x123...ABC', partner: '0xabc...DEF', stake: parseEther('100'), isActive: true },
-    { address: '0x456...GHI', partner: '0xdef...JKL', stake: parseEther('200'), isActive: true },
-  ];
+/**
+ * Same formula as LendingPool.calculateRepaymentAmount, evaluated at an arbitrary timestamp.
+ */
+const projectRepayment = (loan: Loan, timestamp: bigint) => {
+  const elapsedTime = timestamp > loan.startTime ? timestamp - loan.startTime : 0n;
+  const interest = (loan.amount * loan.interestRate * elapsedTime) / (SECONDS_PER_YEAR * 10000n);
+  return loan.amount + interest;
+};
 
-  const handleBorrow = async () => {
-    if (!borrowAmount || !selectedTrustBond) {
-      toast.error("[ERROR] PLEASE_FILL_ALL_FIELDS");
-      return;
-    }
+const formatEth = (value: bigint | undefined, decimals = 4) =>
+  value === undefined ? "--" : parseFloat(formatEther(value)).toFixed(decimals);
+
+const formatDuration = (seconds: number) => {
+  const abs = Math.abs(seconds);
+  const days = Math.floor(abs / 86400);
+  const hours = Math.floor((abs % 86400) / 3600);
+  const minutes = Math.floor((abs % 3600) / 60);
+  return `${days}D_${hours}H_${minutes}M`;
+};
+
+const useNowSeconds = () => {
+  const [now, setNow] = useState(() => BigInt(Math.floor(Date.now() / 1000)));
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(BigInt(Math.floor(Date.now() / 1000))), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return now;
+};
+
+const ActiveLoanCard = ({ loan, onRepaid }: { loan: Loan; onRepaid: () => Promise<void> }) => {
+  const now = useNowSeconds();
+  const { writeContractAsync: writeLendingPool, isMining } = useScaffoldWriteContract({ contractName: "LendingPool" });
+
+  const { data: onChainRepayment } = useScaffoldReadContract({
+    contractName: "LendingPool",
+    functionName: "calculateRepaymentAmount",
+    args: [loan.id],
+  });
+
+  // The on-chain value only moves once per block, so tick the same formula locally between blocks
+  const localRepayment = projectRepayment(loan, now);
+  const repaymentAmount =
+    onChainRepayment !== undefined && onChainRepayment > localRepayment ? onChainRepayment : localRepayment;
+  const repayBuffer = projectRepayment(loan, now + REPAY_BUFFER_SECONDS) - localRepayment;
+  const dueTimestamp = loan.startTime + loan.duration;
+  const secondsToDue = Number(dueTimestamp - now);
 
+  const handleRepay = async () => {
     try {
-      toast.success(`[SUCCESS] BORROWING_${borrowAmount}_ETH`);
-      setBorrowAmount('');
-      setSelectedTrustBond('');
+      const txHash = await writeLendingPool({
+        functionName: "repay",
+        args: [loan.id],
+        value: repaymentAmount + (repayBuffer > 0n ? repayBuffer : 1n),
+      });
+      if (txHash) await onRepaid();
     } catch (error) {
-      toast.error("[ERROR] BORROWING_FAILED");
-      console.error(error);
+      console.error("Repay failed:", error);
     }
   };
 
-  const handleLend = async () => {
-    if (!lendAmount) {
-      toast.error("[ERROR] PLEASE_ENTER_AMOUNT");
-      return;
-    }
+  return (
+    <div className="border-2 border-base-content p-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="text-center p-3 border border-base-content">
+          <p className="font-mono text-sm mb-1">LOAN_ID</p>
+          <p className="font-mono text-lg font-bold">#{loan.id.toString()}</p>
+        </div>
+        <div className="text-center p-3 border border-base-content">
+          <p className="font-mono text-sm mb-1">BORROWED</p>
+          <p className="font-mono text-lg font-bold">{formatEth(loan.amount)} ETH</p>
+        </div>
+        <div className="text-center p-3 border border-base-content">
+          <p className="font-mono text-sm mb-1">INTEREST_RATE</p>
+          <p className="font-mono text-lg font-bold">{(Number(loan.interestRate) / 100).toFixed(2)}% APR</p>
+        </div>
+        <div className="text-center p-3 border border-base-content">
+          <p className="font-mono text-sm mb-1">{secondsToDue >= 0 ? "DUE_IN" : "OVERDUE_BY"}</p>
+          <p className={`font-mono text-lg font-bold ${secondsToDue < 0 ? "text-error blink" : ""}`}>
+            {formatDuration(secondsToDue)}
+          </p>
+        </div>
+      </div>
+
+      <div className="p-4 border border-base-content bg-base-200 mb-6 font-mono text-sm space-y-1">
+        <div>
+          {">"} REPAYMENT_DUE_NOW: <span className="font-bold">{formatEth(repaymentAmount, 8)} ETH</span>
+        </div>
+        <div>
+          {">"} INTEREST_ACCRUED: {formatEth(repaymentAmount - loan.amount, 8)} ETH
+        </div>
+        <div className="opacity-75">
+          {">"} SENDING +{formatEth(repayBuffer, 8)} ETH BUFFER, EXCESS_IS_REFUNDED_BY_POOL
+        </div>
+      </div>
 
+      <button onClick={handleRepay} disabled={isMining} className="btn btn-primary w-full font-mono text-lg">
+        {isMining ? "[REPAYING...]" : `[REPAY_LOAN] ${formatEth(repaymentAmount + repayBuffer, 6)} ETH`}
+      </button>
+    </div>
+  );
+};
+
+// Sybil and collusion flags of the borrower, from the indexed bond graph; hidden while the indexer is unavailable
+const WalletRiskFlags = ({ address }: { address: Address }) => {
+  const { report, risksByAddress } = useSybilReport();
+  if (!report) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 font-mono text-sm mb-6">
+      {">"} RISK_FLAGS: <RiskFlagBadges risk={risksByAddress.get(address)} />
+    </div>
+  );
+};
+
+const LendingPoolDashboard = () => {
+  const { address } = useAccount();
+  const [activeTab, setActiveTab] = useState<"borrow" | "lend" | "manage">("borrow");
+  const [borrowAmount, setBorrowAmount] = useState("");
+  const [durationDays, setDurationDays] = useState("30");
+  const [lendAmount, setLendAmount] = useState("");
+  const [isReviewingFreeze, setIsReviewingFreeze] = useState(false);
+
+  const { data: lendingPool } = useDeployedContractInfo({ contractName: "LendingPool" });
+  const { data: poolBalance } = useWatchBalance({ address: lendingPool?.address });
+  const { data: totalLiquidity } = useScaffoldReadContract({
+    contractName: "LendingPool",
+    functionName: "totalLiquidity",
+  });
+  const { data: baseInterestRate } = useScaffoldReadContract({
+    contractName: "LendingPool",
+    functionName: "BASE_INTEREST_RATE",
+  });
+  const { data: maxBorrowable } = useScaffoldReadContract({
+    contractName: "LendingPool",
+    functionName: "getMaxBorrowableAmount",
+    args: [address],
+  });
+
+  const { bonds } = useTrustBonds(address);
+  const { loans, activeLoan, refetch: refetchLoans } = useUserLoans(address);
+  const { writeContractAsync: writeLendingPool, isMining: isBorrowing } = useScaffoldWriteContract({
+    contractName: "LendingPool",
+  });
+
+  const bondsToFreeze = bonds.filter(bond => bond.isActive && !bond.isFrozen);
+
+  const parsedBorrowAmount = (() => {
     try {
-      toast.success(`[SUCCESS] LENDING_${lendAmount}_ETH`);
-      setLendAmount('');
-    } catch (error) {
-      toast.error("[ERROR] LENDING_FAILED");
-      console.error(error);
+      return borrowAmount ? parseEther(borrowAmount) : undefined;
+    } catch {
+      return undefined;
     }
-  };
+  })();
+  const durationSeconds = Math.floor(parseFloat(durationDays || "0") * 86400);
+  const borrowError = (() => {
+    if (activeLoan) return "REPAY_ACTIVE_LOAN_FIRST";
+    if (borrowAmount && (parsedBorrowAmount === undefined || parsedBorrowAmount <= 0n)) return "INVALID_AMOUNT";
+    if (parsedBorrowAmount && maxBorrowable !== undefined && parsedBorrowAmount > maxBorrowable)
+      return "AMOUNT_EXCEEDS_MAX_BORROWABLE";
+    if (parsedBorrowAmount && poolBalance && parsedBorrowAmount > poolBalance.value)
+      return "INSUFFICIENT_POOL_LIQUIDITY";
+    if (durationSeconds < MIN_LOAN_DURATION_SECONDS) return "MIN_DURATION_IS_1_DAY";
+    return undefined;
+  })();
 
-  const handleSlash = async (loanId: string) => {
-    try {
-      toast.success(`[SUCCESS] SLASHING_LOAN_${loanId}`);
-    } catch (error) {
-      toast.error("[ERROR] SLASHING_FAILED");
-      console.error(error);
+  // Borrowing freezes the partners' side of every bond too, so the impact is shown before the tx
+  const handleReviewBorrow = () => {
+    if (!parsedBorrowAmount || borrowError) {
+      notification.error(borrowError ?? "Enter a borrow amount");
+      return;
     }
+    setIsReviewingFreeze(true);
   };
 
-  const handleFreeze = async (loanId: string) => {
-    try {
-      toast.success(`[SUCCESS] FREEZING_LOAN_${loanId}`);
-    } catch (error) {
-      toast.error("[ERROR] FREEZE_FAILED");
-      console.error(error);
+  const handleBorrow = async () => {
+    if (!parsedBorrowAmount || borrowError) {
+      notification.error(borrowError ?? "Enter a borrow amount");
+      return;
     }
-  };
 
-  const handleUnfreeze = async (loanId: string) => {
     try {
-      toast.success(`[SUCCESS] UNFREEZING_LOAN_${loanId}`);
+      const txHash = await writeLendingPool({
+        functionName: "borrow",
+        args: [parsedBorrowAmount, BigInt(durationSeconds)],
+      });
+      if (!txHash) return;
+      setIsReviewingFreeze(false);
+      setBorrowAmount("");
+      await refetchLoans();
+      setActiveTab("manage");
     } catch (error) {
-      toast.error("[ERROR] UNFREEZE_FAILED");
-      console.error(error);
+      console.error("Borrow failed:", error);
     }
   };
 
-  const handleDefault = async (loanId: string) => {
-    try {
-      toast.success(`[SUCCESS] MARKING_DEFAULT_${loanId}`);
-    } catch (error) {
-      toast.error("[ERROR] DEFAULT_FAILED");
-      console.error(error);
+  const handleLend = async () => {
+    if (!lendAmount) {
+      notification.error("[ERROR] PLEASE_ENTER_AMOUNT");
+      return;
     }
+
+    notification.info(`[INFO] LENDING_${lendAmount}_ETH_IS_NOT_AVAILABLE_YET`);
+    setLendAmount("");
   };
 
+  const estimatedRate = activeLoan?.interestRate ?? baseInterestRate;
+  const estimatedInterest =
+    parsedBorrowAmount && estimatedRate !== undefined && durationSeconds > 0
+      ? (parsedBorrowAmount * estimatedRate * BigInt(durationSeconds)) / (SECONDS_PER_YEAR * 10000n)
+      : undefined;
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-6xl">
       <div className="mb-8 text-center">
         <h1 className="retro-title text-5xl mb-4 glitch">LENDING_POOL_v3.2</h1>
         <div className="font-mono text-lg border-2 border-base-content p-4 bg-base-100">
-          {'>'} BORROW_AGAINST_TRUST_BONDS_OR_LEND_TO_EARN_YIELD
+          {">"} BORROW_AGAINST_TRUST_BONDS_OR_LEND_TO_EARN_YIELD
         </div>
       </div>
 
       {/* Retro Terminal Navigation */}
       <div className="flex space-x-2 mb-8 justify-center">
-        {['borrow', 'lend', 'manage'].map((tab) => (
+        {["borrow", "lend", "manage"].map(tab => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab as any)}
-            className={`btn font-mono uppercase ${
-              activeTab === tab ? 'btn-primary' : 'btn-ghost'
-            }`}
+            className={`btn font-mono uppercase ${activeTab === tab ? "btn-primary" : "btn-ghost"}`}
           >
             [{tab}_MODE]
           </button>
@@ -157,125 +258,175 @@ const LendingPoolDashboard = () => {
 
       {/* Pool Status Terminal */}
       <div className="mb-8">
-        {mockLendingPools.map((pool) => (
-          <div key={pool.id} className="card bg-base-100 p-6">
-            <h3 className="retro-subtitle text-2xl mb-6 text-center">[POOL_STATUS_TERMINAL]</h3>
-            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-              <div className="border-2 border-base-content p-4 text-center">
-                <div className="font-mono text-sm mb-2">TOTAL_DEPOSITS:</div>
-                <div className="font-mono text-2xl font-bold">{formatEther(pool.totalDeposits)} ETH</div>
-              </div>
-              <div className="border-2 border-base-content p-4 text-center">
-                <div className="font-mono text-sm mb-2">TOTAL_BORROWED:</div>
-                <div className="font-mono text-2xl font-bold">{formatEther(pool.totalBorrowed)} ETH</div>
-              </div>
-              <div className="border-2 border-base-content p-4 text-center">
-                <div className="font-mono text-sm mb-2">INTEREST_RATE:</div>
-                <div className="font-mono text-2xl font-bold blink">{pool.interestRate}%</div>
-              </div>
-              <div className="border-2 border-base-content p-4 text-center">
-                <div className="font-mono text-sm mb-2">UTILIZATION:</div>
-                <div className="font-mono text-2xl font-bold">
-                  {((Number(pool.totalBorrowed) / Number(pool.totalDeposits)) * 100).toFixed(1)}%
-                </div>
+        <div className="card bg-base-100 p-6">
+          <h3 className="retro-subtitle text-2xl mb-6 text-center">[POOL_STATUS_TERMINAL]</h3>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div className="border-2 border-base-content p-4 text-center">
+              <div className="font-mono text-sm mb-2">TOTAL_LIQUIDITY:</div>
+              <div className="font-mono text-2xl font-bold">{formatEth(totalLiquidity)} ETH</div>
+            </div>
+            <div className="border-2 border-base-content p-4 text-center">
+              <div className="font-mono text-sm mb-2">AVAILABLE_TO_BORROW:</div>
+              <div className="font-mono text-2xl font-bold">{formatEth(poolBalance?.value)} ETH</div>
+            </div>
+            <div className="border-2 border-base-content p-4 text-center">
+              <div className="font-mono text-sm mb-2">BASE_INTEREST_RATE:</div>
+              <div className="font-mono text-2xl font-bold blink">
+                {baseInterestRate !== undefined ? `${(Number(baseInterestRate) / 100).toFixed(2)}%` : "--"}
               </div>
             </div>
+            <div className="border-2 border-base-content p-4 text-center">
+              <div className="font-mono text-sm mb-2">YOUR_MAX_BORROW:</div>
+              <div className="font-mono text-2xl font-bold">{formatEth(maxBorrowable)} ETH</div>
+            </div>
           </div>
-        ))}
+        </div>
       </div>
 
       {/* Terminal Tab Content */}
-      {activeTab === 'borrow' && (
+      {activeTab === "borrow" && (
         <div className="card bg-base-100 p-8">
           <h2 className="retro-subtitle text-2xl mb-8 text-center">[BORROW_AGAINST_TRUST_BONDS]</h2>
-          
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-            <div className="border-2 border-base-content p-6">
-              <label className="block font-mono text-sm font-bold mb-4">
-                SELECT_TRUST_BOND_COLLATERAL:
-              </label>
-              <select
-                value={selectedTrustBond}
-                onChange={(e) => setSelectedTrustBond(e.target.value)}
-                className="input w-full font-mono"
-              >
-                <option value="">SELECT_TRUST_BOND...</option>
-                {mockTrustBonds.map((bond, index) => (
-                  <option key={index} value={bond.address}>
-                    {bond.address} - {formatEther(bond.stake)} ETH
-                  </option>
-                ))}
-              </select>
-              
-              {selectedTrustBond && (
-                <div className="mt-4 p-4 border border-base-content bg-base-200">
-                  <div className="font-mono text-sm space-y-2">
-                    <div>{'>'} COLLATERAL_VALUE: 100 ETH</div>
-                    <div>{'>'} MAX_BORROW: 80 ETH (80%)</div>
-                    <div>{'>'} LIQUIDATION_THRESHOLD: 120 ETH</div>
-                    <div className="badge badge-outline mt-2">STATUS: ACTIVE</div>
-                  </div>
-                </div>
-              )}
-            </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <div className="border-2 border-base-content p-6">
-              <label className="block font-mono text-sm font-bold mb-4">
-                BORROW_AMOUNT_(ETH):
-              </label>
+              <label className="block font-mono text-sm font-bold mb-4">BORROW_AMOUNT_(ETH):</label>
               <input
                 type="number"
                 value={borrowAmount}
-                onChange={(e) => setBorrowAmount(e.target.value)}
+                onChange={e => setBorrowAmount(e.target.value)}
                 placeholder="0.0"
                 className="input w-full font-mono text-2xl"
               />
-              
+              <button
+                onClick={() => maxBorrowable !== undefined && setBorrowAmount(formatEther(maxBorrowable))}
+                className="btn btn-ghost btn-sm font-mono mt-2"
+              >
+                [USE_MAX] {formatEth(maxBorrowable)} ETH
+              </button>
+
+              <label className="block font-mono text-sm font-bold mt-6 mb-4">LOAN_DURATION_(DAYS):</label>
+              <input
+                type="number"
+                min={1}
+                value={durationDays}
+                onChange={e => setDurationDays(e.target.value)}
+                placeholder="30"
+                className="input w-full font-mono text-2xl"
+              />
+
               {borrowAmount && (
                 <div className="mt-4 p-3 border border-base-content bg-base-200">
                   <div className="font-mono text-sm space-y-1">
-                    <div>{'>'} REQUESTED: {borrowAmount} ETH</div>
-                    <div>{'>'} INTEREST: {(parseFloat(borrowAmount) * 0.055).toFixed(4)} ETH/YEAR</div>
-                    <div>{'>'} TOTAL_REPAY: {(parseFloat(borrowAmount) * 1.055).toFixed(4)} ETH</div>
+                    <div>
+                      {">"} REQUESTED: {borrowAmount} ETH
+                    </div>
+                    <div>
+                      {">"} RATE: {estimatedRate !== undefined ? (Number(estimatedRate) / 100).toFixed(2) : "--"}% APR
+                      (BASE, TRUST_DISCOUNT_APPLIED_ON_CHAIN)
+                    </div>
+                    <div>
+                      {">"} INTEREST_AT_TERM: {formatEth(estimatedInterest, 6)} ETH
+                    </div>
+                    <div>
+                      {">"} TOTAL_REPAY_AT_TERM:{" "}
+                      {formatEth(
+                        parsedBorrowAmount && estimatedInterest !== undefined
+                          ? parsedBorrowAmount + estimatedInterest
+                          : undefined,
+                        6,
+                      )}{" "}
+                      ETH
+                    </div>
                   </div>
                 </div>
               )}
             </div>
+
+            <div className="border-2 border-base-content p-6">
+              <h4 className="font-mono text-sm font-bold mb-4">COLLATERAL: ALL_ACTIVE_TRUST_BONDS</h4>
+              <div className="font-mono text-sm space-y-2 mb-4">
+                <div>
+                  {">"} MAX_BORROWABLE: {formatEth(maxBorrowable)} ETH
+                </div>
+                <div>
+                  {">"} BONDS_TO_FREEZE: {bondsToFreeze.length}
+                </div>
+                <div className="opacity-75">
+                  {">"} BORROWING_FREEZES_EVERY_ACTIVE_BOND_UNTIL_REPAID. PARTNERS_CANNOT_EXIT_DEFECT_OR_ADD_STAKE.
+                </div>
+              </div>
+              {bondsToFreeze.length === 0 && (
+                <div className="p-3 border border-warning text-warning font-mono text-xs">
+                  [WARNING] NO_ACTIVE_BONDS: CAPACITY_COMES_FROM_TRUST_SCORE_ONLY
+                </div>
+              )}
+              {activeLoan && (
+                <div className="p-3 border border-error text-error font-mono text-xs mt-2">
+                  [LOCKED] LOAN_#{activeLoan.id.toString()}_IS_STILL_ACTIVE
+                </div>
+              )}
+            </div>
           </div>
 
+          {borrowError && borrowAmount && (
+            <div className="mt-6 font-mono text-sm text-error text-center">[ERROR] {borrowError}</div>
+          )}
+
           <button
-            onClick={handleBorrow}
-            disabled={!borrowAmount || !selectedTrustBond}
+            onClick={handleReviewBorrow}
+            disabled={!borrowAmount || Boolean(borrowError) || isBorrowing}
             className="btn btn-primary w-full mt-8 text-xl glitch"
           >
-            [EXECUTE_BORROW] {borrowAmount || '0'} ETH
+            {isBorrowing ? "[BORROWING...]" : `[EXECUTE_BORROW] ${borrowAmount || "0"} ETH`}
           </button>
         </div>
       )}
 
-      {activeTab === 'lend' && (
+      {isReviewingFreeze && parsedBorrowAmount && (
+        <BorrowFreezeReport
+          bonds={bondsToFreeze}
+          amount={parsedBorrowAmount}
+          durationSeconds={durationSeconds}
+          isBorrowing={isBorrowing}
+          onConfirm={handleBorrow}
+          onClose={() => setIsReviewingFreeze(false)}
+        />
+      )}
+
+      {activeTab === "borrow" && (
+        <div className="mt-8">
+          <TrustScoreBreakdown />
+        </div>
+      )}
+
+      {activeTab === "lend" && (
         <div className="card bg-base-100 p-8">
           <h2 className="retro-subtitle text-2xl mb-8 text-center">[LEND_TO_EARN_YIELD]</h2>
-          
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
             <div className="border-2 border-base-content p-6">
-              <label className="block font-mono text-sm font-bold mb-4">
-                LEND_AMOUNT_(ETH):
-              </label>
+              <label className="block font-mono text-sm font-bold mb-4">LEND_AMOUNT_(ETH):</label>
               <input
                 type="number"
                 value={lendAmount}
-                onChange={(e) => setLendAmount(e.target.value)}
+                onChange={e => setLendAmount(e.target.value)}
                 placeholder="0.0"
                 className="input w-full font-mono text-2xl"
               />
-              
+
               {lendAmount && (
                 <div className="mt-4 p-3 border border-base-content bg-base-200">
                   <div className="font-mono text-sm space-y-1">
-                    <div>{'>'} AMOUNT: {lendAmount} ETH</div>
-                    <div>{'>'} ANNUAL_YIELD: {(parseFloat(lendAmount) * 0.055).toFixed(4)} ETH</div>
-                    <div>{'>'} MONTHLY_YIELD: {(parseFloat(lendAmount) * 0.055 / 12).toFixed(6)} ETH</div>
+                    <div>
+                      {">"} AMOUNT: {lendAmount} ETH
+                    </div>
+                    <div>
+                      {">"} ANNUAL_YIELD: {(parseFloat(lendAmount) * 0.055).toFixed(4)} ETH
+                    </div>
+                    <div>
+                      {">"} MONTHLY_YIELD: {((parseFloat(lendAmount) * 0.055) / 12).toFixed(6)} ETH
+                    </div>
                   </div>
                 </div>
               )}
@@ -300,117 +451,75 @@ const LendingPoolDashboard = () => {
             </div>
           </div>
 
-          <button
-            onClick={handleLend}
-            disabled={!lendAmount}
-            className="btn btn-primary w-full mt-8 text-xl glitch"
-          >
-            [EXECUTE_LEND] {lendAmount || '0'} ETH
+          <button onClick={handleLend} disabled={!lendAmount} className="btn btn-primary w-full mt-8 text-xl glitch">
+            [EXECUTE_LEND] {lendAmount || "0"} ETH
           </button>
         </div>
       )}
 
-      {activeTab === 'manage' && (
+      {activeTab === "manage" && (
         <div className="space-y-8">
           <div className="card bg-base-100 p-8">
             <h2 className="retro-subtitle text-2xl mb-8 text-center">[ACTIVE_LOANS_MANAGEMENT]</h2>
-            
-            <div className="space-y-6">
-              {mockUserLoans.map((loan) => (
-                <div key={loan.id} className="border-2 border-base-content p-6">
-                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
-                    <div className="text-center p-3 border border-base-content">
-                      <p className="font-mono text-sm mb-1">COLLATERAL</p>
-                      <p className="font-mono text-lg font-bold">{formatEther(loan.collateralAmount)} ETH</p>
-                    </div>
-                    <div className="text-center p-3 border border-base-content">
-                      <p className="font-mono text-sm mb-1">BORROWED</p>
-                      <p className="font-mono text-lg font-bold">{formatEther(loan.borrowedAmount)} ETH</p>
-                    </div>
-                    <div className="text-center p-3 border border-base-content">
-                      <p className="font-mono text-sm mb-1">INTEREST_RATE</p>
-                      <p className="font-mono text-lg font-bold">{loan.interestRate}%</p>
-                    </div>
-                    <div className="text-center p-3 border border-base-content">
-                      <p className="font-mono text-sm mb-1">STATUS</p>
-                      <div className={`badge badge-outline font-mono ${
-                        loan.status === 'active' ? 'badge-primary' :
-                        loan.status === 'frozen' ? 'badge-warning' :
-                        loan.status === 'defaulted' ? 'badge-error' :
-                        'badge-success'
-                      }`}>
-                        {loan.status.toUpperCase()}
-                      </div>
-                    </div>
-                  </div>
 
-                  <div className="flex flex-wrap gap-3 justify-center">
-                    {loan.status === 'active' && (
-                      <>
-                        <button
-                          onClick={() => handleFreeze(loan.id)}
-                          className="btn btn-warning font-mono"
-                        >
-                          [FREEZE_LOAN]
-                        </button>
-                        <button
-                          onClick={() => handleSlash(loan.id)}
-                          className="btn btn-error font-mono"
-                        >
-                          [SLASH_COLLATERAL]
-                        </button>
-                        <button
-                          onClick={() => handleDefault(loan.id)}
-                          className="btn btn-error font-mono"
-                        >
-                          [MARK_DEFAULT]
-                        </button>
-                      </>
-                    )}
-                    
-                    {loan.status === 'frozen' && (
-                      <button
-                        onClick={() => handleUnfreeze(loan.id)}
-                        className="btn btn-primary font-mono"
-                      >
-                        [UNFREEZE_LOAN]
-                      </button>
-                    )}
-
-                    <button className="btn btn-ghost font-mono">
-                      [VIEW_DETAILS]
-                    </button>
-                  </div>
-                </div>
-              ))}
+            {address && <WalletRiskFlags address={address} />}
+
+            <div className="space-y-6">
+              {activeLoan ? (
+                <ActiveLoanCard loan={activeLoan} onRepaid={refetchLoans} />
+              ) : (
+                <div className="font-mono text-center opacity-75">{">"} NO_ACTIVE_LOAN</div>
+              )}
             </div>
           </div>
 
-          {/* Yield Recovery Section */}
           <div className="card bg-base-100 p-8">
-            <h2 className="retro-subtitle text-2xl mb-8 text-center">[YIELD_RECOVERY_SYSTEM]</h2>
-            <div className="font-mono text-center mb-8">
-              {'>'} RECOVER_FUNDS_FROM_DEFAULTED_LOANS_THROUGH_TRUST_BOND_YIELD
-            </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
-              <div className="p-6 border-2 border-base-content text-center">
-                <p className="font-mono text-sm mb-2">AVAILABLE_YIELD</p>
-                <p className="font-mono text-3xl font-bold text-primary">2.34 ETH</p>
+            <h2 className="retro-subtitle text-2xl mb-8 text-center">[LOAN_HISTORY]</h2>
+            {loans.length === 0 ? (
+              <div className="font-mono text-center opacity-75">{">"} NO_LOANS_FOUND_FOR_THIS_WALLET</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="table font-mono text-sm">
+                  <thead>
+                    <tr>
+                      <th>ID</th>
+                      <th>AMOUNT</th>
+                      <th>RATE</th>
+                      <th>STARTED</th>
+                      <th>DUE</th>
+                      <th>STATUS</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {loans.map(loan => {
+                      const status = getLoanStatus(loan);
+                      return (
+                        <tr key={loan.id.toString()}>
+                          <td>#{loan.id.toString()}</td>
+                          <td>{formatEth(loan.amount)} ETH</td>
+                          <td>{(Number(loan.interestRate) / 100).toFixed(2)}%</td>
+                          <td>{new Date(Number(loan.startTime) * 1000).toLocaleDateString()}</td>
+                          <td>{new Date(Number(loan.startTime + loan.duration) * 1000).toLocaleDateString()}</td>
+                          <td>
+                            <div
+                              className={`badge badge-outline font-mono ${
+                                status === "active"
+                                  ? "badge-primary"
+                                  : status === "defaulted"
+                                    ? "badge-error"
+                                    : "badge-success"
+                              }`}
+                            >
+                              {status.toUpperCase()}
+                            </div>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
               </div>
-              <div className="p-6 border-2 border-base-content text-center">
-                <p className="font-mono text-sm mb-2">RECOVERY_PENDING</p>
-                <p className="font-mono text-3xl font-bold blink">1.87 ETH</p>
-              </div>
-              <div className="p-6 border-2 border-base-content text-center">
-                <p className="font-mono text-sm mb-2">TOTAL_RECOVERED</p>
-                <p className="font-mono text-3xl font-bold">15.42 ETH</p>
-              </div>
-            </div>
-
-            <button className="btn btn-primary w-full text-xl font-mono glitch">
-              [CLAIM_AVAILABLE_YIELD]
-            </button>
+            )}
           </div>
         </div>
       )}
@@ -418,4 +527,4 @@ const LendingPoolDashboard = () => {
   );
 };
 
-export default LendingPoolDashboard;
\ No newline at end of file
+export default LendingPoolDashboard;
@@ -0,0 +1,44 @@
+"use client";
+
+import { AddressRisk, RiskFlagKind, RiskLevel } from "~~/utils/trust/sybil";
+
+// Full class names so Tailwind keeps them
+const LEVEL_CLASSES: Record<RiskLevel, string> = {
+  low: "badge-info",
+  medium: "badge-warning",
+  high: "badge-error",
+};
+
+export const RISK_FLAG_LABELS: Record<RiskFlagKind, string> = {
+  dense_clique: "CLIQUE",
+  low_stake_ring: "DUST_RING",
+  bond_burst: "BURST",
+  trust_reliant: "TRUST_RELIANT",
+};
+
+/**
+ * Compact sybil and collusion flags of one address for loan tables, details on hover
+ */
+const RiskFlagBadges = ({ risk }: { risk?: AddressRisk }) => {
+  if (!risk) return <span className="text-xs opacity-50">--</span>;
+
+  const kinds = Array.from(new Set(risk.flags.map(({ kind }) => kind)));
+  return (
+    <div className="flex flex-wrap gap-1">
+      {kinds.map(kind => (
+        <span
+          key={kind}
+          className={`badge badge-sm font-mono ${LEVEL_CLASSES[risk.level]}`}
+          title={risk.flags
+            .filter(flag => flag.kind === kind)
+            .map(({ detail }) => detail)
+            .join("\n")}
+        >
+          {RISK_FLAG_LABELS[kind]}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default RiskFlagBadges;
@@ -0,0 +1,36 @@
+"use client";
+
+import Link from "next/link";
+import { useAccount } from "wagmi";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+
+/**
+ * Shows whether the connected wallet is bound to a Self.xyz identity on TrustContract, linking to /verify if not
+ */
+export const SelfVerificationBadge = () => {
+  const { address } = useAccount();
+  const { data: isVerified, isLoading } = useScaffoldReadContract({
+    contractName: "TrustContract",
+    functionName: "isUserVerified",
+    args: [address],
+  });
+
+  if (!address || isLoading) return null;
+
+  if (isVerified) {
+    return (
+      <span className="mr-2 px-2 py-1 border-2 border-success text-success font-mono text-xs font-bold">
+        [VERIFIED]
+      </span>
+    );
+  }
+
+  return (
+    <Link
+      href="/verify"
+      className="mr-2 px-2 py-1 border-2 border-warning text-warning font-mono text-xs font-bold hover:bg-base-200"
+    >
+      [UNVERIFIED] VERIFY_ID
+    </Link>
+  );
+};
@@ -1,127 +1,170 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useAccount, useReadContract, useWriteContract } from "wagmi";
-import { parseEther, formatEther, Address } from "viem";
-import toast from "react-hot-toast";
-
-interface TrustBond {
-  key: string;
-  addr0: Address;
-  addr1: Address;
-  stake0: bigint;
-  stake1: bigint;
-  accruedYield: bigint;
-  isActive: boolean;
-  isFrozen: boolean;
-  createdAt: number;
-  lastYieldUpdate: number;
-}
+import { useState } from "react";
+import Link from "next/link";
+import { formatEther, isAddress, parseEther } from "viem";
+import { useAccount } from "wagmi";
+import BondActionSimulator, { BondAction } from "~~/components/BondActionSimulator";
+import BondInvitePanel from "~~/components/BondInvitePanel";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { TrustBond, useTrustBonds, useTrustScoreBreakdown, useUserLoans } from "~~/hooks/trust";
+import { notification } from "~~/utils/scaffold-eth";
+
+type TxStatus = "pending" | "confirmed" | "failed";
+
+const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+// One-sided bonds older than this get flagged so the creator resends the invite
+const INVITE_REMINDER_AFTER_SECONDS = 24 * 60 * 60;
+
+const formatEth = (value: bigint | undefined) =>
+  value === undefined ? "--" : parseFloat(formatEther(value)).toFixed(3);
 
 const TrustBondManager = () => {
   const { address } = useAccount();
-  const [partnerAddress, setPartnerAddress] = useState<string>('');
-  const [stakeAmount, setStakeAmount] = useState<string>('');
-  const [activeTab, setActiveTab] = useState<'create' | 'manage' | 'analytics'>('create');
-
-  // Mock trust bonds data - replace with actual contract reads
-  const mockTrustBonds: TrustBond[] = [
-    {
-      key: '0x123...',
-      addr0: address || '0x0',
-      addr1: '0xabc...',
-      stake0: parseEther('100'),
-      stake1: parseEther('150'),
-      accruedYield: parseEther('5.25'),
-      isActive: true,
-      isFrozen: false,
-      createdAt: Date.now() - 86400000 * 7,
-      lastYieldUpdate: Date.now() - 3600000
-    },
-    {
-      key: '0x456...',
-      addr0: address || '0x0',
-      addr1: '0xdef...',
-      stake0: parseEther('200'),
-      stake1: parseEther('0'),
-      accruedYield: parseEther('0'),
-      isActive: false,
-      isFrozen: false,
-      createdAt: Date.now() - 86400000 * 2,
-      lastYieldUpdate: 0
-    }
-  ];
+  const [partnerAddress, setPartnerAddress] = useState<string>("");
+  const [stakeAmount, setStakeAmount] = useState<string>("");
+  const [activeTab, setActiveTab] = useState<"create" | "pending" | "manage" | "analytics">("create");
+  const [txStatus, setTxStatus] = useState<Record<string, TxStatus>>({});
+  const [simulatedAction, setSimulatedAction] = useState<{ bond: TrustBond; action: BondAction }>();
+  // Partner of the one-sided bond whose invite panel is open
+  const [invitePartner, setInvitePartner] = useState<string>();
 
-  const handleCreateTrustBond = async () => {
-    if (!partnerAddress || !stakeAmount) {
-      toast.error("Please fill all fields");
-      return;
-    }
+  const { bonds, isLoading, refetch } = useTrustBonds(address);
+  const { trustScore, totalValue, maxBorrowable } = useTrustScoreBreakdown(address);
+  const { activeLoan } = useUserLoans(address);
+  const { data: isVerified } = useScaffoldReadContract({
+    contractName: "TrustContract",
+    functionName: "isUserVerified",
+    args: [address],
+  });
+  const { writeContractAsync: writeTrustContract } = useScaffoldWriteContract({ contractName: "TrustContract" });
+
+  const activeBonds = bonds.filter(bond => bond.isActive);
+  // createContract only funds the creator's side, the partner has to addStake to complete the bond
+  const awaitingPartner = activeBonds.filter(bond => bond.userStake > 0n && bond.partnerStake === 0n);
+  const awaitingYou = activeBonds.filter(bond => bond.userStake === 0n && bond.partnerStake > 0n);
+  // The active loan's share of `getMaxBorrowableAmount`, which keeps counting the bonds the loan froze
+  const borrowed = activeLoan?.amount ?? 0n;
+  const utilization =
+    maxBorrowable === undefined
+      ? undefined
+      : maxBorrowable === 0n
+        ? 0
+        : Math.min(100, Number((borrowed * 100n) / maxBorrowable));
+  const inviteBond = awaitingPartner.find(bond => bond.partner.toLowerCase() === invitePartner?.toLowerCase());
 
+  const parseStake = (amount: string) => {
     try {
-      // Implement actual contract call to createContract
-      toast.success(`Creating trust bond with ${partnerAddress} for ${stakeAmount} ETH`);
-      setPartnerAddress('');
-      setStakeAmount('');
-    } catch (error) {
-      toast.error("Failed to create trust bond");
-      console.error(error);
+      const value = parseEther(amount);
+      return value > 0n ? value : undefined;
+    } catch {
+      return undefined;
     }
   };
 
-  const handleAddStake = async (bondKey: string, amount: string) => {
+  /**
+   * Sends a TrustContract transaction and tracks its pending/confirmed/failed state under `txId`.
+   * useScaffoldWriteContract already waits for the receipt and surfaces revert reasons as notifications.
+   */
+  const runTx = async (txId: string, send: () => Promise<string | undefined>) => {
+    setTxStatus(prev => ({ ...prev, [txId]: "pending" }));
     try {
-      toast.success(`Adding ${amount} ETH stake to bond ${bondKey}`);
+      const txHash = await send();
+      if (!txHash) throw new Error("Transaction was not sent");
+      setTxStatus(prev => ({ ...prev, [txId]: "confirmed" }));
+      await refetch();
+      return true;
     } catch (error) {
-      toast.error("Failed to add stake");
+      console.error(`${txId} failed:`, error);
+      setTxStatus(prev => ({ ...prev, [txId]: "failed" }));
+      return false;
     }
   };
 
-  const handleDefect = async (bondKey: string) => {
-    if (!confirm("Are you sure you want to defect? This will incur heavy penalties.")) {
+  const handleCreateTrustBond = async () => {
+    const value = parseStake(stakeAmount);
+    if (!isAddress(partnerAddress) || !value) {
+      notification.error("Enter a valid partner address and stake amount");
       return;
     }
 
-    try {
-      toast.success(`Defecting from bond ${bondKey}`);
-    } catch (error) {
-      toast.error("Defection failed");
+    const created = await runTx("create", () =>
+      writeTrustContract({ functionName: "createContract", args: [partnerAddress], value }),
+    );
+    if (created) {
+      setInvitePartner(partnerAddress);
+      setPartnerAddress("");
+      setStakeAmount("");
     }
   };
 
-  const handleExit = async (bondKey: string) => {
-    try {
-      toast.success(`Exiting bond ${bondKey} with fair split`);
-    } catch (error) {
-      toast.error("Exit failed");
+  const handleAddStake = async (bond: TrustBond, amount: string) => {
+    const value = parseStake(amount);
+    if (!value) {
+      notification.error("Enter a valid stake amount");
+      return;
     }
+
+    await runTx(`${bond.key}:addStake`, () =>
+      writeTrustContract({ functionName: "addStake", args: [bond.partner], value }),
+    );
   };
 
-  const handleClaimYield = async (bondKey: string) => {
-    try {
-      toast.success(`Claiming yield from bond ${bondKey}`);
-    } catch (error) {
-      toast.error("Yield claim failed");
-    }
+  // Matches the creator's stake, the amount an invite suggests by default
+  const handleAcceptBond = async (bond: TrustBond) => {
+    await runTx(`${bond.key}:addStake`, () =>
+      writeTrustContract({ functionName: "addStake", args: [bond.partner], value: bond.partnerStake }),
+    );
   };
 
+  // Exit and defect are only sent from the simulator, after the user has seen the projected outcome
+  const handleBondAction = async (bond: TrustBond, action: BondAction) => {
+    setSimulatedAction(undefined);
+    await runTx(`${bond.key}:${action}`, () => writeTrustContract({ functionName: action, args: [bond.partner] }));
+  };
+
+  // Mirrors TrustContract._updateContractYield: 1% APR on the bond's total stake
   const calculateDailyYield = (tvl: bigint) => {
-    // 1% daily yield
-    return (tvl * BigInt(100)) / BigInt(10000);
+    return (tvl * 86400n * 100n) / (SECONDS_PER_YEAR * 10000n);
   };
 
   const formatAddress = (addr: string) => {
     return `${addr.slice(0, 6)}...${addr.slice(-4)}`;
   };
 
-  const formatTimeAgo = (timestamp: number) => {
-    const diff = Date.now() - timestamp;
+  const formatOpenFor = (timestampSeconds: number) => {
+    const seconds = Math.max(0, Math.floor(Date.now() / 1000) - timestampSeconds);
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    return `${days}D_${hours}H`;
+  };
+
+  const formatTimeAgo = (timestampSeconds: number) => {
+    const diff = Date.now() - timestampSeconds * 1000;
     const days = Math.floor(diff / (1000 * 60 * 60 * 24));
     const hours = Math.floor(diff / (1000 * 60 * 60));
-    
+
     if (days > 0) return `${days}d ago`;
     if (hours > 0) return `${hours}h ago`;
-    return 'Just now';
+    return "Just now";
+  };
+
+  const renderTxStatus = (txId: string) => {
+    const status = txStatus[txId];
+    if (!status) return null;
+
+    const statusClass = {
+      pending: "border-info text-info",
+      confirmed: "border-success text-success",
+      failed: "border-error text-error",
+    }[status];
+
+    return (
+      <span className={`px-2 py-1 text-xs font-mono border ${statusClass}`}>
+        [TX_{status.toUpperCase()}
+        {status === "pending" && <span className="blink">_</span>}]
+      </span>
+    );
   };
 
   return (
@@ -138,26 +181,41 @@ const TrustBondManager = () => {
           </div>
         </div>
         <div className="text-sm opacity-75">
-          &gt; INITIALIZE_TRUST_PROTOCOLS... [OK]<br/>
-          &gt; SCANNING_BOND_CONTRACTS... [OK]<br/>
+          &gt; INITIALIZE_TRUST_PROTOCOLS... [OK]
+          <br />
+          &gt; SCANNING_BOND_CONTRACTS... [{isLoading ? "SCANNING" : `${bonds.length}_FOUND`}]
+          <br />
           &gt; SYSTEM_READY_FOR_INPUT...
         </div>
       </div>
 
+      {awaitingYou.length > 0 && (
+        <div className="mb-6 p-4 border-2 border-warning bg-base-200 text-xs font-mono flex flex-wrap items-center justify-between gap-2">
+          <span>
+            <span className="text-warning font-bold">[ACTION_REQUIRED]</span>
+            <span className="opacity-75"> &gt; {awaitingYou.length} BOND_INVITE(S)_AWAIT_YOUR_STAKE</span>
+          </span>
+          <button onClick={() => setActiveTab("pending")} className="underline text-primary">
+            REVIEW_PENDING_BONDS
+          </button>
+        </div>
+      )}
+
       {/* Terminal Tab Navigation */}
       <div className="flex space-x-1 mb-6">
         {[
-          { key: 'create', icon: '[+]', label: 'CREATE_BOND' },
-          { key: 'manage', icon: '[◉]', label: 'MANAGE_BONDS' },
-          { key: 'analytics', icon: '[📊]', label: 'ANALYTICS' }
-        ].map((tab) => (
+          { key: "create", icon: "[+]", label: "CREATE_BOND" },
+          { key: "pending", icon: "[⧗]", label: `PENDING_BONDS (${awaitingPartner.length + awaitingYou.length})` },
+          { key: "manage", icon: "[◉]", label: "MANAGE_BONDS" },
+          { key: "analytics", icon: "[📊]", label: "ANALYTICS" },
+        ].map(tab => (
           <button
             key={tab.key}
             onClick={() => setActiveTab(tab.key as any)}
             className={`px-4 py-2 font-mono text-sm border-2 transition-all ${
               activeTab === tab.key
-                ? 'border-primary bg-primary text-primary-content'
-                : 'border-base-content bg-base-100 hover:bg-base-200'
+                ? "border-primary bg-primary text-primary-content"
+                : "border-base-content bg-base-100 hover:bg-base-200"
             }`}
           >
             {tab.icon} {tab.label}
@@ -165,7 +223,7 @@ const TrustBondManager = () => {
         ))}
       </div>
 
-      {activeTab === 'create' && (
+      {activeTab === "create" && (
         <div className="border-2 border-base-content bg-base-100 p-6">
           <div className="mb-6">
             <div className="flex items-center space-x-2 mb-2">
@@ -174,29 +232,35 @@ const TrustBondManager = () => {
             </div>
             <div className="text-xs opacity-75">&gt; ENTER_PARTNER_CREDENTIALS_AND_STAKE_AMOUNT</div>
           </div>
-          
+
+          {address && isVerified === false && (
+            <div className="mb-6 p-4 border-2 border-warning bg-base-200 text-xs font-mono">
+              <span className="text-warning font-bold">[BLOCKED] WALLET_NOT_VERIFIED_WITH_SELF.XYZ</span>
+              <span className="opacity-75"> &gt; CREATE_CONTRACT_WILL_REVERT_UNTIL_YOU </span>
+              <Link href="/verify" className="underline text-primary">
+                VERIFY_YOUR_IDENTITY
+              </Link>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
             <div>
-              <label className="block text-sm font-mono mb-2 text-primary">
-                [INPUT] PARTNER_WALLET_ADDRESS:
-              </label>
+              <label className="block text-sm font-mono mb-2 text-primary">[INPUT] PARTNER_WALLET_ADDRESS:</label>
               <input
                 type="text"
                 value={partnerAddress}
-                onChange={(e) => setPartnerAddress(e.target.value)}
+                onChange={e => setPartnerAddress(e.target.value)}
                 placeholder="0xABCDEF1234567890..."
                 className="w-full px-3 py-2 border-2 border-base-content bg-base-100 font-mono text-sm focus:border-primary focus:outline-none"
               />
             </div>
 
             <div>
-              <label className="block text-sm font-mono mb-2 text-primary">
-                [INPUT] INITIAL_STAKE_AMOUNT_ETH:
-              </label>
+              <label className="block text-sm font-mono mb-2 text-primary">[INPUT] INITIAL_STAKE_AMOUNT_ETH:</label>
               <input
                 type="number"
                 value={stakeAmount}
-                onChange={(e) => setStakeAmount(e.target.value)}
+                onChange={e => setStakeAmount(e.target.value)}
                 placeholder="0.000"
                 className="w-full px-3 py-2 border-2 border-base-content bg-base-100 font-mono text-sm focus:border-primary focus:outline-none"
               />
@@ -210,8 +274,8 @@ const TrustBondManager = () => {
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-xs font-mono">
               <div className="flex justify-between">
-                <span>DAILY_YIELD_RATE:</span>
-                <span className="text-primary">1.0% of TVL</span>
+                <span>YIELD_RATE:</span>
+                <span className="text-primary">1.0% APR on TVL</span>
               </div>
               <div className="flex justify-between">
                 <span>COOPERATION_BONUS:</span>
@@ -230,40 +294,142 @@ const TrustBondManager = () => {
 
           <button
             onClick={handleCreateTrustBond}
-            disabled={!partnerAddress || !stakeAmount}
+            disabled={!partnerAddress || !stakeAmount || txStatus.create === "pending"}
             className="w-full border-2 border-base-content bg-primary text-primary-content py-3 px-6 font-mono font-bold hover:bg-primary-focus disabled:bg-base-300 disabled:text-base-content disabled:cursor-not-allowed transition-all"
           >
-            [EXECUTE] CREATE_TRUST_CONTRACT
+            {txStatus.create === "pending" ? "[PENDING] CREATING_TRUST_CONTRACT..." : "[EXECUTE] CREATE_TRUST_CONTRACT"}
           </button>
+          {txStatus.create && <div className="mt-3 text-center">{renderTxStatus("create")}</div>}
+        </div>
+      )}
+
+      {activeTab === "pending" && (
+        <div className="space-y-4">
+          <div className="border-2 border-base-content bg-base-100 p-4">
+            <div className="flex items-center space-x-2 mb-2">
+              <span className="text-primary">▶</span>
+              <span className="font-bold text-lg">AWAITING_YOUR_STAKE</span>
+            </div>
+            <div className="text-xs opacity-75 mb-4">
+              &gt; A_PARTNER_FUNDED_THEIR_SIDE. ACCEPT_TO_MATCH_THEIR_STAKE,
+              OR_OPEN_THEIR_INVITE_LINK_FOR_ANOTHER_AMOUNT
+            </div>
+            {awaitingYou.length === 0 ? (
+              <div className="text-sm opacity-75">&gt; NO_INVITES_WAITING</div>
+            ) : (
+              awaitingYou.map(bond => (
+                <div
+                  key={bond.key}
+                  className="flex flex-wrap items-center justify-between gap-2 p-3 border border-base-content mb-2 last:mb-0"
+                >
+                  <div className="text-sm">
+                    &gt; FROM: {formatAddress(bond.partner)} | STAKED:{" "}
+                    {parseFloat(formatEther(bond.partnerStake)).toFixed(4)}Ξ | OPEN_FOR: {formatOpenFor(bond.createdAt)}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {renderTxStatus(`${bond.key}:addStake`)}
+                    <button
+                      onClick={() => handleAcceptBond(bond)}
+                      disabled={bond.isFrozen || isVerified === false || txStatus[`${bond.key}:addStake`] === "pending"}
+                      className="px-3 py-2 border-2 border-primary bg-primary text-primary-content font-mono text-xs hover:bg-primary-focus disabled:opacity-50 transition-all"
+                    >
+                      {bond.isFrozen
+                        ? "[FROZEN]"
+                        : `[✓] ACCEPT_${parseFloat(formatEther(bond.partnerStake)).toFixed(4)}Ξ`}
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+            {awaitingYou.length > 0 && isVerified === false && (
+              <div className="mt-3 text-xs text-warning">
+                &gt; ADD_STAKE_REQUIRES_A_VERIFIED_WALLET:{" "}
+                <Link href="/verify" className="underline text-primary">
+                  VERIFY_YOUR_IDENTITY
+                </Link>
+              </div>
+            )}
+          </div>
+
+          <div className="border-2 border-base-content bg-base-100 p-4">
+            <div className="flex items-center space-x-2 mb-2">
+              <span className="text-primary">▶</span>
+              <span className="font-bold text-lg">AWAITING_PARTNER_STAKE</span>
+            </div>
+            <div className="text-xs opacity-75 mb-4">
+              &gt; ONE_SIDED_BONDS_YOU_CREATED. SHARE_AN_INVITE_LINK_OR_QR_CODE_SO_THE_PARTNER_CAN_ACCEPT
+            </div>
+            {awaitingPartner.length === 0 ? (
+              <div className="text-sm opacity-75">&gt; NO_ONE_SIDED_BONDS</div>
+            ) : (
+              awaitingPartner.map(bond => {
+                const isStale = Date.now() / 1000 - bond.createdAt > INVITE_REMINDER_AFTER_SECONDS;
+                return (
+                  <div
+                    key={bond.key}
+                    className={`p-3 border mb-2 last:mb-0 ${isStale ? "border-warning" : "border-base-content"}`}
+                  >
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="text-sm">
+                        &gt; PARTNER: {formatAddress(bond.partner)} | YOUR_STAKE:{" "}
+                        {parseFloat(formatEther(bond.userStake)).toFixed(4)}Ξ | OPEN_FOR:{" "}
+                        {formatOpenFor(bond.createdAt)}
+                      </div>
+                      <button
+                        onClick={() => setInvitePartner(bond.partner)}
+                        className="px-3 py-2 border-2 border-base-content bg-base-100 font-mono text-xs hover:bg-base-200 transition-all"
+                      >
+                        [⇪] {isStale ? "RESEND_INVITE" : "SHARE_INVITE"}
+                      </button>
+                    </div>
+                    {isStale && (
+                      <div className="text-xs text-warning mt-2">
+                        &gt; [REMINDER] PARTNER_HAS_NOT_STAKED_YET: THE_BOND_EARNS_YIELD_ON_YOUR_STAKE_ONLY
+                      </div>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
         </div>
       )}
 
-      {activeTab === 'manage' && (
+      {activeTab === "manage" && (
         <div className="space-y-4">
-          {mockTrustBonds.map((bond, index) => (
+          {bonds.length === 0 && (
+            <div className="border-2 border-base-content bg-base-100 p-6 text-sm opacity-75">
+              &gt; {isLoading ? "LOADING_BOND_CONTRACTS..." : "NO_BOND_CONTRACTS_FOUND_FOR_THIS_WALLET"}
+            </div>
+          )}
+
+          {bonds.map((bond, index) => (
             <div key={bond.key} className="border-2 border-base-content bg-base-100 p-4">
               {/* Bond Header */}
               <div className="flex justify-between items-start mb-4">
                 <div className="font-mono">
                   <div className="flex items-center space-x-2 mb-1">
                     <span className="text-primary">◉</span>
-                    <span className="font-bold text-lg">BOND_CONTRACT_{String(index + 1).padStart(3, '0')}</span>
+                    <span className="font-bold text-lg">BOND_CONTRACT_{String(index + 1).padStart(3, "0")}</span>
                   </div>
                   <div className="text-sm opacity-75">
-                    &gt; PARTNER: {formatAddress(bond.addr1)}<br/>
+                    &gt; PARTNER: {formatAddress(bond.partner)}
+                    <br />
                     &gt; CREATED: {formatTimeAgo(bond.createdAt)}
                   </div>
                 </div>
-                
+
                 <div className="flex flex-col space-y-1">
-                  <div className={`px-2 py-1 text-xs font-mono border ${
-                    bond.isActive 
-                      ? 'border-success text-success bg-success bg-opacity-20' 
-                      : 'border-warning text-warning bg-warning bg-opacity-20'
-                  }`}>
-                    [{bond.isActive ? 'ACTIVE' : 'PENDING'}]
+                  <div
+                    className={`px-2 py-1 text-xs font-mono border ${
+                      bond.isActive
+                        ? "border-success text-success bg-success bg-opacity-20"
+                        : "border-warning text-warning bg-warning bg-opacity-20"
+                    }`}
+                  >
+                    [{bond.isActive ? "ACTIVE" : "CLOSED"}]
                   </div>
-                  
+
                   {bond.isFrozen && (
                     <div className="px-2 py-1 text-xs font-mono border border-info text-info bg-info bg-opacity-20">
                       [FROZEN]
@@ -276,22 +442,30 @@ const TrustBondManager = () => {
               <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
                 <div className="border border-base-content p-3 bg-base-200">
                   <div className="text-xs font-mono opacity-75 mb-1">YOUR_STAKE:</div>
-                  <div className="text-lg font-bold font-mono">{parseFloat(formatEther(bond.stake0)).toFixed(3)}Ξ</div>
+                  <div className="text-lg font-bold font-mono">
+                    {parseFloat(formatEther(bond.userStake)).toFixed(3)}Ξ
+                  </div>
                 </div>
-                
+
                 <div className="border border-base-content p-3 bg-base-200">
                   <div className="text-xs font-mono opacity-75 mb-1">PARTNER_STAKE:</div>
-                  <div className="text-lg font-bold font-mono">{parseFloat(formatEther(bond.stake1)).toFixed(3)}Ξ</div>
+                  <div className="text-lg font-bold font-mono">
+                    {parseFloat(formatEther(bond.partnerStake)).toFixed(3)}Ξ
+                  </div>
                 </div>
-                
+
                 <div className="border border-base-content p-3 bg-base-200">
                   <div className="text-xs font-mono opacity-75 mb-1">TOTAL_TVL:</div>
-                  <div className="text-lg font-bold font-mono">{parseFloat(formatEther(bond.stake0 + bond.stake1)).toFixed(3)}Ξ</div>
+                  <div className="text-lg font-bold font-mono">
+                    {parseFloat(formatEther(bond.stake0 + bond.stake1)).toFixed(3)}Ξ
+                  </div>
                 </div>
-                
+
                 <div className="border border-success p-3 bg-success bg-opacity-20">
                   <div className="text-xs font-mono text-success mb-1">YIELD_EARNED:</div>
-                  <div className="text-lg font-bold font-mono text-success">{parseFloat(formatEther(bond.accruedYield)).toFixed(4)}Ξ</div>
+                  <div className="text-lg font-bold font-mono text-success">
+                    {parseFloat(formatEther(bond.accruedYield)).toFixed(4)}Ξ
+                  </div>
                 </div>
               </div>
 
@@ -299,58 +473,60 @@ const TrustBondManager = () => {
               {bond.isActive && (
                 <div className="mb-4 p-2 border border-info bg-info bg-opacity-10">
                   <div className="text-xs font-mono text-info">
-                    &gt; DAILY_YIELD_RATE: {parseFloat(formatEther(calculateDailyYield(bond.stake0 + bond.stake1))).toFixed(4)}Ξ/day
+                    &gt; DAILY_YIELD_RATE:{" "}
+                    {parseFloat(formatEther(calculateDailyYield(bond.stake0 + bond.stake1))).toFixed(6)}Ξ/day
                   </div>
+                  {bond.isFrozen && (
+                    <div className="text-xs font-mono text-info">
+                      &gt; BOND_FROZEN_BY_ACTIVE_LOAN: EXIT/DEFECT/ADD_STAKE_LOCKED
+                    </div>
+                  )}
                 </div>
               )}
 
               {/* Action Buttons */}
-              <div className="flex flex-wrap gap-2">
-                {!bond.isActive && bond.stake1 === BigInt(0) && (
-                  <button
-                    onClick={() => {
-                      const amount = prompt("ENTER_STAKE_AMOUNT_ETH:");
-                      if (amount) handleAddStake(bond.key, amount);
-                    }}
-                    className="px-3 py-2 border-2 border-primary bg-primary text-primary-content font-mono text-xs hover:bg-primary-focus transition-all"
-                  >
-                    [+] ADD_STAKE
-                  </button>
-                )}
-                
-                {bond.isActive && bond.accruedYield > 0 && (
-                  <button
-                    onClick={() => handleClaimYield(bond.key)}
-                    className="px-3 py-2 border-2 border-success bg-success text-success-content font-mono text-xs hover:bg-success-focus transition-all"
-                  >
-                    [↓] CLAIM_YIELD
-                  </button>
-                )}
-                
-                {bond.isActive && (
+              <div className="flex flex-wrap items-center gap-2">
+                {bond.isActive && !bond.isFrozen && (
                   <>
                     <button
-                      onClick={() => handleExit(bond.key)}
-                      className="px-3 py-2 border-2 border-warning bg-warning text-warning-content font-mono text-xs hover:bg-warning-focus transition-all"
+                      onClick={() => {
+                        const amount = prompt("ENTER_STAKE_AMOUNT_ETH:");
+                        if (amount) handleAddStake(bond, amount);
+                      }}
+                      disabled={txStatus[`${bond.key}:addStake`] === "pending"}
+                      className="px-3 py-2 border-2 border-primary bg-primary text-primary-content font-mono text-xs hover:bg-primary-focus disabled:opacity-50 transition-all"
+                    >
+                      [+] ADD_STAKE
+                    </button>
+
+                    <button
+                      onClick={() => setSimulatedAction({ bond, action: "exit" })}
+                      disabled={txStatus[`${bond.key}:exit`] === "pending"}
+                      className="px-3 py-2 border-2 border-warning bg-warning text-warning-content font-mono text-xs hover:bg-warning-focus disabled:opacity-50 transition-all"
                     >
                       [→] FAIR_EXIT
                     </button>
-                    
+
                     <button
-                      onClick={() => handleDefect(bond.key)}
-                      className="px-3 py-2 border-2 border-error bg-error text-error-content font-mono text-xs hover:bg-error-focus transition-all"
+                      onClick={() => setSimulatedAction({ bond, action: "defect" })}
+                      disabled={txStatus[`${bond.key}:defect`] === "pending"}
+                      className="px-3 py-2 border-2 border-error bg-error text-error-content font-mono text-xs hover:bg-error-focus disabled:opacity-50 transition-all"
                     >
                       [!] DEFECT_PENALTY
                     </button>
                   </>
                 )}
+
+                {renderTxStatus(`${bond.key}:addStake`)}
+                {renderTxStatus(`${bond.key}:exit`)}
+                {renderTxStatus(`${bond.key}:defect`)}
               </div>
             </div>
           ))}
         </div>
       )}
 
-      {activeTab === 'analytics' && (
+      {activeTab === "analytics" && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           {/* Portfolio Analytics Panel */}
           <div className="border-2 border-base-content bg-base-100 p-4">
@@ -358,37 +534,30 @@ const TrustBondManager = () => {
               <span className="text-primary">📊</span>
               <span className="font-bold font-mono">PORTFOLIO_ANALYTICS.DAT</span>
             </div>
-            
+
             <div className="space-y-3">
               <div className="flex justify-between items-center py-2 border-b border-base-content">
                 <span className="font-mono text-sm opacity-75">ACTIVE_BONDS:</span>
-                <span className="font-mono font-bold text-primary">
-                  {String(mockTrustBonds.filter(b => b.isActive).length).padStart(3, '0')}
-                </span>
+                <span className="font-mono font-bold text-primary">{String(activeBonds.length).padStart(3, "0")}</span>
               </div>
-              
+
               <div className="flex justify-between items-center py-2 border-b border-base-content">
                 <span className="font-mono text-sm opacity-75">TOTAL_STAKED:</span>
                 <span className="font-mono font-bold">
-                  {parseFloat(formatEther(mockTrustBonds.reduce((sum, b) => sum + b.stake0, BigInt(0)))).toFixed(3)}Ξ
+                  {parseFloat(formatEther(activeBonds.reduce((sum, b) => sum + b.userStake, 0n))).toFixed(3)}Ξ
                 </span>
               </div>
-              
+
               <div className="flex justify-between items-center py-2 border-b border-base-content">
                 <span className="font-mono text-sm opacity-75">YIELD_EARNED:</span>
                 <span className="font-mono font-bold text-success">
-                  +{parseFloat(formatEther(mockTrustBonds.reduce((sum, b) => sum + b.accruedYield, BigInt(0)))).toFixed(4)}Ξ
+                  +{parseFloat(formatEther(activeBonds.reduce((sum, b) => sum + b.accruedYield, 0n))).toFixed(4)}Ξ
                 </span>
               </div>
-              
+
               <div className="flex justify-between items-center py-2">
                 <span className="font-mono text-sm opacity-75">TRUST_SCORE:</span>
-                <div className="flex items-center space-x-2">
-                  <div className="w-16 h-2 border border-base-content bg-base-200">
-                    <div className="w-4/5 h-full bg-primary"></div>
-                  </div>
-                  <span className="font-mono font-bold text-primary">85/100</span>
-                </div>
+                <span className="font-mono font-bold text-primary">{trustScore?.toString() ?? "--"}</span>
               </div>
             </div>
           </div>
@@ -399,76 +568,61 @@ const TrustBondManager = () => {
               <span className="text-primary">💰</span>
               <span className="font-bold font-mono">LENDING_CAPACITY.SYS</span>
             </div>
-            
+
             <div className="space-y-3">
               <div className="flex justify-between items-center py-2 border-b border-base-content">
-                <span className="font-mono text-sm opacity-75">COLLATERAL_AVAIL:</span>
-                <span className="font-mono font-bold">
-                  {parseFloat(formatEther(mockTrustBonds.filter(b => b.isActive).reduce((sum, b) => sum + b.stake0 + b.stake1, BigInt(0)))).toFixed(3)}Ξ
-                </span>
+                <span className="font-mono text-sm opacity-75">COLLATERAL_VALUE:</span>
+                <span className="font-mono font-bold">{formatEth(totalValue)}Ξ</span>
               </div>
-              
+
               <div className="flex justify-between items-center py-2 border-b border-base-content">
-                <span className="font-mono text-sm opacity-75">MAX_BORROW_80%:</span>
-                <span className="font-mono font-bold text-info">
-                  {parseFloat(formatEther(mockTrustBonds.filter(b => b.isActive).reduce((sum, b) => sum + (b.stake0 + b.stake1) * BigInt(80) / BigInt(100), BigInt(0)))).toFixed(3)}Ξ
-                </span>
+                <span className="font-mono text-sm opacity-75">MAX_BORROWABLE:</span>
+                <span className="font-mono font-bold text-info">{formatEth(maxBorrowable)}Ξ</span>
               </div>
-              
+
               <div className="flex justify-between items-center py-2 border-b border-base-content">
                 <span className="font-mono text-sm opacity-75">CURRENT_BORROWED:</span>
-                <span className="font-mono font-bold">0.000Ξ</span>
+                <span className="font-mono font-bold">{formatEth(borrowed)}Ξ</span>
               </div>
-              
+
               <div className="flex justify-between items-center py-2">
                 <span className="font-mono text-sm opacity-75">INTEREST_RATE:</span>
-                <span className="font-mono font-bold text-success">5.5% APR</span>
+                <span className="font-mono font-bold text-success">
+                  {activeLoan ? `${(Number(activeLoan.interestRate) / 100).toFixed(2)}% APR` : "NO_ACTIVE_LOAN"}
+                </span>
               </div>
             </div>
-            
+
             {/* Utilization Bar */}
             <div className="mt-4 p-3 border border-base-content bg-base-200">
               <div className="text-xs font-mono mb-2 opacity-75">LENDING_UTILIZATION:</div>
               <div className="flex items-center space-x-2">
-                <div className="flex-1 h-3 border border-base-content bg-base-100">
-                  <div className="w-0 h-full bg-primary"></div>
-                </div>
-                <span className="font-mono text-xs font-bold">0%</span>
-              </div>
-            </div>
-          </div>
-          
-          {/* Risk Assessment Panel */}
-          <div className="border-2 border-base-content bg-base-100 p-4 md:col-span-2">
-            <div className="flex items-center space-x-2 mb-4">
-              <span className="text-primary">⚠️</span>
-              <span className="font-bold font-mono">RISK_ASSESSMENT_MATRIX.LOG</span>
-            </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="text-center">
-                <div className="text-xs font-mono opacity-75 mb-1">LIQUIDATION_RISK:</div>
-                <div className="text-2xl font-mono font-bold text-success">LOW</div>
-                <div className="text-xs font-mono opacity-75">&lt; 5% probability</div>
-              </div>
-              
-              <div className="text-center">
-                <div className="text-xs font-mono opacity-75 mb-1">PARTNER_RELIABILITY:</div>
-                <div className="text-2xl font-mono font-bold text-info">HIGH</div>
-                <div className="text-xs font-mono opacity-75">92% cooperation rate</div>
-              </div>
-              
-              <div className="text-center">
-                <div className="text-xs font-mono opacity-75 mb-1">YIELD_STABILITY:</div>
-                <div className="text-2xl font-mono font-bold text-warning">MED</div>
-                <div className="text-xs font-mono opacity-75">±0.2% variance</div>
+                <progress className="progress progress-primary flex-1 h-3" value={utilization ?? 0} max={100} />
+                <span className="font-mono text-xs font-bold">{utilization ?? "--"}%</span>
               </div>
             </div>
           </div>
         </div>
       )}
+
+      {address && inviteBond && (
+        <BondInvitePanel bond={inviteBond} creator={address} onClose={() => setInvitePartner(undefined)} />
+      )}
+
+      {simulatedAction && (
+        <BondActionSimulator
+          bond={simulatedAction.bond}
+          action={simulatedAction.action}
+          isPending={
+            txStatus[`${simulatedAction.bond.key}:exit`] === "pending" ||
+            txStatus[`${simulatedAction.bond.key}:defect`] === "pending"
+          }
+          onConfirm={action => handleBondAction(simulatedAction.bond, action)}
+          onClose={() => setSimulatedAction(undefined)}
+        />
+      )}
     </div>
   );
 };
 
-export default TrustBondManager;
\ No newline at end of file
+export default TrustBondManager;
@@ -1,58 +1,69 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { useSearchParams, useRouter } from "next/navigation";
-import { useAccount, useBalance } from "wagmi";
-import { formatEther } from "viem";
+import { useEffect, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import LendingPoolDashboard from "./LendingPoolDashboard_New";
 import TrustBondManager from "./TrustBondManager";
+import { formatEther } from "viem";
+import { useAccount, useBalance } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { useProtocolStats, useTrustBonds } from "~~/hooks/trust";
+import { useGlobalState } from "~~/services/store/store";
+import { YIELD_RATE_BPS } from "~~/utils/trust/score";
+
+const formatEthAmount = (value: bigint, decimals = 4) => parseFloat(formatEther(value)).toFixed(decimals);
+
+const formatDays = (createdAt: number) => `${Math.floor((Date.now() / 1000 - Number(createdAt)) / 86400)}_DAYS`;
 
 const TrustLendingApp = () => {
   const { address, isConnected } = useAccount();
   const searchParams = useSearchParams();
   const router = useRouter();
-  const viewParam = (searchParams?.get('view') || 'overview') as 'overview' | 'bonds' | 'lending';
-  const [totalBonds, setTotalBonds] = useState(0);
-  const [totalBondValue, setTotalBondValue] = useState(0);
-  const [ethPriceUSD, setEthPriceUSD] = useState(2400); // Mock ETH price in USD
+  const viewParam = (searchParams?.get("view") || "overview") as "overview" | "bonds" | "lending";
   const [showFeaturesModal, setShowFeaturesModal] = useState(false);
-  
+
   // Get wallet ETH balance
   const { data: balance } = useBalance({
     address: address,
   });
-  
-  // Helper function to convert ETH to USD
+
+  const ethPriceUSD = useGlobalState(state => state.nativeCurrency.price);
+  const { bonds } = useTrustBonds(address);
+  const protocolStats = useProtocolStats();
+
+  const activeBonds = bonds.filter(bond => bond.isActive);
+  const totalBonds = activeBonds.length;
+  const totalBondValue = parseFloat(formatEther(activeBonds.reduce((sum, bond) => sum + bond.userStake, 0n)));
+  const totalBondYield = activeBonds.reduce((sum, bond) => sum + bond.accruedYield, 0n);
+
+  // The price store holds 0 until the price has been fetched
   const ethToUSD = (ethAmount: number): string => {
-    return (ethAmount * ethPriceUSD).toFixed(2);
+    return ethPriceUSD > 0 ? (ethAmount * ethPriceUSD).toFixed(2) : "--";
   };
-  
-  // Mock data for total bonds - replace with actual contract calls
-  useEffect(() => {
-    if (isConnected && address) {
-      // Simulate fetching user's trust bonds from contracts
-      setTotalBonds(3); // Number of active trust bonds
-      setTotalBondValue(450); // Total value in ETH
-    }
-    
-    // Simulate real-time ETH price updates
-    const priceInterval = setInterval(() => {
-      setEthPriceUSD(prev => prev + (Math.random() - 0.5) * 10); // Random price fluctuation
-    }, 5000);
-    
-    return () => clearInterval(priceInterval);
-  }, [isConnected, address]);
+
+  const formatUSDCompact = (ethAmount: number): string => {
+    if (ethPriceUSD <= 0) return "--";
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+      notation: "compact",
+      maximumFractionDigits: 1,
+    }).format(ethAmount * ethPriceUSD);
+  };
+
+  const tvlEth = parseFloat(formatEther(protocolStats.totalValueLocked));
+  const cooperationRate = protocolStats.cooperationRate;
 
   // Handle keyboard shortcuts for modal
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === 'Escape' && showFeaturesModal) {
+      if (event.key === "Escape" && showFeaturesModal) {
         setShowFeaturesModal(false);
       }
     };
 
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
   }, [showFeaturesModal]);
 
   if (!isConnected) {
@@ -61,18 +72,15 @@ const TrustLendingApp = () => {
         <div className="text-center max-w-4xl">
           <h1 className="retro-title text-6xl mb-8 glitch">TRUST_PROTOCOL_LENDING</h1>
           <div className="mb-8">
-            <span className="text-2xl font-mono">{'>'}</span>
+            <span className="text-2xl font-mono">{">"}</span>
             <span className="text-xl font-mono ml-2 blink">CONNECT_WALLET_TO_ACCESS_SYSTEM</span>
           </div>
-          
+
           <div className="space-y-6">
-            <button 
-              onClick={() => setShowFeaturesModal(true)}
-              className="btn btn-primary font-mono text-lg glitch"
-            >
+            <button onClick={() => setShowFeaturesModal(true)} className="btn btn-primary font-mono text-lg glitch">
               [VIEW_SYSTEM_FEATURES]
             </button>
-            
+
             <div className="text-center">
               <p className="font-mono text-lg mb-4">[WARNING: WALLET_CONNECTION_REQUIRED]</p>
               <div className="badge badge-outline text-lg px-4 py-2">STATUS: DISCONNECTED</div>
@@ -87,18 +95,18 @@ const TrustLendingApp = () => {
     <div className="min-h-screen bg-base-100">
       {/* Main Content */}
       <main className="container mx-auto px-4 py-8">
-        {viewParam === 'overview' && (
+        {viewParam === "overview" && (
           <div className="space-y-8">
             {/* Hero Section */}
             <div className="text-center mb-12">
-              <h1 className="retro-title text-5xl mb-6 glitch">
-                UNDERCOLLATERALIZED_LENDING_PROTOCOL
-              </h1>
+              <h1 className="retro-title text-5xl mb-6 glitch">UNDERCOLLATERALIZED_LENDING_PROTOCOL</h1>
               <div className="max-w-4xl mx-auto bg-base-100 border-4 border-base-content p-6">
                 <p className="text-xl font-mono leading-relaxed">
-                  {'>'} LEVERAGE_SOCIAL_TRUST_AND_AUTOMATED_COOPERATION<br/>
-                  {'>'} UNLOCK_CAPITAL_EFFICIENCY_THROUGH_TRUST_BONDS<br/>
-                  {'>'} EARN_YIELD_AND_BORROW_WITH_MINIMAL_COLLATERAL
+                  {">"} LEVERAGE_SOCIAL_TRUST_AND_AUTOMATED_COOPERATION
+                  <br />
+                  {">"} UNLOCK_CAPITAL_EFFICIENCY_THROUGH_TRUST_BONDS
+                  <br />
+                  {">"} EARN_YIELD_AND_BORROW_WITH_MINIMAL_COLLATERAL
                 </p>
               </div>
             </div>
@@ -106,39 +114,37 @@ const TrustLendingApp = () => {
             {/* User Portfolio Dashboard */}
             <div className="card bg-base-100 p-6 mb-8">
               <h2 className="retro-subtitle text-2xl mb-6 text-center">[USER_PORTFOLIO_DASHBOARD]</h2>
-              
+
               <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
                 <div className="border-2 border-base-content p-4 text-center">
                   <div className="font-mono text-sm mb-2">WALLET_BALANCE:</div>
                   <div className="font-mono text-2xl font-bold blink">
-                    {balance ? parseFloat(formatEther(balance.value)).toFixed(4) : '0.0000'} ETH
+                    {balance ? parseFloat(formatEther(balance.value)).toFixed(4) : "0.0000"} ETH
                   </div>
                   <div className="font-mono text-xs mt-1">
-                    ${balance ? ethToUSD(parseFloat(formatEther(balance.value))) : '0.00'} USD
+                    ${balance ? ethToUSD(parseFloat(formatEther(balance.value))) : "0.00"} USD
                   </div>
                 </div>
-                
+
                 <div className="border-2 border-base-content p-4 text-center">
                   <div className="font-mono text-sm mb-2">ACTIVE_BONDS:</div>
                   <div className="font-mono text-2xl font-bold">{totalBonds}</div>
                   <div className="badge badge-outline mt-2">STATUS: ONLINE</div>
                 </div>
-                
+
                 <div className="border-2 border-base-content p-4 text-center">
                   <div className="font-mono text-sm mb-2">BOND_VALUE:</div>
-                  <div className="font-mono text-2xl font-bold">{totalBondValue} ETH</div>
-                  <div className="font-mono text-xs mt-1">
-                    ${ethToUSD(totalBondValue)} USD
-                  </div>
+                  <div className="font-mono text-2xl font-bold">{totalBondValue.toFixed(4)} ETH</div>
+                  <div className="font-mono text-xs mt-1">${ethToUSD(totalBondValue)} USD</div>
                 </div>
-                
+
                 <div className="border-2 border-base-content p-4 text-center">
                   <div className="font-mono text-sm mb-2">TOTAL_ASSETS:</div>
                   <div className="font-mono text-2xl font-bold">
-                    {(parseFloat(balance ? formatEther(balance.value) : '0') + totalBondValue).toFixed(4)} ETH
+                    {(parseFloat(balance ? formatEther(balance.value) : "0") + totalBondValue).toFixed(4)} ETH
                   </div>
                   <div className="font-mono text-xs mt-1">
-                    ${ethToUSD(parseFloat(balance ? formatEther(balance.value) : '0') + totalBondValue)} USD
+                    ${ethToUSD(parseFloat(balance ? formatEther(balance.value) : "0") + totalBondValue)} USD
                   </div>
                 </div>
               </div>
@@ -147,101 +153,106 @@ const TrustLendingApp = () => {
             {/* System Status Dashboard */}
             <div className="card bg-base-100 p-6 mb-8">
               <h2 className="retro-subtitle text-2xl mb-6 text-center">[SYSTEM_STATUS_DASHBOARD]</h2>
-              
+
               <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
                 <div className="text-center p-4 border-2 border-base-content">
-                  <div className="font-mono text-3xl font-bold mb-2">$2.4M</div>
+                  <div className="font-mono text-3xl font-bold mb-2">{formatUSDCompact(tvlEth)}</div>
                   <div className="font-mono text-sm">TOTAL_VALUE_LOCKED</div>
-                  <div className="progress progress-primary mt-2" style={{width: '90%'}}></div>
+                  <div className="font-mono text-xs mt-1">
+                    {tvlEth.toFixed(4)} ETH | BOND_YIELD: {(Number(YIELD_RATE_BPS) / 100).toFixed(1)}% APR
+                  </div>
                 </div>
-                
+
                 <div className="text-center p-4 border-2 border-base-content">
-                  <div className="font-mono text-3xl font-bold mb-2">5.2%</div>
-                  <div className="font-mono text-sm">AVERAGE_YIELD_APY</div>
-                  <div className="badge badge-outline mt-2">STABLE</div>
+                  <div className="font-mono text-3xl font-bold mb-2">
+                    {protocolStats.poolLiquidity !== undefined ? formatEthAmount(protocolStats.poolLiquidity, 2) : "--"}{" "}
+                    ETH
+                  </div>
+                  <div className="font-mono text-sm">POOL_LIQUIDITY</div>
+                  <div className="font-mono text-xs mt-1">
+                    $
+                    {protocolStats.poolLiquidity !== undefined
+                      ? ethToUSD(parseFloat(formatEther(protocolStats.poolLiquidity)))
+                      : "--"}{" "}
+                    USD
+                  </div>
                 </div>
-                
+
                 <div className="text-center p-4 border-2 border-base-content">
-                  <div className="font-mono text-3xl font-bold mb-2">1,247</div>
+                  <div className="font-mono text-3xl font-bold mb-2">
+                    {protocolStats.activeBonds.toLocaleString("en-US")}
+                  </div>
                   <div className="font-mono text-sm">ACTIVE_TRUST_BONDS</div>
-                  <div className="badge badge-primary mt-2">ONLINE</div>
+                  <div className="badge badge-primary mt-2">
+                    {protocolStats.isLoading ? "SYNCING_EVENTS" : "ONLINE"}
+                  </div>
                 </div>
-                
+
                 <div className="text-center p-4 border-2 border-base-content">
-                  <div className="font-mono text-3xl font-bold mb-2 blink">87.3%</div>
+                  <div className="font-mono text-3xl font-bold mb-2 blink">
+                    {cooperationRate !== undefined ? `${(cooperationRate * 100).toFixed(1)}%` : "--"}
+                  </div>
                   <div className="font-mono text-sm">COOPERATION_RATE</div>
-                  <div className="badge badge-outline mt-2">OPTIMAL</div>
+                  <div className="font-mono text-xs mt-1">
+                    {protocolStats.activeBonds} ACTIVE | {protocolStats.exitedBonds} EXITED |{" "}
+                    {protocolStats.defectedBonds} DEFECTED
+                  </div>
                 </div>
               </div>
+              {protocolStats.error && (
+                <div className="font-mono text-xs text-warning text-center mt-4">
+                  [WARNING] FAILED_TO_LOAD_BOND_EVENTS: STATS_MAY_BE_INCOMPLETE
+                </div>
+              )}
             </div>
 
             {/* Active Trust Bonds Breakdown */}
             <div className="card bg-base-100 p-8">
               <h2 className="retro-subtitle text-2xl mb-8 text-center">[ACTIVE_TRUST_BONDS_BREAKDOWN]</h2>
-              
+
               <div className="space-y-4">
-                {/* Mock bond data - replace with actual contract calls */}
-                {[
-                  { 
-                    id: '001', 
-                    partner: '0xabc...DEF', 
-                    stake: '150', 
-                    yield: '2.34', 
-                    status: 'ACTIVE',
-                    duration: '45_DAYS'
-                  },
-                  { 
-                    id: '002', 
-                    partner: '0xdef...GHI', 
-                    stake: '200', 
-                    yield: '4.12', 
-                    status: 'ACTIVE',
-                    duration: '23_DAYS'
-                  },
-                  { 
-                    id: '003', 
-                    partner: '0xghi...JKL', 
-                    stake: '100', 
-                    yield: '1.89', 
-                    status: 'ACTIVE',
-                    duration: '67_DAYS'
-                  }
-                ].map((bond, index) => (
-                  <div key={index} className="border-2 border-base-content p-4">
+                {activeBonds.length === 0 && (
+                  <div className="font-mono text-center opacity-75">{">"} NO_ACTIVE_TRUST_BONDS_YET</div>
+                )}
+                {activeBonds.map((bond, index) => (
+                  <div key={bond.key} className="border-2 border-base-content p-4">
                     <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
                       <div className="text-center p-2 border border-base-content">
                         <div className="font-mono text-xs mb-1">BOND_ID</div>
-                        <div className="font-mono font-bold">{bond.id}</div>
+                        <div className="font-mono font-bold">{String(index + 1).padStart(3, "0")}</div>
                       </div>
                       <div className="text-center p-2 border border-base-content">
                         <div className="font-mono text-xs mb-1">PARTNER</div>
-                        <div className="font-mono font-bold">{bond.partner}</div>
+                        <div className="font-mono font-bold flex justify-center">
+                          <Address address={bond.partner} size="xs" />
+                        </div>
                       </div>
                       <div className="text-center p-2 border border-base-content">
                         <div className="font-mono text-xs mb-1">STAKE_AMOUNT</div>
-                        <div className="font-mono font-bold">{bond.stake} ETH</div>
+                        <div className="font-mono font-bold">{formatEthAmount(bond.userStake)} ETH</div>
                       </div>
                       <div className="text-center p-2 border border-base-content">
                         <div className="font-mono text-xs mb-1">YIELD_EARNED</div>
-                        <div className="font-mono font-bold blink">{bond.yield} ETH</div>
+                        <div className="font-mono font-bold blink">{formatEthAmount(bond.accruedYield, 6)} ETH</div>
                       </div>
                       <div className="text-center p-2 border border-base-content">
                         <div className="font-mono text-xs mb-1">DURATION</div>
-                        <div className="font-mono font-bold">{bond.duration}</div>
+                        <div className="font-mono font-bold">{formatDays(bond.createdAt)}</div>
                       </div>
                       <div className="text-center p-2 border border-base-content">
                         <div className="font-mono text-xs mb-1">STATUS</div>
-                        <div className="badge badge-primary font-mono">{bond.status}</div>
+                        <div className="badge badge-primary font-mono">{bond.isFrozen ? "FROZEN" : "ACTIVE"}</div>
                       </div>
                     </div>
                   </div>
                 ))}
-                
+
                 <div className="text-center mt-6">
                   <div className="font-mono text-sm mb-4">
-                    {'>'} TOTAL_BONDS: {totalBonds} | TOTAL_VALUE: {totalBondValue} ETH | TOTAL_YIELD: 8.35 ETH
+                    {">"} TOTAL_BONDS: {totalBonds} | TOTAL_VALUE: {totalBondValue.toFixed(4)} ETH | TOTAL_YIELD:{" "}
+                    {formatEthAmount(totalBondYield, 6)} ETH
                   </div>
-                  <button className="btn btn-primary font-mono glitch">
+                  <button onClick={() => router.push("/?view=bonds")} className="btn btn-primary font-mono glitch">
                     [VIEW_ALL_BONDS]
                   </button>
                 </div>
@@ -251,7 +262,7 @@ const TrustLendingApp = () => {
             {/* Protocol Execution Flow */}
             <div className="card bg-base-100 p-8">
               <h2 className="retro-subtitle text-2xl mb-8 text-center">[PROTOCOL_EXECUTION_FLOW]</h2>
-              
+
               <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
                 <div className="text-center border-2 border-base-content p-6">
                   <div className="w-16 h-16 bg-base-300 border-2 border-base-content flex items-center justify-center mx-auto mb-4 font-mono text-2xl font-bold">
@@ -259,33 +270,39 @@ const TrustLendingApp = () => {
                   </div>
                   <h3 className="retro-subtitle text-lg mb-3">CREATE_TRUST_BONDS</h3>
                   <div className="font-mono text-sm leading-relaxed">
-                    {'>'} PARTNER_WITH_TRUSTED_INDIVIDUALS<br/>
-                    {'>'} CREATE_MUTUAL_STAKE_BONDS<br/>
-                    {'>'} EARN_PASSIVE_YIELD_THROUGH_COOPERATION
+                    {">"} PARTNER_WITH_TRUSTED_INDIVIDUALS
+                    <br />
+                    {">"} CREATE_MUTUAL_STAKE_BONDS
+                    <br />
+                    {">"} EARN_PASSIVE_YIELD_THROUGH_COOPERATION
                   </div>
                 </div>
-                
+
                 <div className="text-center border-2 border-base-content p-6">
                   <div className="w-16 h-16 bg-base-300 border-2 border-base-content flex items-center justify-center mx-auto mb-4 font-mono text-2xl font-bold">
                     [2]
                   </div>
                   <h3 className="retro-subtitle text-lg mb-3">BORROW_AGAINST_BONDS</h3>
                   <div className="font-mono text-sm leading-relaxed">
-                    {'>'} USE_TRUST_BONDS_AS_COLLATERAL<br/>
-                    {'>'} BORROW_UP_TO_80%_OF_BOND_VALUE<br/>
-                    {'>'} COMPETITIVE_INTEREST_RATES
+                    {">"} USE_TRUST_BONDS_AS_COLLATERAL
+                    <br />
+                    {">"} BORROW_UP_TO_80%_OF_BOND_VALUE
+                    <br />
+                    {">"} COMPETITIVE_INTEREST_RATES
                   </div>
                 </div>
-                
+
                 <div className="text-center border-2 border-base-content p-6">
                   <div className="w-16 h-16 bg-base-300 border-2 border-base-content flex items-center justify-center mx-auto mb-4 font-mono text-2xl font-bold blink">
                     [3]
                   </div>
                   <h3 className="retro-subtitle text-lg mb-3">AUTOMATED_RECOVERY</h3>
                   <div className="font-mono text-sm leading-relaxed">
-                    {'>'} SMART_CONTRACT_DEFAULT_HANDLING<br/>
-                    {'>'} SLASHING_FREEZING_MECHANISMS<br/>
-                    {'>'} YIELD_BASED_RECOVERY_SYSTEM
+                    {">"} SMART_CONTRACT_DEFAULT_HANDLING
+                    <br />
+                    {">"} SLASHING_FREEZING_MECHANISMS
+                    <br />
+                    {">"} YIELD_BASED_RECOVERY_SYSTEM
                   </div>
                 </div>
               </div>
@@ -294,65 +311,61 @@ const TrustLendingApp = () => {
             {/* Risk Management System */}
             <div className="card bg-base-100 p-8">
               <h2 className="retro-subtitle text-2xl mb-8">[RISK_MANAGEMENT_PROTOCOLS]</h2>
-              
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-6">
                   <div className="border-2 border-base-content p-4">
                     <div className="flex items-start space-x-3">
-                      <div className="badge badge-outline font-mono">
-                        [S]
-                      </div>
+                      <div className="badge badge-outline font-mono">[S]</div>
                       <div>
                         <h4 className="font-mono font-bold mb-2">SLASHING_MECHANISM</h4>
                         <p className="font-mono text-sm leading-relaxed">
-                          AUTOMATIC_PENALTY_FOR_BOND_DEFECTION<br/>
+                          AUTOMATIC_PENALTY_FOR_BOND_DEFECTION
+                          <br />
                           PROTECTS_LENDER_FUNDS_FROM_DEFAULTS
                         </p>
                       </div>
                     </div>
                   </div>
-                  
+
                   <div className="border-2 border-base-content p-4">
                     <div className="flex items-start space-x-3">
-                      <div className="badge badge-outline font-mono blink">
-                        [F]
-                      </div>
+                      <div className="badge badge-outline font-mono blink">[F]</div>
                       <div>
                         <h4 className="font-mono font-bold mb-2">FREEZING_PROTOCOL</h4>
                         <p className="font-mono text-sm leading-relaxed">
-                          TEMPORARY_SUSPENSION_OF_RISKY_POSITIONS<br/>
+                          TEMPORARY_SUSPENSION_OF_RISKY_POSITIONS
+                          <br />
                           ACTIVATED_DURING_MARKET_VOLATILITY
                         </p>
                       </div>
                     </div>
                   </div>
                 </div>
-                
+
                 <div className="space-y-6">
                   <div className="border-2 border-base-content p-4">
                     <div className="flex items-start space-x-3">
-                      <div className="badge badge-outline font-mono">
-                        [Y]
-                      </div>
+                      <div className="badge badge-outline font-mono">[Y]</div>
                       <div>
                         <h4 className="font-mono font-bold mb-2">YIELD_RECOVERY</h4>
                         <p className="font-mono text-sm leading-relaxed">
-                          ACCUMULATED_YIELD_FROM_TRUST_BONDS<br/>
+                          ACCUMULATED_YIELD_FROM_TRUST_BONDS
+                          <br />
                           COVERS_DEFAULT_LOSSES_AUTOMATICALLY
                         </p>
                       </div>
                     </div>
                   </div>
-                  
+
                   <div className="border-2 border-base-content p-4">
                     <div className="flex items-start space-x-3">
-                      <div className="badge badge-outline font-mono">
-                        [C]
-                      </div>
+                      <div className="badge badge-outline font-mono">[C]</div>
                       <div>
                         <h4 className="font-mono font-bold mb-2">COOPERATION_INCENTIVES</h4>
                         <p className="font-mono text-sm leading-relaxed">
-                          HIGHER_YIELDS_FOR_MAINTAINED_BONDS<br/>
+                          HIGHER_YIELDS_FOR_MAINTAINED_BONDS
+                          <br />
                           BETTER_RATES_FOR_TRUST_PARTICIPANTS
                         </p>
                       </div>
@@ -367,29 +380,27 @@ const TrustLendingApp = () => {
               <div className="card bg-base-100 p-8 border-4 border-base-content">
                 <h3 className="retro-subtitle text-xl mb-4">[TRUST_BOND_TERMINAL]</h3>
                 <div className="font-mono text-sm mb-6 leading-relaxed">
-                  {'>'} CREATE_FIRST_TRUST_BOND<br/>
-                  {'>'} BEGIN_EARNING_PASSIVE_YIELD<br/>
-                  {'>'} ESTABLISH_COOPERATION_PROTOCOLS
+                  {">"} CREATE_FIRST_TRUST_BOND
+                  <br />
+                  {">"} BEGIN_EARNING_PASSIVE_YIELD
+                  <br />
+                  {">"} ESTABLISH_COOPERATION_PROTOCOLS
                 </div>
-                <button 
-                  onClick={() => router.push('/?view=bonds')}
-                  className="btn btn-primary w-full glitch"
-                >
+                <button onClick={() => router.push("/?view=bonds")} className="btn btn-primary w-full glitch">
                   [ACCESS_TRUST_BONDS]
                 </button>
               </div>
-              
+
               <div className="card bg-base-100 p-8 border-4 border-base-content">
                 <h3 className="retro-subtitle text-xl mb-4">[LENDING_POOL_TERMINAL]</h3>
                 <div className="font-mono text-sm mb-6 leading-relaxed">
-                  {'>'} BORROW_AGAINST_TRUST_BONDS<br/>
-                  {'>'} LEND_TO_EARN_INTEREST<br/>
-                  {'>'} ACCESS_UNDERCOLLATERALIZED_LOANS
+                  {">"} BORROW_AGAINST_TRUST_BONDS
+                  <br />
+                  {">"} LEND_TO_EARN_INTEREST
+                  <br />
+                  {">"} ACCESS_UNDERCOLLATERALIZED_LOANS
                 </div>
-                <button 
-                  onClick={() => router.push('/?view=lending')}
-                  className="btn btn-primary w-full glitch"
-                >
+                <button onClick={() => router.push("/?view=lending")} className="btn btn-primary w-full glitch">
                   [ACCESS_LENDING_POOL]
                 </button>
               </div>
@@ -397,9 +408,9 @@ const TrustLendingApp = () => {
           </div>
         )}
 
-        {viewParam === 'bonds' && <TrustBondManager />}
-        {viewParam === 'lending' && <LendingPoolDashboard />}
-        </main>
+        {viewParam === "bonds" && <TrustBondManager />}
+        {viewParam === "lending" && <LendingPoolDashboard />}
+      </main>
 
       {/* System Features Modal */}
       {showFeaturesModal && (
@@ -414,21 +425,21 @@ const TrustLendingApp = () => {
             </button>
 
             <h2 className="retro-subtitle text-3xl mb-8 text-center">[SYSTEM_FEATURES_v2.0]</h2>
-            
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
               <div className="border-2 border-base-content p-4">
                 <h3 className="font-mono font-bold mb-3">TRUST_BOND_SYSTEM:</h3>
                 <div className="space-y-2 font-mono text-sm">
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>CREATE_MUTUAL_STAKE_BONDS</span>
                   </div>
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>PARTNER_WITH_TRUSTED_USERS</span>
                   </div>
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>EARN_PASSIVE_YIELD_REWARDS</span>
                   </div>
                 </div>
@@ -438,15 +449,15 @@ const TrustLendingApp = () => {
                 <h3 className="font-mono font-bold mb-3">LENDING_PROTOCOL:</h3>
                 <div className="space-y-2 font-mono text-sm">
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>BORROW_AGAINST_COLLATERAL</span>
                   </div>
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>LEND_TO_EARN_INTEREST</span>
                   </div>
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>UNDERCOLLATERALIZED_LOANS</span>
                   </div>
                 </div>
@@ -456,15 +467,15 @@ const TrustLendingApp = () => {
                 <h3 className="font-mono font-bold mb-3">RISK_MANAGEMENT:</h3>
                 <div className="space-y-2 font-mono text-sm">
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>AUTOMATED_SLASHING</span>
                   </div>
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>FREEZING_PROTOCOLS</span>
                   </div>
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>YIELD_BASED_RECOVERY</span>
                   </div>
                 </div>
@@ -474,15 +485,15 @@ const TrustLendingApp = () => {
                 <h3 className="font-mono font-bold mb-3">COOPERATION_SYSTEM:</h3>
                 <div className="space-y-2 font-mono text-sm">
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>INCENTIVE_MECHANISMS</span>
                   </div>
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>TRUST_SCORE_TRACKING</span>
                   </div>
                   <div className="flex items-center">
-                    <span className="text-primary mr-2">{'>'}</span>
+                    <span className="text-primary mr-2">{">"}</span>
                     <span>SOCIAL_CONSENSUS</span>
                   </div>
                 </div>
@@ -493,9 +504,7 @@ const TrustLendingApp = () => {
               <div className="font-mono text-center">
                 <div className="text-sm mb-2">PLATFORM_STATUS:</div>
                 <div className="badge badge-primary font-mono">ACTIVE_BETA</div>
-                <div className="text-xs mt-2">
-                  {'>'} CONNECT_WALLET_TO_START_USING_PROTOCOL
-                </div>
+                <div className="text-xs mt-2">{">"} CONNECT_WALLET_TO_START_USING_PROTOCOL</div>
               </div>
             </div>
 
@@ -512,4 +521,4 @@ const TrustLendingApp = () => {
   );
 };
 
-export default TrustLendingApp;
\ No newline at end of file
+export default TrustLendingApp;
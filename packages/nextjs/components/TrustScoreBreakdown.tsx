@@ -0,0 +1,146 @@
+"use client";
+
+import { formatEther } from "viem";
+import { useAccount } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { useTrustScoreBreakdown } from "~~/hooks/trust";
+import { W1, W2, W3 } from "~~/utils/trust/score";
+
+const formatEth = (value: bigint | undefined, decimals = 4) =>
+  value === undefined ? "--" : parseFloat(formatEther(value)).toFixed(decimals);
+
+const formatScore = (value: bigint | undefined) => (value === undefined ? "--" : value.toString());
+
+/**
+ * Explains where the connected wallet's trust score and borrow limit come from, bond by bond
+ */
+const TrustScoreBreakdown = () => {
+  const { address } = useAccount();
+  const { breakdown, trustScore, computedScore, penalties, totalValue, borrowLimit, maxBorrowable, isLoading } =
+    useTrustScoreBreakdown(address);
+
+  if (!address) return null;
+
+  const totalBase = breakdown.reduce((total, row) => total + row.basePoints, 0n);
+  const totalTimeBonus = breakdown.reduce((total, row) => total + row.timeBonus, 0n);
+
+  return (
+    <div className="card bg-base-100 p-8">
+      <h2 className="retro-subtitle text-2xl mb-8 text-center">[TRUST_SCORE_BREAKDOWN]</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="border-2 border-base-content p-4 text-center">
+          <div className="font-mono text-sm mb-2">TRUST_SCORE:</div>
+          <div className="font-mono text-2xl font-bold">{formatScore(trustScore)}</div>
+        </div>
+        <div className="border-2 border-base-content p-4 text-center">
+          <div className="font-mono text-sm mb-2">BASE_POINTS:</div>
+          <div className="font-mono text-2xl font-bold">{totalBase.toString()}</div>
+          <div className="font-mono text-xs mt-1">100_PER_BOND_KEY</div>
+        </div>
+        <div className="border-2 border-base-content p-4 text-center">
+          <div className="font-mono text-sm mb-2">TIME_BONUS:</div>
+          <div className="font-mono text-2xl font-bold">{totalTimeBonus.toString()}</div>
+          <div className="font-mono text-xs mt-1">SQRT(DAYS)_PER_ACTIVE_BOND</div>
+        </div>
+        <div className="border-2 border-base-content p-4 text-center">
+          <div className="font-mono text-sm mb-2">MAX_BORROWABLE:</div>
+          <div className="font-mono text-2xl font-bold">{formatEth(maxBorrowable)} ETH</div>
+        </div>
+      </div>
+
+      {trustScore !== undefined && computedScore !== undefined && trustScore !== computedScore && (
+        <div className="p-3 border border-warning text-warning font-mono text-xs mb-6">
+          [SYNCING] LOCAL_TOTAL {computedScore.toString()} != ON_CHAIN {trustScore.toString()}, WAITING_FOR_NEXT_BLOCK
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="font-mono text-center">{">"} LOADING_SCORE_COMPONENTS...</div>
+      ) : breakdown.length === 0 ? (
+        <div className="font-mono text-center opacity-75">{">"} NO_BONDS: CREATE_A_TRUST_BOND_TO_START_SCORING</div>
+      ) : (
+        <div className="overflow-x-auto mb-6">
+          <table className="table font-mono text-sm">
+            <thead>
+              <tr>
+                <th>PARTNER</th>
+                <th>STATUS</th>
+                <th>AGE</th>
+                <th>BASE</th>
+                <th>TIME_BONUS</th>
+                <th>CONTRACT_SCORE</th>
+                <th>EQ2_TVL</th>
+                <th>EQ2_TIME</th>
+                <th>EQ2_PARTNER</th>
+                <th>EQ2_TOTAL</th>
+              </tr>
+            </thead>
+            <tbody>
+              {breakdown.map(row => (
+                <tr key={row.bond.key}>
+                  <td>
+                    <Address address={row.bond.partner} size="sm" />
+                  </td>
+                  <td>{!row.bond.isActive ? "CLOSED" : row.bond.isFrozen ? "FROZEN" : "ACTIVE"}</td>
+                  <td>{row.ageDays.toString()}D</td>
+                  <td>
+                    {row.basePoints.toString()}
+                    {row.occurrences > 1 && <span className="opacity-75"> (x{row.occurrences})</span>}
+                  </td>
+                  <td>{row.timeBonus.toString()}</td>
+                  <td>{row.contractScore.toString()}</td>
+                  <td>{formatScore(row.equation2?.tvlComponent)}</td>
+                  <td>{formatScore(row.equation2?.timeComponent)}</td>
+                  <td>
+                    {formatScore(row.equation2?.partnerComponent)}
+                    {row.partnerTrust !== undefined && (
+                      <span className="opacity-75"> (T={row.partnerTrust.toString()})</span>
+                    )}
+                  </td>
+                  <td className="font-bold">{formatScore(row.equation2?.total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="border-2 border-base-content p-4 font-mono text-sm space-y-1">
+          <h4 className="font-bold mb-2">HOW_THE_SCORE_IS_BUILT</h4>
+          <div>{">"} SCORE = 100 x BOND_KEYS + SUM(SQRT(DAYS_ACTIVE))</div>
+          <div className="opacity-75">{">"} RE-CREATED_BONDS_ARE_LISTED_AGAIN, CLOSED_BONDS_KEEP_THEIR_BASE_POINTS</div>
+          <div>{">"} CONTRACT_SCORE = SQRT(TVL_ETH) x 10 + SQRT(DAYS + 1) x 5</div>
+          <div>
+            {">"} EQ2 = {W1.toString()}% LN(1 + TVL) + {W2.toString()}% SQRT(DAYS + 1) + {W3.toString()}% T_PARTNER x
+            PARTNER_SHARE
+          </div>
+        </div>
+
+        <div className="border-2 border-base-content p-4 font-mono text-sm space-y-1">
+          <h4 className="font-bold mb-2">PENALTIES_AND_BORROW_LIMIT</h4>
+          <div>
+            {">"} PENALTY_OFFSET: {formatScore(penalties?.penaltyOffset)}
+          </div>
+          <div>
+            {">"} BONDS_BROKEN: {formatScore(penalties?.contractsBroken)} | BONDS_WITHDRAWN:{" "}
+            {formatScore(penalties?.contractsWithdrawn)}
+          </div>
+          <div className="opacity-75">{">"} PENALTIES_ARE_RECORDED_BUT_NOT_DEDUCTED_FROM_THE_SCORE_YET</div>
+          <div className="pt-2">
+            {">"} TRUST_CREDIT: {formatScore(trustScore)} x 0.01 = {formatEth(borrowLimit?.trustContribution)} ETH
+          </div>
+          <div>
+            {">"} BOND_COLLATERAL: 80% x {formatEth(totalValue)} = {formatEth(borrowLimit?.collateralContribution)} ETH
+          </div>
+          <div className="font-bold">
+            {">"} MAX_BORROWABLE: {formatEth(borrowLimit?.total)} ETH
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrustScoreBreakdown;
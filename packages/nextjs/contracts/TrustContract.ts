@@ -1,237 +1,873 @@
+/**
+ * This file is autogenerated by Scaffold-ETH.
+ * You should not edit it manually or your changes might be overwritten.
+ */
 export const TRUST_CONTRACT_ABI = [
   {
-    "type": "constructor",
-    "inputs": [
+    type: "constructor",
+    inputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "error",
+    name: "OwnableInvalidOwner",
+    inputs: [
       {
-        "name": "initialOwner",
-        "type": "address",
-        "internalType": "address"
-      }
+        name: "owner",
+        type: "address",
+        internalType: "address",
+      },
     ],
-    "stateMutability": "nonpayable"
   },
   {
-    "type": "function",
-    "name": "DAILY_YIELD_BPS",
-    "inputs": [],
-    "outputs": [
+    type: "error",
+    name: "OwnableUnauthorizedAccount",
+    inputs: [
       {
-        "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
-      }
+        name: "account",
+        type: "address",
+        internalType: "address",
+      },
     ],
-    "stateMutability": "view"
   },
   {
-    "type": "function",
-    "name": "addStake",
-    "inputs": [
+    type: "error",
+    name: "ReentrancyGuardReentrantCall",
+    inputs: [],
+  },
+  {
+    type: "event",
+    name: "ContractCreated",
+    inputs: [
+      {
+        name: "contractKey",
+        type: "bytes32",
+        indexed: true,
+        internalType: "bytes32",
+      },
       {
-        "name": "partner",
-        "type": "address",
-        "internalType": "address"
-      }
+        name: "creator",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "partner",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
     ],
-    "outputs": [],
-    "stateMutability": "payable"
+    anonymous: false,
   },
   {
-    "type": "function",
-    "name": "createContract",
-    "inputs": [
+    type: "event",
+    name: "ContractDefected",
+    inputs: [
+      {
+        name: "contractKey",
+        type: "bytes32",
+        indexed: true,
+        internalType: "bytes32",
+      },
+      {
+        name: "defector",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
       {
-        "name": "partner",
-        "type": "address",
-        "internalType": "address"
-      }
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+      {
+        name: "penalty",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
     ],
-    "outputs": [],
-    "stateMutability": "payable"
+    anonymous: false,
   },
   {
-    "type": "function",
-    "name": "defect",
-    "inputs": [
+    type: "event",
+    name: "ContractExited",
+    inputs: [
+      {
+        name: "contractKey",
+        type: "bytes32",
+        indexed: true,
+        internalType: "bytes32",
+      },
+      {
+        name: "exiter",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
       {
-        "name": "partner",
-        "type": "address",
-        "internalType": "address"
-      }
+        name: "penalty",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
+    anonymous: false,
   },
   {
-    "type": "function",
-    "name": "exit",
-    "inputs": [
+    type: "event",
+    name: "ContractFrozen",
+    inputs: [
+      {
+        name: "contractKey",
+        type: "bytes32",
+        indexed: true,
+        internalType: "bytes32",
+      },
+      {
+        name: "frozen",
+        type: "bool",
+        indexed: false,
+        internalType: "bool",
+      },
       {
-        "name": "partner",
-        "type": "address",
-        "internalType": "address"
-      }
+        name: "caller",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
     ],
-    "outputs": [],
-    "stateMutability": "nonpayable"
+    anonymous: false,
   },
   {
-    "type": "function",
-    "name": "getContract",
-    "inputs": [
+    type: "event",
+    name: "LenderAuthorized",
+    inputs: [
       {
-        "name": "addr0",
-        "type": "address",
-        "internalType": "address"
+        name: "lender",
+        type: "address",
+        indexed: true,
+        internalType: "address",
       },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "LenderDeauthorized",
+    inputs: [
       {
-        "name": "addr1",
-        "type": "address",
-        "internalType": "address"
-      }
+        name: "lender",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
     ],
-    "outputs": [
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "OwnershipTransferred",
+    inputs: [
       {
-        "name": "",
-        "type": "tuple",
-        "internalType": "struct ITrustContract.contractView",
-        "components": [
+        name: "previousOwner",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "newOwner",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "StakeAdded",
+    inputs: [
+      {
+        name: "contractKey",
+        type: "bytes32",
+        indexed: true,
+        internalType: "bytes32",
+      },
+      {
+        name: "user",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "UserVerifiedWithSelf",
+    inputs: [
+      {
+        name: "wallet",
+        type: "address",
+        indexed: true,
+        internalType: "address",
+      },
+      {
+        name: "nullifier",
+        type: "bytes32",
+        indexed: true,
+        internalType: "bytes32",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "event",
+    name: "YieldsClaimed",
+    inputs: [
+      {
+        name: "contractKey",
+        type: "bytes32",
+        indexed: true,
+        internalType: "bytes32",
+      },
+      {
+        name: "amount",
+        type: "uint256",
+        indexed: false,
+        internalType: "uint256",
+      },
+    ],
+    anonymous: false,
+  },
+  {
+    type: "function",
+    name: "addAuthorizedLender",
+    inputs: [
+      {
+        name: "lender",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "addStake",
+    inputs: [
+      {
+        name: "partner",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "payable",
+  },
+  {
+    type: "function",
+    name: "authorizedLenders",
+    inputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "claimAllUserYields",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "contracts",
+    inputs: [
+      {
+        name: "",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+    ],
+    outputs: [
+      {
+        name: "addr0",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "addr1",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "stake0",
+        type: "uint128",
+        internalType: "uint128",
+      },
+      {
+        name: "stake1",
+        type: "uint128",
+        internalType: "uint128",
+      },
+      {
+        name: "accruedYield",
+        type: "uint128",
+        internalType: "uint128",
+      },
+      {
+        name: "createdAt",
+        type: "uint32",
+        internalType: "uint32",
+      },
+      {
+        name: "lastYieldUpdate",
+        type: "uint32",
+        internalType: "uint32",
+      },
+      {
+        name: "isActive",
+        type: "bool",
+        internalType: "bool",
+      },
+      {
+        name: "isFrozen",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "createContract",
+    inputs: [
+      {
+        name: "partner",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "payable",
+  },
+  {
+    type: "function",
+    name: "defect",
+    inputs: [
+      {
+        name: "partner",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "exit",
+    inputs: [
+      {
+        name: "partner",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "freezeAllUserContracts",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "freeze",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "getContract",
+    inputs: [
+      {
+        name: "contractKey",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        internalType: "struct ITrustContract.contractView",
+        components: [
+          {
+            name: "addr0",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "addr1",
+            type: "address",
+            internalType: "address",
+          },
+          {
+            name: "stake0",
+            type: "uint128",
+            internalType: "uint128",
+          },
+          {
+            name: "stake1",
+            type: "uint128",
+            internalType: "uint128",
+          },
+          {
+            name: "accruedYield",
+            type: "uint128",
+            internalType: "uint128",
+          },
+          {
+            name: "createdAt",
+            type: "uint32",
+            internalType: "uint32",
+          },
+          {
+            name: "lastYieldUpdate",
+            type: "uint32",
+            internalType: "uint32",
+          },
+          {
+            name: "isActive",
+            type: "bool",
+            internalType: "bool",
+          },
+          {
+            name: "isFrozen",
+            type: "bool",
+            internalType: "bool",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getContractDetails",
+    inputs: [
+      {
+        name: "contractKey",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        internalType: "struct ITrustContract.contractView",
+        components: [
           {
-            "name": "addr0",
-            "type": "address",
-            "internalType": "address"
+            name: "addr0",
+            type: "address",
+            internalType: "address",
           },
           {
-            "name": "addr1",
-            "type": "address",
-            "internalType": "address"
+            name: "addr1",
+            type: "address",
+            internalType: "address",
           },
           {
-            "name": "stake0",
-            "type": "uint128",
-            "internalType": "uint128"
+            name: "stake0",
+            type: "uint128",
+            internalType: "uint128",
           },
           {
-            "name": "stake1",
-            "type": "uint128",
-            "internalType": "uint128"
+            name: "stake1",
+            type: "uint128",
+            internalType: "uint128",
           },
           {
-            "name": "accruedYield",
-            "type": "uint128",
-            "internalType": "uint128"
+            name: "accruedYield",
+            type: "uint128",
+            internalType: "uint128",
           },
           {
-            "name": "isActive",
-            "type": "bool",
-            "internalType": "bool"
+            name: "createdAt",
+            type: "uint32",
+            internalType: "uint32",
           },
           {
-            "name": "isFrozen",
-            "type": "bool",
-            "internalType": "bool"
+            name: "lastYieldUpdate",
+            type: "uint32",
+            internalType: "uint32",
           },
           {
-            "name": "createdAt",
-            "type": "uint64",
-            "internalType": "uint64"
+            name: "isActive",
+            type: "bool",
+            internalType: "bool",
           },
           {
-            "name": "lastYieldUpdate",
-            "type": "uint64",
-            "internalType": "uint64"
-          }
-        ]
-      }
+            name: "isFrozen",
+            type: "bool",
+            internalType: "bool",
+          },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getContractKey",
+    inputs: [
+      {
+        name: "a",
+        type: "address",
+        internalType: "address",
+      },
+      {
+        name: "b",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+    ],
+    stateMutability: "pure",
+  },
+  {
+    type: "function",
+    name: "getProjectedYield",
+    inputs: [
+      {
+        name: "contractKey",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getUserContracts",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32[]",
+        internalType: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getUserNullifier",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getUserTotalValue",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "isParticipant",
+    inputs: [
+      {
+        name: "contractKey",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "isUserVerified",
+    inputs: [
+      {
+        name: "user",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bool",
+        internalType: "bool",
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "nullifierToWallet",
+    inputs: [
+      {
+        name: "",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
     ],
-    "stateMutability": "view"
+    outputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    stateMutability: "view",
   },
   {
-    "type": "function",
-    "name": "getUserTrustScore",
-    "inputs": [
+    type: "function",
+    name: "owner",
+    inputs: [],
+    outputs: [
       {
-        "name": "user",
-        "type": "address",
-        "internalType": "address"
-      }
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
     ],
-    "outputs": [
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "removeAuthorizedLender",
+    inputs: [
       {
-        "name": "",
-        "type": "uint256",
-        "internalType": "uint256"
-      }
+        name: "lender",
+        type: "address",
+        internalType: "address",
+      },
     ],
-    "stateMutability": "view"
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "renounceOwnership",
+    inputs: [],
+    outputs: [],
+    stateMutability: "nonpayable",
   },
   {
-    "type": "function",
-    "name": "owner",
-    "inputs": [],
-    "outputs": [
+    type: "function",
+    name: "transferOwnership",
+    inputs: [
       {
-        "name": "",
-        "type": "address",
-        "internalType": "address"
-      }
+        name: "newOwner",
+        type: "address",
+        internalType: "address",
+      },
     ],
-    "stateMutability": "view"
+    outputs: [],
+    stateMutability: "nonpayable",
   },
   {
-    "type": "event",
-    "name": "ContractCreated",
-    "inputs": [
+    type: "function",
+    name: "usedNullifiers",
+    inputs: [
       {
-        "name": "key",
-        "type": "bytes32",
-        "indexed": true,
-        "internalType": "bytes32"
+        name: "",
+        type: "bytes32",
+        internalType: "bytes32",
       },
+    ],
+    outputs: [
       {
-        "name": "addr0",
-        "type": "address",
-        "indexed": false,
-        "internalType": "address"
+        name: "",
+        type: "bool",
+        internalType: "bool",
       },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "userContracts",
+    inputs: [
       {
-        "name": "addr1",
-        "type": "address",
-        "indexed": false,
-        "internalType": "address"
+        name: "",
+        type: "address",
+        internalType: "address",
       },
       {
-        "name": "initialStake",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
-      }
+        name: "",
+        type: "uint256",
+        internalType: "uint256",
+      },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
     ],
-    "anonymous": false
+    stateMutability: "view",
   },
   {
-    "type": "event",
-    "name": "YieldAccrued",
-    "inputs": [
+    type: "function",
+    name: "userVerifications",
+    inputs: [
+      {
+        name: "",
+        type: "address",
+        internalType: "address",
+      },
+    ],
+    outputs: [
+      {
+        name: "selfNullifier",
+        type: "bytes32",
+        internalType: "bytes32",
+      },
+      {
+        name: "isVerified",
+        type: "bool",
+        internalType: "bool",
+      },
       {
-        "name": "key",
-        "type": "bytes32",
-        "indexed": true,
-        "internalType": "bytes32"
+        name: "verificationTime",
+        type: "uint256",
+        internalType: "uint256",
       },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "verifySelfProof",
+    inputs: [
       {
-        "name": "yieldAmount",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
+        name: "nullifier",
+        type: "bytes32",
+        internalType: "bytes32",
       },
       {
-        "name": "totalYield",
-        "type": "uint256",
-        "indexed": false,
-        "internalType": "uint256"
-      }
+        name: "wallet",
+        type: "address",
+        internalType: "address",
+      },
     ],
-    "anonymous": false
-  }
-] as const;
\ No newline at end of file
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+] as const;
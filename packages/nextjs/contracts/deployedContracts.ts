@@ -2,27 +2,65 @@
  * This file is autogenerated by Scaffold-ETH.
  * You should not edit it manually or your changes might be overwritten.
  */
-import { GenericContractsDeclaration } from "~~/utils/scaffold-eth/contract";
-
-// Import ABIs
+import { LENDING_POOL_ABI } from "./LendingPool";
 import { TRUST_CONTRACT_ABI } from "./TrustContract";
 import { TRUST_SCORE_ABI } from "./TrustScore";
-import { LENDING_POOL_ABI } from "./LendingPool";
+import { GenericContractsDeclaration } from "~~/utils/scaffold-eth/contract";
 
 const deployedContracts = {
-  // Celo Sepolia (Chain ID: 11142220)
   11142220: {
     TrustContract: {
       address: "0xe2726ce1021b21b231562c001a1ecfaa9c9893e2",
       abi: TRUST_CONTRACT_ABI,
+      inheritedFunctions: {
+        addAuthorizedLender: "ITrustContract.sol",
+        addStake: "ITrustContract.sol",
+        claimAllUserYields: "ITrustContract.sol",
+        createContract: "ITrustContract.sol",
+        defect: "ITrustContract.sol",
+        exit: "ITrustContract.sol",
+        freezeAllUserContracts: "ITrustContract.sol",
+        getContract: "ITrustContract.sol",
+        getContractDetails: "ITrustContract.sol",
+        getContractKey: "ITrustContract.sol",
+        getProjectedYield: "ITrustContract.sol",
+        getUserContracts: "ITrustContract.sol",
+        getUserTotalValue: "ITrustContract.sol",
+        isParticipant: "ITrustContract.sol",
+        removeAuthorizedLender: "ITrustContract.sol",
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 5730413,
     },
     TrustScore: {
       address: "0x6cbc62fc95208c4137c928e2a0079836c50f0d14",
       abi: TRUST_SCORE_ABI,
+      inheritedFunctions: {
+        applyDefectPenalty: "ITrustScore.sol",
+        applyExitPenalty: "ITrustScore.sol",
+        calculateContractScore: "ITrustScore.sol",
+        calculateUserTrustScore: "ITrustScore.sol",
+        getContractScore: "ITrustScore.sol",
+        getUserScore: "ITrustScore.sol",
+        getUserTrustScore: "ITrustScore.sol",
+        getWeights: "ITrustScore.sol",
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 5730413,
     },
     LendingPool: {
       address: "0x273be2224de0dd294c9885ec3d169ab0c7a0181c",
       abi: LENDING_POOL_ABI,
+      inheritedFunctions: {
+        owner: "@openzeppelin/contracts/access/Ownable.sol",
+        renounceOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+        transferOwnership: "@openzeppelin/contracts/access/Ownable.sol",
+      },
+      deployedOnBlock: 5730413,
     },
   },
 } as const;
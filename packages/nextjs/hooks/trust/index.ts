@@ -0,0 +1,17 @@
+export * from "./useTrustBonds";
+export * from "./useUserLoans";
+export * from "./useSelfVerification";
+export * from "./useSelfDisclosurePolicy";
+export * from "./useTrustScoreBreakdown";
+export * from "./useBondSimulation";
+export * from "./useProtocolStats";
+export * from "./usePoolLoans";
+export * from "./useAuthorizedLenders";
+export * from "./useProtocolOwners";
+export * from "./useNotifications";
+export * from "./useTrustGraph";
+export * from "./useSybilReport";
+export * from "./useTimeTravel";
+export * from "./usePartnerWatchlist";
+export * from "./useDefaultContagion";
+export * from "./useDeploymentBlock";
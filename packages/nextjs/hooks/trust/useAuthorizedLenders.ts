@@ -0,0 +1,63 @@
+import { useMemo } from "react";
+import { Address, getAddress } from "viem";
+import { useScaffoldEventHistory } from "~~/hooks/scaffold-eth";
+import { useDeploymentBlock } from "~~/hooks/trust/useDeploymentBlock";
+
+export type AuthorizedLender = {
+  lender: Address;
+  // Block of the `LenderAuthorized` event that granted the current authorization
+  authorizedAtBlock: bigint;
+};
+
+type LenderEvent = {
+  args: { lender?: Address };
+  blockNumber: bigint | null;
+  logIndex: number | null;
+};
+
+/**
+ * TrustContract keeps `authorizedLenders` as a mapping that cannot be enumerated, so the current set is rebuilt by
+ * replaying `LenderAuthorized` and `LenderDeauthorized` since deployment, in chain order.
+ */
+export const useAuthorizedLenders = () => {
+  const fromBlock = useDeploymentBlock("TrustContract");
+  const authorized = useScaffoldEventHistory({
+    contractName: "TrustContract",
+    eventName: "LenderAuthorized",
+    fromBlock,
+    watch: true,
+  });
+  const deauthorized = useScaffoldEventHistory({
+    contractName: "TrustContract",
+    eventName: "LenderDeauthorized",
+    fromBlock,
+    watch: true,
+  });
+
+  const lenders = useMemo(() => {
+    const toEntries = (isAuthorized: boolean, events: readonly LenderEvent[] | undefined) =>
+      (events ?? []).flatMap(({ args, blockNumber, logIndex }) =>
+        args.lender && blockNumber !== null && logIndex !== null
+          ? [{ lender: getAddress(args.lender), isAuthorized, blockNumber, logIndex }]
+          : [],
+      );
+
+    const current = new Map<Address, AuthorizedLender>();
+    [...toEntries(true, authorized.data), ...toEntries(false, deauthorized.data)]
+      .sort((a, b) =>
+        a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : Number(a.blockNumber - b.blockNumber),
+      )
+      .forEach(({ lender, isAuthorized, blockNumber }) => {
+        if (!isAuthorized) current.delete(lender);
+        // Re-authorizing an authorized lender keeps the original grant
+        else if (!current.has(lender)) current.set(lender, { lender, authorizedAtBlock: blockNumber });
+      });
+    return [...current.values()];
+  }, [authorized.data, deauthorized.data]);
+
+  return {
+    lenders,
+    isLoading: authorized.isLoading || deauthorized.isLoading,
+    error: authorized.error ?? deauthorized.error,
+  };
+};
@@ -0,0 +1,82 @@
+import { useMemo } from "react";
+import { Address } from "viem";
+import { useBlock } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { TrustBond, useTrustBonds } from "~~/hooks/trust/useTrustBonds";
+import {
+  BondSettlement,
+  ONE_DAY,
+  accrueYield,
+  getBorrowLimitComponents,
+  getUserTotalValue,
+  getUserTrustScore,
+  settleDefect,
+  settleExit,
+} from "~~/utils/trust/score";
+
+export type PositionProjection = {
+  trustScore: bigint;
+  totalValue: bigint;
+  maxBorrowable: bigint;
+};
+
+export type SettlementProjection = PositionProjection & {
+  settlement: BondSettlement;
+};
+
+export type HoldProjection = PositionProjection & {
+  days: number;
+  // Yield the whole bond earns over the holding period, and the user's pro-rata part of it
+  bondYield: bigint;
+  userYield: bigint;
+  // What exiting at the end of the holding period would pay out
+  exitAfterHold: BondSettlement;
+};
+
+/**
+ * Projects exiting, defecting and holding a bond for `holdDays` more days with the on-chain formulas from
+ * `utils/trust/score`, evaluated against the latest block timestamp.
+ * Scores and borrow limits are recomputed over all of the user's bonds, as `TrustScore` and `LendingPool` would.
+ * @param user - bond participant taking the action
+ * @param selectedBond - the bond to simulate, one of `useTrustBonds(user).bonds`
+ * @param holdDays - length of the hold scenario
+ */
+export const useBondSimulation = (user: Address | undefined, selectedBond: TrustBond | undefined, holdDays: number) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { bonds, contractKeys } = useTrustBonds(user);
+  const { data: latestBlock } = useBlock({ watch: true, chainId: targetNetwork.id });
+  const now = latestBlock?.timestamp;
+
+  return useMemo(() => {
+    if (!user || !selectedBond || now === undefined) return undefined;
+
+    const bondsByKey = new Map(bonds.map(userBond => [userBond.key, userBond]));
+    const bond = bondsByKey.get(selectedBond.key) ?? selectedBond;
+    const project = (replaced: TrustBond, timestamp: bigint): PositionProjection => {
+      // One entry per `getUserContracts` key, as both the score and the total value iterate over it
+      const userBonds = contractKeys.flatMap(key => (key === replaced.key ? [replaced] : (bondsByKey.get(key) ?? [])));
+      const trustScore = getUserTrustScore(userBonds, timestamp);
+      const totalValue = getUserTotalValue(userBonds, user, timestamp);
+      return { trustScore, totalValue, maxBorrowable: getBorrowLimitComponents(trustScore, totalValue).total };
+    };
+
+    const closedBond = { ...bond, isActive: false };
+    const holdUntil = now + BigInt(Math.max(0, Math.floor(holdDays))) * ONE_DAY;
+    const bondYield = accrueYield(bond, holdUntil) - accrueYield(bond, now);
+    const totalStake = bond.stake0 + bond.stake1;
+
+    return {
+      now,
+      current: project(bond, now),
+      exit: { ...project(closedBond, now), settlement: settleExit(bond, user, now) } satisfies SettlementProjection,
+      defect: { ...project(closedBond, now), settlement: settleDefect(bond, now) } satisfies SettlementProjection,
+      hold: {
+        ...project(bond, holdUntil),
+        days: holdDays,
+        bondYield,
+        userYield: totalStake > 0n ? (bondYield * bond.userStake) / totalStake : 0n,
+        exitAfterHold: settleExit(bond, user, holdUntil),
+      } satisfies HoldProjection,
+    };
+  }, [user, selectedBond, bonds, contractKeys, now, holdDays]);
+};
@@ -0,0 +1,55 @@
+import { useMemo } from "react";
+import type { LoanRow } from "@se-2/indexer/schema";
+import { useQuery } from "@tanstack/react-query";
+import { Address } from "viem";
+import { useTrustGraph } from "~~/hooks/trust/useTrustGraph";
+import { analyzeDefaultContagion, getTopBorrowers } from "~~/utils/trust/contagion";
+
+const LOANS_REFRESH_MS = 15_000;
+
+const fetchLoans = async (): Promise<LoanRow[]> => {
+  const response = await fetch("/api/indexer/loans");
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.message ?? `Indexer request failed: ${response.status}`);
+  return body;
+};
+
+export type ContagionTarget = { address: Address } | { loanId: number } | { topBorrowers: number };
+
+/**
+ * What a default would take from the rest of the indexed bond graph, for one address, the borrower of one loan, or
+ * the top N borrowers by outstanding principal defaulting together. `report` stays undefined for a loan that is not
+ * indexed or no longer active.
+ */
+export const useDefaultContagion = (target?: ContagionTarget) => {
+  const { graph, now, isLoading: isLoadingGraph, error: graphError } = useTrustGraph();
+  const {
+    data: loans,
+    isLoading: isLoadingLoans,
+    error: loansError,
+  } = useQuery({ queryKey: ["indexedLoans"], queryFn: fetchLoans, refetchInterval: LOANS_REFRESH_MS });
+
+  const defaulters = useMemo<Address[] | undefined>(() => {
+    if (!target || !loans) return undefined;
+    if ("address" in target) return [target.address];
+    if ("topBorrowers" in target) return getTopBorrowers(loans, target.topBorrowers);
+    const loan = loans.find(candidate => candidate.loan_id === target.loanId && candidate.status === "active");
+    return loan ? [loan.borrower] : undefined;
+  }, [target, loans]);
+
+  const report = useMemo(
+    () =>
+      graph && loans && defaulters && now !== undefined
+        ? analyzeDefaultContagion(graph, loans, defaulters, now)
+        : undefined,
+    [graph, loans, defaulters, now],
+  );
+
+  return {
+    report,
+    loans,
+    now,
+    isLoading: isLoadingGraph || isLoadingLoans,
+    error: graphError ?? loansError,
+  };
+};
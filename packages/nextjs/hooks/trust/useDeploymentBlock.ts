@@ -0,0 +1,11 @@
+import { useDeployedContractInfo } from "~~/hooks/scaffold-eth";
+import { ContractName } from "~~/utils/scaffold-eth/contract";
+
+/**
+ * `deployedOnBlock` of a contract on the target network, 0 when deployedContracts.ts has none (local anvil).
+ * Event history scans start here: on Celo Sepolia a scan from genesis pages through millions of empty blocks.
+ */
+export const useDeploymentBlock = (contractName: ContractName) => {
+  const { data: deployedContract } = useDeployedContractInfo({ contractName });
+  return BigInt(deployedContract && "deployedOnBlock" in deployedContract ? deployedContract.deployedOnBlock || 0 : 0);
+};
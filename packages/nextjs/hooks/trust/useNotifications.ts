@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  NotificationAction,
+  SignedNotificationRequest,
+  SubscriptionSettings,
+  UnsignedNotificationRequest,
+  buildNotificationMessage,
+} from "@se-2/indexer/notificationAuth";
+import type { InboxItem } from "@se-2/indexer/notificationStore";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Address } from "viem";
+import { useSignMessage } from "wagmi";
+
+export type { InboxItem, SubscriptionSettings };
+
+// 7 days, 1 day and overdue by default; contact details come back masked
+type SubscriptionResponse = {
+  defaultOffsets: number[];
+  subscription: SubscriptionSettings | null;
+};
+
+const INBOX_REFRESH_MS = 30_000;
+const INBOX_LIMIT = 50;
+
+const readJson = async <T>(response: Response): Promise<T> => {
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.message ?? `Request failed: ${response.status}`);
+  return body as T;
+};
+
+const postSigned = <T>(path: "subscription" | "inbox", request: SignedNotificationRequest) =>
+  fetch(`/api/notifications/${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  }).then(response => readJson<T>(response));
+
+/**
+ * Subscription settings and in-app inbox of `address`. Every change is signed by the wallet (EIP-191), the server
+ * checks the signature and that it is newer than the wallet's last accepted one. The inbox stays locked until the
+ * wallet signs a read, which the poll then reuses until it expires.
+ */
+export const useNotifications = (address: Address | undefined) => {
+  const queryClient = useQueryClient();
+  const { signMessageAsync, isPending: isSigning } = useSignMessage();
+  const [inboxRead, setInboxRead] = useState<SignedNotificationRequest>();
+
+  useEffect(() => setInboxRead(undefined), [address]);
+
+  const subscriptionQuery = useQuery({
+    queryKey: ["notificationSubscription", address],
+    queryFn: () =>
+      fetch(`/api/notifications/subscription?wallet=${address}`).then(response =>
+        readJson<SubscriptionResponse>(response),
+      ),
+    enabled: Boolean(address),
+  });
+
+  const inboxQuery = useQuery({
+    queryKey: ["notificationInbox", address, inboxRead?.signature],
+    queryFn: () => postSigned<InboxItem[]>("inbox", inboxRead as SignedNotificationRequest),
+    enabled: Boolean(address) && inboxRead?.wallet === address,
+    refetchInterval: INBOX_REFRESH_MS,
+  });
+
+  const signRequest = useCallback(
+    async (action: NotificationAction): Promise<SignedNotificationRequest> => {
+      if (!address) throw new Error("Connect a wallet first");
+      const request = {
+        ...action,
+        wallet: address,
+        issuedAt: Math.floor(Date.now() / 1000),
+      } as UnsignedNotificationRequest;
+      const signature = await signMessageAsync({ message: buildNotificationMessage(request) });
+      return { ...request, signature };
+    },
+    [address, signMessageAsync],
+  );
+
+  const sendSigned = useCallback(
+    async (path: "subscription" | "inbox", action: NotificationAction) => {
+      await postSigned(path, await signRequest(action));
+      await queryClient.invalidateQueries({
+        queryKey: [path === "subscription" ? "notificationSubscription" : "notificationInbox", address],
+      });
+    },
+    [address, queryClient, signRequest],
+  );
+
+  return {
+    subscription: subscriptionQuery.data?.subscription ?? null,
+    defaultOffsets: subscriptionQuery.data?.defaultOffsets,
+    inbox: inboxQuery.data ?? [],
+    // Also once the signed read expired, the server then rejects it
+    isInboxLocked: !inboxRead || inboxQuery.isError,
+    unreadCount: inboxQuery.data?.filter(item => item.readAt === null).length ?? 0,
+    isLoading: subscriptionQuery.isLoading || inboxQuery.isLoading,
+    error: subscriptionQuery.error ?? inboxQuery.error,
+    isSigning,
+    subscribe: (settings: SubscriptionSettings) =>
+      sendSigned("subscription", { action: "subscribe", payload: settings }),
+    unsubscribe: () => sendSigned("subscription", { action: "unsubscribe", payload: {} }),
+    unlockInbox: async () => setInboxRead(await signRequest({ action: "readInbox", payload: { limit: INBOX_LIMIT } })),
+    markRead: (ids: number[]) => sendSigned("inbox", { action: "markRead", payload: { ids } }),
+  };
+};
@@ -0,0 +1,158 @@
+import { useEffect, useMemo } from "react";
+import type { BondRow } from "@se-2/indexer/schema";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Address } from "viem";
+import { useBlock, useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { useTrustBonds } from "~~/hooks/trust/useTrustBonds";
+import { Loan } from "~~/hooks/trust/useUserLoans";
+import { PartnerClosure, PartnerWatch, getWatchAlerts } from "~~/utils/trust/watchlist";
+
+const BONDS_REFRESH_MS = 15_000;
+
+const fetchBonds = async (): Promise<BondRow[]> => {
+  const response = await fetch("/api/indexer/bonds");
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.message ?? `Indexer request failed: ${response.status}`);
+  return body;
+};
+
+/**
+ * Watches every partner of the user's active bonds: their active loan (`getUserLoan` then `getLoan`), trust score and
+ * Self verification from the chain, refreshed on every new block, and the bonds they exited or defected on with other
+ * wallets from the indexer. The indexer is optional, without it closures are missing and `indexerError` is set.
+ * @param user - wallet whose partners are watched
+ */
+export const usePartnerWatchlist = (user?: Address) => {
+  const { targetNetwork } = useTargetNetwork();
+  const queryClient = useQueryClient();
+  const { data: trustContract } = useDeployedContractInfo({ contractName: "TrustContract" });
+  const { data: trustScore } = useDeployedContractInfo({ contractName: "TrustScore" });
+  const { data: lendingPool } = useDeployedContractInfo({ contractName: "LendingPool" });
+  const { data: latestBlock } = useBlock({ watch: true, chainId: targetNetwork.id });
+  const { bonds, isLoading: isLoadingBonds } = useTrustBonds(user);
+
+  const activeBonds = useMemo(() => bonds.filter(bond => bond.isActive), [bonds]);
+
+  // Three reads per partner: loan id, trust score, verification
+  const {
+    data: partnerResults,
+    isLoading: isLoadingPartners,
+    queryKey: partnersQueryKey,
+  } = useReadContracts({
+    contracts: activeBonds.flatMap(({ partner }) => [
+      {
+        chainId: targetNetwork.id,
+        address: lendingPool?.address,
+        abi: lendingPool?.abi,
+        functionName: "getUserLoan",
+        args: [partner],
+      },
+      {
+        chainId: targetNetwork.id,
+        address: trustScore?.address,
+        abi: trustScore?.abi,
+        functionName: "getUserTrustScore",
+        args: [partner],
+      },
+      {
+        chainId: targetNetwork.id,
+        address: trustContract?.address,
+        abi: trustContract?.abi,
+        functionName: "isUserVerified",
+        args: [partner],
+      },
+    ]),
+    query: {
+      enabled: Boolean(lendingPool && trustScore && trustContract && activeBonds.length > 0),
+    },
+  });
+
+  const loanIds = useMemo(
+    () =>
+      activeBonds.map((_, i) => {
+        const result = partnerResults?.[i * 3];
+        return result?.status === "success" ? (result.result as bigint) : 0n;
+      }),
+    [activeBonds, partnerResults],
+  );
+
+  const {
+    data: loanResults,
+    isLoading: isLoadingLoans,
+    queryKey: loansQueryKey,
+  } = useReadContracts({
+    contracts: loanIds
+      .filter(loanId => loanId > 0n)
+      .map(loanId => ({
+        chainId: targetNetwork.id,
+        address: lendingPool?.address,
+        abi: lendingPool?.abi,
+        functionName: "getLoan",
+        args: [loanId],
+      })),
+    query: {
+      enabled: Boolean(lendingPool && loanIds.some(loanId => loanId > 0n)),
+    },
+  });
+
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey: partnersQueryKey });
+    queryClient.invalidateQueries({ queryKey: loansQueryKey });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [latestBlock?.number]);
+
+  const { data: indexedBonds, error: indexerError } = useQuery({
+    queryKey: ["indexedBonds"],
+    queryFn: fetchBonds,
+    refetchInterval: BONDS_REFRESH_MS,
+  });
+
+  const entries = useMemo<PartnerWatch[]>(() => {
+    const loans = new Map(
+      (loanResults ?? []).flatMap(result =>
+        result.status === "success" && result.result ? [[(result.result as Loan).id, result.result as Loan]] : [],
+      ),
+    );
+    const closuresOf = (partner: Address): PartnerClosure[] =>
+      (indexedBonds ?? []).flatMap(bond => {
+        if (bond.closed_by !== partner || bond.status === "active" || bond.closed_timestamp === null) return [];
+        const counterparty = bond.creator === partner ? bond.partner : bond.creator;
+        if (counterparty === user) return [];
+        return [
+          {
+            bondId: bond.id,
+            status: bond.status,
+            counterparty,
+            closedTimestamp: bond.closed_timestamp,
+            payout: bond.payout,
+          },
+        ];
+      });
+
+    return activeBonds.map((bond, i) => {
+      const [, score, verified] = partnerResults?.slice(i * 3, i * 3 + 3) ?? [];
+      return {
+        partner: bond.partner,
+        userStake: bond.userStake,
+        partnerStake: bond.partnerStake,
+        isFrozen: bond.isFrozen,
+        trustScore: score?.status === "success" ? (score.result as bigint) : undefined,
+        isVerified: verified?.status === "success" ? (verified.result as boolean) : undefined,
+        loan: loans.get(loanIds[i]),
+        closures: closuresOf(bond.partner),
+      };
+    });
+  }, [activeBonds, partnerResults, loanResults, loanIds, indexedBonds, user]);
+
+  const now = latestBlock?.timestamp;
+  const alerts = useMemo(() => (now !== undefined ? getWatchAlerts(entries, now) : []), [entries, now]);
+
+  return {
+    entries,
+    alerts,
+    now,
+    isLoading: isLoadingBonds || isLoadingPartners || isLoadingLoans,
+    indexerError,
+  };
+};
@@ -0,0 +1,77 @@
+import { useEffect, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useBlockNumber, useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { Loan } from "~~/hooks/trust/useUserLoans";
+
+/**
+ * Reads every loan LendingPool has issued, whoever the borrower.
+ * Loan ids are sequential from 1 to `nextLoanId - 1`, each loan is read with `getLoan(id)`, refreshed on every new
+ * block.
+ */
+export const usePoolLoans = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const queryClient = useQueryClient();
+  const { data: lendingPool } = useDeployedContractInfo({ contractName: "LendingPool" });
+
+  const {
+    data: nextLoanId,
+    isLoading: isLoadingNextId,
+    refetch: refetchNextId,
+  } = useScaffoldReadContract({
+    contractName: "LendingPool",
+    functionName: "nextLoanId",
+  });
+
+  const loanIds = useMemo(
+    () => Array.from({ length: nextLoanId && nextLoanId > 1n ? Number(nextLoanId - 1n) : 0 }, (_, i) => BigInt(i + 1)),
+    [nextLoanId],
+  );
+
+  const {
+    data: loanResults,
+    isLoading: isLoadingLoans,
+    refetch: refetchLoans,
+    queryKey,
+  } = useReadContracts({
+    contracts: loanIds.map(loanId => ({
+      chainId: targetNetwork.id,
+      address: lendingPool?.address,
+      abi: lendingPool?.abi,
+      functionName: "getLoan",
+      args: [loanId],
+    })),
+    query: {
+      enabled: Boolean(lendingPool && loanIds.length > 0),
+    },
+  });
+
+  const { data: blockNumber } = useBlockNumber({ watch: true, chainId: targetNetwork.id });
+
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [blockNumber]);
+
+  // Newest loan first
+  const loans = useMemo<Loan[]>(
+    () =>
+      (loanResults ?? [])
+        .flatMap(result => (result.status === "success" && result.result ? [result.result as Loan] : []))
+        .sort((a, b) => Number(b.id - a.id)),
+    [loanResults],
+  );
+
+  const refetch = async () => {
+    await refetchNextId();
+    await refetchLoans();
+  };
+
+  return {
+    loans,
+    // Principal lent out by the loans that are neither repaid nor liquidated
+    outstandingPrincipal: loans.reduce((sum, loan) => (loan.isActive ? sum + loan.amount : sum), 0n),
+    isLoading: isLoadingNextId || isLoadingLoans,
+    refetch,
+  };
+};
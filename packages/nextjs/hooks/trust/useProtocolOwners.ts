@@ -0,0 +1,29 @@
+import { Address, isAddressEqual } from "viem";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+
+/**
+ * Reads `owner()` of LendingPool and TrustContract and tells whether `account` may call their owner-only functions.
+ * @param account - connected wallet
+ */
+export const useProtocolOwners = (account?: Address) => {
+  const { data: lendingPoolOwner, isLoading: isLoadingPoolOwner } = useScaffoldReadContract({
+    contractName: "LendingPool",
+    functionName: "owner",
+  });
+  const { data: trustContractOwner, isLoading: isLoadingTrustOwner } = useScaffoldReadContract({
+    contractName: "TrustContract",
+    functionName: "owner",
+  });
+
+  const isPoolOwner = Boolean(account && lendingPoolOwner && isAddressEqual(account, lendingPoolOwner));
+  const isTrustOwner = Boolean(account && trustContractOwner && isAddressEqual(account, trustContractOwner));
+
+  return {
+    lendingPoolOwner,
+    trustContractOwner,
+    isPoolOwner,
+    isTrustOwner,
+    isOwner: isPoolOwner || isTrustOwner,
+    isLoading: isLoadingPoolOwner || isLoadingTrustOwner,
+  };
+};
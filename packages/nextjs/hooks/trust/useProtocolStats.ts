@@ -0,0 +1,55 @@
+import { useMemo } from "react";
+import { Hex } from "viem";
+import { useScaffoldEventHistory, useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+import { useDeploymentBlock } from "~~/hooks/trust/useDeploymentBlock";
+import { BondEvent, BondEventType, aggregateBondEvents } from "~~/utils/trust/protocolStats";
+
+type LoggedEvent = {
+  args: { contractKey?: Hex; amount?: bigint };
+  blockNumber: bigint | null;
+  logIndex: number | null;
+};
+
+const toBondEvents = (type: BondEventType, events: readonly LoggedEvent[] | undefined): BondEvent[] =>
+  (events ?? []).flatMap(({ args, blockNumber, logIndex }) =>
+    args.contractKey && args.amount !== undefined && blockNumber !== null && logIndex !== null
+      ? [{ type, contractKey: args.contractKey, amount: args.amount, blockNumber, logIndex }]
+      : [],
+  );
+
+/**
+ * Protocol-wide aggregates for the overview: TVL, bond counts and cooperation rate rebuilt from TrustContract bond
+ * events since deployment, plus `LendingPool.totalLiquidity`. Events are watched, so the numbers follow new blocks.
+ */
+export const useProtocolStats = () => {
+  const fromBlock = useDeploymentBlock("TrustContract");
+  const history = { contractName: "TrustContract", fromBlock, watch: true } as const;
+
+  const created = useScaffoldEventHistory({ ...history, eventName: "ContractCreated" });
+  const stakeAdded = useScaffoldEventHistory({ ...history, eventName: "StakeAdded" });
+  const exited = useScaffoldEventHistory({ ...history, eventName: "ContractExited" });
+  const defected = useScaffoldEventHistory({ ...history, eventName: "ContractDefected" });
+
+  const { data: poolLiquidity } = useScaffoldReadContract({
+    contractName: "LendingPool",
+    functionName: "totalLiquidity",
+  });
+
+  const stats = useMemo(
+    () =>
+      aggregateBondEvents([
+        ...toBondEvents("created", created.data),
+        ...toBondEvents("stakeAdded", stakeAdded.data),
+        ...toBondEvents("exited", exited.data),
+        ...toBondEvents("defected", defected.data),
+      ]),
+    [created.data, stakeAdded.data, exited.data, defected.data],
+  );
+
+  return {
+    ...stats,
+    poolLiquidity,
+    isLoading: created.isLoading || stakeAdded.isLoading || exited.isLoading || defected.isLoading,
+    error: created.error ?? stakeAdded.error ?? exited.error ?? defected.error,
+  };
+};
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { SelfDisclosurePolicy } from "~~/utils/trust/self";
+
+/**
+ * Fetches the disclosure policy the verify-self backend enforces, so the Self QR code requests matching disclosures
+ */
+export const useSelfDisclosurePolicy = () => {
+  return useQuery({
+    queryKey: ["selfDisclosurePolicy"],
+    queryFn: async () => {
+      const response = await fetch("/api/verify-self");
+      if (!response.ok) throw new Error(`Failed to load Self disclosure policy: ${response.status}`);
+      const { policy } = (await response.json()) as { policy: SelfDisclosurePolicy };
+      return policy;
+    },
+    staleTime: Infinity,
+  });
+};
@@ -0,0 +1,144 @@
+import { useEffect, useRef, useState } from "react";
+import { Address } from "viem";
+import { useAccount, useSignMessage } from "wagmi";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { getParsedError } from "~~/utils/scaffold-eth";
+import {
+  SelfVerificationData,
+  SelfVerificationRecord,
+  SelfVerificationStatus,
+  buildSelfVerificationReadMessage,
+} from "~~/utils/trust/self";
+
+const POLL_INTERVAL_MS = 3000;
+
+export type SelfVerificationStep = "idle" | "scanning" | "binding" | "verified" | "failed";
+
+/**
+ * Drives the Self.xyz onboarding loop for the connected wallet.
+ * While scanning it polls `/api/verify-self` for the backend verification status. The backend relayer normally binds the
+ * nullifier itself; otherwise the wallet signs a read of its verification and submits
+ * `TrustContract.verifySelfProof(nullifier, wallet)`.
+ */
+export const useSelfVerification = () => {
+  const { address } = useAccount();
+  const [isPolling, setIsPolling] = useState(false);
+  const [status, setStatus] = useState<Extract<SelfVerificationStatus, { status: "verified" }>>();
+  const [verification, setVerification] = useState<SelfVerificationData>();
+  const [isBinding, setIsBinding] = useState(false);
+  const [error, setError] = useState<string>();
+  const submittedStatus = useRef<SelfVerificationStatus>(undefined);
+
+  const { data: isVerified, refetch: refetchIsVerified } = useScaffoldReadContract({
+    contractName: "TrustContract",
+    functionName: "isUserVerified",
+    args: [address],
+  });
+
+  const { writeContractAsync: writeTrustContract } = useScaffoldWriteContract({ contractName: "TrustContract" });
+  const { signMessageAsync } = useSignMessage();
+
+  // Results belong to a single wallet, start over when the user switches account
+  useEffect(() => {
+    setIsPolling(false);
+    setStatus(undefined);
+    setVerification(undefined);
+    setError(undefined);
+    submittedStatus.current = undefined;
+  }, [address]);
+
+  useEffect(() => {
+    if (!isPolling || !address) return;
+
+    const poll = async () => {
+      try {
+        const response = await fetch(`/api/verify-self?walletAddress=${address}`);
+        if (!response.ok) return;
+
+        const result: SelfVerificationStatus = await response.json();
+        if (result.status === "verified") {
+          setIsPolling(false);
+          setStatus(result);
+        }
+      } catch (e) {
+        console.error("Failed to poll Self verification status:", e);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPolling, address]);
+
+  // The status poll is unauthenticated, the nullifier is only returned to a read signed by the wallet
+  const readVerification = async (walletAddress: Address) => {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const signature = await signMessageAsync({
+      message: buildSelfVerificationReadMessage(walletAddress, issuedAt),
+    });
+    const response = await fetch(
+      `/api/verify-self?walletAddress=${walletAddress}&issuedAt=${issuedAt}&signature=${signature}`,
+    );
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.message ?? `Request failed: ${response.status}`);
+    if (result.status !== "verified") throw new Error("Self verification expired, scan again");
+    return (result as SelfVerificationRecord).data;
+  };
+
+  const bindNullifier = async (data?: SelfVerificationData) => {
+    if (!address) return;
+    setIsBinding(true);
+    setError(undefined);
+    try {
+      if (!data) {
+        data = await readVerification(address);
+        setVerification(data);
+      }
+      const txHash = await writeTrustContract({
+        functionName: "verifySelfProof",
+        args: [data.nullifier, data.walletAddress],
+      });
+      if (!txHash) throw new Error("Transaction was not sent");
+      await refetchIsVerified();
+    } catch (e) {
+      setError(getParsedError(e));
+    } finally {
+      setIsBinding(false);
+    }
+  };
+
+  // Submit once per verification as soon as the backend has verified the proof, unless its relayer already did
+  useEffect(() => {
+    if (!status || isVerified) return;
+    if (status.boundOnChain) {
+      refetchIsVerified();
+      return;
+    }
+    if (submittedStatus.current === status) return;
+    submittedStatus.current = status;
+    bindNullifier();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [status, isVerified]);
+
+  const getStep = (): SelfVerificationStep => {
+    if (isVerified) return "verified";
+    if (isBinding) return "binding";
+    if (error) return "failed";
+    if (isPolling) return "scanning";
+    return "idle";
+  };
+
+  return {
+    step: getStep(),
+    isVerified: Boolean(isVerified),
+    verification,
+    relayedTxHash: status?.txHash,
+    error,
+    startVerification: () => {
+      setError(undefined);
+      setIsPolling(true);
+    },
+    cancelVerification: () => setIsPolling(false),
+    retryBinding: () => bindNullifier(verification),
+  };
+};
@@ -0,0 +1,38 @@
+import { useMemo } from "react";
+import type { LoanRow } from "@se-2/indexer/schema";
+import { useQuery } from "@tanstack/react-query";
+import { useTrustGraph } from "~~/hooks/trust/useTrustGraph";
+import { analyzeSybilRisk } from "~~/utils/trust/sybil";
+
+const LOANS_REFRESH_MS = 15_000;
+
+const fetchLoans = async (): Promise<LoanRow[]> => {
+  const response = await fetch("/api/indexer/loans");
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.message ?? `Indexer request failed: ${response.status}`);
+  return body;
+};
+
+/**
+ * Sybil and collusion flags for every address in the indexed bond graph, with the default `analyzeSybilRisk` thresholds
+ */
+export const useSybilReport = () => {
+  const { graph, now, isLoading: isLoadingGraph, error: graphError } = useTrustGraph();
+  const {
+    data: loans,
+    isLoading: isLoadingLoans,
+    error: loansError,
+  } = useQuery({ queryKey: ["indexedLoans"], queryFn: fetchLoans, refetchInterval: LOANS_REFRESH_MS });
+
+  const report = useMemo(() => (graph && loans ? analyzeSybilRisk(graph, loans) : undefined), [graph, loans]);
+  // Lookup for tables that show one row per borrower
+  const risksByAddress = useMemo(() => new Map((report?.addresses ?? []).map(risk => [risk.address, risk])), [report]);
+
+  return {
+    report,
+    risksByAddress,
+    now,
+    isLoading: isLoadingGraph || isLoadingLoans,
+    error: graphError ?? loansError,
+  };
+};
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Hex } from "viem";
+import { testClient } from "~~/hooks/scaffold-eth/useFetchBlocks";
+
+export type ChainSnapshot = {
+  id: Hex;
+  label: string;
+  // Chain time when the snapshot was taken
+  timestamp: bigint;
+  blockNumber: bigint;
+};
+
+export const TIME_TRAVEL_PRESETS = [
+  { label: "1H", seconds: 3_600 },
+  { label: "1D", seconds: 86_400 },
+  { label: "30D", seconds: 30 * 86_400 },
+  { label: "1Y", seconds: 365 * 86_400 },
+] as const;
+
+/**
+ * Moves the local anvil chain through time with `evm_increaseTime`/`evm_mine` and checkpoints it with
+ * `evm_snapshot`/`evm_revert`, so yield accrual and loan expiry can be exercised without `cast rpc`.
+ * Every cached read is refetched after the chain changes. Only meaningful on `chains.foundry`.
+ */
+export const useTimeTravel = () => {
+  const queryClient = useQueryClient();
+  const [latestBlock, setLatestBlock] = useState<{ number: bigint; timestamp: bigint }>();
+  const [snapshots, setSnapshots] = useState<ChainSnapshot[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const readLatestBlock = useCallback(async () => {
+    const block = await testClient.getBlock();
+    const latest = { number: block.number, timestamp: block.timestamp };
+    setLatestBlock(latest);
+    return latest;
+  }, []);
+
+  useEffect(() => {
+    readLatestBlock().catch(error => setError(error as Error));
+  }, [readLatestBlock]);
+
+  const run = useCallback(
+    async (action: () => Promise<void>) => {
+      setIsBusy(true);
+      setError(null);
+      try {
+        await action();
+        await readLatestBlock();
+        await queryClient.invalidateQueries();
+      } catch (error) {
+        setError(error as Error);
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [queryClient, readLatestBlock],
+  );
+
+  // The next block is mined right away so reads see the new time
+  const increaseTime = useCallback(
+    (seconds: number) =>
+      run(async () => {
+        await testClient.increaseTime({ seconds });
+        await testClient.request({ method: "evm_mine", params: undefined });
+      }),
+    [run],
+  );
+
+  const takeSnapshot = useCallback(
+    (label?: string) =>
+      run(async () => {
+        const id = await testClient.snapshot();
+        const { number, timestamp } = await readLatestBlock();
+        setSnapshots(current => [
+          ...current,
+          { id, label: label || `SNAPSHOT_${current.length + 1}`, timestamp, blockNumber: number },
+        ]);
+      }),
+    [run, readLatestBlock],
+  );
+
+  // Reverting consumes the snapshot and every snapshot taken after it
+  const revertTo = useCallback(
+    (id: Hex) =>
+      run(async () => {
+        await testClient.revert({ id });
+        setSnapshots(current => {
+          const index = current.findIndex(snapshot => snapshot.id === id);
+          return index === -1 ? current : current.slice(0, index);
+        });
+      }),
+    [run],
+  );
+
+  return { latestBlock, snapshots, increaseTime, takeSnapshot, revertTo, isBusy, error };
+};
@@ -0,0 +1,103 @@
+import { useEffect, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Address, Hex } from "viem";
+import { useBlockNumber, useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+export type TrustBond = {
+  key: Hex;
+  addr0: Address;
+  addr1: Address;
+  stake0: bigint;
+  stake1: bigint;
+  accruedYield: bigint;
+  createdAt: number;
+  lastYieldUpdate: number;
+  isActive: boolean;
+  isFrozen: boolean;
+  partner: Address;
+  userStake: bigint;
+  partnerStake: bigint;
+};
+
+/**
+ * Reads every trust bond the user participates in from TrustContract.
+ * Keys come from `getUserContracts(user)` and each bond is read with `getContract(key)`, refreshed on every new block.
+ * @param user - address whose bonds should be loaded
+ */
+export const useTrustBonds = (user?: Address) => {
+  const { targetNetwork } = useTargetNetwork();
+  const queryClient = useQueryClient();
+  const { data: trustContract } = useDeployedContractInfo({ contractName: "TrustContract" });
+
+  const {
+    data: userContractKeys,
+    isLoading: isLoadingKeys,
+    refetch: refetchKeys,
+  } = useScaffoldReadContract({
+    contractName: "TrustContract",
+    functionName: "getUserContracts",
+    args: [user],
+  });
+
+  // A key is pushed again every time the same pair re-creates a bond after exiting, so dedupe before reading
+  const bondKeys = useMemo(() => Array.from(new Set(userContractKeys ?? [])) as Hex[], [userContractKeys]);
+
+  const {
+    data: bondResults,
+    isLoading: isLoadingBonds,
+    refetch: refetchBonds,
+    queryKey,
+  } = useReadContracts({
+    contracts: bondKeys.map(key => ({
+      chainId: targetNetwork.id,
+      address: trustContract?.address,
+      abi: trustContract?.abi,
+      functionName: "getContract",
+      args: [key],
+    })),
+    query: {
+      enabled: Boolean(trustContract && bondKeys.length > 0),
+    },
+  });
+
+  const { data: blockNumber } = useBlockNumber({ watch: true, chainId: targetNetwork.id });
+
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [blockNumber]);
+
+  const bonds = useMemo<TrustBond[]>(() => {
+    if (!user || !bondResults) return [];
+
+    return bondResults.flatMap((result, index) => {
+      if (result.status !== "success" || !result.result) return [];
+      const bond = result.result as Omit<TrustBond, "key" | "partner" | "userStake" | "partnerStake">;
+      const isAddr0 = bond.addr0.toLowerCase() === user.toLowerCase();
+
+      return [
+        {
+          ...bond,
+          key: bondKeys[index],
+          partner: isAddr0 ? bond.addr1 : bond.addr0,
+          userStake: isAddr0 ? bond.stake0 : bond.stake1,
+          partnerStake: isAddr0 ? bond.stake1 : bond.stake0,
+        },
+      ];
+    });
+  }, [bondResults, bondKeys, user]);
+
+  const refetch = async () => {
+    await refetchKeys();
+    await refetchBonds();
+  };
+
+  return {
+    bonds,
+    // Raw `getUserContracts` keys, duplicates included, as TrustScore counts them
+    contractKeys: (userContractKeys ?? []) as readonly Hex[],
+    isLoading: isLoadingKeys || isLoadingBonds,
+    refetch,
+  };
+};
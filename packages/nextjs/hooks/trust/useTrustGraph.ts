@@ -0,0 +1,41 @@
+import { useMemo } from "react";
+import type { BondRow, UserRow } from "@se-2/indexer/schema";
+import { useQuery } from "@tanstack/react-query";
+import { useBlock } from "wagmi";
+import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { buildTrustGraph } from "~~/utils/trust/graph";
+
+const GRAPH_REFRESH_MS = 15_000;
+
+const fetchIndexer = async <T>(resource: string): Promise<T> => {
+  const response = await fetch(`/api/indexer/${resource}`);
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.message ?? `Indexer request failed: ${response.status}`);
+  return body as T;
+};
+
+/**
+ * The whole bond graph from the indexer store (`/api/indexer/bonds` and `/users`), with trust scores evaluated at the
+ * latest block timestamp
+ */
+export const useTrustGraph = () => {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: latestBlock } = useBlock({ watch: true, chainId: targetNetwork.id });
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["trustGraph"],
+    queryFn: async () => {
+      const [bonds, users] = await Promise.all([fetchIndexer<BondRow[]>("bonds"), fetchIndexer<UserRow[]>("users")]);
+      return { bonds, users };
+    },
+    refetchInterval: GRAPH_REFRESH_MS,
+  });
+
+  const now = latestBlock?.timestamp;
+  const graph = useMemo(
+    () => (data && now !== undefined ? buildTrustGraph(data.bonds, data.users, now) : undefined),
+    [data, now],
+  );
+
+  return { graph, now, isLoading: isLoading || (Boolean(data) && now === undefined), error };
+};
@@ -0,0 +1,141 @@
+import { useMemo } from "react";
+import { Address, Hex } from "viem";
+import { useBlock, useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { TrustBond, useTrustBonds } from "~~/hooks/trust/useTrustBonds";
+import {
+  BorrowLimitComponents,
+  ContractScoreComponents,
+  ONE_DAY,
+  calculateContractScore,
+  calculateContractScoreComponents,
+  getBorrowLimitComponents,
+  getUserTrustScore,
+  sqrt,
+} from "~~/utils/trust/score";
+
+export type BondScoreBreakdown = {
+  bond: TrustBond;
+  // How often the key appears in `getUserContracts`, each occurrence is scored again
+  occurrences: number;
+  ageDays: bigint;
+  basePoints: bigint;
+  timeBonus: bigint;
+  // `TrustScore.calculateContractScore`
+  contractScore: bigint;
+  partnerTrust?: bigint;
+  equation2?: ContractScoreComponents;
+};
+
+export type ScorePenalties = {
+  penaltyOffset: bigint;
+  contractsBroken: bigint;
+  contractsWithdrawn: bigint;
+};
+
+/**
+ * Explains the user's trust score bond by bond, using the exact on-chain formulas from `utils/trust/score`
+ * evaluated at the latest block timestamp, next to the recorded penalties and the resulting borrow limit.
+ * @param user - address whose score should be explained
+ */
+export const useTrustScoreBreakdown = (user?: Address) => {
+  const { targetNetwork } = useTargetNetwork();
+  const { bonds, contractKeys, isLoading: isLoadingBonds } = useTrustBonds(user);
+  const { data: trustScoreContract } = useDeployedContractInfo({ contractName: "TrustScore" });
+  const { data: latestBlock } = useBlock({ watch: true, chainId: targetNetwork.id });
+
+  const { data: trustScore } = useScaffoldReadContract({
+    contractName: "TrustScore",
+    functionName: "getUserTrustScore",
+    args: [user],
+  });
+  const { data: userScore } = useScaffoldReadContract({
+    contractName: "TrustScore",
+    functionName: "getUserScore",
+    args: [user],
+  });
+  const { data: totalValue } = useScaffoldReadContract({
+    contractName: "TrustContract",
+    functionName: "getUserTotalValue",
+    args: [user],
+  });
+  const { data: maxBorrowable } = useScaffoldReadContract({
+    contractName: "LendingPool",
+    functionName: "getMaxBorrowableAmount",
+    args: [user],
+  });
+
+  // Equation 2 weighs each bond by the partner's own score
+  const { data: partnerScores } = useReadContracts({
+    contracts: bonds.map(bond => ({
+      chainId: targetNetwork.id,
+      address: trustScoreContract?.address,
+      abi: trustScoreContract?.abi,
+      functionName: "getUserTrustScore",
+      args: [bond.partner],
+    })),
+    query: {
+      enabled: Boolean(trustScoreContract && bonds.length > 0),
+    },
+  });
+
+  const now = latestBlock?.timestamp;
+
+  const breakdown = useMemo<BondScoreBreakdown[]>(() => {
+    if (!user || now === undefined) return [];
+
+    const occurrences = contractKeys.reduce(
+      (counts, key) => counts.set(key, (counts.get(key) ?? 0) + 1),
+      new Map<Hex, number>(),
+    );
+
+    return bonds.map((bond, index) => {
+      const count = occurrences.get(bond.key) ?? 1;
+      const ageDays = now > BigInt(bond.createdAt) ? (now - BigInt(bond.createdAt)) / ONE_DAY : 0n;
+      const partnerResult = partnerScores?.[index];
+      const partnerTrust = partnerResult?.status === "success" ? (partnerResult.result as bigint) : undefined;
+
+      return {
+        bond,
+        occurrences: count,
+        ageDays,
+        basePoints: BigInt(count) * 100n,
+        timeBonus: bond.isActive ? sqrt(ageDays) * BigInt(count) : 0n,
+        contractScore: calculateContractScore(bond, now),
+        partnerTrust,
+        equation2:
+          partnerTrust === undefined ? undefined : calculateContractScoreComponents(bond, user, partnerTrust, now),
+      };
+    });
+  }, [bonds, contractKeys, partnerScores, user, now]);
+
+  const computedScore = useMemo(() => {
+    if (now === undefined) return undefined;
+    const bondsByKey = new Map(bonds.map(bond => [bond.key, bond]));
+    return getUserTrustScore(
+      contractKeys.flatMap(key => bondsByKey.get(key) ?? []),
+      now,
+    );
+  }, [bonds, contractKeys, now]);
+
+  const penalties: ScorePenalties | undefined = userScore && {
+    penaltyOffset: userScore.penaltyOffset,
+    contractsBroken: userScore.contractsBroken,
+    contractsWithdrawn: userScore.contractsWithdrawn,
+  };
+
+  const borrowLimit: BorrowLimitComponents | undefined =
+    trustScore !== undefined && totalValue !== undefined ? getBorrowLimitComponents(trustScore, totalValue) : undefined;
+
+  return {
+    breakdown,
+    trustScore,
+    computedScore,
+    penalties,
+    totalValue,
+    borrowLimit,
+    maxBorrowable,
+    blockTimestamp: now,
+    isLoading: isLoadingBonds || trustScore === undefined,
+  };
+};
@@ -0,0 +1,95 @@
+import { useEffect, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Address } from "viem";
+import { useBlockNumber, useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+export type Loan = {
+  id: bigint;
+  borrower: Address;
+  amount: bigint;
+  interestRate: bigint;
+  duration: bigint;
+  startTime: bigint;
+  isActive: boolean;
+  isRepaid: boolean;
+  isPaydayLoan: boolean;
+};
+
+export type LoanStatus = "active" | "repaid" | "defaulted";
+
+/**
+ * LendingPool never stores a defaulted flag: `liquidate` only clears `isActive`, so an inactive loan that was
+ * not repaid is a default.
+ */
+export const getLoanStatus = (loan: Pick<Loan, "isActive" | "isRepaid">): LoanStatus => {
+  if (loan.isActive) return "active";
+  return loan.isRepaid ? "repaid" : "defaulted";
+};
+
+/**
+ * Reads every loan the user has taken from LendingPool.
+ * Ids come from `getUserLoans(user)` and each loan is read with `getLoan(id)`, refreshed on every new block.
+ * @param user - borrower address
+ */
+export const useUserLoans = (user?: Address) => {
+  const { targetNetwork } = useTargetNetwork();
+  const queryClient = useQueryClient();
+  const { data: lendingPool } = useDeployedContractInfo({ contractName: "LendingPool" });
+
+  const {
+    data: loanIds,
+    isLoading: isLoadingIds,
+    refetch: refetchIds,
+  } = useScaffoldReadContract({
+    contractName: "LendingPool",
+    functionName: "getUserLoans",
+    args: [user],
+  });
+
+  const {
+    data: loanResults,
+    isLoading: isLoadingLoans,
+    refetch: refetchLoans,
+    queryKey,
+  } = useReadContracts({
+    contracts: (loanIds ?? []).map((loanId: bigint) => ({
+      chainId: targetNetwork.id,
+      address: lendingPool?.address,
+      abi: lendingPool?.abi,
+      functionName: "getLoan",
+      args: [loanId],
+    })),
+    query: {
+      enabled: Boolean(lendingPool && loanIds && loanIds.length > 0),
+    },
+  });
+
+  const { data: blockNumber } = useBlockNumber({ watch: true, chainId: targetNetwork.id });
+
+  useEffect(() => {
+    queryClient.invalidateQueries({ queryKey });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [blockNumber]);
+
+  // Newest loan first
+  const loans = useMemo<Loan[]>(
+    () =>
+      (loanResults ?? [])
+        .flatMap(result => (result.status === "success" && result.result ? [result.result as Loan] : []))
+        .sort((a, b) => Number(b.id - a.id)),
+    [loanResults],
+  );
+
+  const refetch = async () => {
+    await refetchIds();
+    await refetchLoans();
+  };
+
+  return {
+    loans,
+    activeLoan: loans.find(loan => loan.isActive),
+    isLoading: isLoadingIds || isLoadingLoans,
+    refetch,
+  };
+};
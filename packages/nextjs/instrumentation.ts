@@ -0,0 +1,8 @@
+export async function register() {
+  // Fail fast on an invalid Self disclosure policy instead of on the first verification request
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { loadDisclosurePolicy } = await import("~~/services/self/policy");
+    const policy = loadDisclosurePolicy();
+    console.log(`Self disclosure policy ${policy.version} (${policy.hash}) loaded`);
+  }
+}
@@ -3,6 +3,9 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   devIndicators: false,
+  // The indexer package ships TypeScript sources, its SQLite binding has to stay a native require
+  transpilePackages: ["@se-2/indexer"],
+  serverExternalPackages: ["better-sqlite3"],
   typescript: {
     ignoreBuildErrors: process.env.NEXT_PUBLIC_IGNORE_BUILD_ERROR === "true",
   },
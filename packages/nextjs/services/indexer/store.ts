@@ -0,0 +1,23 @@
+import { IndexerDatabase, openIndexerDatabase } from "@se-2/indexer/db";
+import path from "node:path";
+
+// `yarn indexer:start` writes the store next to the indexer package by default
+const DEFAULT_DB_PATH = path.join(process.cwd(), "../indexer/indexer.db");
+
+let database: IndexerDatabase | undefined;
+
+/**
+ * Read-only handle on the SQLite store written by `packages/indexer`, opened once per server process.
+ * Returns undefined while the indexer has not created the store yet, so routes can answer 503 instead of throwing.
+ */
+export const getIndexerDatabase = () => {
+  if (database) return database;
+
+  try {
+    database = openIndexerDatabase(process.env.INDEXER_DB_PATH || DEFAULT_DB_PATH, { readonly: true });
+  } catch (error) {
+    console.error("Indexer store unavailable:", error instanceof Error ? error.message : error);
+    return undefined;
+  }
+  return database;
+};
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import {
+  NotificationAction,
+  NotificationAuthError,
+  SignedNotificationRequest,
+  verifyNotificationRequest,
+} from "@se-2/indexer/notificationAuth";
+import { NotificationStore } from "@se-2/indexer/notificationStore";
+import { isAddress, isHex } from "viem";
+
+/**
+ * Parses a signed request body for one of `actions` and checks its signature against the wallet's replay guard.
+ * Throws a `NotificationAuthError` for anything that should not be acted on.
+ */
+export const authenticateRequest = async <A extends NotificationAction["action"]>(
+  store: NotificationStore,
+  body: unknown,
+  actions: A[],
+) => {
+  const request = body as Partial<SignedNotificationRequest> | null;
+  if (!request || typeof request !== "object") throw new NotificationAuthError("Expected a JSON body");
+  if (!request.wallet || !isAddress(request.wallet)) throw new NotificationAuthError("Invalid wallet");
+  if (!request.signature || !isHex(request.signature)) throw new NotificationAuthError("Missing signature");
+  if (!actions.includes(request.action as A)) throw new NotificationAuthError(`Unsupported action ${request.action}`);
+  if (!request.payload || typeof request.payload !== "object") throw new NotificationAuthError("Missing payload");
+
+  const signed = request as SignedNotificationRequest & { action: A };
+  await verifyNotificationRequest(signed, {
+    lastIssuedAt: store.getSubscription(signed.wallet)?.lastIssuedAt,
+    now: Math.floor(Date.now() / 1000),
+  });
+  return signed;
+};
+
+export const notificationErrorResponse = (error: unknown) => {
+  if (error instanceof NotificationAuthError) {
+    return NextResponse.json({ status: "error", message: error.message }, { status: 401 });
+  }
+  console.error("Notification request failed:", error);
+  return NextResponse.json({ status: "error", message: "Internal error" }, { status: 500 });
+};
+
+export const storeUnavailableResponse = () =>
+  NextResponse.json({ status: "error", message: "Notification store unavailable" }, { status: 503 });
@@ -0,0 +1,23 @@
+import { NotificationStore, openNotificationStore } from "@se-2/indexer/notificationStore";
+import path from "node:path";
+
+// `yarn notifier:start` reads the store from next to the indexer package by default
+const DEFAULT_DB_PATH = path.join(process.cwd(), "../indexer/notifications.db");
+
+let store: NotificationStore | undefined;
+
+/**
+ * Writable handle on the notification store shared with the notifier, opened once per server process.
+ * Unlike the indexer store it is created here when missing: wallets can subscribe before the notifier first runs.
+ */
+export const getNotificationStore = () => {
+  if (store) return store;
+
+  try {
+    store = openNotificationStore(process.env.NOTIFICATIONS_DB_PATH || DEFAULT_DB_PATH);
+  } catch (error) {
+    console.error("Notification store unavailable:", error instanceof Error ? error.message : error);
+    return undefined;
+  }
+  return store;
+};
@@ -0,0 +1,142 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { sha256, toBytes } from "viem";
+import { SELF_DOCUMENT_TYPES, SelfDisclosurePolicy, SelfDocumentType } from "~~/utils/trust/self";
+
+// Matches the configuration this route shipped with before policies were configurable
+const DEFAULT_POLICY = {
+  version: "default",
+  minimumAge: 18,
+  excludedCountries: [] as string[],
+  ofac: false,
+  acceptedDocuments: [...SELF_DOCUMENT_TYPES] as SelfDocumentType[],
+};
+
+/**
+ * Thrown when the configured policy is invalid, listing every problem at once
+ */
+export class DisclosurePolicyError extends Error {
+  constructor(
+    readonly source: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid Self disclosure policy (${source}):\n- ${issues.join("\n- ")}`);
+    this.name = "DisclosurePolicyError";
+  }
+}
+
+type RawPolicy = Partial<Record<keyof typeof DEFAULT_POLICY, unknown>>;
+
+// Empty values (as left by copying .env.example) count as unset
+const readEnv = (name: string) => process.env[name] || undefined;
+
+const splitList = (value?: string) =>
+  value === undefined
+    ? undefined
+    : value
+        .split(",")
+        .map(item => item.trim())
+        .filter(Boolean);
+
+const parseEnvBoolean = (value?: string) => {
+  if (value === undefined) return undefined;
+  if (value === "true" || value === "false") return value === "true";
+  return value;
+};
+
+const stripUndefined = (raw: RawPolicy): RawPolicy =>
+  Object.fromEntries(Object.entries(raw).filter(([, value]) => value !== undefined));
+
+const readRawPolicy = (): { source: string; raw: RawPolicy } => {
+  const policyFile = readEnv("SELF_POLICY_FILE");
+  if (policyFile) {
+    const path = resolve(process.cwd(), policyFile);
+    try {
+      return { source: path, raw: JSON.parse(readFileSync(path, "utf8")) };
+    } catch (error) {
+      throw new DisclosurePolicyError(path, [error instanceof Error ? error.message : String(error)]);
+    }
+  }
+
+  const minimumAge = readEnv("SELF_POLICY_MINIMUM_AGE");
+  const acceptedDocuments = readEnv("SELF_POLICY_ACCEPTED_DOCUMENTS");
+  return {
+    source: "environment",
+    raw: {
+      version: readEnv("SELF_POLICY_VERSION"),
+      minimumAge: minimumAge === undefined ? undefined : Number(minimumAge),
+      excludedCountries: splitList(readEnv("SELF_POLICY_EXCLUDED_COUNTRIES")),
+      ofac: parseEnvBoolean(readEnv("SELF_POLICY_OFAC")),
+      acceptedDocuments: acceptedDocuments === "all" ? [...SELF_DOCUMENT_TYPES] : splitList(acceptedDocuments),
+    },
+  };
+};
+
+const validatePolicy = (source: string, raw: RawPolicy): SelfDisclosurePolicy => {
+  const issues: string[] = [];
+  const { version, minimumAge, excludedCountries, ofac, acceptedDocuments } = {
+    ...DEFAULT_POLICY,
+    ...stripUndefined(raw),
+  };
+
+  if (typeof version !== "string" || version.length === 0) {
+    issues.push("version must be a non-empty string");
+  }
+  if (typeof minimumAge !== "number" || !Number.isInteger(minimumAge) || minimumAge < 0 || minimumAge > 125) {
+    issues.push(`minimumAge must be an integer between 0 and 125, got ${String(minimumAge)}`);
+  }
+  if (!Array.isArray(excludedCountries)) {
+    issues.push("excludedCountries must be a list of ISO 3166-1 alpha-3 codes");
+  } else {
+    excludedCountries
+      .filter(code => typeof code !== "string" || !/^[A-Z]{3}$/.test(code))
+      .forEach(code => issues.push(`excludedCountries: ${JSON.stringify(code)} is not an ISO 3166-1 alpha-3 code`));
+  }
+  if (typeof ofac !== "boolean") {
+    issues.push(`ofac must be true or false, got ${JSON.stringify(ofac)}`);
+  }
+  if (!Array.isArray(acceptedDocuments) || acceptedDocuments.length === 0) {
+    issues.push(`acceptedDocuments must list at least one of ${SELF_DOCUMENT_TYPES.join(", ")} (or "all" in env)`);
+  } else {
+    acceptedDocuments
+      .filter(document => !(SELF_DOCUMENT_TYPES as readonly unknown[]).includes(document))
+      .forEach(document =>
+        issues.push(
+          `acceptedDocuments: unknown document type ${JSON.stringify(document)}, expected one of ${SELF_DOCUMENT_TYPES.join(", ")}`,
+        ),
+      );
+  }
+
+  if (issues.length > 0) throw new DisclosurePolicyError(source, issues);
+
+  const rules = {
+    minimumAge: minimumAge as number,
+    excludedCountries: [...new Set(excludedCountries as string[])].sort(),
+    ofac: ofac as boolean,
+    acceptedDocuments: SELF_DOCUMENT_TYPES.filter(document => (acceptedDocuments as string[]).includes(document)),
+  };
+
+  return {
+    version: version as string,
+    hash: sha256(toBytes(JSON.stringify(rules))).slice(2, 10),
+    ...rules,
+  };
+};
+
+let activePolicy: SelfDisclosurePolicy | undefined;
+
+/**
+ * Loads the Self disclosure policy once per server process.
+ *
+ * `SELF_POLICY_FILE` points to a JSON file (see `services/self/policy.example.json`). Without it the rules come from
+ * `SELF_POLICY_VERSION`, `SELF_POLICY_MINIMUM_AGE`, `SELF_POLICY_EXCLUDED_COUNTRIES` (comma separated alpha-3 codes),
+ * `SELF_POLICY_OFAC` and `SELF_POLICY_ACCEPTED_DOCUMENTS` (comma separated or `all`). Missing rules keep the defaults.
+ * Called from `instrumentation.ts` so a bad policy stops the server at startup.
+ */
+export const loadDisclosurePolicy = (): SelfDisclosurePolicy => {
+  if (!activePolicy) {
+    const { source, raw } = readRawPolicy();
+    activePolicy = validatePolicy(source, raw);
+  }
+  return activePolicy;
+};
@@ -0,0 +1,119 @@
+import {
+  Address,
+  Hash,
+  Hex,
+  createPublicClient,
+  createWalletClient,
+  http,
+  isAddressEqual,
+  parseAbiItem,
+  zeroAddress,
+  zeroHash,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { TRUST_CONTRACT_ABI } from "~~/contracts/TrustContract";
+import { SelfRelayerConfig } from "~~/services/self/relayerConfig";
+
+export type SelfRelayResult = {
+  txHash?: Hash;
+  // True when the nullifier was already bound to this wallet before this request
+  alreadyBound: boolean;
+};
+
+/**
+ * Thrown when the binding can never succeed, e.g. the nullifier belongs to another wallet.
+ * The route maps it to a 409 instead of a generic 500.
+ */
+export class SelfRelayerConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SelfRelayerConflictError";
+  }
+}
+
+const userVerifiedEvent = parseAbiItem("event UserVerifiedWithSelf(address indexed wallet, bytes32 indexed nullifier)");
+
+// In-flight and completed bindings by nullifier, so Self retries and double submits share one transaction
+const relayedBindings = new Map<Hex, { wallet: Address; result: Promise<SelfRelayResult> }>();
+
+const createClients = (config: SelfRelayerConfig) => {
+  const transport = http(config.rpcUrl);
+  return {
+    publicClient: createPublicClient({ chain: config.chain, transport }),
+    walletClient: createWalletClient({
+      account: privateKeyToAccount(config.privateKey),
+      chain: config.chain,
+      transport,
+    }),
+  };
+};
+
+const relayBinding = async (config: SelfRelayerConfig, nullifier: Hex, wallet: Address): Promise<SelfRelayResult> => {
+  const { publicClient, walletClient } = createClients(config);
+  const trustContract = { address: config.trustContractAddress, abi: TRUST_CONTRACT_ABI } as const;
+
+  // The chain is the source of truth across server restarts: check for an earlier binding before sending anything
+  // `getUserNullifier` reverts for unverified wallets, the public mapping reads a zero nullifier instead
+  const [boundWallet, [walletNullifier]] = await Promise.all([
+    publicClient.readContract({ ...trustContract, functionName: "nullifierToWallet", args: [nullifier] }),
+    publicClient.readContract({ ...trustContract, functionName: "userVerifications", args: [wallet] }),
+  ]);
+
+  if (boundWallet !== zeroAddress) {
+    if (!isAddressEqual(boundWallet, wallet)) {
+      throw new SelfRelayerConflictError("Nullifier is already bound to another wallet");
+    }
+
+    const logs = await publicClient
+      .getLogs({
+        address: config.trustContractAddress,
+        event: userVerifiedEvent,
+        args: { wallet, nullifier },
+        fromBlock: config.trustContractDeployedOnBlock ? BigInt(config.trustContractDeployedOnBlock) : "earliest",
+      })
+      .catch(() => []);
+    return { txHash: logs[0]?.transactionHash ?? undefined, alreadyBound: true };
+  }
+
+  if (walletNullifier !== zeroHash) {
+    throw new SelfRelayerConflictError("Wallet is already verified with a different nullifier");
+  }
+
+  const txHash = await walletClient.writeContract({
+    ...trustContract,
+    functionName: "verifySelfProof",
+    args: [nullifier, wallet],
+    gas: config.gasLimit,
+    maxFeePerGas: config.maxFeePerGas,
+    maxPriorityFeePerGas: config.maxPriorityFeePerGas,
+  });
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash, timeout: config.receiptTimeoutMs });
+  if (receipt.status !== "success") {
+    throw new Error(`verifySelfProof reverted in ${txHash}`);
+  }
+
+  return { txHash, alreadyBound: false };
+};
+
+/**
+ * Binds a verified Self nullifier to the wallet with `TrustContract.verifySelfProof`, signed by the relayer key.
+ * Idempotent per nullifier: concurrent and repeated calls resolve to the same transaction, and failed attempts are
+ * forgotten so the next call retries.
+ */
+export const bindNullifierOnChain = (config: SelfRelayerConfig, nullifier: Hex, wallet: Address) => {
+  const existing = relayedBindings.get(nullifier);
+  if (existing) {
+    if (!isAddressEqual(existing.wallet, wallet)) {
+      return Promise.reject(new SelfRelayerConflictError("Nullifier is already bound to another wallet"));
+    }
+    return existing.result;
+  }
+
+  const result = relayBinding(config, nullifier, wallet).catch(error => {
+    relayedBindings.delete(nullifier);
+    throw error;
+  });
+  relayedBindings.set(nullifier, { wallet, result });
+  return result;
+};
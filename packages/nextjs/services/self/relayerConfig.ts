@@ -0,0 +1,75 @@
+import { Address, Chain, Hex, isHex, parseGwei } from "viem";
+import * as chains from "viem/chains";
+import scaffoldConfig, { ScaffoldConfig } from "~~/scaffold.config";
+import { contracts } from "~~/utils/scaffold-eth/contract";
+
+// First prefunded anvil account, only ever used when SELF_RELAYER_MODE=local
+const ANVIL_DEFAULT_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+const ANVIL_RPC_URL = "http://127.0.0.1:8545";
+
+const DEFAULT_CHAIN_ID = 11142220;
+// verifySelfProof writes three storage slots and emits one event, ~120k gas on Celo Sepolia
+const DEFAULT_GAS_LIMIT = 200_000n;
+const DEFAULT_RECEIPT_TIMEOUT_MS = 60_000;
+
+export type SelfRelayerConfig = {
+  chain: Chain;
+  rpcUrl: string;
+  privateKey: Hex;
+  trustContractAddress: Address;
+  trustContractDeployedOnBlock?: number;
+  gasLimit: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  receiptTimeoutMs: number;
+};
+
+const parseOptionalGwei = (value?: string) => (value ? parseGwei(value) : undefined);
+
+/**
+ * Reads the relayer settings from the server environment.
+ *
+ * - `SELF_RELAYER_MODE=local` targets the anvil chain on 127.0.0.1:8545 and falls back to the first anvil account.
+ * - Otherwise `SELF_RELAYER_PRIVATE_KEY` is required and `SELF_RELAYER_CHAIN_ID` selects one of the scaffold target
+ *   networks (Celo Sepolia by default).
+ * - `SELF_RELAYER_RPC_URL`, `SELF_RELAYER_GAS_LIMIT`, `SELF_RELAYER_MAX_FEE_PER_GAS_GWEI`,
+ *   `SELF_RELAYER_MAX_PRIORITY_FEE_PER_GAS_GWEI` and `SELF_RELAYER_RECEIPT_TIMEOUT_MS` override the defaults.
+ *
+ * Returns undefined when no relayer key is configured, in which case the wallet binds its own nullifier.
+ */
+export const getSelfRelayerConfig = (): SelfRelayerConfig | undefined => {
+  const isLocal = process.env.SELF_RELAYER_MODE === "local";
+  const privateKey = process.env.SELF_RELAYER_PRIVATE_KEY || (isLocal ? ANVIL_DEFAULT_PRIVATE_KEY : undefined);
+  if (!privateKey) return undefined;
+  if (!isHex(privateKey) || privateKey.length !== 66) {
+    throw new Error("SELF_RELAYER_PRIVATE_KEY must be a 0x-prefixed 32 byte hex string");
+  }
+
+  const chainId = isLocal ? chains.foundry.id : Number(process.env.SELF_RELAYER_CHAIN_ID || DEFAULT_CHAIN_ID);
+  const chain = isLocal ? chains.foundry : scaffoldConfig.targetNetworks.find(network => network.id === chainId);
+  if (!chain) {
+    throw new Error(`SELF_RELAYER_CHAIN_ID ${chainId} is not one of the scaffold target networks`);
+  }
+
+  const trustContract = contracts?.[chainId]?.TrustContract;
+  if (!trustContract) {
+    throw new Error(`TrustContract is not deployed on chain ${chainId}, run \`yarn deploy\` first`);
+  }
+
+  const rpcOverrides = scaffoldConfig.rpcOverrides as ScaffoldConfig["rpcOverrides"];
+  const rpcUrl =
+    process.env.SELF_RELAYER_RPC_URL ||
+    (isLocal ? ANVIL_RPC_URL : rpcOverrides?.[chainId] || chain.rpcUrls.default.http[0]);
+
+  return {
+    chain,
+    rpcUrl,
+    privateKey,
+    trustContractAddress: trustContract.address,
+    trustContractDeployedOnBlock: trustContract.deployedOnBlock,
+    gasLimit: process.env.SELF_RELAYER_GAS_LIMIT ? BigInt(process.env.SELF_RELAYER_GAS_LIMIT) : DEFAULT_GAS_LIMIT,
+    maxFeePerGas: parseOptionalGwei(process.env.SELF_RELAYER_MAX_FEE_PER_GAS_GWEI),
+    maxPriorityFeePerGas: parseOptionalGwei(process.env.SELF_RELAYER_MAX_PRIORITY_FEE_PER_GAS_GWEI),
+    receiptTimeoutMs: Number(process.env.SELF_RELAYER_RECEIPT_TIMEOUT_MS || DEFAULT_RECEIPT_TIMEOUT_MS),
+  };
+};
@@ -0,0 +1,28 @@
+import { Address } from "viem";
+import { SelfVerificationData } from "~~/utils/trust/self";
+
+// Results only need to live long enough for the frontend poll to pick them up
+const VERIFICATION_TTL_MS = 15 * 60 * 1000;
+
+const verifications = new Map<string, SelfVerificationData>();
+
+const toKey = (walletAddress: Address) => walletAddress.toLowerCase();
+
+/**
+ * Keeps the latest successful Self verification per wallet in memory.
+ * The Self app posts the proof to the backend, not to the browser, so the frontend polls for it here.
+ */
+export const saveVerification = (verification: SelfVerificationData) => {
+  verifications.set(toKey(verification.walletAddress), verification);
+};
+
+export const getVerification = (walletAddress: Address) => {
+  const verification = verifications.get(toKey(walletAddress));
+  if (!verification) return undefined;
+
+  if (Date.now() - verification.verificationTime > VERIFICATION_TTL_MS) {
+    verifications.delete(toKey(walletAddress));
+    return undefined;
+  }
+  return verification;
+};
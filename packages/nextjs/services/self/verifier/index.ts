@@ -0,0 +1,29 @@
+import { createMockVerifier } from "./mockVerifier";
+import { createSelfVerifier } from "./selfVerifier";
+import { IdentityVerifier } from "./types";
+import { SelfDisclosurePolicy } from "~~/utils/trust/self";
+
+export * from "./mockVerifier";
+export * from "./types";
+
+/**
+ * Picks the proof backend from `SELF_VERIFIER`: `self` (default) or `mock` for offline CI and dev machines
+ */
+export const createIdentityVerifier = (policy: SelfDisclosurePolicy): IdentityVerifier => {
+  const verifier = process.env.SELF_VERIFIER || "self";
+
+  switch (verifier) {
+    case "self":
+      return createSelfVerifier(policy);
+    case "mock":
+      // Anyone holding the signer key can mint proofs, and the relayer would bind them on-chain
+      if (process.env.NODE_ENV === "production") {
+        throw new Error(
+          "SELF_VERIFIER=mock accepts self-signed fixture proofs and cannot run with NODE_ENV=production",
+        );
+      }
+      return createMockVerifier(policy);
+    default:
+      throw new Error(`Unknown SELF_VERIFIER "${verifier}", expected "self" or "mock"`);
+  }
+};
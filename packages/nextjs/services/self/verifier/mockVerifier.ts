@@ -0,0 +1,175 @@
+import { IdentityVerifier } from "./types";
+import {
+  Address,
+  Hex,
+  encodeAbiParameters,
+  getAddress,
+  hexToBigInt,
+  isAddress,
+  isAddressEqual,
+  isHex,
+  keccak256,
+  parseAbiParameters,
+  verifyTypedData,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { SELF_DOCUMENT_ATTESTATION_IDS, SELF_SCOPE, SelfDisclosurePolicy } from "~~/utils/trust/self";
+
+// Anvil account #9, keeps the checked-in fixtures valid without any configuration. Its private key is public, so it is
+// only accepted outside production
+const DEFAULT_MOCK_SIGNER: Address = "0xa0Ee7A142d267C1f36714E4a8F75612F20a79720";
+
+const getMockSigner = () => {
+  const configured = process.env.MOCK_SELF_SIGNER_ADDRESS;
+  const isProduction = process.env.NODE_ENV === "production";
+  if (isProduction && (!configured || isAddressEqual(getAddress(configured), DEFAULT_MOCK_SIGNER))) {
+    throw new Error(
+      "The mock Self verifier needs its own MOCK_SELF_SIGNER_ADDRESS in production, not the anvil default",
+    );
+  }
+  return getAddress(configured || DEFAULT_MOCK_SIGNER);
+};
+
+const MOCK_PROOF_DOMAIN = { name: "TrustProtocol Mock Self Verifier", version: "1" } as const;
+
+const MOCK_PROOF_TYPES = {
+  MockSelfProof: [
+    { name: "walletAddress", type: "address" },
+    { name: "documentNumber", type: "string" },
+    { name: "nationality", type: "string" },
+    { name: "dateOfBirth", type: "string" },
+    { name: "ofac", type: "bool" },
+  ],
+} as const;
+
+export type MockSelfFixture = {
+  walletAddress: Address;
+  documentNumber: string;
+  // ISO 3166-1 alpha-3, as disclosed by Self
+  nationality: string;
+  // YYYY-MM-DD
+  dateOfBirth: string;
+  // True if the holder is on a sanctions list
+  ofac: boolean;
+};
+
+export type MockSelfProof = {
+  fixture: MockSelfFixture;
+  signature: Hex;
+};
+
+const isMockSelfProof = (proof: unknown): proof is MockSelfProof => {
+  const candidate = proof as MockSelfProof | undefined;
+  return Boolean(
+    candidate?.fixture &&
+      isHex(candidate.signature) &&
+      isAddress(candidate.fixture.walletAddress) &&
+      typeof candidate.fixture.documentNumber === "string" &&
+      typeof candidate.fixture.nationality === "string" &&
+      typeof candidate.fixture.dateOfBirth === "string" &&
+      typeof candidate.fixture.ofac === "boolean",
+  );
+};
+
+const getAge = (dateOfBirth: string, now: Date) => {
+  const birth = new Date(`${dateOfBirth}T00:00:00Z`);
+  let age = now.getUTCFullYear() - birth.getUTCFullYear();
+  const hadBirthday =
+    now.getUTCMonth() > birth.getUTCMonth() ||
+    (now.getUTCMonth() === birth.getUTCMonth() && now.getUTCDate() >= birth.getUTCDate());
+  if (!hadBirthday) age--;
+  return age;
+};
+
+/**
+ * Same document in the same scope always yields the same nullifier, mirroring Self
+ */
+export const getMockNullifier = (fixture: Pick<MockSelfFixture, "documentNumber" | "nationality">) =>
+  hexToBigInt(
+    keccak256(
+      encodeAbiParameters(parseAbiParameters("string, string, string"), [
+        SELF_SCOPE,
+        fixture.nationality,
+        fixture.documentNumber,
+      ]),
+    ),
+  ).toString();
+
+/**
+ * Signs a fixture for the mock verifier. Used to produce `fixtures/mockProofs.json` and by scripts that need proofs for
+ * other wallets.
+ */
+export const signMockSelfProof = async (signerPrivateKey: Hex, fixture: MockSelfFixture): Promise<MockSelfProof> => {
+  const signature = await privateKeyToAccount(signerPrivateKey).signTypedData({
+    domain: MOCK_PROOF_DOMAIN,
+    types: MOCK_PROOF_TYPES,
+    primaryType: "MockSelfProof",
+    message: fixture,
+  });
+  return { fixture, signature };
+};
+
+/**
+ * Offline stand-in for Self: accepts fixtures signed by `MOCK_SELF_SIGNER_ADDRESS` (anvil account #9 by default outside
+ * production), applies the disclosure policy and returns deterministic nullifiers.
+ */
+export const createMockVerifier = (policy: SelfDisclosurePolicy): IdentityVerifier => {
+  const signer = getMockSigner();
+
+  return {
+    name: "mock",
+    verify: async ({ attestationId, proof, walletAddress }) => {
+      if (!isMockSelfProof(proof)) {
+        return { isValid: false, rejectedRule: "proof", details: { reason: "Malformed mock proof" } };
+      }
+
+      const { fixture, signature } = proof;
+      const isSigned = await verifyTypedData({
+        address: signer,
+        domain: MOCK_PROOF_DOMAIN,
+        types: MOCK_PROOF_TYPES,
+        primaryType: "MockSelfProof",
+        message: fixture,
+        signature,
+      });
+      if (!isSigned) {
+        return {
+          isValid: false,
+          rejectedRule: "proof",
+          details: { reason: "Fixture is not signed by the mock signer" },
+        };
+      }
+      if (!isAddressEqual(fixture.walletAddress, walletAddress)) {
+        return {
+          isValid: false,
+          rejectedRule: "proof",
+          details: { reason: "Fixture was issued for a different wallet" },
+        };
+      }
+
+      // Same rule order as the Self hub checks them
+      const acceptedIds = policy.acceptedDocuments.map(document => SELF_DOCUMENT_ATTESTATION_IDS[document]);
+      if (!acceptedIds.some(id => id === Number(attestationId))) {
+        return { isValid: false, rejectedRule: "acceptedDocuments", details: { attestationId } };
+      }
+      if (getAge(fixture.dateOfBirth, new Date()) < policy.minimumAge) {
+        return { isValid: false, rejectedRule: "minimumAge", details: { minimumAge: policy.minimumAge } };
+      }
+      if (policy.excludedCountries.includes(fixture.nationality)) {
+        return { isValid: false, rejectedRule: "excludedCountries", details: { nationality: fixture.nationality } };
+      }
+      if (policy.ofac && fixture.ofac) {
+        return { isValid: false, rejectedRule: "ofac", details: { ofac: true } };
+      }
+
+      return {
+        isValid: true,
+        nullifier: getMockNullifier(fixture),
+        disclosedAttributes: {
+          minimumAge: String(policy.minimumAge),
+          nationality: fixture.nationality,
+        },
+      };
+    },
+  };
+};
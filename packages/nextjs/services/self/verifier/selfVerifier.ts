@@ -0,0 +1,81 @@
+import { IdentityVerifier } from "./types";
+import {
+  AttestationId,
+  ConfigMismatch,
+  ConfigMismatchError,
+  DefaultConfigStore,
+  SelfBackendVerifier,
+  VerificationConfig,
+} from "@selfxyz/core";
+import {
+  SELF_DOCUMENT_ATTESTATION_IDS,
+  SELF_ENDPOINT,
+  SELF_SCOPE,
+  SelfDisclosurePolicy,
+  SelfDisclosureRule,
+} from "~~/utils/trust/self";
+
+const MISMATCH_RULES: Partial<Record<ConfigMismatch, SelfDisclosureRule>> = {
+  [ConfigMismatch.InvalidId]: "acceptedDocuments",
+  [ConfigMismatch.InvalidAttestationId]: "acceptedDocuments",
+  [ConfigMismatch.InvalidMinimumAge]: "minimumAge",
+  [ConfigMismatch.InvalidForbiddenCountriesList]: "excludedCountries",
+  [ConfigMismatch.InvalidOfac]: "ofac",
+};
+
+/**
+ * Verifies real Self.xyz proofs against the Self identity hub, enforcing the given disclosure policy
+ */
+export const createSelfVerifier = (policy: SelfDisclosurePolicy): IdentityVerifier => {
+  const selfBackendVerifier = new SelfBackendVerifier(
+    SELF_SCOPE, // Your app's unique scope
+    SELF_ENDPOINT, // Your public endpoint
+    process.env.NODE_ENV !== "production", // true = testnet, false = mainnet
+    new Map(policy.acceptedDocuments.map(document => [SELF_DOCUMENT_ATTESTATION_IDS[document] as AttestationId, true])),
+    // Must match the disclosures requested by the QR code, which reads them from GET /api/verify-self
+    new DefaultConfigStore({
+      minimumAge: policy.minimumAge,
+      excludedCountries: policy.excludedCountries as VerificationConfig["excludedCountries"],
+      ofac: policy.ofac,
+    }),
+    "hex", // Use "hex" for wallet addresses
+  );
+
+  return {
+    name: "self",
+    verify: async ({ attestationId, proof, publicSignals, userContextData }) => {
+      let result: Awaited<ReturnType<SelfBackendVerifier["verify"]>>;
+      try {
+        result = await selfBackendVerifier.verify(
+          attestationId as AttestationId,
+          proof as Parameters<SelfBackendVerifier["verify"]>[1],
+          publicSignals as Parameters<SelfBackendVerifier["verify"]>[2],
+          userContextData as string,
+        );
+      } catch (error) {
+        if (!(error instanceof ConfigMismatchError)) throw error;
+
+        const rejectedRule = error.issues.map(issue => MISMATCH_RULES[issue.type]).find(Boolean) ?? "proof";
+        return { isValid: false, rejectedRule, details: error.issues };
+      }
+
+      if (!result.isValidDetails.isValid) {
+        const { isMinimumAgeValid, isOfacValid } = result.isValidDetails;
+        const rejectedRule = !isMinimumAgeValid ? "minimumAge" : !isOfacValid ? "ofac" : "proof";
+        return { isValid: false, rejectedRule, details: result.isValidDetails };
+      }
+      if (!result.discloseOutput?.nullifier) {
+        throw new Error("Invalid verification result: missing nullifier");
+      }
+
+      return {
+        isValid: true,
+        nullifier: result.discloseOutput.nullifier,
+        disclosedAttributes: {
+          minimumAge: result.discloseOutput.minimumAge,
+          nationality: result.discloseOutput.nationality,
+        },
+      };
+    },
+  };
+};
@@ -0,0 +1,37 @@
+import { Address } from "viem";
+import { SelfDisclosureRule } from "~~/utils/trust/self";
+
+export type IdentityVerificationRequest = {
+  attestationId: unknown;
+  proof: unknown;
+  publicSignals: unknown;
+  userContextData: unknown;
+  // Wallet parsed from userContextData by the route
+  walletAddress: Address;
+};
+
+export type IdentityVerificationResult =
+  | {
+      isValid: true;
+      // Decimal field element, as returned by Self
+      nullifier: string;
+      disclosedAttributes: {
+        minimumAge?: string;
+        nationality?: string;
+      };
+    }
+  | {
+      isValid: false;
+      // Policy rule the proof failed, or "proof" when the proof itself is invalid
+      rejectedRule: SelfDisclosureRule | "proof";
+      details: unknown;
+    };
+
+/**
+ * Proof backend used by `/api/verify-self`.
+ * Implementations must return the same nullifier for the same identity document so it can only be bound once.
+ */
+export interface IdentityVerifier {
+  readonly name: string;
+  verify(request: IdentityVerificationRequest): Promise<IdentityVerificationResult>;
+}
@@ -0,0 +1,265 @@
+import type { LoanRow } from "@se-2/indexer/schema";
+import { Address, getAddress } from "viem";
+import { GraphEdge, TrustGraph } from "~~/utils/trust/graph";
+import { calculateYield, getBorrowLimitComponents } from "~~/utils/trust/score";
+
+/**
+ * A bond a default settles: `LendingPool.liquidate` runs `claimAllUserYields(defaulter)` over every active, frozen bond
+ * of the defaulter, which pays the yield stored at the freeze out to both partners by stake and resets it. What the bond
+ * earned while frozen is forfeited, and the pool receives none of it.
+ */
+export type BondExposure = {
+  bondId: number;
+  defaulter: Address;
+  counterparty: Address;
+  stake: bigint;
+  counterpartyStake: bigint;
+  // Stored yield the liquidation pays out, and the part paid to the counterparty by stake as `_claimYields` splits it
+  yieldPaidOut: bigint;
+  counterpartyPayout: bigint;
+  // Yield since the last accrual, the freeze for a frozen bond: half of it counts towards each side's
+  // `getUserTotalValue` until the liquidation resets the bond
+  projectedYield: bigint;
+};
+
+export type ContagionDegree = 1 | 2;
+
+export type CounterpartyImpact = {
+  address: Address;
+  degree: ContagionDegree;
+  // Defaulters it shares a bond with for the first degree, first-degree counterparties for the second
+  via: Address[];
+  bonds: BondExposure[];
+  // Projected yield of its settled bonds, which no longer counts towards its collateral once they are reset, and the
+  // stored yield paid to the counterparty itself
+  yieldRemoved: bigint;
+  payoutReceived: bigint;
+  limitBefore: bigint;
+  limitAfter: bigint;
+  activeLoanPrincipal: bigint;
+  // Its own loan would be above its new limit, a likely next default
+  exceedsLimit: boolean;
+};
+
+export type AffectedLoan = {
+  loanId: number;
+  borrower: Address;
+  degree: ContagionDegree;
+  principal: bigint;
+  dueTimestamp: number;
+  limitBefore: bigint;
+  limitAfter: bigint;
+  exceedsLimit: boolean;
+};
+
+export type ContagionReport = {
+  defaulters: Address[];
+  // Active loans of the defaulters, empty for a hypothetical default of a wallet without one
+  defaultedLoans: LoanRow[];
+  defaultedPrincipal: bigint;
+  bonds: BondExposure[];
+  counterparties: CounterpartyImpact[];
+  affectedLoans: AffectedLoan[];
+  totalYieldPaidOut: bigint;
+  // First-degree counterparties whose loans would exceed their limits, and default in turn in the second round
+  cascadingDefaulters: Address[];
+};
+
+/**
+ * `TrustContract._getProjectedYield` of a bond at `now`: the yield earned since its stored yield last accrued
+ */
+export const getProjectedEdgeYield = (edge: GraphEdge, now: bigint) => {
+  const updatedAt = BigInt(edge.yieldUpdatedTimestamp);
+  return calculateYield(edge.stake, now > updatedAt ? now - updatedAt : 0n);
+};
+
+const isOpen = (edge: GraphEdge) => edge.state === "active" || edge.state === "frozen";
+
+const otherSide = (edge: GraphEdge, address: Address) => (edge.creator === address ? edge.partner : edge.creator);
+
+const stakeOf = (edge: GraphEdge, address: Address) =>
+  edge.creator === address ? edge.creatorStake : edge.partnerStake;
+
+/**
+ * Active borrowers ranked by outstanding principal, largest first
+ */
+export const getTopBorrowers = (loans: readonly LoanRow[], count: number): Address[] => {
+  const principals = new Map<Address, bigint>();
+  for (const loan of loans) {
+    if (loan.status !== "active") continue;
+    const borrower = getAddress(loan.borrower);
+    principals.set(borrower, (principals.get(borrower) ?? 0n) + BigInt(loan.amount));
+  }
+  return Array.from(principals.entries())
+    .sort(([, a], [, b]) => (b > a ? 1 : b < a ? -1 : 0))
+    .slice(0, count)
+    .map(([borrower]) => borrower);
+};
+
+/**
+ * Walks the bond graph from `defaulters` to what their defaults would take from everyone else at `now`.
+ *
+ * First round: every bond whose yield a default pays out (the defaulter's frozen bonds, or all its open bonds if it has
+ * no loan yet and is assumed to borrow and default) and the partners on the other side. The partners receive their
+ * share of the stored yield, which never backed their limit: `getUserTotalValue` counts stake plus half of the yield
+ * projected since the last accrual, at 80% LTV. For a frozen bond that is the yield since the freeze, which the
+ * liquidation forfeits; a bond the assumed loan freezes stores it first and pays it out. Either way it leaves the
+ * partner's collateral, and a partner whose own loan ends up above its new limit is assumed to default too.
+ * Second round: the partners of first-degree counterparties, exposed through bonds frozen by those counterparties'
+ * loans, with their limits lowered only by the counterparties that cascade.
+ * Stakes are untouched by a liquidation, only yield moves, and the pool recovers nothing of the defaulted principal.
+ */
+export const analyzeDefaultContagion = (
+  graph: TrustGraph,
+  loans: readonly LoanRow[],
+  defaulters: readonly Address[],
+  now: bigint,
+): ContagionReport => {
+  const defaulterSet = new Set(defaulters.map(address => getAddress(address)));
+  const nodes = new Map(graph.nodes.map(node => [node.address, node]));
+  const openEdges = graph.edges.filter(isOpen);
+  const edgesOf = new Map<Address, GraphEdge[]>();
+  for (const edge of openEdges) {
+    for (const address of [edge.creator, edge.partner]) {
+      if (!edgesOf.has(address)) edgesOf.set(address, []);
+      edgesOf.get(address)!.push(edge);
+    }
+  }
+
+  const activeLoans = loans.filter(loan => loan.status === "active");
+  const loansOf = (address: Address) => activeLoans.filter(loan => getAddress(loan.borrower) === address);
+  const principalOf = (address: Address) => loansOf(address).reduce((sum, loan) => sum + BigInt(loan.amount), 0n);
+
+  const projectedByBond = new Map(openEdges.map(edge => [edge.id, getProjectedEdgeYield(edge, now)]));
+  const limitOf = (address: Address, removedYield: bigint) => {
+    const node = nodes.get(address);
+    const totalValue = (edgesOf.get(address) ?? []).reduce(
+      (sum, edge) => sum + stakeOf(edge, address) + projectedByBond.get(edge.id)! / 2n,
+      0n,
+    );
+    const removed = removedYield / 2n > totalValue ? totalValue : removedYield / 2n;
+    return {
+      before: getBorrowLimitComponents(node?.trustScore ?? 0n, totalValue).total,
+      after: getBorrowLimitComponents(node?.trustScore ?? 0n, totalValue - removed).total,
+    };
+  };
+
+  const exposure = (edge: GraphEdge, defaulter: Address): BondExposure => {
+    const counterparty = otherSide(edge, defaulter);
+    const projectedYield = projectedByBond.get(edge.id)!;
+    // The freeze of a bond that is not frozen yet stores its projected yield, which the liquidation then pays out
+    const yieldPaidOut = edge.state === "frozen" ? edge.accruedYield : edge.accruedYield + projectedYield;
+    const counterpartyStake = stakeOf(edge, counterparty);
+    return {
+      bondId: edge.id,
+      defaulter,
+      counterparty,
+      stake: edge.stake,
+      counterpartyStake,
+      yieldPaidOut,
+      counterpartyPayout: edge.stake > 0n ? (yieldPaidOut * counterpartyStake) / edge.stake : 0n,
+      projectedYield,
+    };
+  };
+
+  // Bonds a default of `defaulter` settles: the frozen ones, or every open one for a wallet without a loan
+  const settledBonds = (defaulter: Address) => {
+    const edges = edgesOf.get(defaulter) ?? [];
+    return loansOf(defaulter).length > 0 ? edges.filter(edge => edge.state === "frozen") : edges;
+  };
+
+  const impactsFrom = (
+    degree: ContagionDegree,
+    sources: readonly Address[],
+    exclude: ReadonlySet<Address>,
+    cascading: ReadonlySet<Address>,
+  ): CounterpartyImpact[] => {
+    const byCounterparty = new Map<Address, { via: Set<Address>; bonds: BondExposure[]; settled: BondExposure[] }>();
+    for (const source of sources) {
+      // First-degree bonds are settled by the default itself, second-degree ones only if the source cascades
+      const edges =
+        degree === 1 ? settledBonds(source) : (edgesOf.get(source) ?? []).filter(edge => edge.state === "frozen");
+      for (const edge of edges) {
+        const bond = exposure(edge, source);
+        if (exclude.has(bond.counterparty)) continue;
+        if (!byCounterparty.has(bond.counterparty)) {
+          byCounterparty.set(bond.counterparty, { via: new Set(), bonds: [], settled: [] });
+        }
+        const entry = byCounterparty.get(bond.counterparty)!;
+        entry.via.add(source);
+        entry.bonds.push(bond);
+        if (degree === 1 || cascading.has(source)) entry.settled.push(bond);
+      }
+    }
+
+    return Array.from(byCounterparty.entries()).map(([address, { via, bonds, settled }]) => {
+      const yieldRemoved = settled.reduce((sum, bond) => sum + bond.projectedYield, 0n);
+      const limit = limitOf(address, yieldRemoved);
+      const activeLoanPrincipal = principalOf(address);
+      return {
+        address,
+        degree,
+        via: Array.from(via),
+        bonds,
+        yieldRemoved,
+        payoutReceived: settled.reduce((sum, bond) => sum + bond.counterpartyPayout, 0n),
+        limitBefore: limit.before,
+        limitAfter: limit.after,
+        activeLoanPrincipal,
+        exceedsLimit: activeLoanPrincipal > 0n && activeLoanPrincipal > limit.after,
+      };
+    });
+  };
+
+  const firstDegree = impactsFrom(1, Array.from(defaulterSet), defaulterSet, new Set());
+  const cascading = new Set(firstDegree.filter(impact => impact.exceedsLimit).map(impact => impact.address));
+  const reached = new Set([...defaulterSet, ...firstDegree.map(impact => impact.address)]);
+  const secondDegree = impactsFrom(
+    2,
+    firstDegree.map(impact => impact.address),
+    reached,
+    cascading,
+  );
+
+  // Over-limit counterparties first, then by how far their limit drops
+  const byExposure = (a: CounterpartyImpact, b: CounterpartyImpact) => {
+    const dropA = a.limitBefore - a.limitAfter;
+    const dropB = b.limitBefore - b.limitAfter;
+    return Number(b.exceedsLimit) - Number(a.exceedsLimit) || (dropB > dropA ? 1 : dropB < dropA ? -1 : 0);
+  };
+  const counterparties = [...firstDegree.sort(byExposure), ...secondDegree.sort(byExposure)];
+
+  const affectedLoans = counterparties.flatMap(impact =>
+    loansOf(impact.address).map(
+      (loan): AffectedLoan => ({
+        loanId: loan.loan_id,
+        borrower: impact.address,
+        degree: impact.degree,
+        principal: BigInt(loan.amount),
+        dueTimestamp: loan.due_timestamp,
+        limitBefore: impact.limitBefore,
+        limitAfter: impact.limitAfter,
+        exceedsLimit: impact.exceedsLimit,
+      }),
+    ),
+  );
+
+  const defaultedLoans = Array.from(defaulterSet).flatMap(loansOf);
+  const bonds = Array.from(defaulterSet).flatMap(defaulter =>
+    settledBonds(defaulter)
+      // A bond between two defaulters is settled once
+      .filter(edge => !defaulterSet.has(otherSide(edge, defaulter)) || defaulter === edge.creator)
+      .map(edge => exposure(edge, defaulter)),
+  );
+
+  return {
+    defaulters: Array.from(defaulterSet),
+    defaultedLoans,
+    defaultedPrincipal: defaultedLoans.reduce((sum, loan) => sum + BigInt(loan.amount), 0n),
+    bonds,
+    counterparties,
+    affectedLoans,
+    totalYieldPaidOut: bonds.reduce((sum, bond) => sum + bond.yieldPaidOut, 0n),
+    cascadingDefaulters: Array.from(cascading),
+  };
+};
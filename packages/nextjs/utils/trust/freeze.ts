@@ -0,0 +1,95 @@
+import { Address, formatEther } from "viem";
+import { SettledBond, accrueYield, calculateYield } from "~~/utils/trust/score";
+
+// What `TrustContract` rejects on a frozen bond, for either side
+export const FROZEN_BOND_ACTIONS = ["exit", "defect", "addStake"] as const;
+
+/**
+ * A bond as the borrower reads it, see `TrustBond`
+ */
+export type FreezableBond = Omit<SettledBond, "addr0" | "addr1"> & {
+  partner: Address;
+  userStake: bigint;
+  partnerStake: bigint;
+  isFrozen: boolean;
+};
+
+export type BondFreezeImpact = {
+  partner: Address;
+  userStake: bigint;
+  partnerStake: bigint;
+  // Stored yield once `freezeAllUserContracts` accrues it, and the partner's share by stake like `_claimYields`
+  yieldAtFreeze: bigint;
+  partnerYieldAtFreeze: bigint;
+  // Yield the bond earns over the loan term while frozen: paid only if the loan is repaid, forfeited on liquidation
+  yieldOverTerm: bigint;
+};
+
+export type FreezeImpactReport = {
+  bonds: BondFreezeImpact[];
+  totalUserStake: bigint;
+  totalPartnerStake: bigint;
+  totalYieldAtFreeze: bigint;
+  totalYieldOverTerm: bigint;
+};
+
+/**
+ * What `LendingPool.borrow` freezes at `now`: every active bond of the borrower that is not frozen yet, which locks
+ * the partner out of `FROZEN_BOND_ACTIONS` until the loan is repaid or liquidated. A liquidation pays the yield stored
+ * at freeze time out to both partners by stake and resets it, so whatever the bonds earned while frozen is forfeited;
+ * the pool keeps none of it.
+ * @param durationSeconds - requested loan term
+ */
+export const getFreezeImpact = (
+  bonds: readonly FreezableBond[],
+  now: bigint,
+  durationSeconds: bigint,
+): FreezeImpactReport => {
+  const impacts = bonds
+    .filter(bond => bond.isActive && !bond.isFrozen)
+    .map((bond): BondFreezeImpact => {
+      const totalStake = bond.stake0 + bond.stake1;
+      const yieldAtFreeze = accrueYield(bond, now);
+      return {
+        partner: bond.partner,
+        userStake: bond.userStake,
+        partnerStake: bond.partnerStake,
+        yieldAtFreeze,
+        partnerYieldAtFreeze: totalStake > 0n ? (yieldAtFreeze * bond.partnerStake) / totalStake : 0n,
+        yieldOverTerm: calculateYield(totalStake, durationSeconds),
+      };
+    })
+    // Largest partner exposure first
+    .sort((a, b) => (b.partnerStake === a.partnerStake ? 0 : b.partnerStake > a.partnerStake ? 1 : -1));
+
+  return {
+    bonds: impacts,
+    totalUserStake: impacts.reduce((sum, bond) => sum + bond.userStake, 0n),
+    totalPartnerStake: impacts.reduce((sum, bond) => sum + bond.partnerStake, 0n),
+    totalYieldAtFreeze: impacts.reduce((sum, bond) => sum + bond.yieldAtFreeze, 0n),
+    totalYieldOverTerm: impacts.reduce((sum, bond) => sum + bond.yieldOverTerm, 0n),
+  };
+};
+
+/**
+ * Plain-text heads-up the borrower can send a partner before borrowing
+ */
+export const buildFreezeMessage = ({
+  impact,
+  amount,
+  dueTimestamp,
+}: {
+  impact: BondFreezeImpact;
+  amount: bigint;
+  dueTimestamp: bigint;
+}) => {
+  const due = new Date(Number(dueTimestamp) * 1000).toISOString().slice(0, 10);
+  return (
+    `Heads-up: I'm about to borrow ${formatEther(amount)} ETH from the lending pool, due ${due}. ` +
+    `Borrowing freezes our trust bond (your ${formatEther(impact.partnerStake)} ETH stake) until I repay or the ` +
+    `loan is liquidated: neither of us can exit, defect or add stake until then. The yield the bond earns meanwhile ` +
+    `is paid only if I repay. If I default, liquidation pays out the yield our bond had accrued when it froze to ` +
+    `both of us by stake, forfeits what it earned since, and unfreezes the bond. Let me know if that doesn't work ` +
+    `for you.`
+  );
+};
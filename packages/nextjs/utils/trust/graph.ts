@@ -0,0 +1,238 @@
+import type { BondRow, UserRow } from "@se-2/indexer/schema";
+import { Address, Hash, Hex, getAddress } from "viem";
+import { ONE_DAY, getUserTrustScore } from "~~/utils/trust/score";
+
+export type EdgeState = "active" | "frozen" | "exited" | "defected";
+
+export type GraphNode = {
+  address: Address;
+  // `TrustScore.getUserTrustScore` at `now`, recomputed from the indexed bonds
+  trustScore: bigint;
+  isVerified: boolean;
+  // Bonds the address ever took part in, and how many of them are active
+  bondCount: number;
+  activeBondCount: number;
+  // Own stake across active bonds
+  activeStake: bigint;
+};
+
+export type GraphEdge = {
+  id: number;
+  contractKey: Hex;
+  creator: Address;
+  partner: Address;
+  state: EdgeState;
+  creatorStake: bigint;
+  partnerStake: bigint;
+  stake: bigint;
+  // Yield `_claimYields` paid out of the bond so far
+  yieldsClaimed: bigint;
+  // Stored yield and when it was last accrued: by `addStake`, a freeze or unfreeze, or a claim
+  accruedYield: bigint;
+  yieldUpdatedTimestamp: number;
+  // Whole days the bond was open: until now for active bonds, until it closed otherwise
+  ageDays: number;
+  createdTimestamp: number;
+  closedTimestamp: number | null;
+  closedBy: Address | null;
+  createdTx: Hash;
+};
+
+export type TrustGraph = {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+};
+
+export type GraphPosition = { x: number; y: number };
+
+export const getEdgeState = (bond: Pick<BondRow, "status" | "is_frozen">): EdgeState =>
+  bond.status === "active" ? (bond.is_frozen ? "frozen" : "active") : bond.status;
+
+/**
+ * Builds the bond graph from the indexer's `bonds` and `users` rows: one node per address, one edge per bond.
+ *
+ * Trust scores follow `TrustScore.getUserTrustScore`, which reads the current state of every key in
+ * `getUserContracts`. A pair that re-bonds after exiting reuses its key, so every row of a key is scored with the
+ * state of the key's latest bond, as on-chain.
+ * @param now - block timestamp in seconds
+ */
+export const buildTrustGraph = (bonds: readonly BondRow[], users: readonly UserRow[], now: bigint): TrustGraph => {
+  const latestByKey = new Map<Hex, BondRow>();
+  for (const bond of bonds) {
+    const latest = latestByKey.get(bond.contract_key);
+    if (!latest || bond.id > latest.id) latestByKey.set(bond.contract_key, bond);
+  }
+
+  const verified = new Set(users.filter(user => user.nullifier !== null).map(user => getAddress(user.address)));
+  const nodes = new Map<Address, GraphNode & { scoredBonds: { createdAt: number; isActive: boolean }[] }>();
+  const nodeOf = (address: Address) => {
+    const key = getAddress(address);
+    let node = nodes.get(key);
+    if (!node) {
+      node = {
+        address: key,
+        trustScore: 0n,
+        isVerified: verified.has(key),
+        bondCount: 0,
+        activeBondCount: 0,
+        activeStake: 0n,
+        scoredBonds: [],
+      };
+      nodes.set(key, node);
+    }
+    return node;
+  };
+  // Verified addresses without bonds are still part of the network
+  for (const address of verified) nodeOf(address);
+
+  const edges = bonds.map((bond): GraphEdge => {
+    const latest = latestByKey.get(bond.contract_key)!;
+    const scored = { createdAt: latest.created_timestamp, isActive: latest.status === "active" };
+    const creatorStake = BigInt(bond.creator_stake);
+    const partnerStake = BigInt(bond.partner_stake);
+    const isActive = bond.status === "active";
+
+    for (const [address, ownStake] of [
+      [bond.creator, creatorStake],
+      [bond.partner, partnerStake],
+    ] as const) {
+      const node = nodeOf(address);
+      node.bondCount++;
+      node.scoredBonds.push(scored);
+      if (isActive) {
+        node.activeBondCount++;
+        node.activeStake += ownStake;
+      }
+    }
+
+    const end = bond.closed_timestamp ?? Number(now);
+    return {
+      id: bond.id,
+      contractKey: bond.contract_key,
+      creator: getAddress(bond.creator),
+      partner: getAddress(bond.partner),
+      state: getEdgeState(bond),
+      creatorStake,
+      partnerStake,
+      stake: creatorStake + partnerStake,
+      yieldsClaimed: BigInt(bond.yields_claimed),
+      accruedYield: BigInt(bond.accrued_yield),
+      yieldUpdatedTimestamp: bond.yield_updated_timestamp,
+      ageDays: Math.max(0, Math.floor((end - bond.created_timestamp) / Number(ONE_DAY))),
+      createdTimestamp: bond.created_timestamp,
+      closedTimestamp: bond.closed_timestamp,
+      closedBy: bond.closed_by && getAddress(bond.closed_by),
+      createdTx: bond.created_tx,
+    };
+  });
+
+  return {
+    nodes: Array.from(nodes.values()).map(({ scoredBonds, ...node }) => ({
+      ...node,
+      // A bond created after `now` (the indexer ran ahead of the block we read) would underflow, skip its time bonus
+      trustScore: getUserTrustScore(
+        scoredBonds.map(bond => ({ ...bond, isActive: bond.isActive && BigInt(bond.createdAt) <= now })),
+        now,
+      ),
+    })),
+    edges,
+  };
+};
+
+/**
+ * The part of `graph` within `depth` bonds of `center`, with every edge between the addresses it keeps
+ */
+export const getEgoNetwork = (graph: TrustGraph, center: Address, depth: number): TrustGraph => {
+  const neighbours = new Map<Address, Set<Address>>();
+  for (const edge of graph.edges) {
+    if (!neighbours.has(edge.creator)) neighbours.set(edge.creator, new Set());
+    if (!neighbours.has(edge.partner)) neighbours.set(edge.partner, new Set());
+    neighbours.get(edge.creator)!.add(edge.partner);
+    neighbours.get(edge.partner)!.add(edge.creator);
+  }
+
+  const start = getAddress(center);
+  const included = new Set<Address>([start]);
+  let frontier = [start];
+  for (let hop = 0; hop < depth; hop++) {
+    frontier = frontier.flatMap(address =>
+      Array.from(neighbours.get(address) ?? []).filter(neighbour => {
+        if (included.has(neighbour)) return false;
+        included.add(neighbour);
+        return true;
+      }),
+    );
+  }
+
+  return {
+    nodes: graph.nodes.filter(node => included.has(node.address)),
+    edges: graph.edges.filter(edge => included.has(edge.creator) && included.has(edge.partner)),
+  };
+};
+
+/**
+ * Fruchterman-Reingold force layout in a `width` x `height` box. Starts from a circle ordered by address, so the same
+ * graph always gets the same picture. Parallel bonds of a pair pull once.
+ */
+export const layoutGraph = (
+  graph: TrustGraph,
+  { width, height, iterations = 300 }: { width: number; height: number; iterations?: number },
+): Map<Address, GraphPosition> => {
+  const addresses = graph.nodes.map(node => node.address).sort();
+  const count = addresses.length;
+  const positions = new Map<Address, GraphPosition>();
+  if (count === 0) return positions;
+
+  const index = new Map(addresses.map((address, i) => [address, i]));
+  const xs = addresses.map((_, i) => width / 2 + (width / 3) * Math.cos((2 * Math.PI * i) / count));
+  const ys = addresses.map((_, i) => height / 2 + (height / 3) * Math.sin((2 * Math.PI * i) / count));
+  const pairs = new Set(
+    graph.edges.map(edge => {
+      const [a, b] = [index.get(edge.creator)!, index.get(edge.partner)!].sort((x, y) => x - y);
+      return `${a}:${b}`;
+    }),
+  );
+  const links = Array.from(pairs).map(pair => pair.split(":").map(Number) as [number, number]);
+
+  const k = Math.sqrt((width * height) / count);
+  let temperature = width / 10;
+  const cooling = temperature / (iterations + 1);
+
+  for (let iteration = 0; iteration < iterations && count > 1; iteration++) {
+    const dx = new Array<number>(count).fill(0);
+    const dy = new Array<number>(count).fill(0);
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const deltaX = xs[i] - xs[j] || 0.01;
+        const deltaY = ys[i] - ys[j] || 0.01;
+        const distance = Math.hypot(deltaX, deltaY);
+        const force = (k * k) / distance;
+        dx[i] += (deltaX / distance) * force;
+        dy[i] += (deltaY / distance) * force;
+        dx[j] -= (deltaX / distance) * force;
+        dy[j] -= (deltaY / distance) * force;
+      }
+    }
+    for (const [a, b] of links) {
+      const deltaX = xs[a] - xs[b];
+      const deltaY = ys[a] - ys[b];
+      const distance = Math.hypot(deltaX, deltaY) || 0.01;
+      const force = (distance * distance) / k;
+      dx[a] -= (deltaX / distance) * force;
+      dy[a] -= (deltaY / distance) * force;
+      dx[b] += (deltaX / distance) * force;
+      dy[b] += (deltaY / distance) * force;
+    }
+    for (let i = 0; i < count; i++) {
+      const displacement = Math.hypot(dx[i], dy[i]) || 1;
+      const step = Math.min(displacement, temperature);
+      xs[i] = Math.min(width - 20, Math.max(20, xs[i] + (dx[i] / displacement) * step));
+      ys[i] = Math.min(height - 20, Math.max(20, ys[i] + (dy[i] / displacement) * step));
+    }
+    temperature -= cooling;
+  }
+
+  addresses.forEach((address, i) => positions.set(address, { x: xs[i], y: ys[i] }));
+  return positions;
+};
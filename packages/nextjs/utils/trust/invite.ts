@@ -0,0 +1,49 @@
+import { Address, formatEther, getAddress, isAddress, parseEther } from "viem";
+
+export const INVITE_PATH = "/invite";
+export const MAX_INVITE_NOTE_LENGTH = 280;
+
+/**
+ * What an invite link carries. Nothing in it is signed: the bond itself is read from the chain on the invite page,
+ * `stake` and `note` are only the creator's suggestion to the partner.
+ */
+export type BondInvite = {
+  creator: Address;
+  // Suggested partner stake in wei, undefined to let the partner choose
+  stake?: bigint;
+  note: string;
+};
+
+/**
+ * Builds the shareable link for an invite, `/invite?from=0x..&stake=0.5&note=..` under `origin`
+ */
+export const buildInviteUrl = (origin: string, { creator, stake, note }: BondInvite) => {
+  const url = new URL(INVITE_PATH, origin);
+  url.searchParams.set("from", getAddress(creator));
+  if (stake !== undefined && stake > 0n) url.searchParams.set("stake", formatEther(stake));
+  const trimmedNote = note.trim().slice(0, MAX_INVITE_NOTE_LENGTH);
+  if (trimmedNote) url.searchParams.set("note", trimmedNote);
+  return url.toString();
+};
+
+/**
+ * Reads an invite back from the link's query string. Returns undefined when `from` is missing or not an address;
+ * an unparseable stake is dropped rather than rejecting the whole invite.
+ */
+export const parseInvite = (params: URLSearchParams): BondInvite | undefined => {
+  const from = params.get("from");
+  if (!from || !isAddress(from)) return undefined;
+
+  let stake: bigint | undefined;
+  try {
+    const value = parseEther(params.get("stake") ?? "");
+    stake = value > 0n ? value : undefined;
+  } catch {
+    stake = undefined;
+  }
+  return {
+    creator: getAddress(from),
+    stake,
+    note: (params.get("note") ?? "").slice(0, MAX_INVITE_NOTE_LENGTH),
+  };
+};
@@ -0,0 +1,69 @@
+import { Hex } from "viem";
+
+export type BondEventType = "created" | "stakeAdded" | "exited" | "defected";
+
+/**
+ * The TrustContract bond lifecycle events, reduced to what the protocol aggregates need
+ */
+export type BondEvent = {
+  type: BondEventType;
+  contractKey: Hex;
+  // Stake for `created`/`stakeAdded`, payout for `exited`/`defected`
+  amount: bigint;
+  blockNumber: bigint;
+  logIndex: number;
+};
+
+export type ProtocolStats = {
+  // Sum of the stakes of active bonds, accrued yield is not emitted and therefore not included
+  totalValueLocked: bigint;
+  activeBonds: number;
+  exitedBonds: number;
+  defectedBonds: number;
+  // Share of bonds that are still active or ended with a fair exit, undefined before the first bond
+  cooperationRate?: number;
+};
+
+/**
+ * Replays `ContractCreated`, `StakeAdded`, `ContractExited` and `ContractDefected` in chain order.
+ * A pair that re-bonds after exiting reuses its key, so `ContractCreated` resets the bond's stake.
+ */
+export const aggregateBondEvents = (events: readonly BondEvent[]): ProtocolStats => {
+  const sorted = [...events].sort((a, b) =>
+    a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1,
+  );
+
+  const stakes = new Map<Hex, bigint>();
+  let exitedBonds = 0;
+  let defectedBonds = 0;
+
+  for (const event of sorted) {
+    switch (event.type) {
+      case "created":
+        stakes.set(event.contractKey, event.amount);
+        break;
+      case "stakeAdded":
+        stakes.set(event.contractKey, (stakes.get(event.contractKey) ?? 0n) + event.amount);
+        break;
+      case "exited":
+        stakes.delete(event.contractKey);
+        exitedBonds++;
+        break;
+      case "defected":
+        stakes.delete(event.contractKey);
+        defectedBonds++;
+        break;
+    }
+  }
+
+  const activeBonds = stakes.size;
+  const totalBonds = activeBonds + exitedBonds + defectedBonds;
+
+  return {
+    totalValueLocked: [...stakes.values()].reduce((total, stake) => total + stake, 0n),
+    activeBonds,
+    exitedBonds,
+    defectedBonds,
+    cooperationRate: totalBonds > 0 ? (activeBonds + exitedBonds) / totalBonds : undefined,
+  };
+};
@@ -0,0 +1,326 @@
+/**
+ * Bigint-exact TypeScript port of the protocol math in TrustScore, PenaltyLib and MathUtils.
+ * Every function truncates exactly like the Solidity integer math it mirrors, so the UI, simulators and API routes can
+ * show the numbers the chain will compute. `packages/foundry/test/fixtures/scoreParity.json` holds Solidity outputs for
+ * these functions and `packages/foundry/test/ScoreParity.t.sol` keeps it in sync with the contracts.
+ */
+
+// TrustScore weights and constants
+export const W1 = 40n;
+export const W2 = 30n;
+export const W3 = 30n;
+export const WEIGHT_DENOMINATOR = 100n;
+
+// PenaltyLib rates, in basis points
+export const DEFECT_PENALTY_BPS = 500n;
+export const EXIT_PENALTY_BPS = 100n;
+export const YIELD_RATE_BPS = 100n;
+
+export const BPS_DENOMINATOR = 10_000n;
+export const ONE_DAY = 86_400n;
+export const ONE_YEAR = 365n * ONE_DAY;
+
+const ONE_ETHER = 10n ** 18n;
+
+/**
+ * The economic constants of PenaltyLib, TrustContract and LendingPool that simulations sweep over. Every function that
+ * takes them defaults to {@link PROTOCOL_PARAMETERS}, the deployed values.
+ */
+export type ProtocolParameters = {
+  defectPenaltyBps: bigint;
+  exitPenaltyBps: bigint;
+  yieldRateBps: bigint;
+  maxLtvBps: bigint;
+  // Borrowing capacity granted per trust score point, in wei
+  trustScoreCredit: bigint;
+};
+
+/**
+ * The fields of `TrustContract.getContract(key)` the scoring functions read, as returned by viem
+ */
+export type ScoredBond = {
+  addr0: string;
+  stake0: bigint;
+  stake1: bigint;
+  createdAt: number | bigint;
+  isActive: boolean;
+};
+
+export type ContractScoreComponents = {
+  tvlComponent: bigint;
+  timeComponent: bigint;
+  partnerComponent: bigint;
+  total: bigint;
+};
+
+// Solidity 0.8 reverts instead of wrapping, so do the same rather than silently returning a negative score
+const checkedSub = (a: bigint, b: bigint) => {
+  if (b > a) throw new RangeError(`Arithmetic underflow: ${a} - ${b}`);
+  return a - b;
+};
+
+const checkedDiv = (a: bigint, b: bigint) => {
+  if (b === 0n) throw new RangeError("Division by zero");
+  return a / b;
+};
+
+const daysSince = (createdAt: number | bigint, now: bigint) => checkedSub(now, BigInt(createdAt)) / ONE_DAY;
+
+/**
+ * Babylonian integer square root, `MathUtils.sqrt`. Rounds down.
+ */
+export const sqrt = (x: bigint): bigint => {
+  if (x < 0n) throw new RangeError("Square root of a negative number");
+  if (x === 0n) return 0n;
+  let y = x;
+  let z = (x + 1n) >> 1n;
+  while (z < y) {
+    y = z;
+    z = (x / z + z) >> 1n;
+  }
+  return z;
+};
+
+/**
+ * `TrustScore._lnApprox`: (x - 1) * 100 / (100 + x - 1), a bounded stand-in for ln(x)
+ */
+export const lnApprox = (x: bigint): bigint => {
+  if (x <= 1n) return 0n;
+  const y = x - 1n;
+  return (y * 100n) / (100n + y);
+};
+
+/**
+ * `TrustScore.getUserTrustScore` (and the identical `calculateUserTrustScore`): 100 points per bond key plus
+ * sqrt(days) for every active bond.
+ * @param bonds - one entry per key returned by `getUserContracts(user)`. Keys repeat when a pair re-bonds after an
+ * exit and inactive bonds stay listed; both still earn the 100 base points, exactly as on-chain
+ * @param now - block timestamp in seconds
+ */
+export const getUserTrustScore = (bonds: readonly Pick<ScoredBond, "createdAt" | "isActive">[], now: bigint) => {
+  if (bonds.length === 0) return 0n;
+
+  const baseScore = BigInt(bonds.length) * 100n;
+  const timeBonus = bonds
+    .filter(bond => bond.isActive)
+    .reduce((total, bond) => total + sqrt(daysSince(bond.createdAt, now)), 0n);
+
+  return baseScore + timeBonus;
+};
+
+/**
+ * `TrustScore.calculateContractScore`: sqrt(TVL in whole ETH) * 10 + sqrt(days + 1) * 5, or 0 for inactive bonds
+ */
+export const calculateContractScore = (bond: Omit<ScoredBond, "addr0">, now: bigint) => {
+  if (!bond.isActive) return 0n;
+
+  const tvl = bond.stake0 + bond.stake1;
+  const timeDays = daysSince(bond.createdAt, now);
+  return sqrt(tvl / ONE_ETHER) * 10n + sqrt(timeDays + 1n) * 5n;
+};
+
+/**
+ * `TrustScore._calculateContractScoreInternal` (Equation 2), split into its weighted components:
+ * w1 * ln(1 + X + Y) + w2 * sqrt(t + 1) + w3 * (T_partner / 100 * Y / (X + Y))
+ * @param user - the bond participant the score is for, X is their stake and Y their partner's
+ * @param partnerTrust - `calculateUserTrustScore(partner)`, see {@link getUserTrustScore}
+ */
+export const calculateContractScoreComponents = (
+  bond: ScoredBond,
+  user: string,
+  partnerTrust: bigint,
+  now: bigint,
+): ContractScoreComponents => {
+  if (!bond.isActive) return { tvlComponent: 0n, timeComponent: 0n, partnerComponent: 0n, total: 0n };
+
+  const tvl = bond.stake0 + bond.stake1;
+  const timeDays = daysSince(bond.createdAt, now);
+  const userStake = bond.addr0.toLowerCase() === user.toLowerCase() ? bond.stake0 : bond.stake1;
+  const partnerStake = checkedSub(tvl, userStake);
+
+  const tvlComponent = (W1 * lnApprox(1n + tvl)) / WEIGHT_DENOMINATOR;
+  const timeComponent = (W2 * sqrt(timeDays + 1n)) / WEIGHT_DENOMINATOR;
+  const partnerComponent = checkedDiv(W3 * (partnerTrust * partnerStake), 100n * tvl * WEIGHT_DENOMINATOR);
+
+  return { tvlComponent, timeComponent, partnerComponent, total: tvlComponent + timeComponent + partnerComponent };
+};
+
+/**
+ * `TrustScore.applyDefectPenalty`: 10% of the contract score is added to the user's penalty offset
+ */
+export const defectScorePenalty = (contractScore: bigint) => contractScore / 10n;
+
+/**
+ * `TrustScore.applyExitPenalty`: 5% of the contract score is added to the user's penalty offset
+ */
+export const exitScorePenalty = (contractScore: bigint) => contractScore / 20n;
+
+/**
+ * `PenaltyLib.defectPenalty` (Equation 5, simplified): 5% of the amount taken plus the bond score
+ */
+export const defectPenalty = (tBond: bigint, totalAmount: bigint) =>
+  (totalAmount * DEFECT_PENALTY_BPS) / BPS_DENOMINATOR + tBond;
+
+/**
+ * `PenaltyLib.exitPenalty` (Equation 6, simplified): 1% of stake plus yield. `tBond` is unused on-chain as well.
+ */
+export const exitPenalty = (tBond: bigint, totalStake: bigint, totalYield: bigint) =>
+  ((totalStake + totalYield) * EXIT_PENALTY_BPS) / BPS_DENOMINATOR;
+
+/**
+ * `PenaltyLib.calculateYield`: 1% APR simple interest on `tvl` over `timeElapsed` seconds
+ */
+export const calculateYield = (tvl: bigint, timeElapsed: bigint, params = PROTOCOL_PARAMETERS) =>
+  (tvl * timeElapsed * params.yieldRateBps) / (ONE_YEAR * BPS_DENOMINATOR);
+
+/**
+ * `PenaltyLib.defectTrustPenalty`: bond score plus sqrt(TVL)
+ */
+export const defectTrustPenalty = (tBond: bigint, tvl: bigint) => tBond + sqrt(tvl);
+
+/**
+ * `PenaltyLib.exitTrustPenalty`: half of sqrt(TVL)
+ */
+export const exitTrustPenalty = (tBond: bigint, tvl: bigint) => sqrt(tvl) / 2n;
+
+/**
+ * A full `TrustContract.getContract(key)` view, as needed to settle a bond
+ */
+export type SettledBond = ScoredBond & {
+  addr1: string;
+  accruedYield: bigint;
+  lastYieldUpdate: number | bigint;
+};
+
+export type BondSettlement = {
+  userReceives: bigint;
+  partnerReceives: bigint;
+  penalty: bigint;
+  // Bond yield after the accrual that `exit` and `defect` run first
+  totalYield: bigint;
+};
+
+/**
+ * `TrustContract._getProjectedYield`: yield accrued since `lastYieldUpdate` that is not stored yet.
+ * `getUserTotalValue` counts half of it and ignores the stored `accruedYield`.
+ */
+export const getProjectedYield = (
+  bond: Omit<SettledBond, "addr0" | "addr1">,
+  now: bigint,
+  params = PROTOCOL_PARAMETERS,
+) => {
+  if (!bond.isActive) return 0n;
+  return calculateYield(bond.stake0 + bond.stake1, checkedSub(now, BigInt(bond.lastYieldUpdate)), params);
+};
+
+/**
+ * Stored yield after `TrustContract._updateContractYield` runs at `now`
+ */
+export const accrueYield = (bond: Omit<SettledBond, "addr0" | "addr1">, now: bigint, params = PROTOCOL_PARAMETERS) =>
+  bond.accruedYield + getProjectedYield(bond, now, params);
+
+/**
+ * `TrustContract.exit`: the user takes their stake plus their pro-rata share of the yield minus 1%, the partner
+ * receives the rest without penalty
+ */
+export const settleExit = (
+  bond: SettledBond,
+  user: string,
+  now: bigint,
+  params = PROTOCOL_PARAMETERS,
+): BondSettlement => {
+  const totalYield = accrueYield(bond, now, params);
+  const totalStake = bond.stake0 + bond.stake1;
+  const userStake = bond.addr0.toLowerCase() === user.toLowerCase() ? bond.stake0 : bond.stake1;
+  const userYield = checkedDiv(totalYield * userStake, totalStake);
+  const totalWithdrawal = userStake + userYield;
+  const penalty = (totalWithdrawal * params.exitPenaltyBps) / BPS_DENOMINATOR;
+
+  return {
+    userReceives: totalWithdrawal > penalty ? totalWithdrawal - penalty : 0n,
+    partnerReceives: totalStake + totalYield - totalWithdrawal,
+    penalty,
+    totalYield,
+  };
+};
+
+/**
+ * `TrustContract.defect`: the user takes both stakes and all yield minus 5%, the partner receives nothing
+ */
+export const settleDefect = (
+  bond: Omit<SettledBond, "addr0" | "addr1">,
+  now: bigint,
+  params = PROTOCOL_PARAMETERS,
+): BondSettlement => {
+  const totalYield = accrueYield(bond, now, params);
+  const totalAmount = bond.stake0 + bond.stake1 + totalYield;
+  const penalty = (totalAmount * params.defectPenaltyBps) / BPS_DENOMINATOR;
+
+  return {
+    userReceives: totalAmount > penalty ? totalAmount - penalty : 0n,
+    partnerReceives: 0n,
+    penalty,
+    totalYield,
+  };
+};
+
+/**
+ * `TrustContract.getUserTotalValue`: own stake plus half the projected yield of every active bond
+ * @param bonds - one entry per key returned by `getUserContracts(user)`, duplicates included as on-chain
+ */
+export const getUserTotalValue = (
+  bonds: readonly Omit<SettledBond, "addr1">[],
+  user: string,
+  now: bigint,
+  params = PROTOCOL_PARAMETERS,
+) =>
+  bonds
+    .filter(bond => bond.isActive)
+    .reduce((total, bond) => {
+      const userStake = bond.addr0.toLowerCase() === user.toLowerCase() ? bond.stake0 : bond.stake1;
+      return total + userStake + getProjectedYield(bond, now, params) / 2n;
+    }, 0n);
+
+// LendingPool constants
+export const MAX_LTV_BPS = 8_000n;
+export const BASE_INTEREST_RATE_BPS = 500n;
+export const MIN_INTEREST_RATE_BPS = 100n;
+// Borrowing capacity granted per trust score point, in wei
+export const TRUST_SCORE_CREDIT = 10n ** 16n;
+
+export const PROTOCOL_PARAMETERS: ProtocolParameters = {
+  defectPenaltyBps: DEFECT_PENALTY_BPS,
+  exitPenaltyBps: EXIT_PENALTY_BPS,
+  yieldRateBps: YIELD_RATE_BPS,
+  maxLtvBps: MAX_LTV_BPS,
+  trustScoreCredit: TRUST_SCORE_CREDIT,
+};
+
+export type BorrowLimitComponents = {
+  trustContribution: bigint;
+  collateralContribution: bigint;
+  total: bigint;
+};
+
+/**
+ * `LendingPool.getMaxBorrowableAmount`: 0.01 ETH per trust score point plus 80% of `TrustContract.getUserTotalValue`
+ */
+export const getBorrowLimitComponents = (
+  trustScore: bigint,
+  totalValue: bigint,
+  params = PROTOCOL_PARAMETERS,
+): BorrowLimitComponents => {
+  const trustContribution = trustScore * params.trustScoreCredit;
+  const collateralContribution = (totalValue * params.maxLtvBps) / BPS_DENOMINATOR;
+  return { trustContribution, collateralContribution, total: trustContribution + collateralContribution };
+};
+
+/**
+ * `LendingPool._calculateInterestRate`: 5% APR minus 1 bps per 100 trust score points. It is not floored at 1%: scores
+ * of 40,100 to 49,999 pay 99 down to 1 bps, and only a discount of 500 bps or more (a score of 50,000 and up) falls back
+ * to `MIN_INTEREST_RATE_BPS`.
+ */
+export const getInterestRate = (trustScore: bigint) => {
+  const discount = trustScore / 100n;
+  return BASE_INTEREST_RATE_BPS > discount ? BASE_INTEREST_RATE_BPS - discount : MIN_INTEREST_RATE_BPS;
+};
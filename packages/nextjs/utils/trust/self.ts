@@ -0,0 +1,79 @@
+import { Address, Hash, Hex, getAddress, toHex } from "viem";
+
+export const SELF_APP_NAME = "Trust Protocol";
+export const SELF_SCOPE = process.env.NEXT_PUBLIC_SELF_SCOPE || "trust-protocol-v1";
+export const SELF_ENDPOINT = process.env.NEXT_PUBLIC_SELF_ENDPOINT || "";
+
+export const SELF_DOCUMENT_TYPES = ["passport", "eu_id_card", "aadhaar"] as const;
+
+export type SelfDocumentType = (typeof SELF_DOCUMENT_TYPES)[number];
+
+// Self attestation id of each document type
+export const SELF_DOCUMENT_ATTESTATION_IDS = {
+  passport: 1,
+  eu_id_card: 2,
+  aadhaar: 3,
+} as const satisfies Record<SelfDocumentType, number>;
+
+/**
+ * Disclosure rules the backend enforces. Served by `GET /api/verify-self` so the QR code requests exactly the same
+ * disclosures, otherwise `SelfBackendVerifier.verify` rejects the proof with a config mismatch.
+ */
+export type SelfDisclosurePolicy = {
+  version: string;
+  // Short content hash, changes whenever any rule changes even if `version` was not bumped
+  hash: string;
+  minimumAge: number;
+  // ISO 3166-1 alpha-3 codes
+  excludedCountries: string[];
+  ofac: boolean;
+  acceptedDocuments: SelfDocumentType[];
+};
+
+export type SelfDisclosureRule = "minimumAge" | "excludedCountries" | "ofac" | "acceptedDocuments";
+
+export type SelfVerificationData = {
+  walletAddress: Address;
+  nullifier: Hex;
+  verificationTime: number;
+  // Set when the server relayer submitted (or found) the verifySelfProof binding
+  boundOnChain: boolean;
+  txHash?: Hash;
+  disclosedAttributes: {
+    minimumAge?: string;
+    nationality?: string;
+  };
+};
+
+/**
+ * Response of `GET /api/verify-self?walletAddress=…`, polled by the frontend while the user scans the QR code.
+ * Anyone can poll it, so it carries neither the nullifier nor the disclosed attributes.
+ */
+export type SelfVerificationStatus =
+  | { status: "pending" }
+  | { status: "verified"; boundOnChain: boolean; txHash?: Hash };
+
+/**
+ * Response of `GET /api/verify-self?walletAddress=…&issuedAt=…&signature=…`, the full verification for its wallet
+ */
+export type SelfVerificationRecord = { status: "verified"; data: SelfVerificationData };
+
+// Signed verification reads expire after this many seconds, and may be at most a minute ahead of the server clock
+export const SELF_READ_MAX_AGE = 600;
+export const SELF_READ_MAX_CLOCK_SKEW = 60;
+
+/**
+ * The EIP-191 message a wallet signs to read its own verification, needed to submit the nullifier from the wallet
+ */
+export const buildSelfVerificationReadMessage = (walletAddress: Address, issuedAt: number) =>
+  [
+    "LENDING_W3.0 Self verification",
+    "Action: read",
+    `Wallet: ${getAddress(walletAddress)}`,
+    `Issued at: ${issuedAt}`,
+  ].join("\n");
+
+/**
+ * Self returns the nullifier as a decimal field element; TrustContract stores it as bytes32.
+ */
+export const nullifierToBytes32 = (nullifier: string): Hex => toHex(BigInt(nullifier), { size: 32 });
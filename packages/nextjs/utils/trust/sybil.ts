@@ -0,0 +1,347 @@
+import type { LoanRow } from "@se-2/indexer/schema";
+import { Address, formatEther, getAddress, parseEther } from "viem";
+import { GraphEdge, TrustGraph } from "~~/utils/trust/graph";
+import { BorrowLimitComponents, ONE_DAY, getBorrowLimitComponents } from "~~/utils/trust/score";
+
+export type RiskFlagKind = "dense_clique" | "low_stake_ring" | "bond_burst" | "trust_reliant";
+
+export type RiskFlag = {
+  kind: RiskFlagKind;
+  detail: string;
+};
+
+export type RiskLevel = "low" | "medium" | "high";
+
+export type AddressRisk = {
+  address: Address;
+  flags: RiskFlag[];
+  // One flag kind is low, two medium, three or more high
+  level: RiskLevel;
+  trustScore: bigint;
+  // `getMaxBorrowableAmount` with the own active stake as collateral, see {@link analyzeSybilRisk}
+  borrowLimit: BorrowLimitComponents;
+  // Share of the borrow limit that comes from `trustContribution`, 0 to 1
+  trustShare: number;
+  activeLoanPrincipal: bigint;
+};
+
+export type BondClique = {
+  members: Address[];
+  // Share of the members' bonded pairs that stay inside the clique, 1 for a closed ring of wallets
+  internalShare: number;
+  totalStake: bigint;
+};
+
+export type LowStakeRing = {
+  members: Address[];
+  bondIds: number[];
+  totalStake: bigint;
+};
+
+export type BondBurst = {
+  address: Address;
+  bondIds: number[];
+  startTimestamp: number;
+  endTimestamp: number;
+};
+
+export type SybilReport = {
+  cliques: BondClique[];
+  rings: LowStakeRing[];
+  bursts: BondBurst[];
+  // Flagged addresses only, riskiest and largest borrow limit first
+  addresses: AddressRisk[];
+};
+
+export type SybilOptions = {
+  // Smallest clique reported: triangles are common between real friends, four mutually bonded wallets much less so
+  minCliqueSize: number;
+  // Bonds at or below this total stake count as minimal. Each side of any bond gains 100 points, 1 ETH of credit.
+  lowStakeThreshold: bigint;
+  // `burstSize` bonds of one address created within `burstWindow` seconds
+  burstSize: number;
+  burstWindow: number;
+  // Borrowers whose limit is at least this share `trustContribution`
+  trustShareThreshold: number;
+};
+
+export const DEFAULT_SYBIL_OPTIONS: SybilOptions = {
+  minCliqueSize: 4,
+  lowStakeThreshold: parseEther("0.05"),
+  burstSize: 3,
+  burstWindow: Number(ONE_DAY),
+  trustShareThreshold: 0.8,
+};
+
+const RISK_LEVELS: RiskLevel[] = ["low", "medium", "high"];
+
+const pairKey = (a: Address, b: Address) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+
+const formatEth = (value: bigint) => parseFloat(parseFloat(formatEther(value)).toFixed(4)).toString();
+
+// Closed bonds stay in `getUserContracts` and keep their 100 points, so every indexed bond is part of the structure
+const buildAdjacency = (edges: readonly GraphEdge[]) => {
+  const adjacency = new Map<Address, Set<Address>>();
+  for (const edge of edges) {
+    if (!adjacency.has(edge.creator)) adjacency.set(edge.creator, new Set());
+    if (!adjacency.has(edge.partner)) adjacency.set(edge.partner, new Set());
+    adjacency.get(edge.creator)!.add(edge.partner);
+    adjacency.get(edge.partner)!.add(edge.creator);
+  }
+  return adjacency;
+};
+
+/**
+ * Maximal cliques with at least `minSize` members, Bron-Kerbosch with pivoting
+ */
+export const findCliques = (adjacency: Map<Address, Set<Address>>, minSize: number): Address[][] => {
+  const cliques: Address[][] = [];
+  const expand = (clique: Address[], candidates: Set<Address>, excluded: Set<Address>) => {
+    if (candidates.size === 0 && excluded.size === 0) {
+      if (clique.length >= minSize) cliques.push([...clique].sort());
+      return;
+    }
+    // Not enough candidates left to reach `minSize`
+    if (clique.length + candidates.size < minSize) return;
+
+    const pivot = [...candidates, ...excluded].reduce((best, address) =>
+      adjacency.get(address)!.size > adjacency.get(best)!.size ? address : best,
+    );
+    for (const address of [...candidates].filter(candidate => !adjacency.get(pivot)!.has(candidate))) {
+      const neighbours = adjacency.get(address)!;
+      expand(
+        [...clique, address],
+        new Set([...candidates].filter(candidate => neighbours.has(candidate))),
+        new Set([...excluded].filter(candidate => neighbours.has(candidate))),
+      );
+      candidates.delete(address);
+      excluded.add(address);
+    }
+  };
+
+  expand([], new Set(adjacency.keys()), new Set());
+  return cliques;
+};
+
+/**
+ * Groups of addresses connected by cycles of bonds, the 2-edge-connected components with three or more members.
+ * Bridges are found with Tarjan's low-link DFS, what remains once they are removed is a union of cycles.
+ */
+export const findRings = (adjacency: Map<Address, Set<Address>>): Address[][] => {
+  const order = new Map<Address, number>();
+  const low = new Map<Address, number>();
+  const bridges = new Set<string>();
+  let counter = 0;
+
+  for (const root of adjacency.keys()) {
+    if (order.has(root)) continue;
+    // Iterative DFS, long chains of bonds would overflow the call stack
+    const stack: { address: Address; parent?: Address; neighbours: Address[] }[] = [];
+    const visit = (address: Address, parent?: Address) => {
+      order.set(address, counter);
+      low.set(address, counter++);
+      stack.push({ address, parent, neighbours: [...adjacency.get(address)!] });
+    };
+    visit(root);
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const next = frame.neighbours.pop();
+      if (next === undefined) {
+        stack.pop();
+        if (frame.parent !== undefined) {
+          low.set(frame.parent, Math.min(low.get(frame.parent)!, low.get(frame.address)!));
+          if (low.get(frame.address)! > order.get(frame.parent)!) bridges.add(pairKey(frame.parent, frame.address));
+        }
+      } else if (!order.has(next)) {
+        visit(next, frame.address);
+      } else if (next !== frame.parent) {
+        low.set(frame.address, Math.min(low.get(frame.address)!, order.get(next)!));
+      }
+    }
+  }
+
+  const seen = new Set<Address>();
+  const rings: Address[][] = [];
+  for (const start of adjacency.keys()) {
+    if (seen.has(start)) continue;
+    const component: Address[] = [];
+    const queue = [start];
+    seen.add(start);
+    while (queue.length > 0) {
+      const address = queue.shift()!;
+      component.push(address);
+      for (const neighbour of adjacency.get(address)!) {
+        if (seen.has(neighbour) || bridges.has(pairKey(address, neighbour))) continue;
+        seen.add(neighbour);
+        queue.push(neighbour);
+      }
+    }
+    if (component.length >= 3) rings.push(component.sort());
+  }
+  return rings;
+};
+
+/**
+ * Runs of at least `size` bonds of one address created within `window` seconds of the run's first bond
+ */
+export const findBursts = (edges: readonly GraphEdge[], size: number, window: number): BondBurst[] => {
+  const byAddress = new Map<Address, GraphEdge[]>();
+  for (const edge of edges) {
+    for (const address of [edge.creator, edge.partner]) {
+      if (!byAddress.has(address)) byAddress.set(address, []);
+      byAddress.get(address)!.push(edge);
+    }
+  }
+
+  const bursts: BondBurst[] = [];
+  for (const [address, bonds] of byAddress) {
+    bonds.sort((a, b) => a.createdTimestamp - b.createdTimestamp || a.id - b.id);
+    let start = 0;
+    while (start < bonds.length) {
+      let end = start;
+      while (end + 1 < bonds.length && bonds[end + 1].createdTimestamp - bonds[start].createdTimestamp <= window) end++;
+      if (end - start + 1 >= size) {
+        bursts.push({
+          address,
+          bondIds: bonds.slice(start, end + 1).map(bond => bond.id),
+          startTimestamp: bonds[start].createdTimestamp,
+          endTimestamp: bonds[end].createdTimestamp,
+        });
+        start = end + 1;
+      } else {
+        start++;
+      }
+    }
+  }
+  return bursts;
+};
+
+/**
+ * Sybil and collusion heuristics over the bond graph. `getUserTrustScore` grants 100 points per bond whoever the
+ * partner is, so a ring of fresh wallets bonding dust with each other raises everyone's `getMaxBorrowableAmount`.
+ *
+ * Flags are leads for a lender's review, not proof: real friend groups form cliques too. Collateral is the own stake
+ * of active bonds; `getUserTotalValue` also counts half the projected yield, left out here as it only moves the limit
+ * by a fraction of the stake.
+ * @param loans - indexed loans, to tell borrowers apart and show their outstanding principal
+ */
+export const analyzeSybilRisk = (
+  graph: TrustGraph,
+  loans: readonly LoanRow[],
+  options: Partial<SybilOptions> = {},
+): SybilReport => {
+  const { minCliqueSize, lowStakeThreshold, burstSize, burstWindow, trustShareThreshold } = {
+    ...DEFAULT_SYBIL_OPTIONS,
+    ...options,
+  };
+  const flags = new Map<Address, RiskFlag[]>();
+  const flag = (address: Address, kind: RiskFlagKind, detail: string) => {
+    if (!flags.has(address)) flags.set(address, []);
+    flags.get(address)!.push({ kind, detail });
+  };
+
+  const adjacency = buildAdjacency(graph.edges);
+  const stakeByPair = new Map<string, bigint>();
+  for (const edge of graph.edges) {
+    const key = pairKey(edge.creator, edge.partner);
+    stakeByPair.set(key, (stakeByPair.get(key) ?? 0n) + edge.stake);
+  }
+
+  const cliques = findCliques(adjacency, minCliqueSize).map((members): BondClique => {
+    const inside = new Set(members);
+    let internal = 0;
+    let total = 0;
+    let totalStake = 0n;
+    for (const member of members) {
+      for (const neighbour of adjacency.get(member)!) {
+        total++;
+        if (inside.has(neighbour)) {
+          internal++;
+          // Each internal pair is seen from both ends
+          if (member < neighbour) totalStake += stakeByPair.get(pairKey(member, neighbour))!;
+        }
+      }
+    }
+    return { members, internalShare: internal / total, totalStake };
+  });
+  for (const clique of cliques) {
+    for (const member of clique.members) {
+      flag(
+        member,
+        "dense_clique",
+        `${clique.members.length} wallets all bonded to each other, ${Math.round(clique.internalShare * 100)}% of their pairs inside`,
+      );
+    }
+  }
+
+  const lowStakeEdges = graph.edges.filter(edge => edge.stake <= lowStakeThreshold);
+  const rings = findRings(buildAdjacency(lowStakeEdges)).map((members): LowStakeRing => {
+    const inside = new Set(members);
+    const bonds = lowStakeEdges.filter(edge => inside.has(edge.creator) && inside.has(edge.partner));
+    return {
+      members,
+      bondIds: bonds.map(edge => edge.id),
+      totalStake: bonds.reduce((sum, edge) => sum + edge.stake, 0n),
+    };
+  });
+  for (const ring of rings) {
+    for (const member of ring.members) {
+      flag(
+        member,
+        "low_stake_ring",
+        `cycle of ${ring.bondIds.length} bonds at or below ${formatEth(lowStakeThreshold)} ETH across ${ring.members.length} wallets`,
+      );
+    }
+  }
+
+  const bursts = findBursts(graph.edges, burstSize, burstWindow);
+  for (const burst of bursts) {
+    const hours = Math.max(1, Math.ceil((burst.endTimestamp - burst.startTimestamp) / 3600));
+    flag(burst.address, "bond_burst", `${burst.bondIds.length} bonds within ${hours}h`);
+  }
+
+  const borrowers = new Map<Address, bigint>();
+  for (const loan of loans) {
+    const borrower = getAddress(loan.borrower);
+    borrowers.set(borrower, (borrowers.get(borrower) ?? 0n) + (loan.status === "active" ? BigInt(loan.amount) : 0n));
+  }
+
+  const risks = graph.nodes.map((node): AddressRisk => {
+    const borrowLimit = getBorrowLimitComponents(node.trustScore, node.activeStake);
+    const trustShare =
+      borrowLimit.total > 0n ? Number((borrowLimit.trustContribution * 10_000n) / borrowLimit.total) / 10_000 : 0;
+    const activeLoanPrincipal = borrowers.get(node.address) ?? 0n;
+    if (borrowers.has(node.address) && trustShare >= trustShareThreshold) {
+      flag(
+        node.address,
+        "trust_reliant",
+        `${Math.round(trustShare * 100)}% of a ${formatEth(borrowLimit.total)} ETH limit from trust score, ${formatEth(activeLoanPrincipal)} ETH borrowed`,
+      );
+    }
+    const addressFlags = flags.get(node.address) ?? [];
+    const kinds = new Set(addressFlags.map(({ kind }) => kind)).size;
+    return {
+      address: node.address,
+      flags: addressFlags,
+      level: RISK_LEVELS[Math.min(kinds, RISK_LEVELS.length) - 1] ?? "low",
+      trustScore: node.trustScore,
+      borrowLimit,
+      trustShare,
+      activeLoanPrincipal,
+    };
+  });
+
+  return {
+    cliques,
+    rings,
+    bursts,
+    addresses: risks
+      .filter(risk => risk.flags.length > 0)
+      .sort(
+        (a, b) =>
+          RISK_LEVELS.indexOf(b.level) - RISK_LEVELS.indexOf(a.level) ||
+          (b.borrowLimit.total > a.borrowLimit.total ? 1 : b.borrowLimit.total < a.borrowLimit.total ? -1 : 0),
+      ),
+  };
+};
@@ -0,0 +1,133 @@
+import { Address } from "viem";
+
+const ONE_DAY = 86_400;
+
+export type WatchedLoan = {
+  id: bigint;
+  amount: bigint;
+  startTime: bigint;
+  duration: bigint;
+};
+
+// A bond the partner closed with a third party, from the indexer
+export type PartnerClosure = {
+  bondId: number;
+  status: "exited" | "defected";
+  counterparty: Address;
+  closedTimestamp: number;
+  // Wei the partner took out, a decimal string as indexed
+  payout: string | null;
+};
+
+/**
+ * What one bond partner of the watching wallet is up to
+ */
+export type PartnerWatch = {
+  partner: Address;
+  userStake: bigint;
+  partnerStake: bigint;
+  isFrozen: boolean;
+  trustScore?: bigint;
+  isVerified?: boolean;
+  // The partner's active loan, `getUserLoan` returns 0 without one
+  loan?: WatchedLoan;
+  closures: PartnerClosure[];
+};
+
+export type WatchAlertKind = "partner_loan" | "partner_loan_due" | "partner_loan_overdue" | "partner_closure";
+export type WatchAlertSeverity = "info" | "warning" | "error";
+
+export type WatchAlert = {
+  // Stable per event, to tell alerts already seen from new ones
+  key: string;
+  kind: WatchAlertKind;
+  severity: WatchAlertSeverity;
+  partner: Address;
+  message: string;
+  timestamp: number;
+};
+
+export type WatchlistOptions = {
+  // A partner's loan this close to its due date counts as nearing default
+  nearDueSeconds: number;
+  // Closures older than this are history, not news
+  closureWindowSeconds: number;
+};
+
+export const DEFAULT_WATCHLIST_OPTIONS: WatchlistOptions = {
+  nearDueSeconds: 3 * ONE_DAY,
+  closureWindowSeconds: 30 * ONE_DAY,
+};
+
+const SEVERITY_ORDER: Record<WatchAlertSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Seconds left until `loan` can be liquidated, negative once it is overdue
+ */
+export const getSecondsToDue = (loan: WatchedLoan, now: bigint) => Number(loan.startTime + loan.duration - now);
+
+/**
+ * Alerts over the watched partners at `now`: an active loan freezes the shared bond, one nearing or past its due date
+ * may be liquidated, and a partner that exits or defects on someone else may do the same on this bond.
+ * Most severe first, then newest.
+ */
+export const getWatchAlerts = (
+  entries: readonly PartnerWatch[],
+  now: bigint,
+  options: WatchlistOptions = DEFAULT_WATCHLIST_OPTIONS,
+): WatchAlert[] => {
+  const alerts = entries.flatMap(({ partner, loan, closures }): WatchAlert[] => {
+    const loanAlerts: WatchAlert[] = [];
+    if (loan) {
+      const secondsToDue = getSecondsToDue(loan, now);
+      const dueTimestamp = Number(loan.startTime + loan.duration);
+      loanAlerts.push({
+        key: `loan:${loan.id}`,
+        kind: "partner_loan",
+        severity: "info",
+        partner,
+        message: `LOAN_#${loan.id} IS_ACTIVE, YOUR_SHARED_BOND_IS_FROZEN_UNTIL_REPAID`,
+        timestamp: Number(loan.startTime),
+      });
+      if (secondsToDue < 0) {
+        loanAlerts.push({
+          key: `loan:${loan.id}:overdue`,
+          kind: "partner_loan_overdue",
+          severity: "error",
+          partner,
+          message: `LOAN_#${loan.id} IS_OVERDUE AND_CAN_BE_LIQUIDATED, LIQUIDATION_WOULD_PAY_OUT_AND_RESET_THE_SHARED_BOND_YIELD`,
+          timestamp: dueTimestamp,
+        });
+      } else if (secondsToDue <= options.nearDueSeconds) {
+        loanAlerts.push({
+          key: `loan:${loan.id}:due`,
+          kind: "partner_loan_due",
+          severity: "warning",
+          partner,
+          message: `LOAN_#${loan.id} IS_DUE_IN_${Math.ceil(secondsToDue / 3_600)}H`,
+          timestamp: dueTimestamp - options.nearDueSeconds,
+        });
+      }
+    }
+
+    const closureAlerts = closures
+      .filter(closure => Number(now) - closure.closedTimestamp <= options.closureWindowSeconds)
+      .map(
+        (closure): WatchAlert => ({
+          key: `bond:${closure.bondId}:${closure.status}`,
+          kind: "partner_closure",
+          severity: closure.status === "defected" ? "error" : "warning",
+          partner,
+          message:
+            closure.status === "defected"
+              ? `DEFECTED_ON_BOND_#${closure.bondId} WITH_ANOTHER_WALLET`
+              : `EXITED_BOND_#${closure.bondId} WITH_ANOTHER_WALLET`,
+          timestamp: closure.closedTimestamp,
+        }),
+      );
+
+    return [...loanAlerts, ...closureAlerts];
+  });
+
+  return alerts.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.timestamp - a.timestamp);
+};